@@ -24,4 +24,7 @@ module.exports = {
   verbose: true,
   setupFilesAfterEnv: ['<rootDir>/test/setup.ts'],
   testTimeout: 10000,
+  // Las suites de integración comparten la base de datos de test y la autenticación
+  // valida usuarios y sesiones contra ella, por lo que deben ejecutarse en serie
+  maxWorkers: 1,
 };
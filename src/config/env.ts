@@ -9,10 +9,59 @@ interface EnvConfig {
   MONGODB_URI: string;
   JWT_SECRET: string;
   JWT_EXPIRES_IN: string;
+  REFRESH_TOKEN_EXPIRES_DAYS: number;
   UPLOAD_PATH: string;
   MAX_FILE_SIZE: number;
+  MAX_PHOTOS_PER_CAR: number;
+  IMAGE_THUMBNAIL_WIDTH: number;
+  IMAGE_MEDIUM_WIDTH: number;
+  IMPORT_MAX_FILE_SIZE: number;
+  IMPORT_MAX_ROWS: number;
+  STORAGE_DRIVER: string;
+  S3_BUCKET: string;
+  S3_REGION: string;
+  S3_ENDPOINT: string;
+  S3_ACCESS_KEY_ID: string;
+  S3_SECRET_ACCESS_KEY: string;
+  S3_FORCE_PATH_STYLE: boolean;
+  S3_PUBLIC_URL: string;
   CORS_ORIGIN: string;
+  FRONTEND_URL: string;
+  MAIL_TRANSPORT: string;
+  MAIL_FROM: string;
+  MAIL_FILE_PATH: string;
+  SMTP_HOST: string;
+  SMTP_PORT: number;
+  SMTP_SECURE: boolean;
+  SMTP_USER: string;
+  SMTP_PASS: string;
+  PASSWORD_RESET_EXPIRES_MINUTES: number;
+  EMAIL_VERIFICATION_EXPIRES_HOURS: number;
+  REQUIRE_VERIFIED_EMAIL_FOR_CARS: boolean;
+  LOGIN_MAX_ATTEMPTS: number;
+  LOGIN_LOCKOUT_MINUTES: number;
+  LOGIN_DELAY_BASE_SECONDS: number;
+  PASSWORD_MIN_LENGTH: number;
+  PASSWORD_MAX_LENGTH: number;
+  PASSWORD_REQUIRE_UPPERCASE: boolean;
+  PASSWORD_REQUIRE_LOWERCASE: boolean;
+  PASSWORD_REQUIRE_NUMBER: boolean;
+  PASSWORD_REQUIRE_SYMBOL: boolean;
+  PASSWORD_REJECT_PERSONAL_INFO: boolean;
+  PASSWORD_REJECT_COMMON: boolean;
+  PASSWORD_BLOCKLIST_FILE: string;
+  TOTP_ISSUER: string;
+  TOTP_ENCRYPTION_KEY: string;
+  TWO_FACTOR_CHALLENGE_EXPIRES_MINUTES: number;
+  REQUIRE_2FA_FOR_ADMINS: boolean;
+  DEFAULT_USER_ROLE: string;
+  DEFAULT_ORGANIZATION_SLUG: string;
+  DEFAULT_ORGANIZATION_NAME: string;
+  API_KEY_DEFAULT_EXPIRES_DAYS: number;
+  API_KEY_MAX_EXPIRES_DAYS: number;
   LOG_LEVEL: string;
+  TRASH_RETENTION_DAYS: number;
+  TRASH_PURGE_INTERVAL_HOURS: number;
 }
 
 const getEnvVar = (key: string, defaultValue?: string): string => {
@@ -29,9 +78,64 @@ export const config: EnvConfig = {
   HOST: getEnvVar('HOST', 'localhost'),
   MONGODB_URI: getEnvVar('MONGODB_URI'),
   JWT_SECRET: getEnvVar('JWT_SECRET'),
-  JWT_EXPIRES_IN: getEnvVar('JWT_EXPIRES_IN', '24h'),
+  JWT_EXPIRES_IN: getEnvVar('JWT_EXPIRES_IN', '15m'),
+  REFRESH_TOKEN_EXPIRES_DAYS: parseInt(getEnvVar('REFRESH_TOKEN_EXPIRES_DAYS', '7'), 10),
   UPLOAD_PATH: getEnvVar('UPLOAD_PATH', './src/uploads'),
   MAX_FILE_SIZE: parseInt(getEnvVar('MAX_FILE_SIZE', '5242880'), 10),
+  MAX_PHOTOS_PER_CAR: parseInt(getEnvVar('MAX_PHOTOS_PER_CAR', '10'), 10),
+  IMAGE_THUMBNAIL_WIDTH: parseInt(getEnvVar('IMAGE_THUMBNAIL_WIDTH', '320'), 10),
+  IMAGE_MEDIUM_WIDTH: parseInt(getEnvVar('IMAGE_MEDIUM_WIDTH', '1024'), 10),
+  IMPORT_MAX_FILE_SIZE: parseInt(getEnvVar('IMPORT_MAX_FILE_SIZE', '2097152'), 10),
+  IMPORT_MAX_ROWS: parseInt(getEnvVar('IMPORT_MAX_ROWS', '1000'), 10),
+  STORAGE_DRIVER: getEnvVar('STORAGE_DRIVER', 'local'),
+  S3_BUCKET: process.env.S3_BUCKET || '',
+  S3_REGION: getEnvVar('S3_REGION', 'us-east-1'),
+  S3_ENDPOINT: process.env.S3_ENDPOINT || '',
+  S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID || '',
+  S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY || '',
+  S3_FORCE_PATH_STYLE: getEnvVar('S3_FORCE_PATH_STYLE', 'false') === 'true',
+  S3_PUBLIC_URL: process.env.S3_PUBLIC_URL || '',
   CORS_ORIGIN: getEnvVar('CORS_ORIGIN', 'http://localhost:4200'),
+  FRONTEND_URL: getEnvVar('FRONTEND_URL', 'http://localhost:4200'),
+  MAIL_TRANSPORT: getEnvVar('MAIL_TRANSPORT', 'console'),
+  MAIL_FROM: getEnvVar('MAIL_FROM', 'Car Inventory <no-reply@carinventory.com>'),
+  MAIL_FILE_PATH: getEnvVar('MAIL_FILE_PATH', './tmp/mail'),
+  SMTP_HOST: getEnvVar('SMTP_HOST', 'localhost'),
+  SMTP_PORT: parseInt(getEnvVar('SMTP_PORT', '587'), 10),
+  SMTP_SECURE: getEnvVar('SMTP_SECURE', 'false') === 'true',
+  SMTP_USER: process.env.SMTP_USER || '',
+  SMTP_PASS: process.env.SMTP_PASS || '',
+  PASSWORD_RESET_EXPIRES_MINUTES: parseInt(getEnvVar('PASSWORD_RESET_EXPIRES_MINUTES', '60'), 10),
+  EMAIL_VERIFICATION_EXPIRES_HOURS: parseInt(
+    getEnvVar('EMAIL_VERIFICATION_EXPIRES_HOURS', '24'),
+    10
+  ),
+  REQUIRE_VERIFIED_EMAIL_FOR_CARS: getEnvVar('REQUIRE_VERIFIED_EMAIL_FOR_CARS', 'true') === 'true',
+  LOGIN_MAX_ATTEMPTS: parseInt(getEnvVar('LOGIN_MAX_ATTEMPTS', '5'), 10),
+  LOGIN_LOCKOUT_MINUTES: parseInt(getEnvVar('LOGIN_LOCKOUT_MINUTES', '15'), 10),
+  LOGIN_DELAY_BASE_SECONDS: parseInt(getEnvVar('LOGIN_DELAY_BASE_SECONDS', '1'), 10),
+  PASSWORD_MIN_LENGTH: parseInt(getEnvVar('PASSWORD_MIN_LENGTH', '8'), 10),
+  PASSWORD_MAX_LENGTH: parseInt(getEnvVar('PASSWORD_MAX_LENGTH', '72'), 10),
+  PASSWORD_REQUIRE_UPPERCASE: getEnvVar('PASSWORD_REQUIRE_UPPERCASE', 'true') === 'true',
+  PASSWORD_REQUIRE_LOWERCASE: getEnvVar('PASSWORD_REQUIRE_LOWERCASE', 'true') === 'true',
+  PASSWORD_REQUIRE_NUMBER: getEnvVar('PASSWORD_REQUIRE_NUMBER', 'true') === 'true',
+  PASSWORD_REQUIRE_SYMBOL: getEnvVar('PASSWORD_REQUIRE_SYMBOL', 'false') === 'true',
+  PASSWORD_REJECT_PERSONAL_INFO: getEnvVar('PASSWORD_REJECT_PERSONAL_INFO', 'true') === 'true',
+  PASSWORD_REJECT_COMMON: getEnvVar('PASSWORD_REJECT_COMMON', 'true') === 'true',
+  PASSWORD_BLOCKLIST_FILE: process.env.PASSWORD_BLOCKLIST_FILE || '',
+  TOTP_ISSUER: getEnvVar('TOTP_ISSUER', 'Car Inventory'),
+  TOTP_ENCRYPTION_KEY: process.env.TOTP_ENCRYPTION_KEY || '',
+  TWO_FACTOR_CHALLENGE_EXPIRES_MINUTES: parseInt(
+    getEnvVar('TWO_FACTOR_CHALLENGE_EXPIRES_MINUTES', '5'),
+    10
+  ),
+  REQUIRE_2FA_FOR_ADMINS: getEnvVar('REQUIRE_2FA_FOR_ADMINS', 'false') === 'true',
+  DEFAULT_USER_ROLE: getEnvVar('DEFAULT_USER_ROLE', 'user'),
+  DEFAULT_ORGANIZATION_SLUG: getEnvVar('DEFAULT_ORGANIZATION_SLUG', 'default'),
+  DEFAULT_ORGANIZATION_NAME: getEnvVar('DEFAULT_ORGANIZATION_NAME', 'Organización principal'),
+  API_KEY_DEFAULT_EXPIRES_DAYS: parseInt(getEnvVar('API_KEY_DEFAULT_EXPIRES_DAYS', '90'), 10),
+  API_KEY_MAX_EXPIRES_DAYS: parseInt(getEnvVar('API_KEY_MAX_EXPIRES_DAYS', '365'), 10),
   LOG_LEVEL: getEnvVar('LOG_LEVEL', 'debug'),
+  TRASH_RETENTION_DAYS: parseInt(getEnvVar('TRASH_RETENTION_DAYS', '30'), 10),
+  TRASH_PURGE_INTERVAL_HOURS: parseInt(getEnvVar('TRASH_PURGE_INTERVAL_HOURS', '24'), 10),
 };
@@ -0,0 +1,72 @@
+/**
+ * Permissions Registry
+ * @module config/permissions
+ * @description Registro de permisos de la aplicación y roles predeterminados
+ */
+
+import { Permission, RoleDefinition } from '../types';
+
+/**
+ * Nombre del rol administrador. Siempre tiene todos los permisos y no se puede modificar
+ */
+export const ADMIN_ROLE = 'admin';
+
+/**
+ * Permisos disponibles con su descripción
+ */
+export const PERMISSIONS: Record<Permission, string> = {
+  'cars:read': 'Consultar autos',
+  'cars:create': 'Publicar autos',
+  'cars:update:own': 'Editar los autos propios',
+  'cars:update:any': 'Editar cualquier auto',
+  'cars:delete': 'Eliminar los autos que puede editar y administrar la papelera',
+  'catalog:manage': 'Administrar el catálogo de marcas y modelos',
+  'users:manage': 'Administrar usuarios, roles y API keys',
+  'organizations:manage':
+    'Administrar organizaciones y sus miembros, y operar en cualquiera de ellas',
+  'audit:read': 'Consultar el registro de auditoría de cambios',
+};
+
+/**
+ * Lista de todos los permisos registrados
+ */
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+/**
+ * Roles del sistema. Se crean al iniciar la aplicación si no existen y no se pueden eliminar;
+ * salvo admin, sus permisos se pueden ajustar desde la API
+ */
+export const DEFAULT_ROLES: RoleDefinition[] = [
+  {
+    name: ADMIN_ROLE,
+    description: 'Administrador con acceso total',
+    permissions: ALL_PERMISSIONS,
+  },
+  {
+    name: 'inventory_manager',
+    description: 'Gestiona todo el inventario y el catálogo',
+    permissions: [
+      'cars:read',
+      'cars:create',
+      'cars:update:own',
+      'cars:update:any',
+      'cars:delete',
+      'catalog:manage',
+    ],
+  },
+  {
+    name: 'salesperson',
+    description: 'Publica y gestiona sus propios autos',
+    permissions: ['cars:read', 'cars:create', 'cars:update:own', 'cars:delete'],
+  },
+  {
+    name: 'user',
+    description: 'Usuario registrado; publica y gestiona sus propios autos',
+    permissions: ['cars:read', 'cars:create', 'cars:update:own', 'cars:delete'],
+  },
+  {
+    name: 'viewer',
+    description: 'Solo consulta el inventario',
+    permissions: ['cars:read'],
+  },
+];
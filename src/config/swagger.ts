@@ -30,6 +30,21 @@ const swaggerOptions: swaggerJsdoc.Options = {
           scheme: 'bearer',
           bearerFormat: 'JWT',
         },
+        apiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
+        },
+      },
+      parameters: {
+        organizationId: {
+          in: 'header',
+          name: 'X-Organization-Id',
+          required: false,
+          schema: { type: 'string' },
+          description:
+            'Organización en la que se opera. Por defecto, la primera del usuario o la organización por defecto',
+        },
       },
     },
   },
@@ -0,0 +1,162 @@
+/**
+ * API Key Controller
+ * @module controllers/apiKey
+ * @description Controlador para endpoints de administración de API keys
+ */
+
+import { Response } from 'express';
+import apiKeyService from '../services/apiKey.service';
+import { successResponse, errorResponse } from '../utils/responseHandler';
+import { ApiKeyFilters, ApiKeyResponse, AuthRequest, CreateApiKeyDTO } from '../types';
+import { IApiKey } from '../models/ApiKey';
+
+/**
+ * Serializar una API key sin exponer su hash
+ * @param {IApiKey} apiKey - API key a serializar
+ * @returns {ApiKeyResponse} API key serializada
+ */
+const toApiKeyResponse = (apiKey: IApiKey): ApiKeyResponse => ({
+  id: String(apiKey._id),
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  user: String(apiKey.user),
+  createdBy: String(apiKey.createdBy),
+  expiresAt: apiKey.expiresAt.toISOString(),
+  lastUsedAt: apiKey.lastUsedAt ? apiKey.lastUsedAt.toISOString() : null,
+  lastUsedIp: apiKey.lastUsedIp,
+  revokedAt: apiKey.revokedAt ? apiKey.revokedAt.toISOString() : null,
+  createdAt: apiKey.createdAt.toISOString(),
+});
+
+/**
+ * Responder errores de las operaciones sobre API keys
+ * @param {Response} res - Response de Express
+ * @param {unknown} error - Error capturado
+ * @param {string} message - Mensaje en inglés para errores inesperados
+ * @param {string} customMessage - Mensaje en español para errores inesperados
+ * @returns {Response} Respuesta de error
+ */
+const apiKeyErrorResponse = (
+  res: Response,
+  error: unknown,
+  message: string,
+  customMessage: string
+): Response => {
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'Usuario no encontrado':
+      case 'API key no encontrada':
+        return errorResponse(res, 404, 'Not Found', error.message, error.message);
+      case 'Cuenta desactivada':
+      case 'El alcance catalog:write requiere un usuario con el permiso catalog:manage':
+        return errorResponse(res, 400, 'Bad Request', error.message, error.message);
+      case 'La API key ya está revocada':
+        return errorResponse(res, 409, 'Conflict', error.message, error.message);
+    }
+  }
+
+  return errorResponse(res, 500, 'Internal Server Error', message, customMessage);
+};
+
+/**
+ * Controlador de API keys
+ * @class ApiKeyController
+ */
+class ApiKeyController {
+  /**
+   * Emitir una API key
+   * @route POST /api/api-keys
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con la API key y la key en texto plano
+   */
+  async createApiKey(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const data: CreateApiKeyDTO = req.body;
+
+      const { apiKey, key } = await apiKeyService.createKey(data, req.user!.id);
+
+      return successResponse(res, 201, 'API key creada exitosamente', {
+        ...toApiKeyResponse(apiKey),
+        key,
+      });
+    } catch (error) {
+      return apiKeyErrorResponse(res, error, 'Failed to create API key', 'Error al crear API key');
+    }
+  }
+
+  /**
+   * Listar API keys con filtros y paginación
+   * @route GET /api/api-keys
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con API keys paginadas
+   */
+  async listApiKeys(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const filters: ApiKeyFilters = {
+        user: req.query.user as string,
+        active: req.query.active as unknown as boolean | undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : 1,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 10,
+      };
+
+      const result = await apiKeyService.listKeys(filters);
+
+      return successResponse(res, 200, 'API keys obtenidas exitosamente', {
+        ...result,
+        data: result.data.map(toApiKeyResponse),
+      });
+    } catch {
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Failed to fetch API keys',
+        'Error al obtener API keys'
+      );
+    }
+  }
+
+  /**
+   * Obtener API key por ID
+   * @route GET /api/api-keys/:id
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con la API key encontrada
+   */
+  async getApiKeyById(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const apiKey = await apiKeyService.getKeyById(req.params.id);
+
+      return successResponse(res, 200, 'API key obtenida exitosamente', toApiKeyResponse(apiKey));
+    } catch (error) {
+      return apiKeyErrorResponse(res, error, 'Failed to fetch API key', 'Error al obtener API key');
+    }
+  }
+
+  /**
+   * Revocar una API key
+   * @route DELETE /api/api-keys/:id
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con la API key revocada
+   */
+  async revokeApiKey(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const apiKey = await apiKeyService.revokeKey(req.params.id);
+
+      return successResponse(res, 200, 'API key revocada exitosamente', toApiKeyResponse(apiKey));
+    } catch (error) {
+      return apiKeyErrorResponse(
+        res,
+        error,
+        'Failed to revoke API key',
+        'Error al revocar API key'
+      );
+    }
+  }
+}
+
+export default new ApiKeyController();
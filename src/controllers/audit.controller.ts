@@ -0,0 +1,83 @@
+/**
+ * Audit Controller
+ * @module controllers/audit
+ * @description Controlador para la consulta del registro de auditoría
+ */
+
+import { Response } from 'express';
+import auditService from '../services/audit.service';
+import { successResponse, errorResponse } from '../utils/responseHandler';
+import {
+  AuditAction,
+  AuditEntityType,
+  AuditLogFilters,
+  AuditLogResponse,
+  AuthRequest,
+} from '../types';
+import { IAuditLog } from '../models/AuditLog';
+
+/**
+ * Serializar una entrada de auditoría
+ * @param {IAuditLog} log - Entrada de auditoría
+ * @returns {AuditLogResponse} Entrada serializada
+ */
+const toAuditLogResponse = (log: IAuditLog): AuditLogResponse => ({
+  id: String(log._id),
+  action: log.action,
+  entityType: log.entityType,
+  entityId: log.entityId,
+  organization: log.organization ? String(log.organization) : null,
+  actor: log.actor ? String(log.actor) : null,
+  actorEmail: log.actorEmail,
+  apiKey: log.apiKey ? String(log.apiKey) : null,
+  before: log.before,
+  after: log.after,
+  ip: log.ip,
+  requestId: log.requestId,
+  createdAt: log.createdAt.toISOString(),
+});
+
+/**
+ * Controlador del registro de auditoría
+ * @class AuditController
+ */
+class AuditController {
+  /**
+   * Listar entradas de auditoría con filtros y paginación
+   * @route GET /api/audit-logs
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con entradas paginadas
+   */
+  async listAuditLogs(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const filters: AuditLogFilters = {
+        entityType: req.query.entityType as AuditEntityType | undefined,
+        entityId: req.query.entityId as string | undefined,
+        actor: req.query.actor as string | undefined,
+        action: req.query.action as AuditAction | undefined,
+        from: req.query.from as unknown as Date | undefined,
+        to: req.query.to as unknown as Date | undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : 1,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 20,
+      };
+
+      const result = await auditService.listLogs(filters);
+
+      return successResponse(res, 200, 'Registro de auditoría obtenido exitosamente', {
+        ...result,
+        data: result.data.map(toAuditLogResponse),
+      });
+    } catch {
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Failed to fetch audit logs',
+        'Error al obtener el registro de auditoría'
+      );
+    }
+  }
+}
+
+export default new AuditController();
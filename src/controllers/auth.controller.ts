@@ -5,9 +5,134 @@
  */
 
 import { Request, Response } from 'express';
-import authService from '../services/auth.service';
+import authService, { LoginRestrictionError } from '../services/auth.service';
+import twoFactorService from '../services/twoFactor.service';
 import { successResponse, errorResponse } from '../utils/responseHandler';
-import { RegisterDTO, LoginDTO, AuthRequest } from '../types';
+import {
+  RegisterDTO,
+  LoginDTO,
+  AuthRequest,
+  SessionContext,
+  ProfileResponse,
+  UpdateProfileDTO,
+  DeleteAccountDTO,
+} from '../types';
+import { IUser } from '../models/User';
+import { getPasswordPolicy, isPasswordPolicyError } from '../utils/passwordPolicy';
+
+/**
+ * Obtener los datos del cliente que se guardan junto a la sesión y la auditoría
+ * @param {AuthRequest} req - Request de Express
+ * @returns {SessionContext} IP, user agent y request id del cliente
+ */
+const getSessionContext = (req: AuthRequest): SessionContext => ({
+  ip: req.ip,
+  userAgent: req.get('user-agent'),
+  requestId: req.requestId,
+});
+
+/**
+ * Serializar el perfil del usuario autenticado
+ * @param {IUser} user - Usuario
+ * @returns {ProfileResponse} Perfil serializado
+ */
+const toProfileResponse = (user: IUser): ProfileResponse => ({
+  id: String(user._id),
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  emailVerified: user.emailVerified,
+  twoFactorEnabled: user.twoFactorEnabled,
+  pendingEmail: user.pendingEmail ?? null,
+  organizations: (user.organizations ?? []).map(String),
+});
+
+/**
+ * Errores de refresh que indican un token no aceptado
+ */
+const REFRESH_ERRORS = [
+  'Refresh token inválido o expirado',
+  'Refresh token reutilizado, la sesión fue revocada',
+  'Cuenta desactivada',
+];
+
+/**
+ * Responder los errores de los pasos del login
+ * El bloqueo y la espera indican en Retry-After los segundos que faltan para reintentar
+ * @param {Response} res - Response de Express
+ * @param {unknown} error - Error capturado
+ * @returns {Response} Respuesta de error
+ */
+const loginErrorResponse = (res: Response, error: unknown): Response => {
+  if (error instanceof LoginRestrictionError) {
+    res.set(
+      'Retry-After',
+      String(Math.max(1, Math.ceil((error.retryAt.getTime() - Date.now()) / 1000)))
+    );
+  }
+
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'Credenciales inválidas':
+      case 'Cuenta desactivada':
+      case 'Código de verificación inválido':
+      case 'Desafío de verificación inválido o expirado':
+        return errorResponse(res, 401, 'Unauthorized', error.message, error.message);
+      case 'Cuenta bloqueada temporalmente por intentos fallidos':
+        return errorResponse(res, 423, 'Locked', 'Account temporarily locked', error.message);
+      case 'Demasiados intentos fallidos, espera antes de reintentar':
+        return errorResponse(
+          res,
+          429,
+          'Too Many Requests',
+          'Too many failed login attempts, please wait before retrying',
+          error.message
+        );
+    }
+    return errorResponse(res, 400, 'Bad Request', error.message, 'Error al iniciar sesión');
+  }
+
+  return errorResponse(
+    res,
+    500,
+    'Internal Server Error',
+    'Login failed',
+    'Error al iniciar sesión'
+  );
+};
+
+/**
+ * Responder los errores de la administración de la 2FA propia
+ * @param {Response} res - Response de Express
+ * @param {unknown} error - Error capturado
+ * @param {string} message - Mensaje en inglés para errores inesperados
+ * @param {string} customMessage - Mensaje en español para errores inesperados
+ * @returns {Response} Respuesta de error
+ */
+const twoFactorErrorResponse = (
+  res: Response,
+  error: unknown,
+  message: string,
+  customMessage: string
+): Response => {
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'Usuario no encontrado':
+        return errorResponse(res, 404, 'Not Found', error.message, error.message);
+      case 'La contraseña actual es incorrecta':
+        return errorResponse(res, 401, 'Unauthorized', error.message, error.message);
+      case 'Código de verificación inválido':
+      case 'No hay una activación de dos pasos pendiente':
+      case 'La autenticación en dos pasos no está activada':
+        return errorResponse(res, 400, 'Bad Request', error.message, error.message);
+      case 'La autenticación en dos pasos ya está activada':
+      case 'La autenticación en dos pasos es obligatoria para administradores':
+        return errorResponse(res, 409, 'Conflict', error.message, error.message);
+    }
+  }
+
+  return errorResponse(res, 500, 'Internal Server Error', message, customMessage);
+};
 
 /**
  * Controlador de Autenticación
@@ -25,7 +150,7 @@ class AuthController {
     try {
       const data: RegisterDTO = req.body;
 
-      const result = await authService.register(data);
+      const result = await authService.register(data, getSessionContext(req));
 
       return successResponse(res, 201, 'Usuario registrado exitosamente', result);
     } catch (error) {
@@ -33,6 +158,9 @@ class AuthController {
         if (error.message === 'El email ya está registrado') {
           return errorResponse(res, 409, 'Conflict', error.message, error.message);
         }
+        if (isPasswordPolicyError(error.message)) {
+          return errorResponse(res, 400, 'Bad Request', error.message, error.message);
+        }
         return errorResponse(res, 400, 'Bad Request', error.message, 'Error al registrar usuario');
       }
 
@@ -57,23 +185,207 @@ class AuthController {
     try {
       const data: LoginDTO = req.body;
 
-      const result = await authService.login(data);
+      const result = await authService.login(data, getSessionContext(req));
+
+      if ('twoFactorRequired' in result) {
+        return successResponse(res, 200, 'Se requiere el código de verificación', result);
+      }
+
+      return successResponse(res, 200, 'Login exitoso', result);
+    } catch (error) {
+      return loginErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Completar el login con el código de la autenticación en dos pasos
+   * @route POST /api/auth/login/2fa
+   * @param {Request} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con usuario y token
+   */
+  async loginTwoFactor(req: Request, res: Response): Promise<Response> {
+    try {
+      const result = await authService.completeTwoFactorLogin(
+        req.body.challengeToken,
+        req.body.code,
+        getSessionContext(req)
+      );
 
       return successResponse(res, 200, 'Login exitoso', result);
+    } catch (error) {
+      return loginErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Renovar el access token con un refresh token
+   * @route POST /api/auth/refresh
+   * @param {Request} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con nuevos tokens
+   */
+  async refresh(req: Request, res: Response): Promise<Response> {
+    try {
+      const result = await authService.refresh(req.body.refreshToken, getSessionContext(req));
+
+      return successResponse(res, 200, 'Token renovado exitosamente', result);
+    } catch (error) {
+      if (error instanceof Error && REFRESH_ERRORS.includes(error.message)) {
+        return errorResponse(res, 401, 'Unauthorized', error.message, error.message);
+      }
+
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Token refresh failed',
+        'Error al renovar el token'
+      );
+    }
+  }
+
+  /**
+   * Cerrar la sesión actual o todas las sesiones del usuario
+   * @route POST /api/auth/logout
+   * @param {AuthRequest} req - Request con usuario autenticado
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con cantidad de tokens revocados
+   */
+  async logout(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      if (!req.user) {
+        return errorResponse(res, 401, 'Unauthorized', 'Not authenticated', 'No autenticado');
+      }
+
+      const revoked = await authService.logout(
+        req.user.id,
+        req.user.sid,
+        req.body.allSessions === true
+      );
+
+      return successResponse(res, 200, 'Sesión cerrada exitosamente', { revoked });
+    } catch {
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Logout failed',
+        'Error al cerrar sesión'
+      );
+    }
+  }
+
+  /**
+   * Cambiar la contraseña del usuario autenticado
+   * @route PUT /api/auth/password
+   * @param {AuthRequest} req - Request con usuario autenticado
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con los tokens de la nueva sesión
+   */
+  async changePassword(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      if (!req.user) {
+        return errorResponse(res, 401, 'Unauthorized', 'Not authenticated', 'No autenticado');
+      }
+
+      const { currentPassword, newPassword } = req.body;
+      const result = await authService.changePassword(
+        req.user.id,
+        currentPassword,
+        newPassword,
+        getSessionContext(req)
+      );
+
+      return successResponse(res, 200, 'Contraseña actualizada exitosamente', result);
     } catch (error) {
       if (error instanceof Error) {
-        if (error.message === 'Credenciales inválidas' || error.message === 'Cuenta desactivada') {
+        if (error.message === 'Usuario no encontrado') {
+          return errorResponse(res, 404, 'Not Found', error.message, error.message);
+        }
+        if (error.message === 'La contraseña actual es incorrecta') {
           return errorResponse(res, 401, 'Unauthorized', error.message, error.message);
         }
-        return errorResponse(res, 400, 'Bad Request', error.message, 'Error al iniciar sesión');
+        return errorResponse(res, 400, 'Bad Request', error.message, error.message);
       }
 
       return errorResponse(
         res,
         500,
         'Internal Server Error',
-        'Login failed',
-        'Error al iniciar sesión'
+        'Password change failed',
+        'Error al cambiar la contraseña'
+      );
+    }
+  }
+
+  /**
+   * Solicitar el enlace para restablecer la contraseña
+   * Responde igual exista o no la cuenta
+   * @route POST /api/auth/password/forgot
+   * @param {Request} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta genérica
+   */
+  async forgotPassword(req: Request, res: Response): Promise<Response> {
+    try {
+      await authService.requestPasswordReset(req.body.email, getSessionContext(req));
+
+      return successResponse(
+        res,
+        200,
+        'Si el email está registrado recibirás un enlace para restablecer la contraseña',
+        null
+      );
+    } catch {
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Password reset request failed',
+        'Error al solicitar el restablecimiento de contraseña'
+      );
+    }
+  }
+
+  /**
+   * Obtener la política de contraseñas vigente para mostrarla en el front-end
+   * @route GET /api/auth/password/policy
+   * @param {Request} _req - Request de Express (no utilizado)
+   * @param {Response} res - Response de Express
+   * @returns {Response} Respuesta con la política de contraseñas
+   */
+  getPasswordPolicy(_req: Request, res: Response): Response {
+    return successResponse(res, 200, 'Política de contraseñas obtenida', getPasswordPolicy());
+  }
+
+  /**
+   * Restablecer la contraseña con el token recibido por correo
+   * @route POST /api/auth/password/reset
+   * @param {Request} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta de confirmación
+   */
+  async resetPassword(req: Request, res: Response): Promise<Response> {
+    try {
+      await authService.resetPassword(req.body.token, req.body.newPassword, getSessionContext(req));
+
+      return successResponse(res, 200, 'Contraseña restablecida exitosamente', null);
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        (error.message === 'Token de restablecimiento inválido o expirado' ||
+          isPasswordPolicyError(error.message))
+      ) {
+        return errorResponse(res, 400, 'Bad Request', error.message, error.message);
+      }
+
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Password reset failed',
+        'Error al restablecer la contraseña'
       );
     }
   }
@@ -97,12 +409,7 @@ class AuthController {
         return errorResponse(res, 404, 'Not Found', 'User not found', 'Usuario no encontrado');
       }
 
-      return successResponse(res, 200, 'Perfil obtenido exitosamente', {
-        id: user._id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-      });
+      return successResponse(res, 200, 'Perfil obtenido exitosamente', toProfileResponse(user));
     } catch {
       return errorResponse(
         res,
@@ -114,6 +421,285 @@ class AuthController {
     }
   }
 
+  /**
+   * Actualizar el perfil del usuario actual
+   * @route PATCH /api/auth/profile
+   * @param {AuthRequest} req - Request con usuario autenticado
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con el perfil actualizado
+   */
+  async updateProfile(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      if (!req.user) {
+        return errorResponse(res, 401, 'Unauthorized', 'Not authenticated', 'No autenticado');
+      }
+
+      const data: UpdateProfileDTO = req.body;
+      const user = await authService.updateProfile(req.user.id, data, getSessionContext(req));
+
+      const message = user.pendingEmail
+        ? 'Perfil actualizado. Confirma el nuevo email con el enlace que te enviamos'
+        : 'Perfil actualizado exitosamente';
+
+      return successResponse(res, 200, message, toProfileResponse(user));
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === 'Usuario no encontrado') {
+          return errorResponse(res, 404, 'Not Found', error.message, error.message);
+        }
+        if (error.message === 'La contraseña actual es incorrecta') {
+          return errorResponse(res, 401, 'Unauthorized', error.message, error.message);
+        }
+        if (error.message === 'El email ya está registrado') {
+          return errorResponse(res, 409, 'Conflict', error.message, error.message);
+        }
+        return errorResponse(res, 400, 'Bad Request', error.message, 'Error al actualizar perfil');
+      }
+
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Failed to update profile',
+        'Error al actualizar perfil'
+      );
+    }
+  }
+
+  /**
+   * Verificar el email con el token recibido por correo
+   * Sirve tanto para el email de registro como para confirmar un cambio de email
+   * @route POST /api/auth/email/verify
+   * @param {Request} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con el perfil actualizado
+   */
+  async verifyEmail(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = await authService.verifyEmail(req.body.token, getSessionContext(req));
+
+      return successResponse(res, 200, 'Email verificado exitosamente', toProfileResponse(user));
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === 'Token de verificación inválido o expirado') {
+          return errorResponse(res, 400, 'Bad Request', error.message, error.message);
+        }
+        if (error.message === 'El email ya está registrado') {
+          return errorResponse(res, 409, 'Conflict', error.message, error.message);
+        }
+      }
+
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Email verification failed',
+        'Error al verificar el email'
+      );
+    }
+  }
+
+  /**
+   * Reenviar el enlace de verificación de email
+   * @route POST /api/auth/email/verify/resend
+   * @param {AuthRequest} req - Request con usuario autenticado
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con el email al que se envió el enlace
+   */
+  async resendVerification(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      if (!req.user) {
+        return errorResponse(res, 401, 'Unauthorized', 'Not authenticated', 'No autenticado');
+      }
+
+      const email = await authService.resendVerification(req.user.id);
+
+      return successResponse(res, 200, 'Enlace de verificación enviado', { email });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === 'Usuario no encontrado') {
+          return errorResponse(res, 404, 'Not Found', error.message, error.message);
+        }
+        if (error.message === 'El email ya está verificado') {
+          return errorResponse(res, 400, 'Bad Request', error.message, error.message);
+        }
+      }
+
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Failed to resend verification email',
+        'Error al reenviar el enlace de verificación'
+      );
+    }
+  }
+
+  /**
+   * Eliminar la cuenta del usuario actual
+   * @route DELETE /api/auth/profile
+   * @param {AuthRequest} req - Request con usuario autenticado
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con el destino de los autos del usuario
+   */
+  async deleteAccount(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      if (!req.user) {
+        return errorResponse(res, 401, 'Unauthorized', 'Not authenticated', 'No autenticado');
+      }
+
+      const data: DeleteAccountDTO = req.body;
+      const result = await authService.deleteAccount(req.user.id, data, getSessionContext(req));
+
+      return successResponse(res, 200, 'Cuenta eliminada exitosamente', result);
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === 'Usuario no encontrado') {
+          return errorResponse(res, 404, 'Not Found', error.message, error.message);
+        }
+        if (error.message === 'La contraseña actual es incorrecta') {
+          return errorResponse(res, 401, 'Unauthorized', error.message, error.message);
+        }
+        if (
+          error.message === 'Debe existir al menos un administrador activo' ||
+          error.message === 'No hay un administrador activo para recibir los autos'
+        ) {
+          return errorResponse(res, 409, 'Conflict', error.message, error.message);
+        }
+      }
+
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Account deletion failed',
+        'Error al eliminar la cuenta'
+      );
+    }
+  }
+
+  /**
+   * Iniciar el alta de la autenticación en dos pasos
+   * @route POST /api/auth/2fa/setup
+   * @param {AuthRequest} req - Request con usuario autenticado
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con secreto, URI otpauth y código QR
+   */
+  async setupTwoFactor(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      if (!req.user) {
+        return errorResponse(res, 401, 'Unauthorized', 'Not authenticated', 'No autenticado');
+      }
+
+      const result = await twoFactorService.setup(req.user.id);
+
+      return successResponse(
+        res,
+        200,
+        'Escanea el código QR y confirma con un código de la app',
+        result
+      );
+    } catch (error) {
+      return twoFactorErrorResponse(
+        res,
+        error,
+        'Two-factor setup failed',
+        'Error al configurar la autenticación en dos pasos'
+      );
+    }
+  }
+
+  /**
+   * Confirmar el alta de la autenticación en dos pasos
+   * @route POST /api/auth/2fa/confirm
+   * @param {AuthRequest} req - Request con usuario autenticado
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con los códigos de recuperación
+   */
+  async confirmTwoFactor(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      if (!req.user) {
+        return errorResponse(res, 401, 'Unauthorized', 'Not authenticated', 'No autenticado');
+      }
+
+      const recoveryCodes = await twoFactorService.confirm(
+        req.user.id,
+        req.body.code,
+        getSessionContext(req)
+      );
+
+      return successResponse(res, 200, 'Autenticación en dos pasos activada', { recoveryCodes });
+    } catch (error) {
+      return twoFactorErrorResponse(
+        res,
+        error,
+        'Two-factor confirmation failed',
+        'Error al activar la autenticación en dos pasos'
+      );
+    }
+  }
+
+  /**
+   * Desactivar la autenticación en dos pasos
+   * @route POST /api/auth/2fa/disable
+   * @param {AuthRequest} req - Request con usuario autenticado
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta de confirmación
+   */
+  async disableTwoFactor(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      if (!req.user) {
+        return errorResponse(res, 401, 'Unauthorized', 'Not authenticated', 'No autenticado');
+      }
+
+      await twoFactorService.disable(
+        req.user.id,
+        req.body.password,
+        req.body.code,
+        getSessionContext(req)
+      );
+
+      return successResponse(res, 200, 'Autenticación en dos pasos desactivada', null);
+    } catch (error) {
+      return twoFactorErrorResponse(
+        res,
+        error,
+        'Two-factor disable failed',
+        'Error al desactivar la autenticación en dos pasos'
+      );
+    }
+  }
+
+  /**
+   * Generar nuevos códigos de recuperación
+   * @route POST /api/auth/2fa/recovery-codes
+   * @param {AuthRequest} req - Request con usuario autenticado
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con los nuevos códigos
+   */
+  async regenerateRecoveryCodes(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      if (!req.user) {
+        return errorResponse(res, 401, 'Unauthorized', 'Not authenticated', 'No autenticado');
+      }
+
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(
+        req.user.id,
+        req.body.code,
+        getSessionContext(req)
+      );
+
+      return successResponse(res, 200, 'Códigos de recuperación generados', { recoveryCodes });
+    } catch (error) {
+      return twoFactorErrorResponse(
+        res,
+        error,
+        'Recovery codes generation failed',
+        'Error al generar los códigos de recuperación'
+      );
+    }
+  }
+
   /**
    * Verificar token
    * @route POST /api/auth/verify
@@ -7,9 +7,245 @@
 import { Request, Response } from 'express';
 import carService from '../services/car.service';
 import { successResponse, errorResponse } from '../utils/responseHandler';
-import { CreateCarDTO, UpdateCarDTO, CarFilters, AuthRequest, CarResponse } from '../types';
-import { getFileUrl, deleteFile } from '../middlewares/upload.middleware';
+import {
+  CreateCarDTO,
+  UpdateCarDTO,
+  CarFilters,
+  AuthRequest,
+  CarResponse,
+  CarVersionResponse,
+  PriceChangeResponse,
+} from '../types';
+import {
+  getFileUrl,
+  getRenditionUrl,
+  deleteFile,
+  getUploadedFilenames,
+} from '../middlewares/upload.middleware';
 import { ICar } from '../models/Car';
+import { ICarVersion } from '../models/CarVersion';
+import { IPriceChange } from '../models/PriceChange';
+import { getAuditContext } from '../utils/audit';
+import { getCarETag, parseIfMatch } from '../utils/etag';
+
+/**
+ * Calcular el porcentaje de rebaja de un precio respecto del original, con un decimal
+ * @param {number} precioOriginal - Precio de publicación
+ * @param {number} precio - Precio actual
+ * @returns {number} Porcentaje de rebaja, o 0 si el precio no bajó
+ */
+const getPorcentajeRebaja = (precioOriginal: number, precio: number): number => {
+  if (precioOriginal <= 0 || precio >= precioOriginal) {
+    return 0;
+  }
+
+  return Math.round(((precioOriginal - precio) / precioOriginal) * 1000) / 10;
+};
+
+/**
+ * Serializar un auto agregando URLs completas de las fotos, sus versiones
+ * redimensionadas, fechas ISO y la rebaja respecto del precio original
+ * Acepta documentos de Mongoose u objetos obtenidos con lean()
+ * @param {ICar} car - Auto a serializar
+ * @param {Request} req - Request de Express
+ * @returns {CarResponse} Auto serializado
+ */
+export const toCarResponse = (car: ICar, req: Request): CarResponse => {
+  const source = typeof car.toObject === 'function' ? car.toObject() : car;
+  const carObj = source as unknown as Record<string, unknown>;
+  const foto = carObj.foto as string | null | undefined;
+  const gallery = (carObj.fotos as string[] | undefined) ?? [];
+  const fotos = gallery.length > 0 ? gallery : foto ? [foto] : [];
+  const precio = carObj.precio as number;
+  // Los autos anteriores al historial de precios no tienen precio original
+  const precioOriginal = (carObj.precioOriginal as number | undefined) ?? precio;
+
+  return {
+    ...carObj,
+    precioOriginal,
+    porcentajeRebaja: getPorcentajeRebaja(precioOriginal, precio),
+    foto: foto ? getFileUrl(foto, req) : null,
+    fotoThumbnail: foto ? getRenditionUrl(foto, 'thumb', req) : null,
+    fotoMedium: foto ? getRenditionUrl(foto, 'medium', req) : null,
+    fotos: fotos.map((filename) => getFileUrl(filename, req)),
+    fotosThumbnail: fotos.map((filename) => getRenditionUrl(filename, 'thumb', req)),
+    fotosMedium: fotos.map((filename) => getRenditionUrl(filename, 'medium', req)),
+    fechaAlta: (carObj.fechaAlta as Date).toISOString(),
+    fechaModificacion: (carObj.fechaModificacion as Date).toISOString(),
+    fechaEliminacion: carObj.fechaEliminacion
+      ? (carObj.fechaEliminacion as Date).toISOString()
+      : null,
+    fechaUltimaRebaja: carObj.fechaUltimaRebaja
+      ? (carObj.fechaUltimaRebaja as Date).toISOString()
+      : null,
+    revision: (carObj.revision as number | undefined) ?? 0,
+  } as CarResponse;
+};
+
+/**
+ * Mensajes de error del servicio de galería que indican un recurso inexistente
+ */
+const PHOTO_NOT_FOUND_ERRORS = ['Auto no encontrado', 'Foto no encontrada'];
+
+/**
+ * Responder errores de operaciones sobre la galería de fotos
+ * @param {Response} res - Response de Express
+ * @param {unknown} error - Error capturado
+ * @param {string} message - Mensaje en inglés para errores inesperados
+ * @param {string} customMessage - Mensaje en español para errores inesperados
+ * @returns {Response} Respuesta de error
+ */
+const photoErrorResponse = (
+  res: Response,
+  error: unknown,
+  message: string,
+  customMessage: string
+): Response => {
+  if (error instanceof Error) {
+    if (PHOTO_NOT_FOUND_ERRORS.includes(error.message)) {
+      return errorResponse(res, 404, 'Not Found', error.message, error.message);
+    }
+    return errorResponse(res, 400, 'Bad Request', error.message, customMessage);
+  }
+
+  return errorResponse(res, 500, 'Internal Server Error', message, customMessage);
+};
+
+/**
+ * Responder un conflicto de concurrencia con el estado actual del auto y su ETag,
+ * para que el cliente pueda reintentar sobre datos actualizados
+ * @param {AuthRequest} req - Request con la organización activa
+ * @param {Response} res - Response de Express
+ * @param {number} statusCode - 412 si falló If-Match, 409 si el auto cambió durante la actualización
+ * @param {string} message - Mensaje en inglés
+ * @param {string} customMessage - Mensaje en español
+ * @returns {Promise<Response>} Respuesta de error
+ */
+const concurrencyErrorResponse = async (
+  req: AuthRequest,
+  res: Response,
+  statusCode: number,
+  message: string,
+  customMessage: string
+): Promise<Response> => {
+  const name = statusCode === 412 ? 'Precondition Failed' : 'Conflict';
+
+  try {
+    const current = await carService.getCarById(req.params.id, req.organization!);
+
+    if (current) {
+      res.set('ETag', getCarETag(current));
+      return errorResponse(
+        res,
+        statusCode,
+        name,
+        message,
+        customMessage,
+        toCarResponse(current, req)
+      );
+    }
+  } catch {
+    // El auto se eliminó después del conflicto
+  }
+
+  return errorResponse(res, 404, 'Not Found', 'Car not found', 'Auto no encontrado');
+};
+
+/**
+ * Responder errores de la actualización de un auto (PUT y PATCH)
+ * @param {AuthRequest} req - Request con la organización activa
+ * @param {Response} res - Response de Express
+ * @param {unknown} error - Error capturado
+ * @returns {Promise<Response>} Respuesta de error
+ */
+const updateErrorResponse = async (
+  req: AuthRequest,
+  res: Response,
+  error: unknown
+): Promise<Response> => {
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'Auto no encontrado':
+        return errorResponse(res, 404, 'Not Found', error.message, error.message);
+      case 'La versión del auto no coincide':
+        return concurrencyErrorResponse(
+          req,
+          res,
+          412,
+          'Car has changed since it was read',
+          error.message
+        );
+      case 'El auto fue modificado por otro usuario':
+        return concurrencyErrorResponse(
+          req,
+          res,
+          409,
+          'Car was modified by another user',
+          error.message
+        );
+    }
+  }
+
+  return errorResponse(
+    res,
+    500,
+    'Internal Server Error',
+    'Failed to update car',
+    'Error al actualizar auto'
+  );
+};
+
+/**
+ * Serializar una versión de auto
+ * @param {ICarVersion} version - Versión a serializar
+ * @returns {CarVersionResponse} Versión serializada
+ */
+const toCarVersionResponse = (version: ICarVersion): CarVersionResponse => ({
+  version: version.version,
+  action: version.action,
+  data: version.data,
+  changedBy: version.changedBy ? String(version.changedBy) : null,
+  revertedFrom: version.revertedFrom,
+  createdAt: version.createdAt.toISOString(),
+});
+
+/**
+ * Serializar un cambio de precio
+ * @param {IPriceChange} change - Cambio a serializar
+ * @returns {PriceChangeResponse} Cambio serializado
+ */
+const toPriceChangeResponse = (change: IPriceChange): PriceChangeResponse => ({
+  previousPrice: change.previousPrice,
+  price: change.price,
+  difference: change.price - change.previousPrice,
+  changedBy: change.changedBy ? String(change.changedBy) : null,
+  createdAt: change.createdAt.toISOString(),
+});
+
+/**
+ * Responder errores de operaciones sobre el historial de versiones
+ * @param {Response} res - Response de Express
+ * @param {unknown} error - Error capturado
+ * @param {string} message - Mensaje en inglés para errores inesperados
+ * @param {string} customMessage - Mensaje en español para errores inesperados
+ * @returns {Response} Respuesta de error
+ */
+const historyErrorResponse = (
+  res: Response,
+  error: unknown,
+  message: string,
+  customMessage: string
+): Response => {
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'Auto no encontrado':
+      case 'Versión no encontrada':
+        return errorResponse(res, 404, 'Not Found', error.message, error.message);
+    }
+  }
+
+  return errorResponse(res, 500, 'Internal Server Error', message, customMessage);
+};
 
 /**
  * Controlador de Autos
@@ -19,11 +255,11 @@ class CarController {
   /**
    * Obtener todos los autos con filtros
    * @route GET /api/cars
-   * @param {Request} req - Request de Express
+   * @param {AuthRequest} req - Request con la organización activa
    * @param {Response} res - Response de Express
    * @returns {Promise<Response>} Respuesta con lista de autos
    */
-  async getAllCars(req: Request, res: Response): Promise<Response> {
+  async getAllCars(req: AuthRequest, res: Response): Promise<Response> {
     try {
       const filters: CarFilters = {
         marca: req.query.marca as string,
@@ -32,27 +268,17 @@ class CarController {
         minPrecio: req.query.minPrecio ? parseInt(req.query.minPrecio as string) : undefined,
         maxPrecio: req.query.maxPrecio ? parseInt(req.query.maxPrecio as string) : undefined,
         color: req.query.color as string,
+        rebajaDias: req.query.rebajaDias ? parseInt(req.query.rebajaDias as string) : undefined,
         page: req.query.page ? parseInt(req.query.page as string) : 1,
         limit: req.query.limit ? parseInt(req.query.limit as string) : 10,
         sortBy: (req.query.sortBy as string) || 'fechaAlta',
         sortOrder: (req.query.sortOrder as 'asc' | 'desc') || 'desc',
       };
 
-      const result = await carService.getAllCars(filters);
+      const result = await carService.getAllCars(filters, req.organization!);
 
       // Agregar URL completa a las fotos y convertir fechas a ISO
-      const carsWithUrls = result.data.map((car: ICar) => {
-        const carObj = car as unknown as Record<string, unknown>;
-        return {
-          ...carObj,
-          foto: carObj.foto ? getFileUrl(carObj.foto as string, req) : null,
-          fechaAlta: (carObj.fechaAlta as Date).toISOString(),
-          fechaModificacion: (carObj.fechaModificacion as Date).toISOString(),
-          fechaEliminacion: carObj.fechaEliminacion
-            ? (carObj.fechaEliminacion as Date).toISOString()
-            : null,
-        } as CarResponse;
-      });
+      const carsWithUrls = result.data.map((car: ICar) => toCarResponse(car, req));
 
       return successResponse(res, 200, 'Autos obtenidos exitosamente', {
         ...result,
@@ -76,26 +302,24 @@ class CarController {
   /**
    * Obtener auto por ID
    * @route GET /api/cars/:id
-   * @param {Request} req - Request de Express
+   * @param {AuthRequest} req - Request con la organización activa
    * @param {Response} res - Response de Express
    * @returns {Promise<Response>} Respuesta con auto encontrado
    */
-  async getCarById(req: Request, res: Response): Promise<Response> {
+  async getCarById(req: AuthRequest, res: Response): Promise<Response> {
     try {
       const { id } = req.params;
 
-      const car = await carService.getCarById(id);
+      const car = await carService.getCarById(id, req.organization!);
 
       if (!car) {
         return errorResponse(res, 404, 'Not Found', 'Car not found', 'Auto no encontrado');
       }
 
       // Agregar URL completa a la foto
-      const carWithUrl = {
-        ...car.toObject(),
-        foto: car.foto ? getFileUrl(car.foto, req) : null,
-      };
+      const carWithUrl = toCarResponse(car, req);
 
+      res.set('ETag', getCarETag(car));
       return successResponse(res, 200, 'Auto obtenido exitosamente', carWithUrl);
     } catch (error) {
       if (error instanceof Error && error.message === 'Auto no encontrado') {
@@ -128,17 +352,18 @@ class CarController {
         data.foto = req.file.filename;
       }
 
-      const car = await carService.createCar(data, req.user?.id);
+      const car = await carService.createCar(
+        data,
+        req.user?.id,
+        req.organization!,
+        getAuditContext(req)
+      );
 
       // Agregar URL completa a la foto
-      const carWithUrl = {
-        ...car.toObject(),
-        foto: car.foto ? getFileUrl(car.foto, req) : null,
-      };
+      const carWithUrl = toCarResponse(car, req);
 
       return successResponse(res, 201, 'Auto creado exitosamente', {
         id: car._id,
-        fechaAlta: car.fechaAlta.toISOString(),
         ...carWithUrl,
       });
     } catch (error) {
@@ -167,23 +392,29 @@ class CarController {
   }
 
   /**
-   * Actualizar auto existente
+   * Reemplazar los datos de un auto existente
    * @route PUT /api/cars/:id
-   * @param {Request} req - Request de Express
+   * @param {AuthRequest} req - Request con la organización activa
    * @param {Response} res - Response de Express
    * @returns {Promise<Response>} Respuesta con auto actualizado
    */
-  async updateCar(req: Request, res: Response): Promise<Response> {
+  async updateCar(req: AuthRequest, res: Response): Promise<Response> {
     try {
       const { id } = req.params;
-      const data: UpdateCarDTO = req.body;
+      const data: CreateCarDTO = req.body;
 
       // Si hay nueva foto, agregar el nombre del archivo
       if (req.file) {
         data.foto = req.file.filename;
       }
 
-      const car = await carService.updateCar(id, data);
+      const car = await carService.replaceCar(
+        id,
+        data,
+        req.organization!,
+        getAuditContext(req),
+        parseIfMatch(req.get('If-Match'))
+      );
 
       if (!car) {
         // Si no se encuentra el auto y hay una nueva foto, eliminarla
@@ -199,11 +430,9 @@ class CarController {
       }
 
       // Agregar URL completa a la foto
-      const carWithUrl = {
-        ...car.toObject(),
-        foto: car.foto ? getFileUrl(car.foto, req) : null,
-      };
+      const carWithUrl = toCarResponse(car, req);
 
+      res.set('ETag', getCarETag(car));
       return successResponse(res, 200, 'Auto actualizado exitosamente', carWithUrl);
     } catch (error) {
       // Si hay un error y se subió una nueva foto, eliminarla
@@ -216,32 +445,50 @@ class CarController {
         }
       }
 
-      if (error instanceof Error && error.message === 'Auto no encontrado') {
-        return errorResponse(res, 404, 'Not Found', error.message, error.message);
-      }
+      return updateErrorResponse(req, res, error);
+    }
+  }
 
-      return errorResponse(
-        res,
-        500,
-        'Internal Server Error',
-        'Failed to update car',
-        'Error al actualizar auto'
+  /**
+   * Modificar un auto con JSON Merge Patch
+   * @route PATCH /api/cars/:id
+   * @param {AuthRequest} req - Request con la organización activa
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con auto actualizado
+   */
+  async patchCar(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const car = await carService.updateCar(
+        req.params.id,
+        req.body as UpdateCarDTO,
+        req.organization!,
+        getAuditContext(req),
+        parseIfMatch(req.get('If-Match'))
       );
+
+      if (!car) {
+        return errorResponse(res, 404, 'Not Found', 'Car not found', 'Auto no encontrado');
+      }
+
+      res.set('ETag', getCarETag(car));
+      return successResponse(res, 200, 'Auto actualizado exitosamente', toCarResponse(car, req));
+    } catch (error) {
+      return updateErrorResponse(req, res, error);
     }
   }
 
   /**
    * Eliminar auto (soft delete)
    * @route DELETE /api/cars/:id
-   * @param {Request} req - Request de Express
+   * @param {AuthRequest} req - Request con la organización activa
    * @param {Response} res - Response de Express
    * @returns {Promise<Response>} Respuesta con confirmación
    */
-  async deleteCar(req: Request, res: Response): Promise<Response> {
+  async deleteCar(req: AuthRequest, res: Response): Promise<Response> {
     try {
       const { id } = req.params;
 
-      const car = await carService.deleteCar(id);
+      const car = await carService.deleteCar(id, req.organization!, getAuditContext(req));
 
       if (!car) {
         return errorResponse(res, 404, 'Not Found', 'Car not found', 'Auto no encontrado');
@@ -269,13 +516,13 @@ class CarController {
   /**
    * Obtener estadísticas de autos
    * @route GET /api/cars/stats
-   * @param {Request} _req - Request de Express (no utilizado)
+   * @param {AuthRequest} req - Request con la organización activa
    * @param {Response} res - Response de Express
    * @returns {Promise<Response>} Respuesta con estadísticas
    */
-  async getStats(_req: Request, res: Response): Promise<Response> {
+  async getStats(req: AuthRequest, res: Response): Promise<Response> {
     try {
-      const stats = await carService.getStats();
+      const stats = await carService.getStats(req.organization!);
 
       return successResponse(res, 200, 'Estadísticas obtenidas exitosamente', stats);
     } catch {
@@ -292,11 +539,11 @@ class CarController {
   /**
    * Buscar autos por texto
    * @route GET /api/cars/search
-   * @param {Request} req - Request de Express
+   * @param {AuthRequest} req - Request con la organización activa
    * @param {Response} res - Response de Express
    * @returns {Promise<Response>} Respuesta con autos encontrados
    */
-  async searchCars(req: Request, res: Response): Promise<Response> {
+  async searchCars(req: AuthRequest, res: Response): Promise<Response> {
     try {
       const searchTerm = req.query.q as string;
 
@@ -310,21 +557,10 @@ class CarController {
         );
       }
 
-      const cars = await carService.searchCars(searchTerm);
+      const cars = await carService.searchCars(searchTerm, req.organization!);
 
       // Agregar URL completa a las fotos y convertir fechas a ISO
-      const carsWithUrls = cars.map((car: ICar) => {
-        const carObj = car as unknown as Record<string, unknown>;
-        return {
-          ...carObj,
-          foto: carObj.foto ? getFileUrl(carObj.foto as string, req) : null,
-          fechaAlta: (carObj.fechaAlta as Date).toISOString(),
-          fechaModificacion: (carObj.fechaModificacion as Date).toISOString(),
-          fechaEliminacion: carObj.fechaEliminacion
-            ? (carObj.fechaEliminacion as Date).toISOString()
-            : null,
-        } as CarResponse;
-      });
+      const carsWithUrls = cars.map((car: ICar) => toCarResponse(car, req));
 
       return successResponse(res, 200, 'Búsqueda completada exitosamente', carsWithUrls);
     } catch {
@@ -337,6 +573,410 @@ class CarController {
       );
     }
   }
+
+  /**
+   * Obtener autos en la papelera
+   * @route GET /api/cars/trash
+   * @param {AuthRequest} req - Request con la organización activa
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con autos eliminados paginados
+   */
+  async getTrash(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const page = req.query.page ? parseInt(req.query.page as string) : 1;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
+
+      const result = await carService.getDeletedCars(page, limit, req.organization!);
+
+      return successResponse(res, 200, 'Papelera obtenida exitosamente', {
+        ...result,
+        data: result.data.map((car: ICar) => toCarResponse(car, req)),
+      });
+    } catch {
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Failed to fetch trash',
+        'Error al obtener la papelera'
+      );
+    }
+  }
+
+  /**
+   * Restaurar auto eliminado
+   * @route POST /api/cars/:id/restore
+   * @param {AuthRequest} req - Request con la organización activa
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con auto restaurado
+   */
+  async restoreCar(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const car = await carService.restoreCar(
+        req.params.id,
+        req.organization!,
+        getAuditContext(req)
+      );
+
+      const carWithUrl = toCarResponse(car, req);
+
+      return successResponse(res, 200, 'Auto restaurado exitosamente', carWithUrl);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Auto no encontrado en la papelera') {
+        return errorResponse(res, 404, 'Not Found', error.message, error.message);
+      }
+
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Failed to restore car',
+        'Error al restaurar auto'
+      );
+    }
+  }
+
+  /**
+   * Eliminar permanentemente un auto de la papelera
+   * @route DELETE /api/cars/:id/purge
+   * @param {AuthRequest} req - Request con la organización activa
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con confirmación
+   */
+  async purgeCar(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      await carService.purgeCar(id, req.organization!, getAuditContext(req));
+
+      return successResponse(res, 200, 'Auto eliminado permanentemente', { id });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Auto no encontrado en la papelera') {
+        return errorResponse(res, 404, 'Not Found', error.message, error.message);
+      }
+
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Failed to purge car',
+        'Error al eliminar permanentemente el auto'
+      );
+    }
+  }
+
+  /**
+   * Vaciar la papelera de autos con antigüedad mínima
+   * @route DELETE /api/cars/trash
+   * @param {AuthRequest} req - Request con la organización activa
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con cantidad de autos eliminados
+   */
+  async purgeTrash(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const olderThanDays = parseInt(req.query.olderThanDays as string);
+
+      const purged = await carService.purgeDeletedCars(
+        olderThanDays,
+        req.organization,
+        getAuditContext(req)
+      );
+
+      return successResponse(res, 200, 'Papelera vaciada exitosamente', {
+        purged,
+        olderThanDays,
+      });
+    } catch {
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Failed to purge trash',
+        'Error al vaciar la papelera'
+      );
+    }
+  }
+
+  /**
+   * Reportar fotos huérfanas (archivos sin auto que los referencie)
+   * @route GET /api/cars/photos/orphans
+   * @param {Request} _req - Request de Express (no utilizado)
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con archivos huérfanos
+   */
+  async getOrphanedPhotos(_req: Request, res: Response): Promise<Response> {
+    try {
+      const files = await carService.findOrphanedPhotos();
+
+      return successResponse(res, 200, 'Fotos huérfanas obtenidas exitosamente', {
+        total: files.length,
+        files: files.map((file) => ({
+          ...file,
+          modifiedAt: file.modifiedAt.toISOString(),
+        })),
+      });
+    } catch {
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Failed to reconcile photos',
+        'Error al buscar fotos huérfanas'
+      );
+    }
+  }
+
+  /**
+   * Eliminar fotos huérfanas con más de una hora de antigüedad
+   * @route DELETE /api/cars/photos/orphans
+   * @param {Request} _req - Request de Express (no utilizado)
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con archivos eliminados
+   */
+  async deleteOrphanedPhotos(_req: Request, res: Response): Promise<Response> {
+    try {
+      const deleted = await carService.deleteOrphanedPhotos();
+
+      return successResponse(res, 200, 'Fotos huérfanas eliminadas exitosamente', {
+        total: deleted.length,
+        files: deleted,
+      });
+    } catch {
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Failed to delete orphaned photos',
+        'Error al eliminar fotos huérfanas'
+      );
+    }
+  }
+
+  /**
+   * Agregar fotos a la galería de un auto
+   * @route POST /api/cars/:id/photos
+   * @param {AuthRequest} req - Request con archivos subidos en el campo fotos
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con auto actualizado
+   */
+  async addPhotos(req: AuthRequest, res: Response): Promise<Response> {
+    const filenames = getUploadedFilenames(req);
+
+    try {
+      if (filenames.length === 0) {
+        return errorResponse(
+          res,
+          400,
+          'Bad Request',
+          'At least one photo is required',
+          'Debe enviar al menos una foto'
+        );
+      }
+
+      const car = await carService.addPhotos(
+        req.params.id,
+        filenames,
+        req.organization!,
+        getAuditContext(req)
+      );
+
+      return successResponse(res, 200, 'Fotos agregadas exitosamente', toCarResponse(car, req));
+    } catch (error) {
+      // Si falla, eliminar las fotos subidas
+      for (const filename of filenames) {
+        try {
+          await deleteFile(filename);
+        } catch (deleteError) {
+          console.error('Error al eliminar imagen tras fallo en galería:', deleteError);
+        }
+      }
+
+      return photoErrorResponse(res, error, 'Failed to add photos', 'Error al agregar fotos');
+    }
+  }
+
+  /**
+   * Quitar una foto de la galería de un auto
+   * @route DELETE /api/cars/:id/photos/:filename
+   * @param {AuthRequest} req - Request con la organización activa
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con auto actualizado
+   */
+  async removePhoto(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const { id, filename } = req.params;
+
+      const car = await carService.removePhoto(
+        id,
+        filename,
+        req.organization!,
+        getAuditContext(req)
+      );
+
+      return successResponse(res, 200, 'Foto eliminada exitosamente', toCarResponse(car, req));
+    } catch (error) {
+      return photoErrorResponse(res, error, 'Failed to remove photo', 'Error al eliminar foto');
+    }
+  }
+
+  /**
+   * Reordenar la galería de fotos de un auto
+   * @route PUT /api/cars/:id/photos/order
+   * @param {AuthRequest} req - Request con la organización activa
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con auto actualizado
+   */
+  async reorderPhotos(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const car = await carService.reorderPhotos(
+        req.params.id,
+        req.body.fotos,
+        req.organization!,
+        getAuditContext(req)
+      );
+
+      return successResponse(res, 200, 'Fotos reordenadas exitosamente', toCarResponse(car, req));
+    } catch (error) {
+      return photoErrorResponse(res, error, 'Failed to reorder photos', 'Error al reordenar fotos');
+    }
+  }
+
+  /**
+   * Designar la foto de portada de un auto
+   * @route PUT /api/cars/:id/photos/cover
+   * @param {AuthRequest} req - Request con la organización activa
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con auto actualizado
+   */
+  async setCoverPhoto(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const car = await carService.setCoverPhoto(
+        req.params.id,
+        req.body.foto,
+        req.organization!,
+        getAuditContext(req)
+      );
+
+      return successResponse(res, 200, 'Portada actualizada exitosamente', toCarResponse(car, req));
+    } catch (error) {
+      return photoErrorResponse(
+        res,
+        error,
+        'Failed to set cover photo',
+        'Error al actualizar portada'
+      );
+    }
+  }
+
+  /**
+   * Obtener el historial de versiones de un auto
+   * @route GET /api/cars/:id/history
+   * @param {AuthRequest} req - Request con la organización activa
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con versiones paginadas en orden cronológico
+   */
+  async getCarHistory(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const page = req.query.page ? parseInt(req.query.page as string) : 1;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+
+      const result = await carService.getCarHistory(req.params.id, page, limit, req.organization!);
+
+      return successResponse(res, 200, 'Historial obtenido exitosamente', {
+        ...result,
+        data: result.data.map(toCarVersionResponse),
+      });
+    } catch (error) {
+      return historyErrorResponse(
+        res,
+        error,
+        'Failed to fetch car history',
+        'Error al obtener el historial'
+      );
+    }
+  }
+
+  /**
+   * Comparar dos versiones de un auto
+   * @route GET /api/cars/:id/history/diff
+   * @param {AuthRequest} req - Request con la organización activa
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con los campos que cambiaron
+   */
+  async diffCarVersions(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const diff = await carService.diffCarVersions(
+        req.params.id,
+        req.query.from as unknown as number,
+        req.query.to as unknown as number,
+        req.organization!
+      );
+
+      return successResponse(res, 200, 'Comparación obtenida exitosamente', diff);
+    } catch (error) {
+      return historyErrorResponse(
+        res,
+        error,
+        'Failed to compare versions',
+        'Error al comparar versiones'
+      );
+    }
+  }
+
+  /**
+   * Revertir un auto a una versión anterior
+   * @route POST /api/cars/:id/history/:version/revert
+   * @param {AuthRequest} req - Request con la organización activa
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con auto revertido
+   */
+  async revertCar(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const car = await carService.revertCar(
+        req.params.id,
+        req.params.version as unknown as number,
+        req.organization!,
+        getAuditContext(req)
+      );
+
+      return successResponse(res, 200, 'Auto revertido exitosamente', toCarResponse(car, req));
+    } catch (error) {
+      return historyErrorResponse(res, error, 'Failed to revert car', 'Error al revertir auto');
+    }
+  }
+
+  /**
+   * Obtener el historial de precios de un auto
+   * @route GET /api/cars/:id/price-history
+   * @param {AuthRequest} req - Request con la organización activa
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con cambios de precio paginados en orden cronológico
+   */
+  async getPriceHistory(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const page = req.query.page ? parseInt(req.query.page as string) : 1;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+
+      const result = await carService.getPriceHistory(
+        req.params.id,
+        page,
+        limit,
+        req.organization!
+      );
+
+      return successResponse(res, 200, 'Historial de precios obtenido exitosamente', {
+        ...result,
+        data: result.data.map(toPriceChangeResponse),
+      });
+    } catch (error) {
+      return historyErrorResponse(
+        res,
+        error,
+        'Failed to fetch price history',
+        'Error al obtener el historial de precios'
+      );
+    }
+  }
 }
 
 export default new CarController();
@@ -0,0 +1,171 @@
+/**
+ * Car Import Controller
+ * @module controllers/carImport
+ * @description Controlador para la importación masiva de autos desde CSV o XLSX
+ */
+
+import { Response } from 'express';
+import carImportService from '../services/carImport.service';
+import { successResponse, errorResponse } from '../utils/responseHandler';
+import { getAuditContext } from '../utils/audit';
+import { config } from '../config/env';
+import { AuthRequest, CarImportJobResponse, CarImportMapping } from '../types';
+import { ICarImportJob } from '../models/CarImportJob';
+
+/**
+ * Serializar una importación de autos
+ * @param {ICarImportJob} job - Importación
+ * @returns {CarImportJobResponse} Importación serializada
+ */
+const toCarImportJobResponse = (job: ICarImportJob): CarImportJobResponse => ({
+  id: String(job._id),
+  filename: job.filename,
+  format: job.format,
+  dryRun: job.dryRun,
+  status: job.status,
+  mapping: job.mapping,
+  totalRows: job.totalRows,
+  validRows: job.validRows,
+  createdCount: job.createdCount,
+  failedCount: job.failedCount,
+  errors: job.rowErrors.map(({ row, field, message }) => ({ row, field, message })),
+  cars: job.cars.map(String),
+  createdBy: job.createdBy ? String(job.createdBy) : null,
+  createdAt: job.createdAt.toISOString(),
+  finishedAt: job.finishedAt ? job.finishedAt.toISOString() : null,
+});
+
+/**
+ * Controlador de importaciones de autos
+ * @class CarImportController
+ */
+class CarImportController {
+  /**
+   * Importar autos desde un archivo CSV o XLSX
+   * @route POST /api/cars/imports
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con la importación realizada
+   */
+  async importCars(req: AuthRequest, res: Response): Promise<Response> {
+    if (!req.file) {
+      return errorResponse(
+        res,
+        400,
+        'Bad Request',
+        'A CSV or XLSX file is required in the file field',
+        'Debe adjuntar un archivo CSV o XLSX en el campo file'
+      );
+    }
+
+    try {
+      const job = await carImportService.importCars(
+        req.file,
+        {
+          mapping: (req.body.mapping as CarImportMapping | undefined) ?? {},
+          dryRun: req.body.dryRun === true,
+        },
+        req.user?.id,
+        req.organization!,
+        getAuditContext(req)
+      );
+
+      return successResponse(
+        res,
+        201,
+        job.dryRun ? 'Simulación de importación realizada' : 'Importación realizada',
+        toCarImportJobResponse(job)
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        switch (error.message) {
+          case 'No se pudo leer el archivo':
+            return errorResponse(res, 400, 'Bad Request', 'Unreadable file', error.message);
+          case 'El archivo no contiene filas':
+            return errorResponse(res, 400, 'Bad Request', 'The file has no rows', error.message);
+          case 'El archivo excede la cantidad máxima de filas':
+            return errorResponse(
+              res,
+              400,
+              'Bad Request',
+              `The file exceeds the maximum of ${config.IMPORT_MAX_ROWS} rows`,
+              `${error.message} (${config.IMPORT_MAX_ROWS})`
+            );
+          case 'Formato de archivo no soportado':
+            return errorResponse(res, 400, 'Bad Request', 'Unsupported file format', error.message);
+        }
+      }
+
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Failed to import cars',
+        'Error al importar autos'
+      );
+    }
+  }
+
+  /**
+   * Listar las importaciones de la organización
+   * @route GET /api/cars/imports
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con importaciones paginadas
+   */
+  async listImports(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const page = req.query.page ? parseInt(req.query.page as string) : 1;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+
+      const result = await carImportService.listJobs(req.organization!, page, limit);
+
+      return successResponse(res, 200, 'Importaciones obtenidas exitosamente', {
+        ...result,
+        data: result.data.map(toCarImportJobResponse),
+      });
+    } catch {
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Failed to fetch imports',
+        'Error al obtener las importaciones'
+      );
+    }
+  }
+
+  /**
+   * Obtener una importación de la organización con sus errores por fila
+   * @route GET /api/cars/imports/:importId
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con la importación
+   */
+  async getImport(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const job = await carImportService.getJob(req.params.importId, req.organization!);
+
+      return successResponse(
+        res,
+        200,
+        'Importación obtenida exitosamente',
+        toCarImportJobResponse(job)
+      );
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Importación no encontrada') {
+        return errorResponse(res, 404, 'Not Found', 'Import not found', error.message);
+      }
+
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Failed to fetch import',
+        'Error al obtener la importación'
+      );
+    }
+  }
+}
+
+export default new CarImportController();
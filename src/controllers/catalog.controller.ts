@@ -7,6 +7,44 @@
 import { Request, Response } from 'express';
 import catalogService from '../services/catalog.service';
 import { successResponse, errorResponse } from '../utils/responseHandler';
+import { getAuditContext } from '../utils/audit';
+
+/**
+ * Mensajes de error del servicio que indican un recurso inexistente
+ */
+const NOT_FOUND_ERRORS = ['Marca no encontrada', 'Modelo no encontrado'];
+
+/**
+ * Mensajes de error del servicio que indican un conflicto de nombres
+ */
+const CONFLICT_ERRORS = ['La marca ya existe', 'El modelo ya existe para esta marca'];
+
+/**
+ * Responder errores de operaciones de administración de catálogos
+ * @param {Response} res - Response de Express
+ * @param {unknown} error - Error capturado
+ * @param {string} message - Mensaje en inglés para errores inesperados
+ * @param {string} customMessage - Mensaje en español para errores inesperados
+ * @returns {Response} Respuesta de error
+ */
+const catalogErrorResponse = (
+  res: Response,
+  error: unknown,
+  message: string,
+  customMessage: string
+): Response => {
+  if (error instanceof Error) {
+    if (NOT_FOUND_ERRORS.includes(error.message)) {
+      return errorResponse(res, 404, 'Not Found', error.message, error.message);
+    }
+    if (CONFLICT_ERRORS.includes(error.message)) {
+      return errorResponse(res, 409, 'Conflict', error.message, error.message);
+    }
+    return errorResponse(res, 400, 'Bad Request', error.message, customMessage);
+  }
+
+  return errorResponse(res, 500, 'Internal Server Error', message, customMessage);
+};
 
 /**
  * Controlador de Catálogos
@@ -143,7 +181,7 @@ class CatalogController {
         );
       }
 
-      const catalog = await catalogService.upsertCatalog(marca, modelos);
+      const catalog = await catalogService.upsertCatalog(marca, modelos, getAuditContext(req));
 
       return successResponse(res, 201, 'Catálogo actualizado exitosamente', catalog);
     } catch (error) {
@@ -189,20 +227,111 @@ class CatalogController {
         );
       }
 
-      const catalog = await catalogService.addModel(marca, modelo);
+      const catalog = await catalogService.addModel(marca, modelo, getAuditContext(req));
 
       return successResponse(res, 200, 'Modelo agregado exitosamente', catalog);
     } catch (error) {
-      if (error instanceof Error) {
-        return errorResponse(res, 400, 'Bad Request', error.message, 'Error al agregar modelo');
-      }
+      return catalogErrorResponse(res, error, 'Failed to add model', 'Error al agregar modelo');
+    }
+  }
 
-      return errorResponse(
+  /**
+   * Renombrar una marca
+   * @route PATCH /api/catalogs/:marca
+   * @param {Request} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con catálogo actualizado
+   */
+  async renameBrand(req: Request, res: Response): Promise<Response> {
+    try {
+      const catalog = await catalogService.renameBrand(
+        req.params.marca,
+        req.body.marca,
+        getAuditContext(req)
+      );
+
+      return successResponse(res, 200, 'Marca actualizada exitosamente', catalog);
+    } catch (error) {
+      return catalogErrorResponse(
         res,
-        500,
-        'Internal Server Error',
-        'Failed to add model',
-        'Error al agregar modelo'
+        error,
+        'Failed to rename brand',
+        'Error al actualizar marca'
+      );
+    }
+  }
+
+  /**
+   * Desactivar una marca
+   * @route DELETE /api/catalogs/:marca
+   * @param {Request} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con catálogo desactivado
+   */
+  async deactivateBrand(req: Request, res: Response): Promise<Response> {
+    try {
+      const catalog = await catalogService.deactivateBrand(req.params.marca, getAuditContext(req));
+
+      return successResponse(res, 200, 'Marca desactivada exitosamente', catalog);
+    } catch (error) {
+      return catalogErrorResponse(
+        res,
+        error,
+        'Failed to deactivate brand',
+        'Error al desactivar marca'
+      );
+    }
+  }
+
+  /**
+   * Renombrar un modelo de una marca
+   * @route PATCH /api/catalogs/:marca/models/:modelo
+   * @param {Request} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con catálogo actualizado
+   */
+  async renameModel(req: Request, res: Response): Promise<Response> {
+    try {
+      const { marca, modelo } = req.params;
+
+      const catalog = await catalogService.renameModel(
+        marca,
+        modelo,
+        req.body.nombre,
+        getAuditContext(req)
+      );
+
+      return successResponse(res, 200, 'Modelo actualizado exitosamente', catalog);
+    } catch (error) {
+      return catalogErrorResponse(
+        res,
+        error,
+        'Failed to rename model',
+        'Error al actualizar modelo'
+      );
+    }
+  }
+
+  /**
+   * Desactivar un modelo de una marca
+   * @route DELETE /api/catalogs/:marca/models/:modelo
+   * @param {Request} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con catálogo actualizado
+   */
+  async deactivateModel(req: Request, res: Response): Promise<Response> {
+    try {
+      const { marca, modelo } = req.params;
+
+      const catalog = await catalogService.deactivateModel(marca, modelo, getAuditContext(req));
+
+      return successResponse(res, 200, 'Modelo desactivado exitosamente', catalog);
+    } catch (error) {
+      return catalogErrorResponse(
+        res,
+        error,
+        'Failed to deactivate model',
+        'Error al desactivar modelo'
       );
     }
   }
@@ -210,13 +339,13 @@ class CatalogController {
   /**
    * Inicializar catálogos con datos por defecto
    * @route POST /api/catalogs/initialize
-   * @param {Request} _req - Request de Express
+   * @param {Request} req - Request de Express
    * @param {Response} res - Response de Express
    * @returns {Promise<Response>} Respuesta de confirmación
    */
-  async initializeCatalogs(_req: Request, res: Response): Promise<Response> {
+  async initializeCatalogs(req: Request, res: Response): Promise<Response> {
     try {
-      await catalogService.initializeCatalogs();
+      await catalogService.initializeCatalogs(getAuditContext(req));
 
       return successResponse(res, 201, 'Catálogos inicializados exitosamente', {
         message: 'Default catalogs have been initialized',
@@ -0,0 +1,262 @@
+/**
+ * Organization Controller
+ * @module controllers/organization
+ * @description Controlador para endpoints de administración de organizaciones
+ */
+
+import { Response } from 'express';
+import organizationService from '../services/organization.service';
+import { successResponse, errorResponse } from '../utils/responseHandler';
+import {
+  AuthRequest,
+  CreateOrganizationDTO,
+  OrganizationResponse,
+  UpdateOrganizationDTO,
+} from '../types';
+import { IOrganization } from '../models/Organization';
+import { IUser } from '../models/User';
+import { getAuditContext } from '../utils/audit';
+
+/**
+ * Serializar una organización
+ * @param {IOrganization} organization - Organización a serializar
+ * @param {number} membersCount - Cantidad de miembros
+ * @returns {OrganizationResponse} Organización serializada
+ */
+const toOrganizationResponse = (
+  organization: IOrganization,
+  membersCount: number
+): OrganizationResponse => ({
+  id: String(organization._id),
+  name: organization.name,
+  slug: organization.slug,
+  isActive: organization.isActive,
+  isDefault: organizationService.isDefault(organization),
+  membersCount,
+  createdAt: organization.createdAt.toISOString(),
+  updatedAt: organization.updatedAt.toISOString(),
+});
+
+/**
+ * Serializar la membresía de un usuario
+ * @param {IUser} user - Usuario
+ * @returns {object} ID del usuario y sus organizaciones
+ */
+const toMembershipResponse = (user: IUser): { userId: string; organizations: string[] } => ({
+  userId: String(user._id),
+  organizations: user.organizations.map(String),
+});
+
+/**
+ * Responder errores de las operaciones sobre organizaciones
+ * @param {Response} res - Response de Express
+ * @param {unknown} error - Error capturado
+ * @param {string} message - Mensaje en inglés para errores inesperados
+ * @param {string} customMessage - Mensaje en español para errores inesperados
+ * @returns {Response} Respuesta de error
+ */
+const organizationErrorResponse = (
+  res: Response,
+  error: unknown,
+  message: string,
+  customMessage: string
+): Response => {
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'Organización no encontrada':
+      case 'Usuario no encontrado':
+      case 'El usuario no pertenece a la organización':
+        return errorResponse(res, 404, 'Not Found', error.message, error.message);
+      case 'La organización por defecto no se puede desactivar':
+        return errorResponse(res, 400, 'Bad Request', error.message, error.message);
+      case 'La organización ya existe':
+      case 'El usuario ya pertenece a la organización':
+        return errorResponse(res, 409, 'Conflict', error.message, error.message);
+    }
+  }
+
+  return errorResponse(res, 500, 'Internal Server Error', message, customMessage);
+};
+
+/**
+ * Controlador de Organizaciones
+ * @class OrganizationController
+ */
+class OrganizationController {
+  /**
+   * Listar organizaciones con la cantidad de miembros
+   * @route GET /api/organizations
+   * @param {AuthRequest} _req - Request de Express (no utilizado)
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con las organizaciones
+   */
+  async listOrganizations(_req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const [organizations, counts] = await Promise.all([
+        organizationService.listOrganizations(),
+        organizationService.countMembersByOrganization(),
+      ]);
+
+      return successResponse(
+        res,
+        200,
+        'Organizaciones obtenidas exitosamente',
+        organizations.map((organization) =>
+          toOrganizationResponse(organization, counts[String(organization._id)] ?? 0)
+        )
+      );
+    } catch {
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Failed to fetch organizations',
+        'Error al obtener organizaciones'
+      );
+    }
+  }
+
+  /**
+   * Obtener una organización por ID
+   * @route GET /api/organizations/:id
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con la organización
+   */
+  async getOrganizationById(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const organization = await organizationService.getOrganizationById(req.params.id);
+      const counts = await organizationService.countMembersByOrganization();
+
+      return successResponse(
+        res,
+        200,
+        'Organización obtenida exitosamente',
+        toOrganizationResponse(organization, counts[String(organization._id)] ?? 0)
+      );
+    } catch (error) {
+      return organizationErrorResponse(
+        res,
+        error,
+        'Failed to fetch organization',
+        'Error al obtener organización'
+      );
+    }
+  }
+
+  /**
+   * Crear una organización
+   * @route POST /api/organizations
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con la organización creada
+   */
+  async createOrganization(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const data: CreateOrganizationDTO = req.body;
+
+      const organization = await organizationService.createOrganization(data);
+
+      return successResponse(
+        res,
+        201,
+        'Organización creada exitosamente',
+        toOrganizationResponse(organization, 0)
+      );
+    } catch (error) {
+      return organizationErrorResponse(
+        res,
+        error,
+        'Failed to create organization',
+        'Error al crear organización'
+      );
+    }
+  }
+
+  /**
+   * Actualizar el nombre o el estado de una organización
+   * @route PATCH /api/organizations/:id
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con la organización actualizada
+   */
+  async updateOrganization(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const data: UpdateOrganizationDTO = {
+        name: req.body.name,
+        isActive: req.body.isActive,
+      };
+
+      const organization = await organizationService.updateOrganization(req.params.id, data);
+      const counts = await organizationService.countMembersByOrganization();
+
+      return successResponse(
+        res,
+        200,
+        'Organización actualizada exitosamente',
+        toOrganizationResponse(organization, counts[String(organization._id)] ?? 0)
+      );
+    } catch (error) {
+      return organizationErrorResponse(
+        res,
+        error,
+        'Failed to update organization',
+        'Error al actualizar organización'
+      );
+    }
+  }
+
+  /**
+   * Agregar un usuario a una organización
+   * @route POST /api/organizations/:id/members
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con las organizaciones del usuario
+   */
+  async addMember(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const user = await organizationService.addMember(
+        req.params.id,
+        req.body.userId,
+        getAuditContext(req)
+      );
+
+      return successResponse(res, 200, 'Miembro agregado exitosamente', toMembershipResponse(user));
+    } catch (error) {
+      return organizationErrorResponse(
+        res,
+        error,
+        'Failed to add member',
+        'Error al agregar miembro'
+      );
+    }
+  }
+
+  /**
+   * Quitar un usuario de una organización
+   * @route DELETE /api/organizations/:id/members/:userId
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con las organizaciones del usuario
+   */
+  async removeMember(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const user = await organizationService.removeMember(
+        req.params.id,
+        req.params.userId,
+        getAuditContext(req)
+      );
+
+      return successResponse(res, 200, 'Miembro quitado exitosamente', toMembershipResponse(user));
+    } catch (error) {
+      return organizationErrorResponse(
+        res,
+        error,
+        'Failed to remove member',
+        'Error al quitar miembro'
+      );
+    }
+  }
+}
+
+export default new OrganizationController();
@@ -0,0 +1,198 @@
+/**
+ * Role Controller
+ * @module controllers/role
+ * @description Controlador para endpoints de administración de roles y permisos
+ */
+
+import { Response } from 'express';
+import roleService from '../services/role.service';
+import { successResponse, errorResponse } from '../utils/responseHandler';
+import { AuthRequest, RoleDefinition, RoleResponse, UpdateRoleDTO } from '../types';
+import { IRole } from '../models/Role';
+import { PERMISSIONS } from '../config/permissions';
+
+/**
+ * Serializar un rol
+ * @param {IRole} role - Rol a serializar
+ * @param {number} usersCount - Cantidad de usuarios con el rol
+ * @returns {RoleResponse} Rol serializado
+ */
+const toRoleResponse = (role: IRole, usersCount: number): RoleResponse => ({
+  name: role.name,
+  description: role.description,
+  permissions: role.permissions,
+  isSystem: role.isSystem,
+  usersCount,
+});
+
+/**
+ * Responder errores de las operaciones sobre roles
+ * @param {Response} res - Response de Express
+ * @param {unknown} error - Error capturado
+ * @param {string} message - Mensaje en inglés para errores inesperados
+ * @param {string} customMessage - Mensaje en español para errores inesperados
+ * @returns {Response} Respuesta de error
+ */
+const roleErrorResponse = (
+  res: Response,
+  error: unknown,
+  message: string,
+  customMessage: string
+): Response => {
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'Rol no encontrado':
+        return errorResponse(res, 404, 'Not Found', error.message, error.message);
+      case 'El rol admin no se puede modificar':
+      case 'Los roles del sistema no se pueden eliminar':
+        return errorResponse(res, 400, 'Bad Request', error.message, error.message);
+      case 'El rol ya existe':
+      case 'El rol está asignado a usuarios':
+        return errorResponse(res, 409, 'Conflict', error.message, error.message);
+    }
+  }
+
+  return errorResponse(res, 500, 'Internal Server Error', message, customMessage);
+};
+
+/**
+ * Controlador de Roles
+ * @class RoleController
+ */
+class RoleController {
+  /**
+   * Listar los permisos registrados con su descripción
+   * @route GET /api/roles/permissions
+   * @param {AuthRequest} _req - Request de Express (no utilizado)
+   * @param {Response} res - Response de Express
+   * @returns {Response} Respuesta con los permisos
+   */
+  getPermissions(_req: AuthRequest, res: Response): Response {
+    const permissions = Object.entries(PERMISSIONS).map(([name, description]) => ({
+      name,
+      description,
+    }));
+
+    return successResponse(res, 200, 'Permisos obtenidos exitosamente', permissions);
+  }
+
+  /**
+   * Listar roles con sus permisos y cantidad de usuarios
+   * @route GET /api/roles
+   * @param {AuthRequest} _req - Request de Express (no utilizado)
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con los roles
+   */
+  async listRoles(_req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const [roles, counts] = await Promise.all([
+        roleService.listRoles(),
+        roleService.countUsersByRole(),
+      ]);
+
+      return successResponse(
+        res,
+        200,
+        'Roles obtenidos exitosamente',
+        roles.map((role) => toRoleResponse(role, counts[role.name] ?? 0))
+      );
+    } catch {
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Failed to fetch roles',
+        'Error al obtener roles'
+      );
+    }
+  }
+
+  /**
+   * Obtener un rol por nombre
+   * @route GET /api/roles/:name
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con el rol
+   */
+  async getRole(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const role = await roleService.getRole(req.params.name);
+      const counts = await roleService.countUsersByRole();
+
+      return successResponse(
+        res,
+        200,
+        'Rol obtenido exitosamente',
+        toRoleResponse(role, counts[role.name] ?? 0)
+      );
+    } catch (error) {
+      return roleErrorResponse(res, error, 'Failed to fetch role', 'Error al obtener rol');
+    }
+  }
+
+  /**
+   * Crear un rol personalizado
+   * @route POST /api/roles
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con el rol creado
+   */
+  async createRole(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const data: RoleDefinition = req.body;
+
+      const role = await roleService.createRole(data);
+
+      return successResponse(res, 201, 'Rol creado exitosamente', toRoleResponse(role, 0));
+    } catch (error) {
+      return roleErrorResponse(res, error, 'Failed to create role', 'Error al crear rol');
+    }
+  }
+
+  /**
+   * Actualizar la descripción o los permisos de un rol
+   * @route PATCH /api/roles/:name
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con el rol actualizado
+   */
+  async updateRole(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const data: UpdateRoleDTO = {
+        description: req.body.description,
+        permissions: req.body.permissions,
+      };
+
+      const role = await roleService.updateRole(req.params.name, data);
+      const counts = await roleService.countUsersByRole();
+
+      return successResponse(
+        res,
+        200,
+        'Rol actualizado exitosamente',
+        toRoleResponse(role, counts[role.name] ?? 0)
+      );
+    } catch (error) {
+      return roleErrorResponse(res, error, 'Failed to update role', 'Error al actualizar rol');
+    }
+  }
+
+  /**
+   * Eliminar un rol personalizado sin usuarios
+   * @route DELETE /api/roles/:name
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta vacía
+   */
+  async deleteRole(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      await roleService.deleteRole(req.params.name);
+
+      return successResponse(res, 200, 'Rol eliminado exitosamente', null);
+    } catch (error) {
+      return roleErrorResponse(res, error, 'Failed to delete role', 'Error al eliminar rol');
+    }
+  }
+}
+
+export default new RoleController();
@@ -0,0 +1,270 @@
+/**
+ * User Controller
+ * @module controllers/user
+ * @description Controlador para endpoints de administración de usuarios
+ */
+
+import { Response } from 'express';
+import userService from '../services/user.service';
+import carService from '../services/car.service';
+import { successResponse, errorResponse } from '../utils/responseHandler';
+import { AuthRequest, UpdateUserDTO, UserFilters, UserResponse, UserRole } from '../types';
+import { IUser } from '../models/User';
+import { ICar } from '../models/Car';
+import { toCarResponse } from './car.controller';
+import { getAuditContext } from '../utils/audit';
+
+/**
+ * Serializar un usuario sin exponer la contraseña ni campos internos
+ * @param {IUser} user - Usuario a serializar
+ * @returns {UserResponse} Usuario serializado
+ */
+const toUserResponse = (user: IUser): UserResponse => ({
+  id: String(user._id),
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  isActive: user.isActive,
+  emailVerified: user.emailVerified,
+  twoFactorEnabled: user.twoFactorEnabled,
+  failedLoginAttempts: user.failedLoginAttempts,
+  lockedUntil: user.lockedUntil ? user.lockedUntil.toISOString() : null,
+  organizations: (user.organizations ?? []).map(String),
+  createdAt: user.createdAt.toISOString(),
+  updatedAt: user.updatedAt.toISOString(),
+});
+
+/**
+ * Responder errores de las operaciones de actualización de usuarios
+ * @param {Response} res - Response de Express
+ * @param {unknown} error - Error capturado
+ * @param {string} message - Mensaje en inglés para errores inesperados
+ * @param {string} customMessage - Mensaje en español para errores inesperados
+ * @returns {Response} Respuesta de error
+ */
+const userErrorResponse = (
+  res: Response,
+  error: unknown,
+  message: string,
+  customMessage: string
+): Response => {
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'Usuario no encontrado':
+        return errorResponse(res, 404, 'Not Found', error.message, error.message);
+      case 'No puedes cambiar tu propio rol ni desactivar tu propia cuenta':
+        return errorResponse(res, 400, 'Bad Request', error.message, error.message);
+      case 'Debe existir al menos un administrador activo':
+        return errorResponse(res, 409, 'Conflict', error.message, error.message);
+    }
+  }
+
+  return errorResponse(res, 500, 'Internal Server Error', message, customMessage);
+};
+
+/**
+ * Controlador de Usuarios
+ * @class UserController
+ */
+class UserController {
+  /**
+   * Listar usuarios con búsqueda y paginación
+   * @route GET /api/users
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con usuarios paginados
+   */
+  async listUsers(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const filters: UserFilters = {
+        search: req.query.search as string,
+        role: req.query.role as UserRole,
+        isActive: req.query.isActive as unknown as boolean | undefined,
+        locked: req.query.locked as unknown as boolean | undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : 1,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 10,
+      };
+
+      const result = await userService.listUsers(filters);
+
+      return successResponse(res, 200, 'Usuarios obtenidos exitosamente', {
+        ...result,
+        data: result.data.map(toUserResponse),
+      });
+    } catch {
+      return errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Failed to fetch users',
+        'Error al obtener usuarios'
+      );
+    }
+  }
+
+  /**
+   * Obtener usuario por ID
+   * @route GET /api/users/:id
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con usuario encontrado
+   */
+  async getUserById(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const user = await userService.getUserById(req.params.id);
+
+      return successResponse(res, 200, 'Usuario obtenido exitosamente', toUserResponse(user));
+    } catch (error) {
+      return userErrorResponse(res, error, 'Failed to fetch user', 'Error al obtener usuario');
+    }
+  }
+
+  /**
+   * Actualizar nombre, rol o estado de un usuario
+   * @route PATCH /api/users/:id
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con usuario actualizado
+   */
+  async updateUser(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const data: UpdateUserDTO = req.body;
+
+      const user = await userService.updateUser(
+        req.params.id,
+        data,
+        req.user!.id,
+        getAuditContext(req)
+      );
+
+      return successResponse(res, 200, 'Usuario actualizado exitosamente', toUserResponse(user));
+    } catch (error) {
+      return userErrorResponse(res, error, 'Failed to update user', 'Error al actualizar usuario');
+    }
+  }
+
+  /**
+   * Cambiar el rol de un usuario
+   * @route PUT /api/users/:id/role
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con usuario actualizado
+   */
+  async updateRole(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const user = await userService.updateUser(
+        req.params.id,
+        { role: req.body.role },
+        req.user!.id,
+        getAuditContext(req)
+      );
+
+      return successResponse(res, 200, 'Rol actualizado exitosamente', toUserResponse(user));
+    } catch (error) {
+      return userErrorResponse(res, error, 'Failed to update role', 'Error al actualizar rol');
+    }
+  }
+
+  /**
+   * Desactivar un usuario y revocar sus sesiones
+   * @route POST /api/users/:id/deactivate
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con usuario desactivado
+   */
+  async deactivateUser(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const user = await userService.updateUser(
+        req.params.id,
+        { isActive: false },
+        req.user!.id,
+        getAuditContext(req)
+      );
+
+      return successResponse(res, 200, 'Usuario desactivado exitosamente', toUserResponse(user));
+    } catch (error) {
+      return userErrorResponse(
+        res,
+        error,
+        'Failed to deactivate user',
+        'Error al desactivar usuario'
+      );
+    }
+  }
+
+  /**
+   * Reactivar un usuario desactivado
+   * @route POST /api/users/:id/reactivate
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con usuario reactivado
+   */
+  async reactivateUser(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const user = await userService.updateUser(
+        req.params.id,
+        { isActive: true },
+        req.user!.id,
+        getAuditContext(req)
+      );
+
+      return successResponse(res, 200, 'Usuario reactivado exitosamente', toUserResponse(user));
+    } catch (error) {
+      return userErrorResponse(
+        res,
+        error,
+        'Failed to reactivate user',
+        'Error al reactivar usuario'
+      );
+    }
+  }
+
+  /**
+   * Desbloquear una cuenta bloqueada por intentos fallidos de login
+   * @route POST /api/users/:id/unlock
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con usuario desbloqueado
+   */
+  async unlockUser(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const user = await userService.unlockUser(req.params.id, getAuditContext(req));
+
+      return successResponse(res, 200, 'Usuario desbloqueado exitosamente', toUserResponse(user));
+    } catch (error) {
+      return userErrorResponse(res, error, 'Failed to unlock user', 'Error al desbloquear usuario');
+    }
+  }
+
+  /**
+   * Obtener los autos creados por un usuario
+   * @route GET /api/users/:id/cars
+   * @param {AuthRequest} req - Request de Express
+   * @param {Response} res - Response de Express
+   * @returns {Promise<Response>} Respuesta con autos paginados
+   */
+  async getUserCars(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      const user = await userService.getUserById(req.params.id);
+      const page = req.query.page ? parseInt(req.query.page as string) : 1;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
+      const includeDeleted = (req.query.includeDeleted as unknown as boolean) === true;
+
+      const result = await carService.getCarsByUser(String(user._id), page, limit, includeDeleted);
+
+      return successResponse(res, 200, 'Autos del usuario obtenidos exitosamente', {
+        ...result,
+        data: result.data.map((car: ICar) => toCarResponse(car, req)),
+      });
+    } catch (error) {
+      return userErrorResponse(
+        res,
+        error,
+        'Failed to fetch user cars',
+        'Error al obtener autos del usuario'
+      );
+    }
+  }
+}
+
+export default new UserController();
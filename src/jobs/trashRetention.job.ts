@@ -0,0 +1,61 @@
+/**
+ * Trash Retention Job
+ * @module jobs/trashRetention
+ * @description Tarea periódica que purga los autos que superan el tiempo de retención en la papelera
+ */
+
+import carService from '../services/car.service';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+
+/**
+ * Ejecutar una purga de la papelera según la retención configurada
+ * y reportar los archivos huérfanos que queden en el directorio de uploads
+ * @returns {Promise<number>} Cantidad de autos eliminados permanentemente
+ */
+export const runTrashRetention = async (): Promise<number> => {
+  try {
+    const purged = await carService.purgeDeletedCars(config.TRASH_RETENTION_DAYS);
+
+    if (purged > 0) {
+      logger.info(`Trash retention: ${purged} car(s) permanently deleted`);
+    }
+
+    const orphans = await carService.findOrphanedPhotos();
+    if (orphans.length > 0) {
+      logger.warn(
+        `Trash retention: ${orphans.length} orphaned file(s) in uploads directory, see GET /api/cars/photos/orphans`
+      );
+    }
+
+    return purged;
+  } catch (error) {
+    logger.error('Trash retention job failed:', error);
+    return 0;
+  }
+};
+
+/**
+ * Iniciar la purga automática de la papelera
+ * @returns {NodeJS.Timeout | null} Intervalo programado o null si la retención está desactivada
+ */
+export const startTrashRetentionJob = (): NodeJS.Timeout | null => {
+  if (config.TRASH_RETENTION_DAYS <= 0 || config.TRASH_PURGE_INTERVAL_HOURS <= 0) {
+    logger.info('Trash retention job disabled');
+    return null;
+  }
+
+  const intervalMs = config.TRASH_PURGE_INTERVAL_HOURS * 60 * 60 * 1000;
+  const timer = setInterval(runTrashRetention, intervalMs);
+
+  // No mantener vivo el proceso solo por esta tarea
+  timer.unref();
+
+  void runTrashRetention();
+
+  logger.info(
+    `Trash retention job scheduled: cars older than ${config.TRASH_RETENTION_DAYS} days every ${config.TRASH_PURGE_INTERVAL_HOURS}h`
+  );
+
+  return timer;
+};
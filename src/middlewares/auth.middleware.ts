@@ -7,11 +7,32 @@
 import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { config } from '../config/env';
-import { AuthRequest, JWTPayload, UserRole } from '../types';
+import { ADMIN_ROLE } from '../config/permissions';
+import { ApiKeyScope, AuthRequest, JWTPayload, Permission } from '../types';
 import { errorResponse } from '../utils/responseHandler';
+import authService from '../services/auth.service';
+import apiKeyService from '../services/apiKey.service';
+import roleService from '../services/role.service';
+
+/**
+ * Errores de validación de sesión que implican un token no aceptado
+ */
+const SESSION_ERRORS = ['Usuario no encontrado', 'Cuenta desactivada', 'Sesión revocada'];
+
+/**
+ * Errores de validación de API keys que implican una key no aceptada
+ */
+const API_KEY_ERRORS = [
+  'API key inválida',
+  'API key expirada',
+  'Usuario no encontrado',
+  'Cuenta desactivada',
+];
 
 /**
  * Middleware para verificar JWT
+ * Además de la firma verifica en la base de datos que el usuario siga activo
+ * y que la sesión no haya sido revocada (logout, cambio de contraseña, etc.)
  * @param {AuthRequest} req - Request con usuario
  * @param {Response} res - Response de Express
  * @param {NextFunction} next - Función next
@@ -36,12 +57,8 @@ export const authenticate = async (
     // Verificar token
     const decoded = jwt.verify(token, config.JWT_SECRET) as JWTPayload;
 
-    // Agregar usuario al request
-    req.user = {
-      id: decoded.id,
-      email: decoded.email,
-      role: decoded.role,
-    };
+    // Agregar usuario al request con sus datos actuales
+    req.user = await authService.validateSession(decoded);
 
     next();
   } catch (error) {
@@ -55,6 +72,11 @@ export const authenticate = async (
       return;
     }
 
+    if (error instanceof Error && SESSION_ERRORS.includes(error.message)) {
+      errorResponse(res, 401, 'Unauthorized', 'Session is no longer valid', error.message);
+      return;
+    }
+
     errorResponse(
       res,
       500,
@@ -66,19 +88,98 @@ export const authenticate = async (
 };
 
 /**
- * Middleware para verificar rol de usuario
- * @param {UserRole[]} roles - Roles permitidos
+ * Middleware que acepta una API key con el alcance indicado o, si no se envía
+ * X-API-Key, el Bearer JWT habitual. Las rutas que solo usan authenticate
+ * no aceptan API keys
+ * @param {ApiKeyScope} scope - Alcance que debe tener la API key
  * @returns {Function} Middleware function
  */
-export const authorize = (roles: UserRole[]) => {
-  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+export const authenticateWithScope = (scope: ApiKeyScope) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    const key = req.headers['x-api-key'];
+
+    if (typeof key !== 'string' || key === '') {
+      return authenticate(req, res, next);
+    }
+
+    try {
+      const { user, apiKey } = await apiKeyService.validateKey(key, req.ip);
+
+      if (!apiKey.scopes.includes(scope)) {
+        errorResponse(
+          res,
+          403,
+          'Forbidden',
+          'Insufficient API key scope',
+          `La API key no tiene el alcance requerido: ${scope}`
+        );
+        return;
+      }
+
+      req.user = user;
+      req.apiKey = apiKey;
+
+      next();
+    } catch (error) {
+      if (error instanceof Error && API_KEY_ERRORS.includes(error.message)) {
+        errorResponse(res, 401, 'Unauthorized', 'Invalid API key', error.message);
+        return;
+      }
+
+      errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Authentication error',
+        'Error de autenticación'
+      );
+    }
+  };
+};
+
+/**
+ * Middleware para verificar que el rol del usuario tenga todos los permisos indicados
+ * Los permisos de cada rol se leen de la colección de roles (ver config/permissions).
+ * Si REQUIRE_2FA_FOR_ADMINS está activo, los admins sin 2FA no usan sus permisos
+ * @param {...Permission} permissions - Permisos requeridos
+ * @returns {Function} Middleware function
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
     if (!req.user) {
       errorResponse(res, 401, 'Unauthorized', 'Not authenticated', 'No autenticado');
       return;
     }
 
-    if (!roles.includes(req.user.role as UserRole)) {
-      errorResponse(res, 403, 'Forbidden', 'Insufficient permissions', 'Permisos insuficientes');
+    try {
+      if (!(await roleService.hasPermissions(req.user.role, permissions))) {
+        errorResponse(res, 403, 'Forbidden', 'Insufficient permissions', 'Permisos insuficientes');
+        return;
+      }
+    } catch {
+      errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Authorization error',
+        'Error de autorización'
+      );
+      return;
+    }
+
+    // Con REQUIRE_2FA_FOR_ADMINS los permisos de admin exigen tener la 2FA activada
+    if (
+      req.user.role === ADMIN_ROLE &&
+      config.REQUIRE_2FA_FOR_ADMINS &&
+      !req.user.twoFactorEnabled
+    ) {
+      errorResponse(
+        res,
+        403,
+        'Forbidden',
+        'Two-factor authentication required',
+        'Los administradores deben activar la autenticación en dos pasos'
+      );
       return;
     }
 
@@ -86,6 +187,58 @@ export const authorize = (roles: UserRole[]) => {
   };
 };
 
+/**
+ * Middleware que restringe una ruta al rol admin
+ * Para operaciones globales de la plataforma, que no se limitan a una organización y
+ * por eso no se pueden delegar con un permiso asignable a otros roles
+ * @param {AuthRequest} req - Request con usuario
+ * @param {Response} res - Response de Express
+ * @param {NextFunction} next - Función next
+ * @returns {Promise<void>}
+ */
+export const requireAdmin = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (req.user && req.user.role !== ADMIN_ROLE) {
+    errorResponse(res, 403, 'Forbidden', 'Insufficient permissions', 'Permisos insuficientes');
+    return;
+  }
+
+  // Sin permisos adicionales: solo se aplica la exigencia de 2FA para admins
+  return requirePermission()(req, res, next);
+};
+
+/**
+ * Middleware que exige un email verificado cuando la política está activa
+ * (REQUIRE_VERIFIED_EMAIL_FOR_CARS). Los usuarios sin verificar pueden iniciar
+ * sesión y consultar, pero no publicar autos
+ * @param {AuthRequest} req - Request con usuario
+ * @param {Response} res - Response de Express
+ * @param {NextFunction} next - Función next
+ * @returns {void}
+ */
+export const requireVerifiedEmail = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    errorResponse(res, 401, 'Unauthorized', 'Not authenticated', 'No autenticado');
+    return;
+  }
+
+  if (config.REQUIRE_VERIFIED_EMAIL_FOR_CARS && !req.user.emailVerified) {
+    errorResponse(
+      res,
+      403,
+      'Forbidden',
+      'Email not verified',
+      'Debes verificar tu email para publicar autos'
+    );
+    return;
+  }
+
+  next();
+};
+
 /**
  * Middleware opcional de autenticación
  * Permite acceso sin autenticación pero agrega usuario si está autenticado
@@ -106,11 +259,7 @@ export const optionalAuthenticate = async (
       const token = authHeader.substring(7);
       const decoded = jwt.verify(token, config.JWT_SECRET) as JWTPayload;
 
-      req.user = {
-        id: decoded.id,
-        email: decoded.email,
-        role: decoded.role,
-      };
+      req.user = await authService.validateSession(decoded);
     }
 
     next();
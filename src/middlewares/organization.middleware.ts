@@ -0,0 +1,62 @@
+/**
+ * Organization Middleware
+ * @module middlewares/organization
+ * @description Resolución de la organización activa del request (multi-tenencia)
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../types';
+import { errorResponse } from '../utils/responseHandler';
+import organizationService from '../services/organization.service';
+
+/**
+ * Middleware que resuelve la organización en la que opera el usuario autenticado
+ * El header X-Organization-Id elige una de sus organizaciones; si no se envía se usa
+ * la primera a la que pertenece o, si no pertenece a ninguna, la organización por defecto.
+ * Los servicios de autos filtran por req.organization
+ * @param {AuthRequest} req - Request con usuario
+ * @param {Response} res - Response de Express
+ * @param {NextFunction} next - Función next
+ * @returns {Promise<void>}
+ */
+export const resolveOrganization = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!req.user) {
+    errorResponse(res, 401, 'Unauthorized', 'Not authenticated', 'No autenticado');
+    return;
+  }
+
+  const header = req.headers['x-organization-id'];
+  const requestedId = typeof header === 'string' && header !== '' ? header : undefined;
+
+  try {
+    req.organization = await organizationService.resolveActiveOrganization(req.user, requestedId);
+
+    next();
+  } catch (error) {
+    if (error instanceof Error) {
+      switch (error.message) {
+        case 'Organización no encontrada':
+          errorResponse(res, 404, 'Not Found', 'Organization not found', error.message);
+          return;
+        case 'No perteneces a esta organización':
+          errorResponse(res, 403, 'Forbidden', 'Not a member of this organization', error.message);
+          return;
+        case 'Organización desactivada':
+          errorResponse(res, 403, 'Forbidden', 'Organization is deactivated', error.message);
+          return;
+      }
+    }
+
+    errorResponse(
+      res,
+      500,
+      'Internal Server Error',
+      'Organization resolution error',
+      'Error al resolver la organización'
+    );
+  }
+};
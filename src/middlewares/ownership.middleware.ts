@@ -0,0 +1,88 @@
+/**
+ * Ownership Middleware
+ * @module middlewares/ownership
+ * @description Políticas de autorización basadas en el propietario del recurso
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthRequest, Permission } from '../types';
+import { errorResponse } from '../utils/responseHandler';
+import { requirePermission } from './auth.middleware';
+import carService from '../services/car.service';
+import roleService from '../services/role.service';
+
+/**
+ * Función que resuelve el ID del propietario del recurso solicitado
+ * Retorna undefined si el recurso no existe y null si no tiene propietario
+ */
+export type OwnerResolver = (req: AuthRequest) => Promise<string | null | undefined>;
+
+/**
+ * Middleware que permite el acceso al propietario del recurso con el permiso sobre
+ * recursos propios, o a cualquier usuario con el permiso sobre todos los recursos
+ * Si el recurso no existe se delega al controlador para que responda 404
+ * @param {OwnerResolver} resolveOwner - Función que obtiene el propietario del recurso
+ * @param {Permission} ownPermission - Permiso para modificar recursos propios
+ * @param {Permission} anyPermission - Permiso para modificar cualquier recurso
+ * @returns {Function} Middleware function
+ */
+export const authorizeOwnerOrPermission = (
+  resolveOwner: OwnerResolver,
+  ownPermission: Permission,
+  anyPermission: Permission
+) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      errorResponse(res, 401, 'Unauthorized', 'Not authenticated', 'No autenticado');
+      return;
+    }
+
+    try {
+      // Los usuarios con el permiso global pasan por la verificación de permisos estándar
+      if (await roleService.hasPermissions(req.user.role, [anyPermission])) {
+        await requirePermission(anyPermission)(req, res, next);
+        return;
+      }
+
+      if (!(await roleService.hasPermissions(req.user.role, [ownPermission]))) {
+        errorResponse(res, 403, 'Forbidden', 'Insufficient permissions', 'Permisos insuficientes');
+        return;
+      }
+
+      const ownerId = await resolveOwner(req);
+
+      if (ownerId === undefined || ownerId === req.user.id) {
+        next();
+        return;
+      }
+
+      errorResponse(
+        res,
+        403,
+        'Forbidden',
+        'Only the owner or an authorized user can modify this resource',
+        'Solo el propietario o un usuario autorizado puede modificar este recurso'
+      );
+    } catch {
+      errorResponse(
+        res,
+        500,
+        'Internal Server Error',
+        'Authorization error',
+        'Error de autorización'
+      );
+    }
+  };
+};
+
+/**
+ * Middleware para permitir la modificación de un auto a su creador (cars:update:own)
+ * o a quien pueda editar cualquier auto (cars:update:any) de la organización activa
+ * Requiere resolveOrganization; los autos de otras organizaciones se tratan como inexistentes
+ * @type {Function}
+ */
+export const authorizeCarOwner = authorizeOwnerOrPermission(
+  (req) => carService.getCarOwnerId(req.params.id, req.organization!),
+  'cars:update:own',
+  'cars:update:any'
+);
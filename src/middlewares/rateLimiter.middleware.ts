@@ -8,6 +8,7 @@ import rateLimit from 'express-rate-limit';
 import { errorResponse } from '../utils/responseHandler';
 import { Response, Request } from 'express';
 import { config } from '../config/env';
+import { AuthRequest } from '../types';
 
 // Desactivar rate limiting en ambiente de test
 const isTestEnv = config.NODE_ENV === 'test';
@@ -96,3 +97,46 @@ export const uploadLimiter = rateLimit({
     );
   },
 });
+
+/**
+ * Rate limiter para solicitudes de restablecimiento de contraseña
+ * 5 solicitudes por hora por IP, cuenten o no como exitosas
+ */
+export const passwordResetLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hora
+  max: isTestEnv ? 10000 : 5, // Sin límite en test
+  message: 'Demasiadas solicitudes de restablecimiento, por favor intente más tarde',
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (_req: Request, res: Response) => {
+    errorResponse(
+      res,
+      429,
+      'Too Many Requests',
+      'Too many password reset requests from this IP, please try again later',
+      'Demasiadas solicitudes de restablecimiento, por favor intente más tarde'
+    );
+  },
+});
+
+/**
+ * Rate limiter para el reenvío de correos de verificación
+ * 3 solicitudes por hora por usuario autenticado (o por IP si no lo está)
+ */
+export const emailVerificationLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hora
+  max: isTestEnv ? 10000 : 3, // Sin límite en test
+  keyGenerator: (req: Request) => (req as AuthRequest).user?.id ?? req.ip ?? '',
+  message: 'Demasiadas solicitudes de verificación, por favor intente más tarde',
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (_req: Request, res: Response) => {
+    errorResponse(
+      res,
+      429,
+      'Too Many Requests',
+      'Too many verification emails requested, please try again later',
+      'Demasiadas solicitudes de verificación, por favor intente más tarde'
+    );
+  },
+});
@@ -0,0 +1,32 @@
+/**
+ * Request ID Middleware
+ * @module middlewares/requestId
+ * @description Identificador de cada request para correlacionar logs y auditoría
+ */
+
+import { Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { AuthRequest } from '../types';
+
+/**
+ * Formato aceptado para un X-Request-Id enviado por el cliente o un proxy
+ */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Middleware que asigna req.requestId y lo devuelve en el header X-Request-Id
+ * Reutiliza el X-Request-Id recibido si es válido; si no, genera un UUID
+ * @param {AuthRequest} req - Request de Express
+ * @param {Response} res - Response de Express
+ * @param {NextFunction} next - Función next
+ * @returns {void}
+ */
+export const requestId = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  const header = req.headers['x-request-id'];
+
+  req.requestId =
+    typeof header === 'string' && REQUEST_ID_PATTERN.test(header) ? header : crypto.randomUUID();
+  res.setHeader('X-Request-Id', req.requestId);
+
+  next();
+};
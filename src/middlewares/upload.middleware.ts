@@ -1,43 +1,46 @@
 /**
  * File Upload Middleware
  * @module middlewares/upload
- * @description Middleware para subir archivos con Multer
+ * @description Middleware para subir archivos con Multer y guardarlos en el almacenamiento configurado
  */
 
 import multer, { FileFilterCallback } from 'multer';
 import path from 'path';
-import fs from 'fs';
-import { Request } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { config } from '../config/env';
+import storageService from '../services/storage.service';
+import { UploadedFileInfo } from '../types';
+import { errorResponse } from '../utils/responseHandler';
+import {
+  IMAGE_RENDITIONS,
+  INVALID_IMAGE_ERROR,
+  ImageRendition,
+  ProcessedImage,
+  getRenditionFilename,
+  processImage,
+} from '../utils/image';
 
 /**
- * Crear directorio de uploads si no existe
+ * Generar un nombre de archivo aleatorio conservando la extensión original
+ * @param {string} originalname - Nombre original del archivo
+ * @returns {string} Nombre único con formato timestamp-random1-random2.ext
  */
-const uploadsDir = path.resolve(config.UPLOAD_PATH);
-if (!fs.existsSync(uploadsDir)) {
-  fs.mkdirSync(uploadsDir, { recursive: true });
-}
+const generateFilename = (originalname: string): string => {
+  const timestamp = Date.now().toString(36);
+  const randomStr = Math.random().toString(36).substring(2, 15);
+  const randomStr2 = Math.random().toString(36).substring(2, 15);
+  const ext = path.extname(originalname).toLowerCase();
+
+  return `${timestamp}-${randomStr}-${randomStr2}${ext}`;
+};
 
 /**
  * Configuración de almacenamiento de Multer
+ * Los archivos se mantienen en memoria hasta ser procesados y guardados
+ * en el driver de almacenamiento por processUploadedImages
  * @type {multer.StorageEngine}
  */
-const storage = multer.diskStorage({
-  destination: (_req: Request, _file: Express.Multer.File, cb) => {
-    cb(null, uploadsDir);
-  },
-  filename: (_req: Request, file: Express.Multer.File, cb) => {
-    // Generar nombre completamente aleatorio usando UUID-like pattern
-    const timestamp = Date.now().toString(36);
-    const randomStr = Math.random().toString(36).substring(2, 15);
-    const randomStr2 = Math.random().toString(36).substring(2, 15);
-    const ext = path.extname(file.originalname).toLowerCase();
-
-    // Formato: timestamp-random1-random2.ext
-    const uniqueName = `${timestamp}-${randomStr}-${randomStr2}${ext}`;
-    cb(null, uniqueName);
-  },
-});
+const storage = multer.memoryStorage();
 
 /**
  * Filtro de archivos - Solo imágenes
@@ -89,29 +92,99 @@ export const uploadMultiple = (maxCount: number = 5) => {
 };
 
 /**
- * Función para eliminar archivo
- * @param {string} filePath - Ruta del archivo a eliminar
+ * Filtro de archivos - Solo planillas CSV o XLSX para la importación de autos
+ * @param {Request} _req - Request de Express
+ * @param {Express.Multer.File} file - Archivo subido
+ * @param {FileFilterCallback} cb - Callback
+ * @returns {void}
+ */
+const importFileFilter = (
+  _req: Request,
+  file: Express.Multer.File,
+  cb: FileFilterCallback
+): void => {
+  const ext = path.extname(file.originalname).toLowerCase();
+
+  if (['.csv', '.xlsx'].includes(ext)) {
+    cb(null, true);
+  } else {
+    cb(new multer.MulterError('LIMIT_UNEXPECTED_FILE', 'file'));
+  }
+};
+
+/**
+ * Configuración de Multer para la importación de autos
+ * El archivo se mantiene en memoria y nunca se guarda en el almacenamiento
+ * @type {multer.Multer}
+ */
+const importUpload = multer({
+  storage,
+  fileFilter: importFileFilter,
+  limits: {
+    fileSize: config.IMPORT_MAX_FILE_SIZE, // 2MB por defecto
+    files: 1,
+  },
+});
+
+/**
+ * Middleware para subir el archivo CSV o XLSX de una importación de autos
+ * Responde 400 si el archivo excede el tamaño máximo o no es CSV/XLSX
+ * @param {Request} req - Request de Express
+ * @param {Response} res - Response de Express
+ * @param {NextFunction} next - Next function
+ * @returns {void}
+ */
+export const uploadImportFile = (req: Request, res: Response, next: NextFunction): void => {
+  importUpload.single('file')(req, res, (error: unknown) => {
+    if (!error) {
+      next();
+      return;
+    }
+
+    if (error instanceof multer.MulterError) {
+      if (error.code === 'LIMIT_FILE_SIZE') {
+        errorResponse(
+          res,
+          400,
+          'Bad Request',
+          'File too large',
+          'El archivo supera el tamaño máximo permitido'
+        );
+      } else {
+        errorResponse(
+          res,
+          400,
+          'Bad Request',
+          'Only CSV or XLSX files are allowed',
+          'Solo se permite un archivo CSV o XLSX en el campo file'
+        );
+      }
+      return;
+    }
+
+    next(error);
+  });
+};
+
+/**
+ * Función para eliminar archivo junto con sus versiones redimensionadas
+ * @param {string} filePath - Nombre o ruta del archivo a eliminar
  * @returns {Promise<void>}
  */
 export const deleteFile = async (filePath: string): Promise<void> => {
   try {
     // Prevenir path traversal: solo usar el basename
     const safeFilename = path.basename(filePath);
-    const fullPath = path.join(uploadsDir, safeFilename);
 
-    // Verificar que el path resultante esté dentro del directorio de uploads
-    const normalizedPath = path.normalize(fullPath);
-    if (!normalizedPath.startsWith(uploadsDir)) {
-      console.error(`❌ Path inválido intentado: ${filePath}`);
-      throw new Error('Invalid file path');
-    }
-
-    if (fs.existsSync(fullPath)) {
-      fs.unlinkSync(fullPath);
+    if (await storageService.remove(safeFilename)) {
       console.log(`✅ Archivo eliminado exitosamente: ${safeFilename}`);
     } else {
       console.warn(`⚠️  Archivo no encontrado para eliminar: ${safeFilename}`);
     }
+
+    for (const rendition of IMAGE_RENDITIONS) {
+      await storageService.remove(getRenditionFilename(safeFilename, rendition));
+    }
   } catch (error) {
     console.error(`❌ Error al eliminar archivo ${filePath}:`, error);
     throw error;
@@ -125,9 +198,118 @@ export const deleteFile = async (filePath: string): Promise<void> => {
  * @returns {string} URL completa del archivo
  */
 export const getFileUrl = (filename: string, req: Request): string => {
-  // Sanitizar filename para prevenir path traversal
-  const safeFilename = path.basename(filename);
-  return `${req.protocol}://${req.get('host')}/uploads/${safeFilename}`;
+  return storageService.getPublicUrl(path.basename(filename), req);
+};
+
+/**
+ * Función para obtener la URL pública de una versión redimensionada del archivo
+ * @param {string} filename - Nombre del archivo original
+ * @param {ImageRendition} rendition - Versión solicitada
+ * @param {Request} req - Request de Express
+ * @returns {string} URL completa de la versión
+ */
+export const getRenditionUrl = (
+  filename: string,
+  rendition: ImageRendition,
+  req: Request
+): string => {
+  return getFileUrl(getRenditionFilename(path.basename(filename), rendition), req);
+};
+
+/**
+ * Función para obtener los nombres de los archivos subidos en un request
+ * Soporta uploadSingle (req.file) y uploadMultiple (req.files)
+ * @param {Request} req - Request de Express
+ * @returns {string[]} Nombres de los archivos subidos
+ */
+export const getUploadedFilenames = (req: Request): string[] => {
+  // Los archivos aún no procesados no tienen nombre asignado
+  if (req.file) {
+    return req.file.filename ? [req.file.filename] : [];
+  }
+
+  if (Array.isArray(req.files)) {
+    return req.files.map((file) => file.filename).filter(Boolean);
+  }
+
+  return [];
+};
+
+/**
+ * Función para listar los archivos almacenados
+ * @returns {Promise<UploadedFileInfo[]>} Archivos con tamaño y fecha de modificación
+ */
+export const listUploadedFiles = (): Promise<UploadedFileInfo[]> => {
+  return storageService.list();
+};
+
+/**
+ * Función para guardar una imagen procesada junto con sus versiones redimensionadas
+ * @param {string} filename - Nombre del archivo original
+ * @param {ProcessedImage} image - Imagen procesada
+ * @returns {Promise<void>}
+ */
+export const saveProcessedImage = async (
+  filename: string,
+  image: ProcessedImage
+): Promise<void> => {
+  await storageService.save(filename, image.original, image.contentType);
+
+  for (const rendition of IMAGE_RENDITIONS) {
+    await storageService.save(
+      getRenditionFilename(filename, rendition),
+      image.renditions[rendition],
+      image.contentType
+    );
+  }
+};
+
+/**
+ * Middleware para procesar y almacenar las imágenes subidas
+ * Valida el contenido real por magic bytes, elimina metadatos EXIF/GPS, genera
+ * las versiones redimensionadas y las guarda en el driver de almacenamiento
+ * asignando el nombre final en file.filename. Debe usarse después de uploadSingle o uploadMultiple
+ * @param {Request} req - Request de Express
+ * @param {Response} res - Response de Express
+ * @param {NextFunction} next - Next function
+ * @returns {Promise<void>}
+ */
+export const processUploadedImages = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const files = req.file ? [req.file] : Array.isArray(req.files) ? req.files : [];
+
+  try {
+    for (const file of files) {
+      const filename = generateFilename(file.originalname);
+      const image = await processImage(file.buffer, filename);
+      file.filename = filename;
+      file.size = image.original.length;
+
+      await saveProcessedImage(filename, image);
+    }
+    next();
+  } catch (error) {
+    for (const filename of getUploadedFilenames(req)) {
+      await deleteFile(filename).catch(() => undefined);
+    }
+
+    if (error instanceof Error && error.message === INVALID_IMAGE_ERROR) {
+      errorResponse(res, 400, 'Bad Request', 'Invalid image content', error.message);
+      return;
+    }
+
+    console.error('Error al almacenar imagen:', error);
+    errorResponse(
+      res,
+      500,
+      'Internal Server Error',
+      'Error storing image',
+      'Error al almacenar la imagen'
+    );
+  }
 };
 
 export { upload };
@@ -7,7 +7,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult, ValidationChain } from 'express-validator';
 import { errorResponse } from '../utils/responseHandler';
-import { deleteFile } from './upload.middleware';
+import { deleteFile, getUploadedFilenames } from './upload.middleware';
 
 /**
  * Middleware para validar requests
@@ -28,11 +28,11 @@ export const validate = (validations: ValidationChain[]) => {
       return next();
     }
 
-    // Si hay errores y se subió un archivo, eliminarlo
-    if (req.file) {
+    // Si hay errores y se subieron archivos, eliminarlos
+    for (const filename of getUploadedFilenames(req)) {
       try {
-        await deleteFile(req.file.filename);
-        console.log(`🗑️  Imagen eliminada por validación fallida: ${req.file.filename}`);
+        await deleteFile(filename);
+        console.log(`🗑️  Imagen eliminada por validación fallida: ${filename}`);
       } catch (error) {
         console.error('Error al eliminar imagen tras validación fallida:', error);
       }
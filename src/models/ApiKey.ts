@@ -0,0 +1,103 @@
+/**
+ * ApiKey Model
+ * @module models/ApiKey
+ * @description Modelo de API keys para integraciones entre sistemas
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { ApiKeyScope } from '../types';
+
+/**
+ * Alcances disponibles para las API keys
+ */
+export const API_KEY_SCOPES: ApiKeyScope[] = ['cars:read', 'cars:write', 'catalog:write'];
+
+/**
+ * Interface para el documento de API key
+ * La key solo se guarda como hash; el prefijo permite identificarla en los listados.
+ * Las peticiones con la key actúan en nombre del usuario al que pertenece
+ * @interface IApiKey
+ * @extends {Document}
+ */
+export interface IApiKey extends Document {
+  name: string;
+  keyHash: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  user: Types.ObjectId;
+  createdBy: Types.ObjectId;
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Schema de API key
+ * @type {Schema}
+ */
+const apiKeySchema = new Schema<IApiKey>(
+  {
+    name: {
+      type: String,
+      required: [true, 'El nombre es requerido'],
+      trim: true,
+      maxlength: [100, 'El nombre no puede exceder 100 caracteres'],
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    prefix: {
+      type: String,
+      required: true,
+    },
+    scopes: {
+      type: [String],
+      enum: API_KEY_SCOPES,
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null,
+    },
+    lastUsedIp: {
+      type: String,
+      default: null,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+/**
+ * Índices para optimización
+ */
+// keyHash ya tiene índice único definido en el schema
+apiKeySchema.index({ user: 1, revokedAt: 1 });
+apiKeySchema.index({ createdAt: -1 });
+
+export default mongoose.model<IApiKey>('ApiKey', apiKeySchema);
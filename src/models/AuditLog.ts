@@ -0,0 +1,111 @@
+/**
+ * AuditLog Model
+ * @module models/AuditLog
+ * @description Registro de auditoría: quién cambió qué entidad, cuándo y desde dónde
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { AuditAction, AuditEntityType } from '../types';
+
+/**
+ * Acciones registradas en la auditoría
+ */
+export const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'delete', 'restore', 'purge'];
+
+/**
+ * Entidades auditadas
+ */
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = ['car', 'catalog', 'user'];
+
+/**
+ * Interface para el documento de auditoría
+ * @interface IAuditLog
+ * @extends {Document}
+ */
+export interface IAuditLog extends Document {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  organization: mongoose.Types.ObjectId | null;
+  actor: mongoose.Types.ObjectId | null;
+  actorEmail: string | null;
+  apiKey: mongoose.Types.ObjectId | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ip: string | null;
+  requestId: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Schema de auditoría
+ * before y after solo contienen los campos que cambiaron
+ * @type {Schema}
+ */
+const auditLogSchema = new Schema<IAuditLog>(
+  {
+    action: {
+      type: String,
+      enum: AUDIT_ACTIONS,
+      required: true,
+    },
+    entityType: {
+      type: String,
+      enum: AUDIT_ENTITY_TYPES,
+      required: true,
+    },
+    entityId: {
+      type: String,
+      required: true,
+    },
+    organization: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      default: null,
+    },
+    // Usuario que hizo el cambio; null para procesos del sistema (p. ej. la retención de la papelera)
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    actorEmail: {
+      type: String,
+      default: null,
+    },
+    apiKey: {
+      type: Schema.Types.ObjectId,
+      ref: 'ApiKey',
+      default: null,
+    },
+    before: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    after: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    ip: {
+      type: String,
+      default: null,
+    },
+    requestId: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+  }
+);
+
+/**
+ * Índices para las consultas por entidad, actor y rango de fechas
+ */
+auditLogSchema.index({ entityType: 1, entityId: 1, createdAt: -1 });
+auditLogSchema.index({ actor: 1, createdAt: -1 });
+auditLogSchema.index({ createdAt: -1 });
+
+export default mongoose.model<IAuditLog>('AuditLog', auditLogSchema);
@@ -4,7 +4,7 @@
  * @description Modelo de auto para el inventario
  */
 
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Schema, UpdateQuery } from 'mongoose';
 
 /**
  * Interface para el documento de Auto
@@ -16,16 +16,21 @@ export interface ICar extends Document {
   modelo: string;
   anio: number;
   precio: number;
+  precioOriginal?: number;
+  fechaUltimaRebaja?: Date | null;
   kilometraje: number;
   color?: string;
   email: string;
   telefono: string;
   foto?: string;
+  fotos: string[];
   fechaAlta: Date;
   fechaModificacion: Date;
   fechaEliminacion?: Date;
   isDeleted: boolean;
+  revision: number;
   createdBy?: mongoose.Types.ObjectId;
+  organization?: mongoose.Types.ObjectId;
 }
 
 /**
@@ -90,10 +95,24 @@ const carSchema = new Schema<ICar>(
       required: [true, 'El teléfono es requerido'],
       match: [/^\d{10}$/, 'El teléfono debe tener exactamente 10 dígitos'],
     },
+    // Precio de publicación; se conserva al cambiar el precio para calcular la rebaja
+    precioOriginal: {
+      type: Number,
+      min: 0,
+    },
+    // Fecha de la última bajada de precio; se limpia si el precio vuelve al original
+    fechaUltimaRebaja: {
+      type: Date,
+      default: null,
+    },
     foto: {
       type: String,
       default: null,
     },
+    fotos: {
+      type: [String],
+      default: [],
+    },
     fechaAlta: {
       type: Date,
       default: () => new Date(),
@@ -113,10 +132,21 @@ const carSchema = new Schema<ICar>(
       default: false,
       index: true,
     },
+    // Se incrementa en cada modificación; es la ETag del auto para el control de concurrencia
+    revision: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: 'User',
     },
+    // Los autos sin organización pertenecen a la organización por defecto
+    organization: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+    },
   },
   {
     timestamps: false,
@@ -125,20 +155,40 @@ const carSchema = new Schema<ICar>(
 );
 
 /**
- * Middleware pre-save: Actualiza fechaModificacion
+ * Middleware pre-save: Mantiene la foto de portada dentro de la galería
+ * La portada (foto) siempre forma parte de fotos y, si falta, se usa la primera de la galería
+ */
+carSchema.pre('save', function (next) {
+  if (this.foto && !this.fotos.includes(this.foto)) {
+    this.fotos.unshift(this.foto);
+  }
+  if (!this.foto && this.fotos.length > 0) {
+    this.foto = this.fotos[0];
+  }
+  next();
+});
+
+/**
+ * Middleware pre-save: Actualiza fechaModificacion e incrementa la revisión
  */
 carSchema.pre('save', function (next) {
   if (this.isModified() && !this.isNew) {
     this.fechaModificacion = new Date();
+    this.revision = (this.revision ?? 0) + 1;
   }
   next();
 });
 
 /**
- * Middleware pre-findOneAndUpdate: Actualiza fechaModificacion
+ * Middleware pre-findOneAndUpdate: Actualiza fechaModificacion e incrementa la revisión
  */
 carSchema.pre('findOneAndUpdate', function (next) {
-  this.set({ fechaModificacion: new Date() });
+  const update = (this.getUpdate() ?? {}) as UpdateQuery<ICar>;
+  this.setUpdate({
+    ...update,
+    fechaModificacion: new Date(),
+    $inc: { ...update.$inc, revision: 1 },
+  });
   next();
 });
 
@@ -148,5 +198,8 @@ carSchema.pre('findOneAndUpdate', function (next) {
 carSchema.index({ marca: 1, modelo: 1 });
 // precio y anio ya tienen índices definidos en el schema
 carSchema.index({ isDeleted: 1, fechaAlta: -1 });
+carSchema.index({ createdBy: 1, isDeleted: 1, fechaAlta: -1 });
+carSchema.index({ organization: 1, isDeleted: 1, fechaAlta: -1 });
+carSchema.index({ organization: 1, isDeleted: 1, fechaUltimaRebaja: -1 });
 
 export default mongoose.model<ICar>('Car', carSchema);
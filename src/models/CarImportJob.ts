@@ -0,0 +1,151 @@
+/**
+ * CarImportJob Model
+ * @module models/CarImportJob
+ * @description Registro de cada importación masiva de autos desde CSV o XLSX
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import {
+  CarImportField,
+  CarImportFormat,
+  CarImportMapping,
+  CarImportRowError,
+  CarImportStatus,
+} from '../types';
+
+/**
+ * Campos del auto que se leen del archivo, en el orden en que se reportan
+ */
+export const CAR_IMPORT_FIELDS: CarImportField[] = [
+  'marca',
+  'modelo',
+  'anio',
+  'precio',
+  'kilometraje',
+  'color',
+  'email',
+  'telefono',
+];
+
+/**
+ * Formatos de archivo aceptados
+ */
+export const CAR_IMPORT_FORMATS: CarImportFormat[] = ['csv', 'xlsx'];
+
+/**
+ * Estados de una importación
+ */
+export const CAR_IMPORT_STATUSES: CarImportStatus[] = ['processing', 'completed', 'failed'];
+
+/**
+ * Interface para el documento de importación de autos
+ * @interface ICarImportJob
+ * @extends {Document}
+ */
+export interface ICarImportJob extends Document {
+  organization: mongoose.Types.ObjectId;
+  createdBy: mongoose.Types.ObjectId | null;
+  filename: string;
+  format: CarImportFormat;
+  dryRun: boolean;
+  status: CarImportStatus;
+  mapping: CarImportMapping;
+  totalRows: number;
+  validRows: number;
+  createdCount: number;
+  failedCount: number;
+  rowErrors: CarImportRowError[];
+  cars: mongoose.Types.ObjectId[];
+  finishedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Schema de importación de autos
+ * En una simulación (dryRun) solo se validan las filas: validRows cuenta las que se
+ * crearían y createdCount queda en 0
+ * @type {Schema}
+ */
+const carImportJobSchema = new Schema<ICarImportJob>(
+  {
+    organization: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    filename: {
+      type: String,
+      required: true,
+    },
+    format: {
+      type: String,
+      enum: CAR_IMPORT_FORMATS,
+      required: true,
+    },
+    dryRun: {
+      type: Boolean,
+      default: false,
+    },
+    status: {
+      type: String,
+      enum: CAR_IMPORT_STATUSES,
+      default: 'processing',
+    },
+    mapping: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    totalRows: {
+      type: Number,
+      default: 0,
+    },
+    validRows: {
+      type: Number,
+      default: 0,
+    },
+    createdCount: {
+      type: Number,
+      default: 0,
+    },
+    failedCount: {
+      type: Number,
+      default: 0,
+    },
+    // Se llama rowErrors porque errors es una propiedad reservada de los documentos de Mongoose
+    rowErrors: {
+      type: [
+        {
+          _id: false,
+          row: Number,
+          field: { type: String, default: null },
+          message: String,
+        },
+      ],
+      default: [],
+    },
+    cars: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Car' }],
+      default: [],
+    },
+    finishedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+  }
+);
+
+/**
+ * Índice para listar las importaciones de una organización, las más recientes primero
+ */
+carImportJobSchema.index({ organization: 1, createdAt: -1 });
+
+export default mongoose.model<ICarImportJob>('CarImportJob', carImportJobSchema);
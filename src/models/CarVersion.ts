@@ -0,0 +1,89 @@
+/**
+ * CarVersion Model
+ * @module models/CarVersion
+ * @description Versiones de un auto guardadas en cada modificación, para su historial
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { CarVersionAction } from '../types';
+
+/**
+ * Acciones que generan una versión
+ */
+export const CAR_VERSION_ACTIONS: CarVersionAction[] = [
+  'initial',
+  'update',
+  'delete',
+  'restore',
+  'revert',
+];
+
+/**
+ * Interface para el documento de versión de un auto
+ * @interface ICarVersion
+ * @extends {Document}
+ */
+export interface ICarVersion extends Document {
+  car: mongoose.Types.ObjectId;
+  version: number;
+  action: CarVersionAction;
+  data: Record<string, unknown>;
+  changedBy: mongoose.Types.ObjectId | null;
+  revertedFrom: number | null;
+  createdAt: Date;
+}
+
+/**
+ * Schema de versión de auto
+ * data es la instantánea completa del auto tras el cambio; la versión 1 ('initial')
+ * guarda el estado anterior al primer cambio registrado
+ * @type {Schema}
+ */
+const carVersionSchema = new Schema<ICarVersion>(
+  {
+    car: {
+      type: Schema.Types.ObjectId,
+      ref: 'Car',
+      required: true,
+    },
+    version: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    action: {
+      type: String,
+      enum: CAR_VERSION_ACTIONS,
+      required: true,
+    },
+    data: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    // Versión restaurada, si el cambio fue una reversión
+    revertedFrom: {
+      type: Number,
+      default: null,
+    },
+    // Se asigna explícitamente: la versión inicial toma la fecha de la última modificación previa
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+/**
+ * Índice único por auto y número de versión
+ */
+carVersionSchema.index({ car: 1, version: 1 }, { unique: true });
+
+export default mongoose.model<ICarVersion>('CarVersion', carVersionSchema);
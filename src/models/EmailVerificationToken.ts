@@ -0,0 +1,74 @@
+/**
+ * EmailVerificationToken Model
+ * @module models/EmailVerificationToken
+ * @description Modelo de tokens de un solo uso para confirmar la propiedad de un email
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+/**
+ * Interface para el documento de Token de verificación de email
+ * El token confirma el email indicado en `email`, que puede ser distinto
+ * del email actual del usuario cuando se trata de un cambio de email
+ * @interface IEmailVerificationToken
+ * @extends {Document}
+ */
+export interface IEmailVerificationToken extends Document {
+  tokenHash: string;
+  user: Types.ObjectId;
+  email: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Schema de Token de verificación de email
+ * @type {Schema}
+ */
+const emailVerificationTokenSchema = new Schema<IEmailVerificationToken>(
+  {
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    email: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+/**
+ * Índices para optimización
+ */
+// tokenHash ya tiene índice único definido en el schema
+emailVerificationTokenSchema.index({ user: 1, usedAt: 1 });
+// MongoDB elimina automáticamente los tokens expirados
+emailVerificationTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IEmailVerificationToken>(
+  'EmailVerificationToken',
+  emailVerificationTokenSchema
+);
@@ -0,0 +1,53 @@
+/**
+ * Organization Model
+ * @module models/Organization
+ * @description Modelo de organización (concesionaria); cada auto pertenece a una
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Interface para el documento de Organización
+ * @interface IOrganization
+ * @extends {Document}
+ */
+export interface IOrganization extends Document {
+  name: string;
+  slug: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Schema de Organización
+ * @type {Schema}
+ */
+const organizationSchema = new Schema<IOrganization>(
+  {
+    name: {
+      type: String,
+      required: [true, 'El nombre es requerido'],
+      trim: true,
+      maxlength: [100, 'El nombre no puede exceder 100 caracteres'],
+    },
+    slug: {
+      type: String,
+      required: [true, 'El slug es requerido'],
+      unique: true,
+      lowercase: true,
+      trim: true,
+      match: [/^[a-z0-9][a-z0-9-]{1,49}$/, 'El slug de la organización es inválido'],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+export default mongoose.model<IOrganization>('Organization', organizationSchema);
@@ -0,0 +1,66 @@
+/**
+ * PasswordResetToken Model
+ * @module models/PasswordResetToken
+ * @description Modelo de tokens de un solo uso para restablecer contraseñas
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+/**
+ * Interface para el documento de Token de restablecimiento
+ * @interface IPasswordResetToken
+ * @extends {Document}
+ */
+export interface IPasswordResetToken extends Document {
+  tokenHash: string;
+  user: Types.ObjectId;
+  expiresAt: Date;
+  usedAt: Date | null;
+  requestedByIp?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Schema de Token de restablecimiento
+ * @type {Schema}
+ */
+const passwordResetTokenSchema = new Schema<IPasswordResetToken>(
+  {
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+      default: null,
+    },
+    requestedByIp: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+/**
+ * Índices para optimización
+ */
+// tokenHash ya tiene índice único definido en el schema
+passwordResetTokenSchema.index({ user: 1, usedAt: 1 });
+// MongoDB elimina automáticamente los tokens expirados
+passwordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IPasswordResetToken>('PasswordResetToken', passwordResetTokenSchema);
@@ -0,0 +1,62 @@
+/**
+ * PriceChange Model
+ * @module models/PriceChange
+ * @description Cambios de precio de un auto, para su historial de precios
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Interface para el documento de cambio de precio
+ * @interface IPriceChange
+ * @extends {Document}
+ */
+export interface IPriceChange extends Document {
+  car: mongoose.Types.ObjectId;
+  previousPrice: number;
+  price: number;
+  changedBy: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+}
+
+/**
+ * Schema de cambio de precio
+ * @type {Schema}
+ */
+const priceChangeSchema = new Schema<IPriceChange>(
+  {
+    car: {
+      type: Schema.Types.ObjectId,
+      ref: 'Car',
+      required: true,
+    },
+    previousPrice: {
+      type: Number,
+      required: true,
+    },
+    price: {
+      type: Number,
+      required: true,
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    // Se asigna explícitamente con la fecha de modificación del auto
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+/**
+ * Índice para listar el historial de un auto en orden cronológico
+ */
+priceChangeSchema.index({ car: 1, createdAt: 1 });
+
+export default mongoose.model<IPriceChange>('PriceChange', priceChangeSchema);
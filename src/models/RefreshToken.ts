@@ -0,0 +1,83 @@
+/**
+ * RefreshToken Model
+ * @module models/RefreshToken
+ * @description Modelo de refresh tokens almacenados en el servidor para sesiones revocables
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+/**
+ * Interface para el documento de Refresh Token
+ * Cada sesión es una familia de tokens: al refrescar se emite un nuevo token
+ * de la misma familia y el anterior queda revocado
+ * @interface IRefreshToken
+ * @extends {Document}
+ */
+export interface IRefreshToken extends Document {
+  tokenHash: string;
+  user: Types.ObjectId;
+  family: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  replacedByHash: string | null;
+  createdByIp?: string;
+  userAgent?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Schema de Refresh Token
+ * @type {Schema}
+ */
+const refreshTokenSchema = new Schema<IRefreshToken>(
+  {
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    family: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    replacedByHash: {
+      type: String,
+      default: null,
+    },
+    createdByIp: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+/**
+ * Índices para optimización
+ */
+// tokenHash ya tiene índice único definido en el schema
+refreshTokenSchema.index({ family: 1, revokedAt: 1 });
+refreshTokenSchema.index({ user: 1, revokedAt: 1 });
+// MongoDB elimina automáticamente los tokens expirados
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IRefreshToken>('RefreshToken', refreshTokenSchema);
@@ -0,0 +1,61 @@
+/**
+ * Role Model
+ * @module models/Role
+ * @description Modelo de roles con sus permisos, editables sin cambios de código
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { ALL_PERMISSIONS } from '../config/permissions';
+import { Permission } from '../types';
+
+/**
+ * Interface para el documento de Rol
+ * @interface IRole
+ * @extends {Document}
+ */
+export interface IRole extends Document {
+  name: string;
+  description: string;
+  permissions: Permission[];
+  isSystem: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Schema de Rol
+ * @type {Schema}
+ */
+const roleSchema = new Schema<IRole>(
+  {
+    name: {
+      type: String,
+      required: [true, 'El nombre es requerido'],
+      unique: true,
+      lowercase: true,
+      trim: true,
+      match: [/^[a-z][a-z0-9_-]{1,49}$/, 'El nombre del rol es inválido'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      default: '',
+      maxlength: [200, 'La descripción no puede exceder 200 caracteres'],
+    },
+    permissions: {
+      type: [String],
+      enum: ALL_PERMISSIONS,
+      default: [],
+    },
+    isSystem: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+export default mongoose.model<IRole>('Role', roleSchema);
@@ -0,0 +1,67 @@
+/**
+ * TwoFactorChallenge Model
+ * @module models/TwoFactorChallenge
+ * @description Modelo de desafíos de un solo uso para completar un login con 2FA
+ */
+
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+/**
+ * Interface para el documento de Desafío de autenticación en dos pasos
+ * Se emite tras validar la contraseña y se canjea junto con el código TOTP
+ * @interface ITwoFactorChallenge
+ * @extends {Document}
+ */
+export interface ITwoFactorChallenge extends Document {
+  tokenHash: string;
+  user: Types.ObjectId;
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdByIp?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Schema de Desafío de autenticación en dos pasos
+ * @type {Schema}
+ */
+const twoFactorChallengeSchema = new Schema<ITwoFactorChallenge>(
+  {
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+      default: null,
+    },
+    createdByIp: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+/**
+ * Índices para optimización
+ */
+// tokenHash ya tiene índice único definido en el schema
+twoFactorChallengeSchema.index({ user: 1, usedAt: 1 });
+// MongoDB elimina automáticamente los desafíos expirados
+twoFactorChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ITwoFactorChallenge>('TwoFactorChallenge', twoFactorChallengeSchema);
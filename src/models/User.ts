@@ -6,6 +6,8 @@
 
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { UserRole } from '../types';
+import { config } from '../config/env';
 
 /**
  * Interface para el documento de Usuario
@@ -16,8 +18,19 @@ export interface IUser extends Document {
   email: string;
   password: string;
   name: string;
-  role: 'admin' | 'user';
+  role: UserRole;
   isActive: boolean;
+  emailVerified: boolean;
+  pendingEmail: string | null;
+  failedLoginAttempts: number;
+  lastFailedLoginAt: Date | null;
+  lockedUntil: Date | null;
+  twoFactorEnabled: boolean;
+  twoFactorSecret: string | null;
+  twoFactorPendingSecret: string | null;
+  twoFactorRecoveryCodes: string[];
+  twoFactorLastUsedStep: number | null;
+  organizations: mongoose.Types.ObjectId[];
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -40,7 +53,11 @@ const userSchema = new Schema<IUser>(
     password: {
       type: String,
       required: [true, 'La contraseña es requerida'],
-      minlength: [6, 'La contraseña debe tener al menos 6 caracteres'],
+      // El resto de la política (ver utils/passwordPolicy) se valida antes de guardar
+      minlength: [
+        config.PASSWORD_MIN_LENGTH,
+        `La contraseña debe tener al menos ${config.PASSWORD_MIN_LENGTH} caracteres`,
+      ],
       select: false,
     },
     name: {
@@ -49,15 +66,70 @@ const userSchema = new Schema<IUser>(
       trim: true,
       maxlength: [100, 'El nombre no puede exceder 100 caracteres'],
     },
+    // Nombre de un rol de la colección de roles (ver models/Role)
     role: {
       type: String,
-      enum: ['admin', 'user'],
+      trim: true,
+      lowercase: true,
       default: 'user',
     },
     isActive: {
       type: Boolean,
       default: true,
     },
+    emailVerified: {
+      type: Boolean,
+      default: false,
+    },
+    pendingEmail: {
+      type: String,
+      lowercase: true,
+      trim: true,
+      default: null,
+    },
+    failedLoginAttempts: {
+      type: Number,
+      default: 0,
+    },
+    lastFailedLoginAt: {
+      type: Date,
+      default: null,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    // Secretos TOTP cifrados (ver utils/totp) y hashes de los códigos de recuperación
+    twoFactorSecret: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    twoFactorPendingSecret: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    // Último paso de tiempo aceptado, para que un código no pueda reutilizarse
+    twoFactorLastUsedStep: {
+      type: Number,
+      default: null,
+      select: false,
+    },
+    // Organizaciones a las que pertenece; sin ninguna opera en la organización por defecto
+    organizations: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Organization' }],
+      default: [],
+    },
   },
   {
     timestamps: true,
@@ -96,5 +168,6 @@ userSchema.methods.comparePassword = async function (candidatePassword: string):
  */
 // email ya tiene índice único definido en el schema
 userSchema.index({ isActive: 1 });
+userSchema.index({ organizations: 1 });
 
 export default mongoose.model<IUser>('User', userSchema);
@@ -0,0 +1,145 @@
+/**
+ * API Key Routes
+ * @module routes/apiKey
+ * @description Rutas de administración de API keys (requiere users:manage)
+ */
+
+import { Router } from 'express';
+import apiKeyController from '../controllers/apiKey.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validation.middleware';
+import {
+  apiKeyIdValidation,
+  apiKeyFilterValidations,
+  createApiKeyValidations,
+} from '../validators/apiKey.validators';
+
+const router = Router();
+
+// Todas las rutas de API keys requieren un usuario autenticado con JWT y el permiso users:manage
+router.use(authenticate, requirePermission('users:manage'));
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *   post:
+ *     summary: Emitir una API key (requiere users:manage)
+ *     description: La key solo se devuelve en esta respuesta. Se envía en el header X-API-Key.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [cars:read, cars:write, catalog:write]
+ *               userId:
+ *                 type: string
+ *                 description: Usuario en cuyo nombre actúa la key (por defecto, el admin)
+ *               expiresInDays:
+ *                 type: integer
+ *                 description: Vigencia en días (por defecto API_KEY_DEFAULT_EXPIRES_DAYS)
+ *     responses:
+ *       201:
+ *         description: API key creada exitosamente
+ *       400:
+ *         description: Datos inválidos o usuario sin permisos para los alcances
+ *       404:
+ *         description: Usuario no encontrado
+ */
+router.post('/', validate(createApiKeyValidations), apiKeyController.createApiKey);
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *   get:
+ *     summary: Listar API keys (requiere users:manage)
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: user
+ *         schema:
+ *           type: string
+ *         description: Filtrar por usuario
+ *       - in: query
+ *         name: active
+ *         schema:
+ *           type: boolean
+ *         description: Filtrar keys vigentes (no revocadas ni expiradas)
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: API keys obtenidas exitosamente
+ */
+router.get('/', validate(apiKeyFilterValidations), apiKeyController.listApiKeys);
+
+/**
+ * @swagger
+ * /api/api-keys/{id}:
+ *   get:
+ *     summary: Obtener API key por ID (requiere users:manage)
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key obtenida exitosamente
+ *       404:
+ *         description: API key no encontrada
+ */
+router.get('/:id', validate(apiKeyIdValidation), apiKeyController.getApiKeyById);
+
+/**
+ * @swagger
+ * /api/api-keys/{id}:
+ *   delete:
+ *     summary: Revocar una API key (requiere users:manage)
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revocada exitosamente
+ *       404:
+ *         description: API key no encontrada
+ *       409:
+ *         description: La API key ya está revocada
+ */
+router.delete('/:id', validate(apiKeyIdValidation), apiKeyController.revokeApiKey);
+
+export default router;
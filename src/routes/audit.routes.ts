@@ -0,0 +1,82 @@
+/**
+ * Audit Routes
+ * @module routes/audit
+ * @description Rutas de consulta del registro de auditoría (requiere audit:read)
+ */
+
+import { Router } from 'express';
+import auditController from '../controllers/audit.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validation.middleware';
+import { auditLogFilterValidations } from '../validators/audit.validators';
+
+const router = Router();
+
+// La auditoría requiere un usuario autenticado con JWT y el permiso audit:read
+router.use(authenticate, requirePermission('audit:read'));
+
+/**
+ * @swagger
+ * /api/audit-logs:
+ *   get:
+ *     summary: Consultar el registro de auditoría (requiere audit:read)
+ *     description: >
+ *       Cambios sobre autos, catálogos y usuarios, los más recientes primero.
+ *       En las actualizaciones before y after contienen solo los campos que cambiaron.
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *           enum: [car, catalog, user]
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *         description: ID del auto, catálogo o usuario
+ *       - in: query
+ *         name: actor
+ *         schema:
+ *           type: string
+ *         description: ID del usuario que hizo el cambio
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [create, update, delete, restore, purge]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Fecha inicial (inclusive)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Fecha final (inclusive)
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Registro de auditoría obtenido exitosamente
+ *       400:
+ *         description: Filtros inválidos
+ *       403:
+ *         description: Sin permiso audit:read
+ */
+router.get('/', validate(auditLogFilterValidations), auditController.listAuditLogs);
+
+export default router;
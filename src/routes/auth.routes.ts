@@ -7,9 +7,27 @@
 import { Router } from 'express';
 import authController from '../controllers/auth.controller';
 import { validate } from '../middlewares/validation.middleware';
-import { registerValidations, loginValidations } from '../validators/auth.validators';
+import {
+  registerValidations,
+  loginValidations,
+  refreshTokenValidations,
+  logoutValidations,
+  changePasswordValidations,
+  forgotPasswordValidations,
+  resetPasswordValidations,
+  updateProfileValidations,
+  verifyEmailValidations,
+  deleteAccountValidations,
+  twoFactorCodeValidations,
+  disableTwoFactorValidations,
+  twoFactorLoginValidations,
+} from '../validators/auth.validators';
 import { authenticate } from '../middlewares/auth.middleware';
-import { authLimiter } from '../middlewares/rateLimiter.middleware';
+import {
+  authLimiter,
+  passwordResetLimiter,
+  emailVerificationLimiter,
+} from '../middlewares/rateLimiter.middleware';
 
 const router = Router();
 
@@ -35,7 +53,7 @@ const router = Router();
  *                 format: email
  *               password:
  *                 type: string
- *                 minLength: 6
+ *                 description: Debe cumplir la política de GET /api/auth/password/policy
  *               name:
  *                 type: string
  *     responses:
@@ -71,12 +89,241 @@ router.post('/register', authLimiter, validate(registerValidations), authControl
  *                 type: string
  *     responses:
  *       200:
- *         description: Login exitoso
+ *         description: >
+ *           Login exitoso, o desafío de segundo factor (twoFactorRequired y challengeToken)
+ *           si la cuenta tiene la autenticación en dos pasos activada
  *       401:
- *         description: Credenciales inválidas
+ *         description: >
+ *           Credenciales inválidas o cuenta desactivada. Sin la contraseña correcta, una cuenta
+ *           desactivada, bloqueada o en espera recibe la misma respuesta que un email inexistente
+ *       423:
+ *         description: >
+ *           Cuenta bloqueada temporalmente por intentos fallidos (Retry-After indica los
+ *           segundos restantes)
+ *       429:
+ *         description: >
+ *           Demasiados intentos fallidos, se debe esperar antes de reintentar (Retry-After
+ *           indica los segundos restantes)
  */
 router.post('/login', authLimiter, validate(loginValidations), authController.login);
 
+/**
+ * @swagger
+ * /api/auth/login/2fa:
+ *   post:
+ *     summary: Completar el login con el código de la autenticación en dos pasos
+ *     description: Canjea el challengeToken del login junto con un código TOTP o de recuperación
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *               - code
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 example: '123456'
+ *     responses:
+ *       200:
+ *         description: Login exitoso
+ *       401:
+ *         description: Desafío inválido o expirado, o código inválido
+ *       423:
+ *         description: >
+ *           Cuenta bloqueada temporalmente por intentos fallidos (Retry-After indica los
+ *           segundos restantes)
+ *       429:
+ *         description: >
+ *           Demasiados intentos fallidos, se debe esperar antes de reintentar (Retry-After
+ *           indica los segundos restantes)
+ */
+router.post(
+  '/login/2fa',
+  authLimiter,
+  validate(twoFactorLoginValidations),
+  authController.loginTwoFactor
+);
+
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Renovar el access token
+ *     description: Rota el refresh token. Reutilizar un refresh token ya rotado revoca la sesión completa
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Token renovado exitosamente
+ *       400:
+ *         description: Datos inválidos
+ *       401:
+ *         description: Refresh token inválido, expirado o reutilizado
+ */
+router.post('/refresh', authLimiter, validate(refreshTokenValidations), authController.refresh);
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Cerrar sesión
+ *     description: Revoca la sesión del token actual o todas las sesiones del usuario
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               allSessions:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Sesión cerrada exitosamente
+ *       401:
+ *         description: No autenticado
+ */
+router.post('/logout', authenticate, validate(logoutValidations), authController.logout);
+
+/**
+ * @swagger
+ * /api/auth/password:
+ *   put:
+ *     summary: Cambiar la contraseña
+ *     description: Cierra todas las sesiones existentes y devuelve los tokens de una sesión nueva
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currentPassword
+ *               - newPassword
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *                 description: Debe cumplir la política de GET /api/auth/password/policy
+ *     responses:
+ *       200:
+ *         description: Contraseña actualizada exitosamente
+ *       400:
+ *         description: Datos inválidos, contraseña fuera de la política o igual a la actual
+ *       401:
+ *         description: No autenticado o contraseña actual incorrecta
+ */
+router.put(
+  '/password',
+  authLimiter,
+  authenticate,
+  validate(changePasswordValidations),
+  authController.changePassword
+);
+
+/**
+ * @swagger
+ * /api/auth/password/forgot:
+ *   post:
+ *     summary: Solicitar enlace para restablecer la contraseña
+ *     description: Responde siempre 200 para no revelar qué emails están registrados
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Solicitud recibida
+ *       429:
+ *         description: Demasiadas solicitudes
+ */
+router.post(
+  '/password/forgot',
+  passwordResetLimiter,
+  validate(forgotPasswordValidations),
+  authController.forgotPassword
+);
+
+/**
+ * @swagger
+ * /api/auth/password/reset:
+ *   post:
+ *     summary: Restablecer la contraseña
+ *     description: El token es de un solo uso. Cierra todas las sesiones del usuario
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - newPassword
+ *             properties:
+ *               token:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *                 description: Debe cumplir la política de GET /api/auth/password/policy
+ *     responses:
+ *       200:
+ *         description: Contraseña restablecida exitosamente
+ *       400:
+ *         description: Token inválido, usado o expirado, o contraseña fuera de la política
+ */
+router.post(
+  '/password/reset',
+  authLimiter,
+  validate(resetPasswordValidations),
+  authController.resetPassword
+);
+
+/**
+ * @swagger
+ * /api/auth/password/policy:
+ *   get:
+ *     summary: Obtener la política de contraseñas vigente
+ *     description: Reglas que debe cumplir una contraseña nueva, para mostrarlas en el front-end
+ *     tags: [Auth]
+ *     responses:
+ *       200:
+ *         description: Política de contraseñas obtenida
+ */
+router.get('/password/policy', authController.getPasswordPolicy);
+
 /**
  * @swagger
  * /api/auth/profile:
@@ -93,6 +340,291 @@ router.post('/login', authLimiter, validate(loginValidations), authController.lo
  */
 router.get('/profile', authenticate, authController.getProfile);
 
+/**
+ * @swagger
+ * /api/auth/profile:
+ *   patch:
+ *     summary: Actualizar el perfil del usuario actual
+ *     description: |
+ *       El nombre se actualiza de inmediato. Un email nuevo queda en `pendingEmail`
+ *       hasta confirmarlo con el enlace enviado a esa dirección; cambiarlo requiere
+ *       la contraseña actual.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               currentPassword:
+ *                 type: string
+ *                 description: Requerida al cambiar el email
+ *     responses:
+ *       200:
+ *         description: Perfil actualizado exitosamente
+ *       400:
+ *         description: Datos inválidos
+ *       401:
+ *         description: No autenticado o contraseña actual incorrecta
+ *       409:
+ *         description: El email ya está registrado
+ */
+router.patch(
+  '/profile',
+  authenticate,
+  validate(updateProfileValidations),
+  authController.updateProfile
+);
+
+/**
+ * @swagger
+ * /api/auth/profile:
+ *   delete:
+ *     summary: Eliminar la cuenta del usuario actual
+ *     description: |
+ *       Desactiva la cuenta y cierra todas sus sesiones. Los autos del usuario se envían
+ *       a la papelera (`delete`) o se transfieren a un administrador activo (`transfer`);
+ *       sin `transferTo` se usa el administrador activo más antiguo.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *               - carsAction
+ *             properties:
+ *               password:
+ *                 type: string
+ *               carsAction:
+ *                 type: string
+ *                 enum: [delete, transfer]
+ *               transferTo:
+ *                 type: string
+ *                 description: ID del administrador que recibe los autos
+ *     responses:
+ *       200:
+ *         description: Cuenta eliminada exitosamente
+ *       400:
+ *         description: Datos inválidos
+ *       401:
+ *         description: No autenticado o contraseña incorrecta
+ *       409:
+ *         description: Último administrador activo o sin administrador para recibir los autos
+ */
+router.delete(
+  '/profile',
+  authLimiter,
+  authenticate,
+  validate(deleteAccountValidations),
+  authController.deleteAccount
+);
+
+/**
+ * @swagger
+ * /api/auth/email/verify:
+ *   post:
+ *     summary: Verificar el email
+ *     description: |
+ *       Verifica el email de registro o confirma un cambio de email, según a qué
+ *       dirección se envió el token. El token es de un solo uso.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email verificado exitosamente
+ *       400:
+ *         description: Token inválido, usado o expirado
+ *       409:
+ *         description: El email ya está registrado
+ */
+router.post(
+  '/email/verify',
+  authLimiter,
+  validate(verifyEmailValidations),
+  authController.verifyEmail
+);
+
+/**
+ * @swagger
+ * /api/auth/email/verify/resend:
+ *   post:
+ *     summary: Reenviar el enlace de verificación
+ *     description: |
+ *       Se envía al email pendiente si hay un cambio en curso, o al email actual si aún
+ *       no está verificado. Solo el último enlace enviado es válido.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Enlace de verificación enviado
+ *       400:
+ *         description: El email ya está verificado
+ *       401:
+ *         description: No autenticado
+ *       429:
+ *         description: Demasiadas solicitudes
+ */
+router.post(
+  '/email/verify/resend',
+  authenticate,
+  emailVerificationLimiter,
+  authController.resendVerification
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/setup:
+ *   post:
+ *     summary: Iniciar el alta de la autenticación en dos pasos
+ *     description: Devuelve el secreto, la URI otpauth y un código QR (data URL) para la app
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secreto generado, pendiente de confirmación
+ *       401:
+ *         description: No autenticado
+ *       409:
+ *         description: La autenticación en dos pasos ya está activada
+ */
+router.post('/2fa/setup', authenticate, authController.setupTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/2fa/confirm:
+ *   post:
+ *     summary: Confirmar el alta de la autenticación en dos pasos
+ *     description: Devuelve los códigos de recuperación, que solo se muestran esta vez
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Autenticación en dos pasos activada
+ *       400:
+ *         description: Código inválido o sin alta pendiente
+ *       409:
+ *         description: La autenticación en dos pasos ya está activada
+ */
+router.post(
+  '/2fa/confirm',
+  authLimiter,
+  authenticate,
+  validate(twoFactorCodeValidations),
+  authController.confirmTwoFactor
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/disable:
+ *   post:
+ *     summary: Desactivar la autenticación en dos pasos
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *               - code
+ *             properties:
+ *               password:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 description: Código TOTP o de recuperación
+ *     responses:
+ *       200:
+ *         description: Autenticación en dos pasos desactivada
+ *       400:
+ *         description: Código inválido o 2FA no activada
+ *       401:
+ *         description: Contraseña incorrecta
+ *       409:
+ *         description: La 2FA es obligatoria para administradores
+ */
+router.post(
+  '/2fa/disable',
+  authLimiter,
+  authenticate,
+  validate(disableTwoFactorValidations),
+  authController.disableTwoFactor
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Generar nuevos códigos de recuperación
+ *     description: Los códigos anteriores dejan de ser válidos
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Códigos de recuperación generados
+ *       400:
+ *         description: Código inválido o 2FA no activada
+ */
+router.post(
+  '/2fa/recovery-codes',
+  authLimiter,
+  authenticate,
+  validate(twoFactorCodeValidations),
+  authController.regenerateRecoveryCodes
+);
+
 /**
  * @swagger
  * /api/auth/verify:
@@ -6,17 +6,43 @@
 
 import { Router } from 'express';
 import carController from '../controllers/car.controller';
-import { authenticate } from '../middlewares/auth.middleware';
-import { uploadSingle } from '../middlewares/upload.middleware';
+import carImportController from '../controllers/carImport.controller';
+import {
+  authenticate,
+  authenticateWithScope,
+  requireAdmin,
+  requirePermission,
+  requireVerifiedEmail,
+} from '../middlewares/auth.middleware';
+import {
+  uploadSingle,
+  uploadMultiple,
+  uploadImportFile,
+  processUploadedImages,
+} from '../middlewares/upload.middleware';
 import { validate } from '../middlewares/validation.middleware';
 import { parseCarBody } from '../middlewares/parseBody.middleware';
+import { authorizeCarOwner } from '../middlewares/ownership.middleware';
+import { resolveOrganization } from '../middlewares/organization.middleware';
 import {
   createCarValidations,
-  updateCarValidations,
+  patchCarValidations,
   carIdValidation,
   carFilterValidations,
+  trashFilterValidations,
+  purgeTrashValidations,
+  carPhotoParamValidations,
+  reorderPhotosValidations,
+  coverPhotoValidations,
+  carHistoryValidations,
+  carVersionDiffValidations,
+  revertCarValidations,
+  importCarsValidations,
+  carImportFilterValidations,
+  carImportIdValidation,
 } from '../validators/car.validators';
 import { createLimiter, uploadLimiter } from '../middlewares/rateLimiter.middleware';
+import { config } from '../config/env';
 
 const router = Router();
 
@@ -28,7 +54,9 @@ const router = Router();
  *     tags: [Cars]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
  *       - in: query
  *         name: marca
  *         schema:
@@ -54,6 +82,13 @@ const router = Router();
  *         schema:
  *           type: string
  *       - in: query
+ *         name: rebajaDias
+ *         description: Solo autos cuyo precio bajó en los últimos N días y sigue rebajado
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 365
+ *       - in: query
  *         name: page
  *         schema:
  *           type: integer
@@ -67,7 +102,14 @@ const router = Router();
  *       200:
  *         description: Autos obtenidos exitosamente
  */
-router.get('/', authenticate, validate(carFilterValidations), carController.getAllCars);
+router.get(
+  '/',
+  authenticateWithScope('cars:read'),
+  resolveOrganization,
+  requirePermission('cars:read'),
+  validate(carFilterValidations),
+  carController.getAllCars
+);
 
 /**
  * @swagger
@@ -77,11 +119,20 @@ router.get('/', authenticate, validate(carFilterValidations), carController.getA
  *     tags: [Cars]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
  *     responses:
  *       200:
  *         description: Estadísticas obtenidas exitosamente
  */
-router.get('/stats', authenticate, carController.getStats);
+router.get(
+  '/stats',
+  authenticateWithScope('cars:read'),
+  resolveOrganization,
+  requirePermission('cars:read'),
+  carController.getStats
+);
 
 /**
  * @swagger
@@ -91,7 +142,9 @@ router.get('/stats', authenticate, carController.getStats);
  *     tags: [Cars]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
  *       - in: query
  *         name: q
  *         required: true
@@ -101,7 +154,236 @@ router.get('/stats', authenticate, carController.getStats);
  *       200:
  *         description: Búsqueda completada exitosamente
  */
-router.get('/search', authenticate, carController.searchCars);
+router.get(
+  '/search',
+  authenticateWithScope('cars:read'),
+  resolveOrganization,
+  requirePermission('cars:read'),
+  carController.searchCars
+);
+
+/**
+ * @swagger
+ * /api/cars/trash:
+ *   get:
+ *     summary: Listar autos en la papelera (requiere cars:delete y cars:update:any)
+ *     tags: [Cars]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Papelera obtenida exitosamente
+ *       403:
+ *         description: Permisos insuficientes
+ */
+router.get(
+  '/trash',
+  authenticate,
+  resolveOrganization,
+  requirePermission('cars:delete', 'cars:update:any'),
+  validate(trashFilterValidations),
+  carController.getTrash
+);
+
+/**
+ * @swagger
+ * /api/cars/trash:
+ *   delete:
+ *     summary: Eliminar permanentemente los autos de la papelera con antigüedad mínima (requiere cars:delete y cars:update:any)
+ *     tags: [Cars]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
+ *       - in: query
+ *         name: olderThanDays
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *         description: Días mínimos desde la eliminación (0 vacía toda la papelera)
+ *     responses:
+ *       200:
+ *         description: Papelera vaciada exitosamente
+ *       403:
+ *         description: Permisos insuficientes
+ */
+router.delete(
+  '/trash',
+  authenticate,
+  resolveOrganization,
+  requirePermission('cars:delete', 'cars:update:any'),
+  validate(purgeTrashValidations),
+  carController.purgeTrash
+);
+
+/**
+ * @swagger
+ * /api/cars/imports:
+ *   post:
+ *     summary: Importar autos desde un archivo CSV o XLSX
+ *     description: |
+ *       La primera fila del archivo es el encabezado. Cada campo se lee de la columna con su
+ *       mismo nombre (sin importar mayúsculas) salvo que mapping indique otra. Cada fila se
+ *       valida como la creación de un auto y la marca y el modelo se normalizan con el
+ *       catálogo; las filas válidas se crean y las demás se reportan en errors.
+ *       Con dryRun solo se validan las filas sin crear autos.
+ *     tags: [Cars]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: Archivo .csv (separado por coma o punto y coma) o .xlsx (primera hoja)
+ *               mapping:
+ *                 type: string
+ *                 description: JSON de campos del auto a nombres de columna
+ *                 example: '{"marca":"Brand","precio":"Price"}'
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       201:
+ *         description: Importación realizada; incluye conteos y errores por fila
+ *       400:
+ *         description: Archivo ausente, ilegible, vacío, demasiado grande o con demasiadas filas
+ *       403:
+ *         description: Email no verificado (si REQUIRE_VERIFIED_EMAIL_FOR_CARS está activo)
+ */
+router.post(
+  '/imports',
+  authenticateWithScope('cars:write'),
+  resolveOrganization,
+  requirePermission('cars:create'),
+  requireVerifiedEmail,
+  createLimiter,
+  uploadImportFile,
+  validate(importCarsValidations),
+  carImportController.importCars
+);
+
+/**
+ * @swagger
+ * /api/cars/imports:
+ *   get:
+ *     summary: Listar las importaciones de autos de la organización
+ *     tags: [Cars]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Importaciones obtenidas exitosamente, las más recientes primero
+ */
+router.get(
+  '/imports',
+  authenticateWithScope('cars:read'),
+  resolveOrganization,
+  requirePermission('cars:create'),
+  validate(carImportFilterValidations),
+  carImportController.listImports
+);
+
+/**
+ * @swagger
+ * /api/cars/imports/{importId}:
+ *   get:
+ *     summary: Obtener una importación de autos con sus errores por fila
+ *     tags: [Cars]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
+ *       - in: path
+ *         name: importId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Importación obtenida exitosamente
+ *       404:
+ *         description: Importación no encontrada
+ */
+router.get(
+  '/imports/:importId',
+  authenticateWithScope('cars:read'),
+  resolveOrganization,
+  requirePermission('cars:create'),
+  validate(carImportIdValidation),
+  carImportController.getImport
+);
+
+/**
+ * @swagger
+ * /api/cars/photos/orphans:
+ *   get:
+ *     summary: Reportar fotos sin auto que las referencie (solo admin)
+ *     description: El almacenamiento de fotos es compartido por todas las organizaciones
+ *     tags: [Cars]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Fotos huérfanas obtenidas exitosamente
+ *       403:
+ *         description: Permisos insuficientes
+ */
+router.get('/photos/orphans', authenticate, requireAdmin, carController.getOrphanedPhotos);
+
+/**
+ * @swagger
+ * /api/cars/photos/orphans:
+ *   delete:
+ *     summary: Eliminar fotos huérfanas con más de una hora de antigüedad (solo admin)
+ *     description: El almacenamiento de fotos es compartido por todas las organizaciones
+ *     tags: [Cars]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Fotos huérfanas eliminadas exitosamente
+ *       403:
+ *         description: Permisos insuficientes
+ */
+router.delete('/photos/orphans', authenticate, requireAdmin, carController.deleteOrphanedPhotos);
 
 /**
  * @swagger
@@ -111,19 +393,200 @@ router.get('/search', authenticate, carController.searchCars);
  *     tags: [Cars]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Auto obtenido exitosamente; el encabezado ETag contiene su revisión
+ *       304:
+ *         description: If-None-Match coincide con la revisión actual
+ *       404:
+ *         description: Auto no encontrado
+ */
+router.get(
+  '/:id',
+  authenticateWithScope('cars:read'),
+  resolveOrganization,
+  requirePermission('cars:read'),
+  validate(carIdValidation),
+  carController.getCarById
+);
+
+/**
+ * @swagger
+ * /api/cars/{id}/history:
+ *   get:
+ *     summary: Historial de versiones del auto
+ *     description: >
+ *       Versiones en orden cronológico, guardadas en cada actualización, eliminación y
+ *       reversión. La versión 1 es el estado previo al primer cambio registrado.
+ *     tags: [Cars]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
  *     responses:
  *       200:
- *         description: Auto obtenido exitosamente
+ *         description: Historial obtenido exitosamente
  *       404:
  *         description: Auto no encontrado
  */
-router.get('/:id', authenticate, validate(carIdValidation), carController.getCarById);
+router.get(
+  '/:id/history',
+  authenticateWithScope('cars:read'),
+  resolveOrganization,
+  requirePermission('cars:read'),
+  validate(carHistoryValidations),
+  carController.getCarHistory
+);
+
+/**
+ * @swagger
+ * /api/cars/{id}/history/diff:
+ *   get:
+ *     summary: Comparar dos versiones del auto
+ *     tags: [Cars]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Campos que cambiaron entre ambas versiones
+ *       404:
+ *         description: Auto o versión no encontrados
+ */
+router.get(
+  '/:id/history/diff',
+  authenticateWithScope('cars:read'),
+  resolveOrganization,
+  requirePermission('cars:read'),
+  validate(carVersionDiffValidations),
+  carController.diffCarVersions
+);
+
+/**
+ * @swagger
+ * /api/cars/{id}/history/{version}/revert:
+ *   post:
+ *     summary: Revertir el auto a una versión anterior
+ *     description: >
+ *       Restaura marca, modelo, año, precio, kilometraje, color y contacto. Las fotos no
+ *       cambian. La reversión genera una nueva versión.
+ *     tags: [Cars]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Auto revertido exitosamente
+ *       403:
+ *         description: Solo el creador o un administrador puede modificar el auto
+ *       404:
+ *         description: Auto o versión no encontrados
+ */
+router.post(
+  '/:id/history/:version/revert',
+  authenticateWithScope('cars:write'),
+  resolveOrganization,
+  validate(revertCarValidations),
+  authorizeCarOwner,
+  carController.revertCar
+);
+
+/**
+ * @swagger
+ * /api/cars/{id}/price-history:
+ *   get:
+ *     summary: Historial de precios del auto
+ *     description: >
+ *       Cambios de precio en orden cronológico, con el precio anterior, el nuevo, la
+ *       diferencia y el usuario que hizo el cambio.
+ *     tags: [Cars]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Historial de precios obtenido exitosamente
+ *       404:
+ *         description: Auto no encontrado
+ */
+router.get(
+  '/:id/price-history',
+  authenticateWithScope('cars:read'),
+  resolveOrganization,
+  requirePermission('cars:read'),
+  validate(carHistoryValidations),
+  carController.getPriceHistory
+);
 
 /**
  * @swagger
@@ -133,6 +596,9 @@ router.get('/:id', authenticate, validate(carIdValidation), carController.getCar
  *     tags: [Cars]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
  *     requestBody:
  *       required: true
  *       content:
@@ -171,13 +637,19 @@ router.get('/:id', authenticate, validate(carIdValidation), carController.getCar
  *     responses:
  *       201:
  *         description: Auto creado exitosamente
+ *       403:
+ *         description: Email no verificado (si REQUIRE_VERIFIED_EMAIL_FOR_CARS está activo)
  */
 router.post(
   '/',
-  authenticate,
+  authenticateWithScope('cars:write'),
+  resolveOrganization,
+  requirePermission('cars:create'),
+  requireVerifiedEmail,
   createLimiter,
   uploadLimiter,
   uploadSingle,
+  processUploadedImages,
   parseCarBody,
   validate(createCarValidations),
   carController.createCar
@@ -187,22 +659,41 @@ router.post(
  * @swagger
  * /api/cars/{id}:
  *   put:
- *     summary: Actualizar auto existente
+ *     summary: Reemplazar los datos de un auto existente
+ *     description: >
+ *       Reemplazo completo: se validan los mismos campos que al crear y los opcionales
+ *       ausentes (color) se borran. La galería no cambia; si se envía foto reemplaza la portada
+ *       y si no, la portada se conserva (para borrarla se usa PATCH con foto null).
  *     tags: [Cars]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *       - in: header
+ *         name: If-Match
+ *         description: ETag obtenida al leer el auto; si no coincide con la actual se rechaza
+ *         schema:
+ *           type: string
  *     requestBody:
  *       required: true
  *       content:
  *         multipart/form-data:
  *           schema:
  *             type: object
+ *             required:
+ *               - marca
+ *               - modelo
+ *               - anio
+ *               - precio
+ *               - kilometraje
+ *               - email
+ *               - telefono
  *             properties:
  *               marca:
  *                 type: string
@@ -226,19 +717,106 @@ router.post(
  *     responses:
  *       200:
  *         description: Auto actualizado exitosamente
+ *       403:
+ *         description: Solo el creador o un administrador puede modificar el auto
  *       404:
  *         description: Auto no encontrado
+ *       409:
+ *         description: Otro usuario modificó el auto durante la actualización; incluye el estado actual
+ *       412:
+ *         description: If-Match no coincide con la revisión actual; incluye el estado actual
  */
 router.put(
   '/:id',
-  authenticate,
+  authenticateWithScope('cars:write'),
+  resolveOrganization,
+  validate(carIdValidation),
+  authorizeCarOwner,
   uploadLimiter,
   uploadSingle,
+  processUploadedImages,
   parseCarBody,
-  validate(updateCarValidations),
+  validate(createCarValidations),
   carController.updateCar
 );
 
+/**
+ * @swagger
+ * /api/cars/{id}:
+ *   patch:
+ *     summary: Modificar un auto con JSON Merge Patch
+ *     description: >
+ *       Los campos ausentes no cambian y null borra el campo. Solo se pueden borrar color y
+ *       foto; borrar la foto elimina el archivo y la siguiente foto de la galería pasa a ser
+ *       la portada.
+ *     tags: [Cars]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: If-Match
+ *         description: ETag obtenida al leer el auto; si no coincide con la actual se rechaza
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/merge-patch+json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               marca:
+ *                 type: string
+ *               modelo:
+ *                 type: string
+ *               anio:
+ *                 type: integer
+ *               precio:
+ *                 type: integer
+ *               kilometraje:
+ *                 type: integer
+ *               color:
+ *                 type: string
+ *                 nullable: true
+ *               email:
+ *                 type: string
+ *               telefono:
+ *                 type: string
+ *               foto:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Solo acepta null
+ *     responses:
+ *       200:
+ *         description: Auto actualizado exitosamente
+ *       400:
+ *         description: Datos inválidos o intento de borrar un campo requerido
+ *       403:
+ *         description: Solo el creador o un administrador puede modificar el auto
+ *       404:
+ *         description: Auto no encontrado
+ *       409:
+ *         description: Otro usuario modificó el auto durante la actualización; incluye el estado actual
+ *       412:
+ *         description: If-Match no coincide con la revisión actual; incluye el estado actual
+ */
+router.patch(
+  '/:id',
+  authenticateWithScope('cars:write'),
+  resolveOrganization,
+  validate(carIdValidation),
+  authorizeCarOwner,
+  validate(patchCarValidations),
+  carController.patchCar
+);
+
 /**
  * @swagger
  * /api/cars/{id}:
@@ -247,7 +825,9 @@ router.put(
  *     tags: [Cars]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
  *       - in: path
  *         name: id
  *         required: true
@@ -256,9 +836,255 @@ router.put(
  *     responses:
  *       200:
  *         description: Auto eliminado exitosamente
+ *       403:
+ *         description: Solo el creador o un administrador puede eliminar el auto
+ *       404:
+ *         description: Auto no encontrado
+ */
+router.delete(
+  '/:id',
+  authenticateWithScope('cars:write'),
+  resolveOrganization,
+  requirePermission('cars:delete'),
+  validate(carIdValidation),
+  authorizeCarOwner,
+  carController.deleteCar
+);
+
+/**
+ * @swagger
+ * /api/cars/{id}/restore:
+ *   post:
+ *     summary: Restaurar auto de la papelera (requiere cars:delete y cars:update:any)
+ *     tags: [Cars]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Auto restaurado exitosamente
+ *       404:
+ *         description: Auto no encontrado en la papelera
+ */
+router.post(
+  '/:id/restore',
+  authenticate,
+  resolveOrganization,
+  requirePermission('cars:delete', 'cars:update:any'),
+  validate(carIdValidation),
+  carController.restoreCar
+);
+
+/**
+ * @swagger
+ * /api/cars/{id}/purge:
+ *   delete:
+ *     summary: Eliminar permanentemente un auto de la papelera (requiere cars:delete y cars:update:any)
+ *     tags: [Cars]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Auto eliminado permanentemente
+ *       404:
+ *         description: Auto no encontrado en la papelera
+ */
+router.delete(
+  '/:id/purge',
+  authenticate,
+  resolveOrganization,
+  requirePermission('cars:delete', 'cars:update:any'),
+  validate(carIdValidation),
+  carController.purgeCar
+);
+
+/**
+ * @swagger
+ * /api/cars/{id}/photos:
+ *   post:
+ *     summary: Agregar fotos a la galería del auto
+ *     tags: [Cars]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               fotos:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       200:
+ *         description: Fotos agregadas exitosamente
+ *       400:
+ *         description: Sin fotos o se excede el máximo por auto
+ *       403:
+ *         description: Solo el creador o un administrador puede modificar el auto
+ *       404:
+ *         description: Auto no encontrado
+ */
+router.post(
+  '/:id/photos',
+  authenticateWithScope('cars:write'),
+  resolveOrganization,
+  validate(carIdValidation),
+  authorizeCarOwner,
+  uploadLimiter,
+  uploadMultiple(config.MAX_PHOTOS_PER_CAR),
+  processUploadedImages,
+  carController.addPhotos
+);
+
+/**
+ * @swagger
+ * /api/cars/{id}/photos/order:
+ *   put:
+ *     summary: Reordenar la galería de fotos del auto
+ *     tags: [Cars]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - fotos
+ *             properties:
+ *               fotos:
+ *                 type: array
+ *                 description: Nombres de archivo o URLs de todas las fotos en el nuevo orden
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Fotos reordenadas exitosamente
+ *       400:
+ *         description: El orden no contiene todas las fotos exactamente una vez
  *       404:
  *         description: Auto no encontrado
  */
-router.delete('/:id', authenticate, validate(carIdValidation), carController.deleteCar);
+router.put(
+  '/:id/photos/order',
+  authenticateWithScope('cars:write'),
+  resolveOrganization,
+  validate(reorderPhotosValidations),
+  authorizeCarOwner,
+  carController.reorderPhotos
+);
+
+/**
+ * @swagger
+ * /api/cars/{id}/photos/cover:
+ *   put:
+ *     summary: Designar la foto de portada del auto
+ *     tags: [Cars]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - foto
+ *             properties:
+ *               foto:
+ *                 type: string
+ *                 description: Nombre de archivo o URL de una foto de la galería
+ *     responses:
+ *       200:
+ *         description: Portada actualizada exitosamente
+ *       404:
+ *         description: Auto o foto no encontrada
+ */
+router.put(
+  '/:id/photos/cover',
+  authenticateWithScope('cars:write'),
+  resolveOrganization,
+  validate(coverPhotoValidations),
+  authorizeCarOwner,
+  carController.setCoverPhoto
+);
+
+/**
+ * @swagger
+ * /api/cars/{id}/photos/{filename}:
+ *   delete:
+ *     summary: Quitar una foto de la galería del auto
+ *     tags: [Cars]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: filename
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Foto eliminada exitosamente
+ *       404:
+ *         description: Auto o foto no encontrada
+ */
+router.delete(
+  '/:id/photos/:filename',
+  authenticateWithScope('cars:write'),
+  resolveOrganization,
+  validate(carPhotoParamValidations),
+  authorizeCarOwner,
+  carController.removePhoto
+);
 
 export default router;
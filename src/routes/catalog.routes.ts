@@ -6,7 +6,16 @@
 
 import { Router } from 'express';
 import catalogController from '../controllers/catalog.controller';
-import { authenticate } from '../middlewares/auth.middleware';
+import { authenticateWithScope, requirePermission } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validation.middleware';
+import {
+  brandParamValidation,
+  modelParamValidations,
+  upsertCatalogValidations,
+  renameBrandValidations,
+  addModelValidations,
+  renameModelValidations,
+} from '../validators/catalog.validators';
 
 const router = Router();
 
@@ -71,14 +80,259 @@ router.get('/years', catalogController.getYears);
  * @swagger
  * /api/catalogs/initialize:
  *   post:
- *     summary: Inicializar catálogos con datos predeterminados
+ *     summary: Inicializar catálogos con datos predeterminados (requiere catalog:manage)
  *     tags: [Catalogs]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     responses:
- *       200:
+ *       201:
  *         description: Catálogos inicializados exitosamente
+ *       403:
+ *         description: Permisos insuficientes
+ */
+router.post(
+  '/initialize',
+  authenticateWithScope('catalog:write'),
+  requirePermission('catalog:manage'),
+  catalogController.initializeCatalogs
+);
+
+/**
+ * @swagger
+ * /api/catalogs:
+ *   post:
+ *     summary: Crear o reemplazar una marca con sus modelos (requiere catalog:manage)
+ *     tags: [Catalogs]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - marca
+ *               - modelos
+ *             properties:
+ *               marca:
+ *                 type: string
+ *               modelos:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       201:
+ *         description: Catálogo actualizado exitosamente
+ *       400:
+ *         description: Datos inválidos
+ *       403:
+ *         description: Permisos insuficientes
+ */
+router.post(
+  '/',
+  authenticateWithScope('catalog:write'),
+  requirePermission('catalog:manage'),
+  validate(upsertCatalogValidations),
+  catalogController.upsertCatalog
+);
+
+/**
+ * @swagger
+ * /api/catalogs/{marca}:
+ *   patch:
+ *     summary: Renombrar una marca (requiere catalog:manage)
+ *     tags: [Catalogs]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: marca
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - marca
+ *             properties:
+ *               marca:
+ *                 type: string
+ *                 description: Nuevo nombre de la marca
+ *     responses:
+ *       200:
+ *         description: Marca actualizada exitosamente
+ *       404:
+ *         description: Marca no encontrada
+ *       409:
+ *         description: Ya existe una marca con ese nombre
+ */
+router.patch(
+  '/:marca',
+  authenticateWithScope('catalog:write'),
+  requirePermission('catalog:manage'),
+  validate(renameBrandValidations),
+  catalogController.renameBrand
+);
+
+/**
+ * @swagger
+ * /api/catalogs/{marca}:
+ *   delete:
+ *     summary: Desactivar una marca (requiere catalog:manage)
+ *     tags: [Catalogs]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: marca
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Marca desactivada exitosamente
+ *       404:
+ *         description: Marca no encontrada
+ */
+router.delete(
+  '/:marca',
+  authenticateWithScope('catalog:write'),
+  requirePermission('catalog:manage'),
+  validate(brandParamValidation),
+  catalogController.deactivateBrand
+);
+
+/**
+ * @swagger
+ * /api/catalogs/{marca}/models:
+ *   post:
+ *     summary: Agregar o reactivar un modelo de una marca (requiere catalog:manage)
+ *     tags: [Catalogs]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: marca
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - modelo
+ *             properties:
+ *               modelo:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Modelo agregado exitosamente
+ *       404:
+ *         description: Marca no encontrada
+ *       409:
+ *         description: El modelo ya existe para esta marca
+ */
+router.post(
+  '/:marca/models',
+  authenticateWithScope('catalog:write'),
+  requirePermission('catalog:manage'),
+  validate(addModelValidations),
+  catalogController.addModel
+);
+
+/**
+ * @swagger
+ * /api/catalogs/{marca}/models/{modelo}:
+ *   patch:
+ *     summary: Renombrar un modelo (requiere catalog:manage)
+ *     tags: [Catalogs]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: marca
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: modelo
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - nombre
+ *             properties:
+ *               nombre:
+ *                 type: string
+ *                 description: Nuevo nombre del modelo
+ *     responses:
+ *       200:
+ *         description: Modelo actualizado exitosamente
+ *       404:
+ *         description: Marca o modelo no encontrado
+ *       409:
+ *         description: El modelo ya existe para esta marca
+ */
+router.patch(
+  '/:marca/models/:modelo',
+  authenticateWithScope('catalog:write'),
+  requirePermission('catalog:manage'),
+  validate(renameModelValidations),
+  catalogController.renameModel
+);
+
+/**
+ * @swagger
+ * /api/catalogs/{marca}/models/{modelo}:
+ *   delete:
+ *     summary: Desactivar un modelo (requiere catalog:manage)
+ *     tags: [Catalogs]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: marca
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: modelo
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Modelo desactivado exitosamente
+ *       404:
+ *         description: Marca o modelo no encontrado
  */
-router.post('/initialize', authenticate, catalogController.initializeCatalogs);
+router.delete(
+  '/:marca/models/:modelo',
+  authenticateWithScope('catalog:write'),
+  requirePermission('catalog:manage'),
+  validate(modelParamValidations),
+  catalogController.deactivateModel
+);
 
 export default router;
@@ -6,8 +6,13 @@
 
 import { Router } from 'express';
 import authRoutes from './auth.routes';
+import apiKeyRoutes from './apiKey.routes';
+import roleRoutes from './role.routes';
+import organizationRoutes from './organization.routes';
+import auditRoutes from './audit.routes';
 import carRoutes from './car.routes';
 import catalogRoutes from './catalog.routes';
+import userRoutes from './user.routes';
 
 const router = Router();
 
@@ -17,5 +22,10 @@ const router = Router();
 router.use('/auth', authRoutes);
 router.use('/cars', carRoutes);
 router.use('/catalogs', catalogRoutes);
+router.use('/users', userRoutes);
+router.use('/api-keys', apiKeyRoutes);
+router.use('/roles', roleRoutes);
+router.use('/organizations', organizationRoutes);
+router.use('/audit-logs', auditRoutes);
 
 export default router;
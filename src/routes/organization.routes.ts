@@ -0,0 +1,203 @@
+/**
+ * Organization Routes
+ * @module routes/organization
+ * @description Rutas de administración de organizaciones (requiere organizations:manage)
+ */
+
+import { Router } from 'express';
+import organizationController from '../controllers/organization.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validation.middleware';
+import {
+  organizationIdValidation,
+  createOrganizationValidations,
+  updateOrganizationValidations,
+  addMemberValidations,
+  removeMemberValidations,
+} from '../validators/organization.validators';
+
+const router = Router();
+
+// Todas las rutas de organizaciones requieren un usuario autenticado con el permiso organizations:manage
+router.use(authenticate, requirePermission('organizations:manage'));
+
+/**
+ * @swagger
+ * /api/organizations:
+ *   get:
+ *     summary: Listar organizaciones (requiere organizations:manage)
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Organizaciones obtenidas exitosamente
+ */
+router.get('/', organizationController.listOrganizations);
+
+/**
+ * @swagger
+ * /api/organizations/{id}:
+ *   get:
+ *     summary: Obtener organización por ID (requiere organizations:manage)
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Organización obtenida exitosamente
+ *       404:
+ *         description: Organización no encontrada
+ */
+router.get('/:id', validate(organizationIdValidation), organizationController.getOrganizationById);
+
+/**
+ * @swagger
+ * /api/organizations:
+ *   post:
+ *     summary: Crear una organización (requiere organizations:manage)
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - slug
+ *             properties:
+ *               name:
+ *                 type: string
+ *               slug:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Organización creada exitosamente
+ *       400:
+ *         description: Datos inválidos
+ *       409:
+ *         description: La organización ya existe
+ */
+router.post(
+  '/',
+  validate(createOrganizationValidations),
+  organizationController.createOrganization
+);
+
+/**
+ * @swagger
+ * /api/organizations/{id}:
+ *   patch:
+ *     summary: Actualizar el nombre o el estado de una organización (requiere organizations:manage)
+ *     description: Una organización desactivada no admite operaciones; sus autos se conservan.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Organización actualizada exitosamente
+ *       400:
+ *         description: Datos inválidos o desactivación de la organización por defecto
+ *       404:
+ *         description: Organización no encontrada
+ */
+router.patch(
+  '/:id',
+  validate(updateOrganizationValidations),
+  organizationController.updateOrganization
+);
+
+/**
+ * @swagger
+ * /api/organizations/{id}/members:
+ *   post:
+ *     summary: Agregar un usuario a una organización (requiere organizations:manage)
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *             properties:
+ *               userId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Miembro agregado exitosamente
+ *       404:
+ *         description: Organización o usuario no encontrado
+ *       409:
+ *         description: El usuario ya pertenece a la organización
+ */
+router.post('/:id/members', validate(addMemberValidations), organizationController.addMember);
+
+/**
+ * @swagger
+ * /api/organizations/{id}/members/{userId}:
+ *   delete:
+ *     summary: Quitar un usuario de una organización (requiere organizations:manage)
+ *     description: Los autos que publicó el usuario permanecen en la organización.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Miembro quitado exitosamente
+ *       404:
+ *         description: Organización o usuario no encontrado, o el usuario no es miembro
+ */
+router.delete(
+  '/:id/members/:userId',
+  validate(removeMemberValidations),
+  organizationController.removeMember
+);
+
+export default router;
@@ -0,0 +1,172 @@
+/**
+ * Role Routes
+ * @module routes/role
+ * @description Rutas de administración de roles y permisos (requiere users:manage)
+ */
+
+import { Router } from 'express';
+import roleController from '../controllers/role.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validation.middleware';
+import {
+  roleNameValidation,
+  createRoleValidations,
+  updateRoleValidations,
+} from '../validators/role.validators';
+
+const router = Router();
+
+// Todas las rutas de roles requieren un usuario autenticado con el permiso users:manage
+router.use(authenticate, requirePermission('users:manage'));
+
+/**
+ * @swagger
+ * /api/roles/permissions:
+ *   get:
+ *     summary: Listar los permisos disponibles (requiere users:manage)
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Permisos obtenidos exitosamente
+ */
+router.get('/permissions', roleController.getPermissions);
+
+/**
+ * @swagger
+ * /api/roles:
+ *   get:
+ *     summary: Listar roles con sus permisos (requiere users:manage)
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Roles obtenidos exitosamente
+ */
+router.get('/', roleController.listRoles);
+
+/**
+ * @swagger
+ * /api/roles/{name}:
+ *   get:
+ *     summary: Obtener un rol (requiere users:manage)
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rol obtenido exitosamente
+ *       404:
+ *         description: Rol no encontrado
+ */
+router.get('/:name', validate(roleNameValidation), roleController.getRole);
+
+/**
+ * @swagger
+ * /api/roles:
+ *   post:
+ *     summary: Crear un rol personalizado (requiere users:manage)
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - permissions
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       201:
+ *         description: Rol creado exitosamente
+ *       400:
+ *         description: Datos inválidos o permisos desconocidos
+ *       409:
+ *         description: El rol ya existe
+ */
+router.post('/', validate(createRoleValidations), roleController.createRole);
+
+/**
+ * @swagger
+ * /api/roles/{name}:
+ *   patch:
+ *     summary: Actualizar la descripción o los permisos de un rol (requiere users:manage)
+ *     description: El rol admin no se puede modificar.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               description:
+ *                 type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Rol actualizado exitosamente
+ *       400:
+ *         description: Datos inválidos o rol admin
+ *       404:
+ *         description: Rol no encontrado
+ */
+router.patch('/:name', validate(updateRoleValidations), roleController.updateRole);
+
+/**
+ * @swagger
+ * /api/roles/{name}:
+ *   delete:
+ *     summary: Eliminar un rol personalizado (requiere users:manage)
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rol eliminado exitosamente
+ *       400:
+ *         description: Los roles del sistema no se pueden eliminar
+ *       404:
+ *         description: Rol no encontrado
+ *       409:
+ *         description: El rol está asignado a usuarios
+ */
+router.delete('/:name', validate(roleNameValidation), roleController.deleteRole);
+
+export default router;
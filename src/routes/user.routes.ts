@@ -0,0 +1,281 @@
+/**
+ * User Routes
+ * @module routes/user
+ * @description Rutas de administración de usuarios (requiere users:manage)
+ */
+
+import { Router } from 'express';
+import userController from '../controllers/user.controller';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validation.middleware';
+import {
+  userIdValidation,
+  userFilterValidations,
+  updateUserValidations,
+  updateRoleValidations,
+  userCarsValidations,
+} from '../validators/user.validators';
+
+const router = Router();
+
+// Todas las rutas de usuarios requieren un usuario autenticado con el permiso users:manage
+router.use(authenticate, requirePermission('users:manage'));
+
+/**
+ * @swagger
+ * /api/users:
+ *   get:
+ *     summary: Listar usuarios (requiere users:manage)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Buscar por email o nombre
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           description: Nombre de un rol existente (GET /api/roles)
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: locked
+ *         schema:
+ *           type: boolean
+ *         description: Filtrar cuentas bloqueadas por intentos fallidos de login
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Usuarios obtenidos exitosamente
+ *       401:
+ *         description: No autenticado
+ *       403:
+ *         description: No autorizado
+ */
+router.get('/', validate(userFilterValidations), userController.listUsers);
+
+/**
+ * @swagger
+ * /api/users/{id}:
+ *   get:
+ *     summary: Obtener usuario por ID (requiere users:manage)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Usuario obtenido exitosamente
+ *       404:
+ *         description: Usuario no encontrado
+ */
+router.get('/:id', validate(userIdValidation), userController.getUserById);
+
+/**
+ * @swagger
+ * /api/users/{id}:
+ *   patch:
+ *     summary: Actualizar nombre, rol o estado de un usuario (requiere users:manage)
+ *     description: Solo acepta name, role e isActive. Cualquier otro campo es rechazado.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *                 description: Nombre de un rol existente (GET /api/roles)
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Usuario actualizado exitosamente
+ *       400:
+ *         description: Datos inválidos o cambio sobre la propia cuenta
+ *       404:
+ *         description: Usuario no encontrado
+ *       409:
+ *         description: Debe existir al menos un administrador activo
+ */
+router.patch('/:id', validate(updateUserValidations), userController.updateUser);
+
+/**
+ * @swagger
+ * /api/users/{id}/role:
+ *   put:
+ *     summary: Cambiar el rol de un usuario (requiere users:manage)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 description: Nombre de un rol existente (GET /api/roles)
+ *     responses:
+ *       200:
+ *         description: Rol actualizado exitosamente
+ *       400:
+ *         description: Rol inválido o cambio del propio rol
+ *       404:
+ *         description: Usuario no encontrado
+ *       409:
+ *         description: Debe existir al menos un administrador activo
+ */
+router.put('/:id/role', validate(updateRoleValidations), userController.updateRole);
+
+/**
+ * @swagger
+ * /api/users/{id}/deactivate:
+ *   post:
+ *     summary: Desactivar un usuario y revocar sus sesiones (requiere users:manage)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Usuario desactivado exitosamente
+ *       400:
+ *         description: No puedes desactivar tu propia cuenta
+ *       404:
+ *         description: Usuario no encontrado
+ *       409:
+ *         description: Debe existir al menos un administrador activo
+ */
+router.post('/:id/deactivate', validate(userIdValidation), userController.deactivateUser);
+
+/**
+ * @swagger
+ * /api/users/{id}/reactivate:
+ *   post:
+ *     summary: Reactivar un usuario (requiere users:manage)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Usuario reactivado exitosamente
+ *       404:
+ *         description: Usuario no encontrado
+ */
+router.post('/:id/reactivate', validate(userIdValidation), userController.reactivateUser);
+
+/**
+ * @swagger
+ * /api/users/{id}/unlock:
+ *   post:
+ *     summary: Desbloquear una cuenta bloqueada por intentos fallidos de login (requiere users:manage)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Usuario desbloqueado exitosamente
+ *       404:
+ *         description: Usuario no encontrado
+ */
+router.post('/:id/unlock', validate(userIdValidation), userController.unlockUser);
+
+/**
+ * @swagger
+ * /api/users/{id}/cars:
+ *   get:
+ *     summary: Obtener los autos creados por un usuario (requiere users:manage)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: includeDeleted
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Incluir autos en la papelera
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Autos del usuario obtenidos exitosamente
+ *       404:
+ *         description: Usuario no encontrado
+ */
+router.get('/:id/cars', validate(userCarsValidations), userController.getUserCars);
+
+export default router;
@@ -0,0 +1,49 @@
+/**
+ * Storage Migration Script
+ * @module scripts/migrateStorage
+ * @description Script para copiar las fotos del disco local (UPLOAD_PATH) al driver
+ * de almacenamiento configurado en STORAGE_DRIVER
+ */
+
+import { config } from '../config/env';
+import storageService, { LocalStorageDriver } from '../services/storage.service';
+import { detectImageFormat } from '../utils/image';
+import { logger } from '../utils/logger';
+
+/**
+ * Copiar los archivos locales que aún no existen en el almacenamiento destino
+ */
+const migrateStorage = async (): Promise<void> => {
+  if (storageService instanceof LocalStorageDriver) {
+    logger.warn('STORAGE_DRIVER is local, nothing to migrate');
+    return;
+  }
+
+  const source = new LocalStorageDriver(config.UPLOAD_PATH);
+  const files = await source.list();
+  let copied = 0;
+  let skipped = 0;
+
+  for (const { filename } of files) {
+    if (await storageService.exists(filename)) {
+      skipped++;
+      continue;
+    }
+
+    const data = await source.read(filename);
+    const format = detectImageFormat(data);
+    const contentType = format ? `image/${format}` : 'application/octet-stream';
+
+    await storageService.save(filename, data, contentType);
+    copied++;
+  }
+
+  logger.success(`Files copied to ${storageService.name}: ${copied}, already present: ${skipped}`);
+};
+
+migrateStorage()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    logger.error('Error migrating storage:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,57 @@
+/**
+ * Image Backfill Script
+ * @module scripts/processImages
+ * @description Script para procesar las imágenes subidas antes del pipeline de procesamiento:
+ * elimina metadatos EXIF/GPS y genera las versiones redimensionadas faltantes
+ */
+
+import storageService from '../services/storage.service';
+import { saveProcessedImage } from '../middlewares/upload.middleware';
+import {
+  IMAGE_RENDITIONS,
+  getOriginalFilename,
+  getRenditionFilename,
+  processImage,
+} from '../utils/image';
+import { logger } from '../utils/logger';
+
+/**
+ * Procesar las imágenes que aún no tienen todas sus versiones
+ */
+const processImages = async (): Promise<void> => {
+  const files = await storageService.list();
+  const stored = new Set(files.map((file) => file.filename));
+  let processed = 0;
+  let failed = 0;
+
+  for (const { filename } of files) {
+    if (getOriginalFilename(filename)) {
+      continue;
+    }
+
+    const hasRenditions = IMAGE_RENDITIONS.every((rendition) =>
+      stored.has(getRenditionFilename(filename, rendition))
+    );
+    if (hasRenditions) {
+      continue;
+    }
+
+    try {
+      const image = await processImage(await storageService.read(filename), filename);
+      await saveProcessedImage(filename, image);
+      processed++;
+    } catch (error) {
+      failed++;
+      logger.warn(`Could not process ${filename}:`, error);
+    }
+  }
+
+  logger.success(`Images processed: ${processed}, failed: ${failed}`);
+};
+
+processImages()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    logger.error('Error processing images:', error);
+    process.exit(1);
+  });
@@ -9,6 +9,8 @@ import { config } from '../config/env';
 import User from '../models/User';
 import Car from '../models/Car';
 import catalogService from '../services/catalog.service';
+import roleService from '../services/role.service';
+import organizationService from '../services/organization.service';
 import { logger } from '../utils/logger';
 
 /**
@@ -24,6 +26,30 @@ const connectDB = async (): Promise<void> => {
   }
 };
 
+/**
+ * Crear los roles del sistema (admin, inventory_manager, salesperson, user, viewer)
+ */
+const initializeRoles = async (): Promise<void> => {
+  try {
+    await roleService.ensureDefaultRoles();
+    logger.success('Roles initialized successfully');
+  } catch (error) {
+    logger.error('Error initializing roles:', error);
+  }
+};
+
+/**
+ * Crear la organización por defecto
+ */
+const initializeOrganizations = async (): Promise<void> => {
+  try {
+    await organizationService.getDefaultOrganization();
+    logger.success('Default organization initialized successfully');
+  } catch (error) {
+    logger.error('Error initializing organizations:', error);
+  }
+};
+
 /**
  * Crear usuario administrador por defecto
  */
@@ -38,16 +64,17 @@ const createAdminUser = async (): Promise<void> => {
 
     const admin = new User({
       email: 'admin@carinventory.com',
-      password: 'Admin123',
+      password: 'Inventario2024',
       name: 'Administrator',
       role: 'admin',
       isActive: true,
+      emailVerified: true,
     });
 
     await admin.save();
     logger.success('Admin user created successfully');
     logger.info('Email: admin@carinventory.com');
-    logger.info('Password: Admin123');
+    logger.info('Password: Inventario2024');
   } catch (error) {
     logger.error('Error creating admin user:', error);
   }
@@ -67,16 +94,17 @@ const createTestUser = async (): Promise<void> => {
 
     const user = new User({
       email: 'user@carinventory.com',
-      password: 'User123',
+      password: 'Vehiculos2024',
       name: 'Test User',
       role: 'user',
       isActive: true,
+      emailVerified: true,
     });
 
     await user.save();
     logger.success('Test user created successfully');
     logger.info('Email: user@carinventory.com');
-    logger.info('Password: User123');
+    logger.info('Password: Vehiculos2024');
   } catch (error) {
     logger.error('Error creating test user:', error);
   }
@@ -276,11 +304,13 @@ const createSampleCars = async (): Promise<void> => {
 
     // Obtener el usuario admin para asignar como creador
     const adminUser = await User.findOne({ email: 'admin@carinventory.com' });
+    const organization = await organizationService.getDefaultOrganization();
 
-    // Crear todos los carros
+    // Crear todos los carros en la organización por defecto
     const cars = sampleCars.map((carData) => ({
       ...carData,
       createdBy: adminUser?._id,
+      organization: organization._id,
       fechaAlta: new Date(),
       fechaModificacion: new Date(),
       isDeleted: false,
@@ -301,6 +331,8 @@ const seed = async (): Promise<void> => {
 
   await connectDB();
 
+  await initializeRoles();
+  await initializeOrganizations();
   await createAdminUser();
   await createTestUser();
   await initializeCatalogs();
@@ -308,8 +340,8 @@ const seed = async (): Promise<void> => {
 
   logger.success('Database seeding completed!');
   logger.info('You can now use the following credentials to login:');
-  logger.info('Admin: admin@carinventory.com / Admin123');
-  logger.info('User: user@carinventory.com / User123');
+  logger.info('Admin: admin@carinventory.com / Inventario2024');
+  logger.info('User: user@carinventory.com / Vehiculos2024');
 
   await mongoose.connection.close();
   process.exit(0);
@@ -0,0 +1,50 @@
+/**
+ * Email Verification Backfill Script
+ * @module scripts/verifyExistingUsers
+ * @description Script para marcar como verificados a los usuarios creados antes de exigir la
+ * verificación de email (REQUIRE_VERIFIED_EMAIL_FOR_CARS), que nunca recibieron el enlace
+ */
+
+import mongoose from 'mongoose';
+import { config } from '../config/env';
+import User from '../models/User';
+import auditService from '../services/audit.service';
+import { auditSnapshot } from '../utils/audit';
+import { logger } from '../utils/logger';
+
+/**
+ * Marcar como verificados a los usuarios sin verificar creados antes de la fecha indicada
+ * Debe ejecutarse al desplegar la verificación de email; si se ejecuta después, la fecha
+ * del despliegue evita verificar a los usuarios registrados desde entonces
+ * @param {Date} before - Fecha límite de creación (por defecto, el momento de la ejecución)
+ */
+const verifyExistingUsers = async (before: Date): Promise<void> => {
+  await mongoose.connect(config.MONGODB_URI);
+
+  const users = await User.find({ emailVerified: { $ne: true }, createdAt: { $lt: before } });
+
+  for (const user of users) {
+    const previous = auditSnapshot('user', user);
+    user.emailVerified = true;
+    await user.save();
+    await auditService.recordUserChange('update', user, previous);
+  }
+
+  logger.success(
+    `Users marked as verified (created before ${before.toISOString()}): ${users.length}`
+  );
+};
+
+const before = process.argv[2] ? new Date(process.argv[2]) : new Date();
+
+if (isNaN(before.getTime())) {
+  logger.error(`Invalid date: ${process.argv[2]}`);
+  process.exit(1);
+}
+
+verifyExistingUsers(before)
+  .then(() => process.exit(0))
+  .catch((error) => {
+    logger.error('Error verifying existing users:', error);
+    process.exit(1);
+  });
@@ -2,12 +2,14 @@ import express, { Application, Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
-import path from 'path';
 import { connectDB } from './config/database';
 import { config } from './config/env';
 import { morganConfig, logger } from './utils/logger';
 import { swaggerServe, swaggerSetup } from './config/swagger';
 import routes from './routes';
+import storageService, { LocalStorageDriver } from './services/storage.service';
+import { startTrashRetentionJob } from './jobs/trashRetention.job';
+import { requestId } from './middlewares/requestId.middleware';
 
 // Inicializar Express
 const app: Application = express();
@@ -15,6 +17,9 @@ const app: Application = express();
 // Conectar a MongoDB
 connectDB();
 
+// Identificador de cada request (X-Request-Id)
+app.use(requestId);
+
 // Middlewares de seguridad
 app.use(
   helmet({
@@ -33,11 +38,13 @@ app.use(
   cors({
     origin: config.CORS_ORIGIN,
     credentials: true,
+    exposedHeaders: ['ETag', 'X-Request-Id'],
   })
 );
 
 // Middlewares de parseo
-app.use(express.json());
+// JSON Merge Patch (PATCH /api/cars/:id) usa su propio tipo de contenido
+app.use(express.json({ type: ['application/json', 'application/merge-patch+json'] }));
 app.use(express.urlencoded({ extended: true }));
 
 // Middleware de compresión
@@ -49,8 +56,10 @@ app.use(morganConfig);
 // Swagger Documentation
 app.use('/api-docs', swaggerServe, swaggerSetup);
 
-// Servir archivos estáticos (uploads)
-app.use('/uploads', express.static(path.join(__dirname, 'uploads')));
+// Servir archivos estáticos (uploads) cuando se almacenan en disco local
+if (storageService instanceof LocalStorageDriver) {
+  app.use('/uploads', express.static(storageService.root));
+}
 
 // Montar rutas de la API
 app.use('/api', routes);
@@ -119,6 +128,8 @@ if (process.env.NODE_ENV !== 'test') {
     logger.info(`API Documentation: http://${config.HOST}:${PORT}/api-docs`);
     logger.info(`Press CTRL+C to stop`);
   });
+
+  startTrashRetentionJob();
 }
 
 export default app;
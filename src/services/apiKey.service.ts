@@ -0,0 +1,226 @@
+/**
+ * API Key Service
+ * @module services/apiKey
+ * @description Emisión, revocación y validación de API keys para integraciones
+ */
+
+import crypto from 'crypto';
+import ApiKey, { IApiKey } from '../models/ApiKey';
+import User from '../models/User';
+import { config } from '../config/env';
+import roleService from './role.service';
+import {
+  ApiKeyFilters,
+  ApiKeyScope,
+  AuthRequest,
+  CreateApiKeyDTO,
+  PaginatedResponse,
+} from '../types';
+
+/**
+ * Prefijo con el que empiezan todas las API keys, para reconocerlas en logs y escaneos de secretos
+ */
+const API_KEY_PREFIX = 'cik_';
+
+/**
+ * Caracteres de la key que se guardan en claro para identificarla en los listados
+ */
+const DISPLAY_PREFIX_LENGTH = 12;
+
+/**
+ * Resultado de validar una API key
+ * @interface ApiKeyIdentity
+ */
+interface ApiKeyIdentity {
+  user: NonNullable<AuthRequest['user']>;
+  apiKey: NonNullable<AuthRequest['apiKey']>;
+}
+
+/**
+ * Obtener el hash con el que se almacena una API key
+ * @param {string} key - API key en texto plano
+ * @returns {string} Hash SHA-256 en hexadecimal
+ */
+const hashApiKey = (key: string): string => {
+  return crypto.createHash('sha256').update(key).digest('hex');
+};
+
+/**
+ * Clase para manejar las API keys
+ * @class ApiKeyService
+ */
+class ApiKeyService {
+  /**
+   * Emitir una API key para un usuario
+   * La key en texto plano solo se devuelve en este momento
+   * @param {CreateApiKeyDTO} data - Nombre, alcances, usuario y vigencia
+   * @param {string} actorId - ID del administrador que la emite
+   * @returns {Promise<{ apiKey: IApiKey; key: string }>} Documento creado y key en texto plano
+   * @throws {Error} Si el usuario no existe, está desactivado o no puede recibir los alcances
+   */
+  async createKey(
+    data: CreateApiKeyDTO,
+    actorId: string
+  ): Promise<{ apiKey: IApiKey; key: string }> {
+    const userId = data.userId ?? actorId;
+    const user = await User.findById(userId);
+
+    if (!user) {
+      throw new Error('Usuario no encontrado');
+    }
+
+    if (!user.isActive) {
+      throw new Error('Cuenta desactivada');
+    }
+
+    // Las rutas de escritura de catálogos exigen además el permiso catalog:manage del usuario
+    if (
+      data.scopes.includes('catalog:write') &&
+      !(await roleService.hasPermissions(user.role, ['catalog:manage']))
+    ) {
+      throw new Error('El alcance catalog:write requiere un usuario con el permiso catalog:manage');
+    }
+
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const expiresInDays = data.expiresInDays ?? config.API_KEY_DEFAULT_EXPIRES_DAYS;
+
+    const apiKey = await ApiKey.create({
+      name: data.name,
+      keyHash: hashApiKey(key),
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: [...new Set(data.scopes)],
+      user: user._id,
+      createdBy: actorId,
+      expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+    });
+
+    return { apiKey, key };
+  }
+
+  /**
+   * Listar API keys con filtros y paginación
+   * @param {ApiKeyFilters} filters - Filtros de búsqueda
+   * @returns {Promise<PaginatedResponse<IApiKey>>} API keys paginadas
+   */
+  async listKeys(filters: ApiKeyFilters): Promise<PaginatedResponse<IApiKey>> {
+    const { user, active, page = 1, limit = 10 } = filters;
+
+    const query: Record<string, unknown> = {};
+
+    if (user) {
+      query.user = user;
+    }
+
+    if (active !== undefined) {
+      const now = new Date();
+      Object.assign(
+        query,
+        active
+          ? { revokedAt: null, expiresAt: { $gt: now } }
+          : { $or: [{ revokedAt: { $ne: null } }, { expiresAt: { $lte: now } }] }
+      );
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [apiKeys, total] = await Promise.all([
+      ApiKey.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      ApiKey.countDocuments(query),
+    ]);
+
+    return {
+      data: apiKeys,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Obtener API key por ID
+   * @param {string} id - ID de la API key
+   * @returns {Promise<IApiKey>} API key encontrada
+   * @throws {Error} Si la API key no existe
+   */
+  async getKeyById(id: string): Promise<IApiKey> {
+    const apiKey = await ApiKey.findById(id);
+
+    if (!apiKey) {
+      throw new Error('API key no encontrada');
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Revocar una API key; deja de aceptarse de inmediato
+   * @param {string} id - ID de la API key
+   * @returns {Promise<IApiKey>} API key revocada
+   * @throws {Error} Si la API key no existe o ya estaba revocada
+   */
+  async revokeKey(id: string): Promise<IApiKey> {
+    const apiKey = await this.getKeyById(id);
+
+    if (apiKey.revokedAt) {
+      throw new Error('La API key ya está revocada');
+    }
+
+    apiKey.revokedAt = new Date();
+    await apiKey.save();
+
+    return apiKey;
+  }
+
+  /**
+   * Validar una API key recibida en un request y registrar su uso
+   * @param {string} key - API key en texto plano
+   * @param {string} ip - IP del request
+   * @returns {Promise<ApiKeyIdentity>} Usuario en cuyo nombre actúa la key y sus alcances
+   * @throws {Error} Si la key no existe, fue revocada, expiró o su usuario está desactivado
+   */
+  async validateKey(key: string, ip?: string): Promise<ApiKeyIdentity> {
+    const apiKey = await ApiKey.findOne({ keyHash: hashApiKey(key) });
+
+    if (!apiKey || apiKey.revokedAt) {
+      throw new Error('API key inválida');
+    }
+
+    if (apiKey.expiresAt <= new Date()) {
+      throw new Error('API key expirada');
+    }
+
+    const user = await User.findById(apiKey.user).select(
+      'email role isActive emailVerified twoFactorEnabled organizations'
+    );
+
+    if (!user) {
+      throw new Error('Usuario no encontrado');
+    }
+
+    if (!user.isActive) {
+      throw new Error('Cuenta desactivada');
+    }
+
+    await ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: new Date(), lastUsedIp: ip ?? null });
+
+    return {
+      user: {
+        id: String(user._id),
+        email: user.email,
+        role: user.role,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
+        organizations: user.organizations.map(String),
+      },
+      apiKey: {
+        id: String(apiKey._id),
+        scopes: apiKey.scopes as ApiKeyScope[],
+      },
+    };
+  }
+}
+
+export default new ApiKeyService();
@@ -0,0 +1,142 @@
+/**
+ * Audit Service
+ * @module services/audit
+ * @description Registro y consulta de la auditoría de cambios de autos, catálogos y usuarios
+ */
+
+import AuditLog, { IAuditLog } from '../models/AuditLog';
+import { IUser } from '../models/User';
+import {
+  AuditAction,
+  AuditContext,
+  AuditEntry,
+  AuditLogFilters,
+  PaginatedResponse,
+} from '../types';
+import { auditSnapshot, diffSnapshots } from '../utils/audit';
+import { logger } from '../utils/logger';
+
+/**
+ * Clase para manejar el registro de auditoría
+ * @class AuditService
+ */
+class AuditService {
+  /**
+   * Registrar un cambio. Si hay instantánea anterior y posterior solo se guardan los
+   * campos que cambiaron, y un cambio sin diferencias no se registra.
+   * Un error al registrar se informa en el log sin afectar la operación auditada
+   * @param {AuditEntry} entry - Cambio a registrar
+   * @param {AuditContext} context - Actor, API key, IP y request id
+   * @returns {Promise<void>}
+   */
+  async record(entry: AuditEntry, context: AuditContext = {}): Promise<void> {
+    let { before, after } = entry;
+
+    if (before && after) {
+      const diff = diffSnapshots(before, after);
+      if (!diff) {
+        return;
+      }
+      ({ before, after } = diff);
+    }
+
+    try {
+      await AuditLog.create({
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        organization: entry.organization ?? null,
+        actor: context.actorId ?? null,
+        actorEmail: context.actorEmail ?? null,
+        apiKey: context.apiKeyId ?? null,
+        before,
+        after,
+        ip: context.ip ?? null,
+        requestId: context.requestId ?? null,
+      });
+    } catch (error) {
+      logger.error(`Error recording audit log for ${entry.entityType} ${entry.entityId}:`, error);
+    }
+  }
+
+  /**
+   * Registrar un cambio sobre un usuario ya guardado
+   * @param {AuditAction} action - Acción realizada
+   * @param {IUser} user - Usuario en su estado posterior al cambio
+   * @param {Record<string, unknown> | null} before - Instantánea previa al cambio
+   * @param {AuditContext} context - Actor, API key, IP y request id
+   * @param {Record<string, unknown>} extra - Campos adicionales del estado posterior (p. ej. contraseña redactada)
+   * @returns {Promise<void>}
+   */
+  async recordUserChange(
+    action: AuditAction,
+    user: IUser,
+    before: Record<string, unknown> | null,
+    context: AuditContext = {},
+    extra: Record<string, unknown> = {}
+  ): Promise<void> {
+    await this.record(
+      {
+        action,
+        entityType: 'user',
+        entityId: String(user._id),
+        before,
+        after: { ...auditSnapshot('user', user), ...extra },
+      },
+      context
+    );
+  }
+
+  /**
+   * Consultar el registro de auditoría con filtros y paginación
+   * @param {AuditLogFilters} filters - Entidad, actor, acción y rango de fechas
+   * @returns {Promise<PaginatedResponse<IAuditLog>>} Entradas paginadas, las más recientes primero
+   */
+  async listLogs(filters: AuditLogFilters): Promise<PaginatedResponse<IAuditLog>> {
+    const { entityType, entityId, actor, action, from, to, page = 1, limit = 20 } = filters;
+
+    const query: Record<string, unknown> = {};
+
+    if (entityType) {
+      query.entityType = entityType;
+    }
+
+    if (entityId) {
+      query.entityId = entityId;
+    }
+
+    if (actor) {
+      query.actor = actor;
+    }
+
+    if (action) {
+      query.action = action;
+    }
+
+    if (from || to) {
+      query.createdAt = {
+        ...(from && { $gte: from }),
+        ...(to && { $lte: to }),
+      };
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [logs, total] = await Promise.all([
+      AuditLog.find(query).sort({ createdAt: -1, _id: -1 }).skip(skip).limit(limit),
+      AuditLog.countDocuments(query),
+    ]);
+
+    return {
+      data: logs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+}
+
+export default new AuditService();
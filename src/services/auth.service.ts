@@ -4,10 +4,83 @@
  * @description Lógica de negocio para autenticación
  */
 
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import User, { IUser } from '../models/User';
+import RefreshToken from '../models/RefreshToken';
+import PasswordResetToken from '../models/PasswordResetToken';
+import EmailVerificationToken from '../models/EmailVerificationToken';
+import TwoFactorChallenge from '../models/TwoFactorChallenge';
+import mailService from './mail.service';
+import carService from './car.service';
+import twoFactorService from './twoFactor.service';
+import { logger } from '../utils/logger';
 import { config } from '../config/env';
-import { RegisterDTO, LoginDTO, AuthResponse, JWTPayload } from '../types';
+import { ADMIN_ROLE } from '../config/permissions';
+import { assertPasswordPolicy } from '../utils/passwordPolicy';
+import { auditSnapshot, getSelfAuditContext, REDACTED } from '../utils/audit';
+import auditService from './audit.service';
+import {
+  RegisterDTO,
+  LoginDTO,
+  AuthResponse,
+  AuthRequest,
+  LoginResult,
+  TwoFactorChallengeResponse,
+  JWTPayload,
+  SessionContext,
+  UpdateProfileDTO,
+  DeleteAccountDTO,
+  DeleteAccountResult,
+} from '../types';
+
+/**
+ * Usuario autenticado que se agrega al request
+ */
+type AuthenticatedUser = NonNullable<AuthRequest['user']>;
+
+/**
+ * Obtener el hash con el que se almacena un token (refresh, de un solo uso o desafío 2FA)
+ * @param {string} token - Token en texto plano
+ * @returns {string} Hash SHA-256 en hexadecimal
+ */
+const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Hash con el que se compara la contraseña cuando el email no existe, para que el tiempo
+ * de respuesta del login no revele qué emails están registrados
+ */
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync(crypto.randomBytes(16).toString('hex'), 10);
+
+/**
+ * Error de un login rechazado por el bloqueo de la cuenta o la espera tras un intento fallido
+ * Incluye el momento a partir del cual se puede reintentar
+ * @class LoginRestrictionError
+ */
+export class LoginRestrictionError extends Error {
+  constructor(
+    message: string,
+    public readonly retryAt: Date
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Calcular la espera obligatoria tras una cantidad de intentos fallidos de login
+ * La espera se duplica con cada fallo: base, 2 * base, 4 * base...
+ * @param {number} failedAttempts - Intentos fallidos consecutivos
+ * @returns {number} Espera en milisegundos
+ */
+const getLoginDelayMs = (failedAttempts: number): number => {
+  if (failedAttempts <= 0) {
+    return 0;
+  }
+  return config.LOGIN_DELAY_BASE_SECONDS * 1000 * 2 ** (failedAttempts - 1);
+};
 
 /**
  * Clase para manejar la lógica de autenticación
@@ -16,13 +89,17 @@ import { RegisterDTO, LoginDTO, AuthResponse, JWTPayload } from '../types';
 class AuthService {
   /**
    * Registrar un nuevo usuario
+   * Envía un enlace para verificar el email; la cuenta puede usarse mientras tanto
    * @param {RegisterDTO} data - Datos del usuario
-   * @returns {Promise<AuthResponse>} Usuario creado y token
-   * @throws {Error} Si el email ya está registrado
+   * @param {SessionContext} context - Datos del cliente que inicia la sesión
+   * @returns {Promise<AuthResponse>} Usuario creado y tokens
+   * @throws {Error} Si el email ya está registrado o la contraseña no cumple la política
    */
-  async register(data: RegisterDTO): Promise<AuthResponse> {
+  async register(data: RegisterDTO, context: SessionContext = {}): Promise<AuthResponse> {
     const { email, password, name } = data;
 
+    assertPasswordPolicy(password, { email, name });
+
     // Verificar si el usuario ya existe
     const existingUser = await User.findOne({ email });
     if (existingUser) {
@@ -34,62 +111,367 @@ class AuthService {
       email,
       password,
       name,
-      role: 'user',
+      role: config.DEFAULT_USER_ROLE,
     });
 
     await user.save();
+    await auditService.recordUserChange('create', user, null, getSelfAuditContext(user, context));
 
-    // Generar token
-    const token = this.generateToken(user);
+    await this.sendVerificationEmail(user, user.email);
 
-    return {
-      user: {
-        id: String(user._id),
-        email: user.email,
-        name: user.name,
-        role: user.role,
-      },
-      token,
-    };
+    return this.createSession(user, context);
   }
 
   /**
    * Iniciar sesión
+   * Los intentos fallidos se cuentan por cuenta (no por IP): cada fallo impone una
+   * espera creciente antes del siguiente intento y al llegar a LOGIN_MAX_ATTEMPTS
+   * la cuenta se bloquea temporalmente y se avisa a los administradores.
+   * Una cuenta desactivada, bloqueada o en espera solo se informa con la contraseña
+   * correcta; sin ella la respuesta es la misma que para un email inexistente.
+   * Si la cuenta tiene 2FA se devuelve un desafío en lugar de la sesión
    * @param {LoginDTO} data - Credenciales del usuario
-   * @returns {Promise<AuthResponse>} Usuario y token
-   * @throws {Error} Si las credenciales son inválidas
+   * @param {SessionContext} context - Datos del cliente que inicia la sesión
+   * @returns {Promise<LoginResult>} Usuario y tokens, o desafío de segundo factor
+   * @throws {Error} Si las credenciales son inválidas o la cuenta está desactivada
+   * @throws {LoginRestrictionError} Si la cuenta está bloqueada o debe esperar antes de reintentar
    */
-  async login(data: LoginDTO): Promise<AuthResponse> {
+  async login(data: LoginDTO, context: SessionContext = {}): Promise<LoginResult> {
     const { email, password } = data;
 
     // Buscar usuario con contraseña
     const user = await User.findOne({ email }).select('+password');
     if (!user) {
+      await bcrypt.compare(password, DUMMY_PASSWORD_HASH);
+      throw new Error('Credenciales inválidas');
+    }
+
+    // La contraseña se compara siempre para que el tiempo de respuesta no dependa
+    // del estado de la cuenta
+    const isPasswordValid = await user.comparePassword(password);
+    const restriction = this.getLoginRestriction(user);
+
+    // Durante el bloqueo o la espera el intento se rechaza sin contarse como fallido
+    if (!isPasswordValid) {
+      if (user.isActive && !restriction) {
+        await this.registerFailedLogin(user, context);
+      }
       throw new Error('Credenciales inválidas');
     }
 
-    // Verificar si el usuario está activo
     if (!user.isActive) {
       throw new Error('Cuenta desactivada');
     }
 
-    // Verificar contraseña
-    const isPasswordValid = await user.comparePassword(password);
-    if (!isPasswordValid) {
-      throw new Error('Credenciales inválidas');
+    if (restriction) {
+      throw restriction;
+    }
+
+    // Los intentos fallidos se reinician recién al completar el segundo factor,
+    // para que conocer la contraseña no habilite infinitos intentos de código
+    if (user.twoFactorEnabled) {
+      return this.createTwoFactorChallenge(user, context);
+    }
+
+    await this.resetFailedLogins(user);
+
+    return this.createSession(user, context);
+  }
+
+  /**
+   * Completar un login con 2FA canjeando el desafío y un código TOTP o de recuperación
+   * Los códigos inválidos cuentan como intentos fallidos de login de la cuenta
+   * @param {string} challengeToken - Token del desafío recibido en el login
+   * @param {string} code - Código TOTP o de recuperación
+   * @param {SessionContext} context - Datos del cliente que inicia la sesión
+   * @returns {Promise<AuthResponse>} Usuario y tokens
+   * @throws {Error} Si el desafío o el código son inválidos o la cuenta está bloqueada
+   */
+  async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    context: SessionContext = {}
+  ): Promise<AuthResponse> {
+    const challenge = await TwoFactorChallenge.findOne({
+      tokenHash: hashToken(challengeToken),
+      usedAt: null,
+      expiresAt: { $gt: new Date() },
+    });
+    if (!challenge) {
+      throw new Error('Desafío de verificación inválido o expirado');
+    }
+
+    const user = await User.findById(challenge.user);
+    if (!user || !user.isActive) {
+      throw new Error('Cuenta desactivada');
+    }
+
+    this.assertLoginAllowed(user);
+
+    if (!(await twoFactorService.verifyCode(String(user._id), code))) {
+      const lockedUntil = await this.registerFailedLogin(user, context);
+      if (lockedUntil) {
+        throw new LoginRestrictionError(
+          'Cuenta bloqueada temporalmente por intentos fallidos',
+          lockedUntil
+        );
+      }
+      throw new Error('Código de verificación inválido');
+    }
+
+    // Marcar como usado de forma atómica para garantizar un solo uso
+    const claimed = await TwoFactorChallenge.findOneAndUpdate(
+      { _id: challenge._id, usedAt: null },
+      { usedAt: new Date() }
+    );
+    if (!claimed) {
+      throw new Error('Desafío de verificación inválido o expirado');
+    }
+
+    await this.resetFailedLogins(user);
+
+    return this.createSession(user, context);
+  }
+
+  /**
+   * Renovar la sesión con un refresh token
+   * El token usado se revoca y se emite uno nuevo de la misma sesión (rotación).
+   * Si se presenta un token ya rotado se asume robo y se revoca toda la sesión
+   * @param {string} refreshToken - Refresh token recibido
+   * @param {SessionContext} context - Datos del cliente
+   * @returns {Promise<AuthResponse>} Usuario y nuevos tokens
+   * @throws {Error} Si el token es inválido, fue reutilizado o la cuenta está desactivada
+   */
+  async refresh(refreshToken: string, context: SessionContext = {}): Promise<AuthResponse> {
+    const stored = await RefreshToken.findOne({ tokenHash: hashToken(refreshToken) });
+
+    if (!stored || stored.expiresAt.getTime() <= Date.now()) {
+      throw new Error('Refresh token inválido o expirado');
+    }
+
+    if (stored.revokedAt) {
+      await this.revokeSession(stored.family);
+      throw new Error('Refresh token reutilizado, la sesión fue revocada');
+    }
+
+    const user = await User.findById(stored.user);
+    if (!user || !user.isActive) {
+      await this.revokeSession(stored.family);
+      throw new Error('Cuenta desactivada');
+    }
+
+    // Revocar de forma atómica para que dos refresh simultáneos no roten el mismo token
+    const claimed = await RefreshToken.findOneAndUpdate(
+      { _id: stored._id, revokedAt: null },
+      { revokedAt: new Date() }
+    );
+    if (!claimed) {
+      await this.revokeSession(stored.family);
+      throw new Error('Refresh token reutilizado, la sesión fue revocada');
+    }
+
+    const { token, expiresAt, tokenHash } = await this.issueRefreshToken(
+      user,
+      stored.family,
+      context
+    );
+    await RefreshToken.updateOne({ _id: stored._id }, { replacedByHash: tokenHash });
+
+    return this.buildAuthResponse(user, stored.family, token, expiresAt);
+  }
+
+  /**
+   * Cerrar sesión revocando sus refresh tokens
+   * @param {string} userId - ID del usuario
+   * @param {string | undefined} sessionId - Sesión del access token usado
+   * @param {boolean} allSessions - Cerrar todas las sesiones del usuario
+   * @returns {Promise<number>} Cantidad de tokens revocados
+   */
+  async logout(
+    userId: string,
+    sessionId: string | undefined,
+    allSessions: boolean = false
+  ): Promise<number> {
+    if (allSessions) {
+      return this.revokeUserSessions(userId);
     }
 
-    // Generar token
-    const token = this.generateToken(user);
+    if (!sessionId) {
+      return 0;
+    }
+
+    return this.revokeSession(sessionId, userId);
+  }
+
+  /**
+   * Cambiar la contraseña del usuario autenticado
+   * Cierra todas las sesiones existentes y abre una nueva para el cliente actual
+   * @param {string} userId - ID del usuario
+   * @param {string} currentPassword - Contraseña actual
+   * @param {string} newPassword - Nueva contraseña
+   * @param {SessionContext} context - Datos del cliente
+   * @returns {Promise<AuthResponse>} Usuario y tokens de la nueva sesión
+   * @throws {Error} Si la contraseña actual es incorrecta o la nueva no cumple la política
+   */
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    context: SessionContext = {}
+  ): Promise<AuthResponse> {
+    const user = await User.findById(userId).select('+password');
+    if (!user) {
+      throw new Error('Usuario no encontrado');
+    }
+
+    if (!(await user.comparePassword(currentPassword))) {
+      throw new Error('La contraseña actual es incorrecta');
+    }
+
+    assertPasswordPolicy(newPassword, user);
+
+    if (await user.comparePassword(newPassword)) {
+      throw new Error('La nueva contraseña debe ser distinta de la actual');
+    }
+
+    await this.setPassword(user, newPassword, auditSnapshot('user', user), context);
+
+    return this.createSession(user, context);
+  }
+
+  /**
+   * Solicitar el restablecimiento de contraseña
+   * Envía un enlace con un token de un solo uso. No informa si el email existe
+   * para no permitir la enumeración de cuentas
+   * @param {string} email - Email de la cuenta
+   * @param {SessionContext} context - Datos del cliente
+   * @returns {Promise<void>}
+   */
+  async requestPasswordReset(email: string, context: SessionContext = {}): Promise<void> {
+    const user = await User.findOne({ email });
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    // Solo el último enlace solicitado es válido
+    await PasswordResetToken.deleteMany({ user: user._id, usedAt: null });
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    await PasswordResetToken.create({
+      tokenHash: hashToken(token),
+      user: user._id,
+      expiresAt: new Date(Date.now() + config.PASSWORD_RESET_EXPIRES_MINUTES * 60 * 1000),
+      requestedByIp: context.ip,
+    });
+
+    // Un fallo de envío no se informa al cliente para no revelar que la cuenta existe
+    try {
+      await mailService.sendPasswordReset(user.email, user.name, token);
+    } catch (error) {
+      logger.error('Error sending password reset email:', error);
+    }
+  }
+
+  /**
+   * Restablecer la contraseña con un token de restablecimiento
+   * @param {string} token - Token recibido por correo
+   * @param {string} newPassword - Nueva contraseña
+   * @param {SessionContext} context - Datos del cliente
+   * @returns {Promise<void>}
+   * @throws {Error} Si el token es inválido o expiró, o la contraseña no cumple la política
+   */
+  async resetPassword(
+    token: string,
+    newPassword: string,
+    context: SessionContext = {}
+  ): Promise<void> {
+    const tokenHash = hashToken(token);
+    const resetToken = await PasswordResetToken.findOne({
+      tokenHash,
+      usedAt: null,
+      expiresAt: { $gt: new Date() },
+    });
+    if (!resetToken) {
+      throw new Error('Token de restablecimiento inválido o expirado');
+    }
+
+    const user = await User.findById(resetToken.user).select('+password');
+    if (!user || !user.isActive) {
+      throw new Error('Token de restablecimiento inválido o expirado');
+    }
+
+    // Verificar la política antes de consumir el token para poder reintentar con otra contraseña
+    assertPasswordPolicy(newPassword, user);
+
+    // Marcar como usado de forma atómica para garantizar un solo uso
+    const claimed = await PasswordResetToken.findOneAndUpdate(
+      { _id: resetToken._id, usedAt: null },
+      { usedAt: new Date() }
+    );
+    if (!claimed) {
+      throw new Error('Token de restablecimiento inválido o expirado');
+    }
+
+    const before = auditSnapshot('user', user);
+
+    // Restablecer la contraseña demuestra el control del email y levanta el bloqueo
+    user.set({ failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null });
+    await this.setPassword(user, newPassword, before, context);
+  }
+
+  /**
+   * Revocar todas las sesiones activas de un usuario
+   * Los access tokens emitidos dejan de ser aceptados inmediatamente
+   * @param {string} userId - ID del usuario
+   * @returns {Promise<number>} Cantidad de tokens revocados
+   */
+  async revokeUserSessions(userId: string): Promise<number> {
+    const result = await RefreshToken.updateMany(
+      { user: userId, revokedAt: null },
+      { revokedAt: new Date() }
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Validar contra la base de datos el usuario y la sesión de un access token
+   * @param {JWTPayload} payload - Payload del access token ya verificado
+   * @returns {Promise<AuthenticatedUser>} Datos actuales del usuario autenticado
+   * @throws {Error} Si el usuario no existe, está desactivado o la sesión fue revocada
+   */
+  async validateSession(payload: JWTPayload): Promise<AuthenticatedUser> {
+    const user = await User.findById(payload.id).select(
+      'email role isActive emailVerified twoFactorEnabled organizations'
+    );
+
+    if (!user) {
+      throw new Error('Usuario no encontrado');
+    }
+
+    if (!user.isActive) {
+      throw new Error('Cuenta desactivada');
+    }
+
+    const sessionActive =
+      payload.sid &&
+      (await RefreshToken.exists({
+        family: payload.sid,
+        revokedAt: null,
+        expiresAt: { $gt: new Date() },
+      }));
+
+    if (!sessionActive) {
+      throw new Error('Sesión revocada');
+    }
 
     return {
-      user: {
-        id: String(user._id),
-        email: user.email,
-        name: user.name,
-        role: user.role,
-      },
-      token,
+      id: String(user._id),
+      email: user.email,
+      role: user.role,
+      emailVerified: user.emailVerified,
+      twoFactorEnabled: user.twoFactorEnabled,
+      sid: payload.sid,
+      organizations: user.organizations.map(String),
     };
   }
 
@@ -108,16 +490,283 @@ class AuthService {
   }
 
   /**
-   * Generar token JWT
+   * Guardar una nueva contraseña, invalidar sesiones y enlaces pendientes y avisar al usuario
+   * La auditoría registra el cambio de contraseña sin su contenido
+   * @private
+   * @param {IUser} user - Usuario con la contraseña seleccionada
+   * @param {string} newPassword - Nueva contraseña
+   * @param {Record<string, unknown>} before - Instantánea de auditoría previa al cambio
+   * @param {SessionContext} context - Datos del cliente
+   * @returns {Promise<void>}
+   */
+  private async setPassword(
+    user: IUser,
+    newPassword: string,
+    before: Record<string, unknown>,
+    context: SessionContext
+  ): Promise<void> {
+    user.password = newPassword;
+    await user.save();
+    await auditService.recordUserChange(
+      'update',
+      user,
+      before,
+      getSelfAuditContext(user, context),
+      { password: REDACTED }
+    );
+
+    await this.revokeUserSessions(String(user._id));
+    await PasswordResetToken.deleteMany({ user: user._id, usedAt: null });
+    await TwoFactorChallenge.deleteMany({ user: user._id, usedAt: null });
+
+    try {
+      await mailService.sendPasswordChanged(user.email, user.name);
+    } catch (error) {
+      logger.error('Error sending password changed notification:', error);
+    }
+  }
+
+  /**
+   * Obtener el error por el que la cuenta no puede iniciar sesión todavía
+   * @private
+   * @param {IUser} user - Usuario
+   * @returns {LoginRestrictionError | null} Error del bloqueo o de la espera posterior a un
+   * intento fallido, o null si puede iniciar sesión
+   */
+  private getLoginRestriction(user: IUser): LoginRestrictionError | null {
+    const now = Date.now();
+
+    if (user.lockedUntil && user.lockedUntil.getTime() > now) {
+      return new LoginRestrictionError(
+        'Cuenta bloqueada temporalmente por intentos fallidos',
+        user.lockedUntil
+      );
+    }
+
+    if (user.lastFailedLoginAt) {
+      const retryAt = user.lastFailedLoginAt.getTime() + getLoginDelayMs(user.failedLoginAttempts);
+      if (retryAt > now) {
+        return new LoginRestrictionError(
+          'Demasiados intentos fallidos, espera antes de reintentar',
+          new Date(retryAt)
+        );
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Exigir que la cuenta no esté bloqueada ni en la espera posterior a un intento fallido
+   * @private
+   * @param {IUser} user - Usuario
+   * @returns {void}
+   * @throws {LoginRestrictionError} Si la cuenta está bloqueada o debe esperar antes de reintentar
+   */
+  private assertLoginAllowed(user: IUser): void {
+    const restriction = this.getLoginRestriction(user);
+    if (restriction) {
+      throw restriction;
+    }
+  }
+
+  /**
+   * Reiniciar los intentos fallidos de login tras un inicio de sesión exitoso
+   * @private
+   * @param {IUser} user - Usuario
+   * @returns {Promise<void>}
+   */
+  private async resetFailedLogins(user: IUser): Promise<void> {
+    if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+      await User.updateOne(
+        { _id: user._id },
+        { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null }
+      );
+    }
+  }
+
+  /**
+   * Emitir un desafío de segundo factor de corta duración
+   * Solo el último desafío emitido para el usuario es válido
+   * @private
+   * @param {IUser} user - Usuario que validó su contraseña
+   * @param {SessionContext} context - Datos del cliente
+   * @returns {Promise<TwoFactorChallengeResponse>} Token del desafío y su expiración
+   */
+  private async createTwoFactorChallenge(
+    user: IUser,
+    context: SessionContext
+  ): Promise<TwoFactorChallengeResponse> {
+    await TwoFactorChallenge.deleteMany({ user: user._id, usedAt: null });
+
+    const challengeToken = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(
+      Date.now() + config.TWO_FACTOR_CHALLENGE_EXPIRES_MINUTES * 60 * 1000
+    );
+
+    await TwoFactorChallenge.create({
+      tokenHash: hashToken(challengeToken),
+      user: user._id,
+      expiresAt,
+      createdByIp: context.ip,
+    });
+
+    return {
+      twoFactorRequired: true,
+      challengeToken,
+      challengeExpiresAt: expiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Registrar un intento fallido de login y bloquear la cuenta al llegar al máximo
+   * El contador se incrementa de forma atómica para no perder intentos simultáneos
+   * @private
+   * @param {IUser} user - Usuario
+   * @param {SessionContext} context - Datos del cliente
+   * @returns {Promise<Date | null>} Fin del bloqueo si el intento bloqueó la cuenta
+   */
+  private async registerFailedLogin(user: IUser, context: SessionContext): Promise<Date | null> {
+    const updated = await User.findOneAndUpdate(
+      { _id: user._id },
+      { $inc: { failedLoginAttempts: 1 }, $set: { lastFailedLoginAt: new Date() } },
+      { new: true }
+    );
+
+    if (!updated || updated.failedLoginAttempts < config.LOGIN_MAX_ATTEMPTS) {
+      return null;
+    }
+
+    // El contador se reinicia para que al terminar el bloqueo se disponga de nuevos intentos
+    const lockedUntil = new Date(Date.now() + config.LOGIN_LOCKOUT_MINUTES * 60 * 1000);
+    await User.updateOne(
+      { _id: user._id },
+      { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil }
+    );
+
+    logger.warn(`Account ${user.email} locked until ${lockedUntil.toISOString()}`);
+
+    try {
+      const admins = await User.find({ role: ADMIN_ROLE, isActive: true }).select('email name');
+      for (const admin of admins) {
+        await mailService.sendAccountLocked(
+          admin.email,
+          admin.name,
+          user.email,
+          lockedUntil,
+          context.ip
+        );
+      }
+    } catch (error) {
+      logger.error('Error sending account locked notification:', error);
+    }
+
+    return lockedUntil;
+  }
+
+  /**
+   * Crear una nueva sesión para el usuario
+   * @private
+   * @param {IUser} user - Usuario
+   * @param {SessionContext} context - Datos del cliente
+   * @returns {Promise<AuthResponse>} Usuario y tokens de la sesión
+   */
+  private async createSession(user: IUser, context: SessionContext): Promise<AuthResponse> {
+    const family = crypto.randomUUID();
+    const { token, expiresAt } = await this.issueRefreshToken(user, family, context);
+
+    return this.buildAuthResponse(user, family, token, expiresAt);
+  }
+
+  /**
+   * Emitir y almacenar un refresh token de la sesión indicada
+   * @private
+   * @param {IUser} user - Usuario
+   * @param {string} family - ID de la sesión
+   * @param {SessionContext} context - Datos del cliente
+   * @returns {Promise<object>} Token en texto plano, su hash y su expiración
+   */
+  private async issueRefreshToken(
+    user: IUser,
+    family: string,
+    context: SessionContext
+  ): Promise<{ token: string; tokenHash: string; expiresAt: Date }> {
+    const token = crypto.randomBytes(48).toString('base64url');
+    const tokenHash = hashToken(token);
+    const expiresAt = new Date(
+      Date.now() + config.REFRESH_TOKEN_EXPIRES_DAYS * 24 * 60 * 60 * 1000
+    );
+
+    await RefreshToken.create({
+      tokenHash,
+      user: user._id,
+      family,
+      expiresAt,
+      createdByIp: context.ip,
+      userAgent: context.userAgent,
+    });
+
+    return { token, tokenHash, expiresAt };
+  }
+
+  /**
+   * Revocar los refresh tokens activos de una sesión
+   * @private
+   * @param {string} family - ID de la sesión
+   * @param {string} userId - Restringir a las sesiones de este usuario
+   * @returns {Promise<number>} Cantidad de tokens revocados
+   */
+  private async revokeSession(family: string, userId?: string): Promise<number> {
+    const result = await RefreshToken.updateMany(
+      { family, revokedAt: null, ...(userId && { user: userId }) },
+      { revokedAt: new Date() }
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Armar la respuesta de autenticación
    * @private
    * @param {IUser} user - Usuario
+   * @param {string} family - ID de la sesión
+   * @param {string} refreshToken - Refresh token en texto plano
+   * @param {Date} refreshTokenExpiresAt - Expiración del refresh token
+   * @returns {AuthResponse} Usuario y tokens
+   */
+  private buildAuthResponse(
+    user: IUser,
+    family: string,
+    refreshToken: string,
+    refreshTokenExpiresAt: Date
+  ): AuthResponse {
+    return {
+      user: {
+        id: String(user._id),
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
+      },
+      token: this.generateToken(user, family),
+      refreshToken,
+      refreshTokenExpiresAt: refreshTokenExpiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Generar access token JWT de corta duración
+   * @private
+   * @param {IUser} user - Usuario
+   * @param {string} sessionId - ID de la sesión a la que pertenece
    * @returns {string} Token JWT
    */
-  private generateToken(user: IUser): string {
+  private generateToken(user: IUser, sessionId: string): string {
     const payload: JWTPayload = {
       id: String(user._id),
       email: user.email,
       role: user.role,
+      sid: sessionId,
     };
 
     return jwt.sign(payload, config.JWT_SECRET, {
@@ -135,13 +784,243 @@ class AuthService {
   }
 
   /**
-   * Actualizar perfil de usuario
+   * Actualizar el perfil propio
+   * El nombre se aplica de inmediato. Un email nuevo queda pendiente hasta que se
+   * confirme con el enlace enviado a esa dirección, y requiere la contraseña actual
    * @param {string} userId - ID del usuario
-   * @param {Partial<IUser>} data - Datos a actualizar
-   * @returns {Promise<IUser | null>} Usuario actualizado
+   * @param {UpdateProfileDTO} data - Datos a actualizar
+   * @param {SessionContext} context - Datos del cliente
+   * @returns {Promise<IUser>} Usuario actualizado
+   * @throws {Error} Si el usuario no existe, la contraseña es incorrecta o el email ya está registrado
+   */
+  async updateProfile(
+    userId: string,
+    data: UpdateProfileDTO,
+    context: SessionContext = {}
+  ): Promise<IUser> {
+    const user = await User.findById(userId).select('+password');
+    if (!user || !user.isActive) {
+      throw new Error('Usuario no encontrado');
+    }
+
+    const before = auditSnapshot('user', user);
+
+    if (data.name !== undefined) {
+      user.name = data.name;
+    }
+
+    let requestedEmail: string | null = null;
+
+    if (data.email !== undefined) {
+      const email = data.email.toLowerCase();
+
+      if (email === user.email) {
+        // Volver al email actual cancela un cambio pendiente
+        user.pendingEmail = null;
+        await EmailVerificationToken.deleteMany({ user: user._id, usedAt: null });
+      } else {
+        if (!data.currentPassword || !(await user.comparePassword(data.currentPassword))) {
+          throw new Error('La contraseña actual es incorrecta');
+        }
+
+        if (await User.exists({ email, _id: { $ne: user._id } })) {
+          throw new Error('El email ya está registrado');
+        }
+
+        user.pendingEmail = email;
+        requestedEmail = email;
+      }
+    }
+
+    await user.save();
+    await auditService.recordUserChange('update', user, before, getSelfAuditContext(user, context));
+
+    if (requestedEmail) {
+      await this.sendVerificationEmail(user, requestedEmail);
+    }
+
+    return user;
+  }
+
+  /**
+   * Verificar un email con el token recibido por correo
+   * Si el token corresponde al email pendiente se aplica el cambio de email;
+   * si corresponde al email actual la cuenta queda verificada
+   * @param {string} token - Token de verificación
+   * @param {SessionContext} context - Datos del cliente
+   * @returns {Promise<IUser>} Usuario verificado
+   * @throws {Error} Si el token es inválido, ya fue usado o expiró, o el email ya está registrado
    */
-  async updateUser(userId: string, data: Partial<IUser>): Promise<IUser | null> {
-    return User.findByIdAndUpdate(userId, data, { new: true }).select('-password');
+  async verifyEmail(token: string, context: SessionContext = {}): Promise<IUser> {
+    // Marcar como usado de forma atómica para garantizar un solo uso
+    const verification = await EmailVerificationToken.findOneAndUpdate(
+      { tokenHash: hashToken(token), usedAt: null, expiresAt: { $gt: new Date() } },
+      { usedAt: new Date() }
+    );
+    if (!verification) {
+      throw new Error('Token de verificación inválido o expirado');
+    }
+
+    const user = await User.findById(verification.user);
+    if (!user || !user.isActive) {
+      throw new Error('Token de verificación inválido o expirado');
+    }
+
+    const before = auditSnapshot('user', user);
+
+    if (verification.email === user.email) {
+      user.emailVerified = true;
+      await user.save();
+      await auditService.recordUserChange(
+        'update',
+        user,
+        before,
+        getSelfAuditContext(user, context)
+      );
+      return user;
+    }
+
+    if (user.pendingEmail !== verification.email) {
+      throw new Error('Token de verificación inválido o expirado');
+    }
+
+    if (await User.exists({ email: verification.email, _id: { $ne: user._id } })) {
+      throw new Error('El email ya está registrado');
+    }
+
+    const previousEmail = user.email;
+    user.email = verification.email;
+    user.pendingEmail = null;
+    user.emailVerified = true;
+    await user.save();
+    await auditService.recordUserChange('update', user, before, getSelfAuditContext(user, context));
+
+    try {
+      await mailService.sendEmailChanged(previousEmail, user.name, user.email);
+    } catch (error) {
+      logger.error('Error sending email changed notification:', error);
+    }
+
+    return user;
+  }
+
+  /**
+   * Reenviar el enlace de verificación
+   * Se envía al email pendiente si hay un cambio en curso, o al email actual si no está verificado
+   * @param {string} userId - ID del usuario
+   * @returns {Promise<string>} Email al que se envió el enlace
+   * @throws {Error} Si el usuario no existe o no hay ningún email por verificar
+   */
+  async resendVerification(userId: string): Promise<string> {
+    const user = await User.findById(userId);
+    if (!user || !user.isActive) {
+      throw new Error('Usuario no encontrado');
+    }
+
+    const email = user.pendingEmail ?? (user.emailVerified ? null : user.email);
+    if (!email) {
+      throw new Error('El email ya está verificado');
+    }
+
+    await this.sendVerificationEmail(user, email);
+
+    return email;
+  }
+
+  /**
+   * Eliminar la cuenta propia
+   * La cuenta se desactiva, se cierran sus sesiones y sus autos se envían a la
+   * papelera o se transfieren a un administrador activo
+   * @param {string} userId - ID del usuario
+   * @param {DeleteAccountDTO} data - Contraseña y destino de los autos
+   * @param {SessionContext} context - Datos del cliente
+   * @returns {Promise<DeleteAccountResult>} Resultado sobre los autos del usuario
+   * @throws {Error} Si la contraseña es incorrecta, es el último administrador o no hay a quién transferir
+   */
+  async deleteAccount(
+    userId: string,
+    data: DeleteAccountDTO,
+    context: SessionContext = {}
+  ): Promise<DeleteAccountResult> {
+    const user = await User.findById(userId).select('+password');
+    if (!user || !user.isActive) {
+      throw new Error('Usuario no encontrado');
+    }
+
+    if (!(await user.comparePassword(data.password))) {
+      throw new Error('La contraseña actual es incorrecta');
+    }
+
+    const otherAdmins = { _id: { $ne: user._id }, role: ADMIN_ROLE, isActive: true };
+
+    if (user.role === ADMIN_ROLE && !(await User.exists(otherAdmins))) {
+      throw new Error('Debe existir al menos un administrador activo');
+    }
+
+    const auditContext = getSelfAuditContext(user, context);
+    const before = auditSnapshot('user', user);
+    let transferredTo: string | null = null;
+    let carsAffected: number;
+
+    if (data.carsAction === 'transfer') {
+      const target = data.transferTo
+        ? await User.findOne({ ...otherAdmins, _id: data.transferTo })
+        : await User.findOne(otherAdmins).sort({ createdAt: 1 });
+
+      if (!target || String(target._id) === userId) {
+        throw new Error('No hay un administrador activo para recibir los autos');
+      }
+
+      transferredTo = String(target._id);
+      carsAffected = await carService.transferCarsByUser(userId, transferredTo, auditContext);
+    } else {
+      carsAffected = await carService.softDeleteCarsByUser(userId, auditContext);
+    }
+
+    user.isActive = false;
+    user.pendingEmail = null;
+    await user.save();
+    await auditService.recordUserChange('delete', user, before, auditContext);
+
+    await this.revokeUserSessions(userId);
+    await Promise.all([
+      PasswordResetToken.deleteMany({ user: user._id, usedAt: null }),
+      EmailVerificationToken.deleteMany({ user: user._id, usedAt: null }),
+      TwoFactorChallenge.deleteMany({ user: user._id, usedAt: null }),
+    ]);
+
+    return { carsAction: data.carsAction, carsAffected, transferredTo };
+  }
+
+  /**
+   * Emitir un token de verificación para el email indicado y enviarlo por correo
+   * Invalida los tokens pendientes del usuario: solo el último enlace es válido.
+   * Un fallo de envío se registra sin interrumpir la operación; el usuario puede pedir reenvío
+   * @private
+   * @param {IUser} user - Usuario
+   * @param {string} email - Email a verificar
+   * @returns {Promise<void>}
+   */
+  private async sendVerificationEmail(user: IUser, email: string): Promise<void> {
+    await EmailVerificationToken.deleteMany({ user: user._id, usedAt: null });
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    await EmailVerificationToken.create({
+      tokenHash: hashToken(token),
+      user: user._id,
+      email,
+      expiresAt: new Date(Date.now() + config.EMAIL_VERIFICATION_EXPIRES_HOURS * 60 * 60 * 1000),
+    });
+
+    try {
+      if (email === user.email) {
+        await mailService.sendEmailVerification(email, user.name, token);
+      } else {
+        await mailService.sendEmailChangeConfirmation(email, user.name, token);
+      }
+    } catch (error) {
+      logger.error('Error sending email verification:', error);
+    }
   }
 }
 
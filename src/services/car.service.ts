@@ -4,7 +4,10 @@
  * @description Lógica de negocio para gestión de autos
  */
 
+import mongoose from 'mongoose';
 import Car, { ICar } from '../models/Car';
+import { ICarVersion } from '../models/CarVersion';
+import { IPriceChange } from '../models/PriceChange';
 import {
   CreateCarDTO,
   UpdateCarDTO,
@@ -12,8 +15,84 @@ import {
   PaginatedResponse,
   MongoQuery,
   SortOptions,
+  OrganizationContext,
+  AuditAction,
+  AuditContext,
+  CarVersionBase,
+  CarVersionDiff,
 } from '../types';
-import { deleteFile } from '../middlewares/upload.middleware';
+import { deleteFile, listUploadedFiles } from '../middlewares/upload.middleware';
+import { UploadedFileInfo } from '../types';
+import { config } from '../config/env';
+import { getOriginalFilename } from '../utils/image';
+import { auditSnapshot } from '../utils/audit';
+import { getCarETag } from '../utils/etag';
+import auditService from './audit.service';
+import carHistoryService from './carHistory.service';
+import priceHistoryService from './priceHistory.service';
+
+/**
+ * Tiempo mínimo de antigüedad para eliminar un archivo huérfano
+ * Evita borrar fotos recién subidas cuyo auto aún no se ha guardado
+ */
+const ORPHAN_GRACE_PERIOD_MS = 60 * 60 * 1000;
+
+/**
+ * Campos de datos del auto, sin las fotos
+ * Son los que se reemplazan con PUT y se restauran al revertir a una versión anterior
+ */
+const CAR_DATA_FIELDS = [
+  'marca',
+  'modelo',
+  'anio',
+  'precio',
+  'kilometraje',
+  'color',
+  'email',
+  'telefono',
+] as const;
+
+/**
+ * Construir el filtro que limita una consulta a los autos de una organización
+ * Los autos sin organización, anteriores a la multi-tenencia, pertenecen a la organización por defecto
+ * @param {OrganizationContext} organization - Organización activa
+ * @returns {Pick<MongoQuery, 'organization'>} Filtro por organización
+ */
+const organizationFilter = (
+  organization: OrganizationContext
+): Pick<MongoQuery, 'organization'> => {
+  const id = new mongoose.Types.ObjectId(organization.id);
+
+  return { organization: organization.isDefault ? { $in: [id, null] } : id };
+};
+
+/**
+ * Registrar en la auditoría un cambio sobre un auto
+ * @param {AuditAction} action - Acción realizada
+ * @param {ICar} car - Auto modificado
+ * @param {Record<string, unknown> | null} before - Instantánea previa al cambio
+ * @param {Record<string, unknown> | null} after - Instantánea posterior al cambio
+ * @param {AuditContext} context - Actor, API key, IP y request id
+ * @returns {Promise<void>}
+ */
+const recordCarChange = (
+  action: AuditAction,
+  car: Pick<ICar, '_id' | 'organization'>,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+  context: AuditContext
+): Promise<void> =>
+  auditService.record(
+    {
+      action,
+      entityType: 'car',
+      entityId: String(car._id),
+      organization: car.organization ? String(car.organization) : null,
+      before,
+      after,
+    },
+    context
+  );
 
 /**
  * Clase para manejar la lógica de autos
@@ -21,11 +100,15 @@ import { deleteFile } from '../middlewares/upload.middleware';
  */
 class CarService {
   /**
-   * Obtener todos los autos con filtros y paginación
+   * Obtener todos los autos de una organización con filtros y paginación
    * @param {CarFilters} filters - Filtros de búsqueda
+   * @param {OrganizationContext} organization - Organización activa
    * @returns {Promise<PaginatedResponse<ICar>>} Autos paginados
    */
-  async getAllCars(filters: CarFilters): Promise<PaginatedResponse<ICar>> {
+  async getAllCars(
+    filters: CarFilters,
+    organization: OrganizationContext
+  ): Promise<PaginatedResponse<ICar>> {
     const {
       marca,
       modelo,
@@ -33,6 +116,7 @@ class CarService {
       minPrecio,
       maxPrecio,
       color,
+      rebajaDias,
       page = 1,
       limit = 10,
       sortBy = 'fechaAlta',
@@ -40,7 +124,7 @@ class CarService {
     } = filters;
 
     // Construir query
-    const query: MongoQuery = { isDeleted: false };
+    const query: MongoQuery = { isDeleted: false, ...organizationFilter(organization) };
 
     if (marca) {
       query.marca = { $regex: marca, $options: 'i' };
@@ -68,6 +152,10 @@ class CarService {
       query.color = { $regex: color, $options: 'i' };
     }
 
+    if (rebajaDias) {
+      query.fechaUltimaRebaja = { $gte: new Date(Date.now() - rebajaDias * 24 * 60 * 60 * 1000) };
+    }
+
     // Calcular skip y limit
     const skip = (page - 1) * limit;
 
@@ -96,11 +184,16 @@ class CarService {
   /**
    * Obtener auto por ID
    * @param {string} id - ID del auto
+   * @param {OrganizationContext} organization - Organización activa
    * @returns {Promise<ICar | null>} Auto encontrado
-   * @throws {Error} Si el auto no existe o está eliminado
+   * @throws {Error} Si el auto no existe, está eliminado o pertenece a otra organización
    */
-  async getCarById(id: string): Promise<ICar | null> {
-    const car = await Car.findOne({ _id: id, isDeleted: false });
+  async getCarById(id: string, organization: OrganizationContext): Promise<ICar | null> {
+    const car = await Car.findOne({
+      _id: id,
+      isDeleted: false,
+      ...organizationFilter(organization),
+    });
 
     if (!car) {
       throw new Error('Auto no encontrado');
@@ -110,87 +203,213 @@ class CarService {
   }
 
   /**
-   * Crear un nuevo auto
+   * Obtener el ID del usuario que creó un auto
+   * @param {string} id - ID del auto
+   * @param {OrganizationContext} organization - Organización activa
+   * @returns {Promise<string | null | undefined>} ID del creador, null si no tiene o undefined si el auto no existe
+   */
+  async getCarOwnerId(
+    id: string,
+    organization: OrganizationContext
+  ): Promise<string | null | undefined> {
+    const car = await Car.findOne({
+      _id: id,
+      isDeleted: false,
+      ...organizationFilter(organization),
+    })
+      .select('createdBy')
+      .lean();
+
+    if (!car) {
+      return undefined;
+    }
+
+    return car.createdBy ? String(car.createdBy) : null;
+  }
+
+  /**
+   * Crear un nuevo auto en una organización
    * @param {CreateCarDTO} data - Datos del auto
-   * @param {string} userId - ID del usuario que crea el auto
+   * @param {string | undefined} userId - ID del usuario que crea el auto
+   * @param {OrganizationContext} organization - Organización activa
+   * @param {AuditContext} context - Datos del request para la auditoría
    * @returns {Promise<ICar>} Auto creado
    */
-  async createCar(data: CreateCarDTO, userId?: string): Promise<ICar> {
+  async createCar(
+    data: CreateCarDTO,
+    userId: string | undefined,
+    organization: OrganizationContext,
+    context: AuditContext = {}
+  ): Promise<ICar> {
     const car = new Car({
       ...data,
+      precioOriginal: data.precio,
       fechaAlta: new Date(),
       fechaModificacion: new Date(),
       isDeleted: false,
+      organization: organization.id,
       ...(userId && { createdBy: userId }),
     });
 
     await car.save();
+    await recordCarChange('create', car, null, auditSnapshot('car', car), context);
 
     return car;
   }
 
   /**
-   * Actualizar un auto existente
+   * Actualizar un auto existente con JSON Merge Patch (RFC 7396)
+   * Los campos ausentes no cambian y null borra el campo; borrar la foto la quita de la
+   * galería y elimina el archivo. El guardado solo se aplica si el auto no cambió desde que
+   * se leyó, de modo que dos ediciones simultáneas no se sobrescriben
    * @param {string} id - ID del auto
-   * @param {UpdateCarDTO} data - Datos a actualizar
+   * @param {UpdateCarDTO} data - Cambios a aplicar
+   * @param {OrganizationContext} organization - Organización activa
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @param {string[] | null} ifMatch - ETags aceptadas (If-Match), o null para no exigir ninguna
    * @returns {Promise<ICar | null>} Auto actualizado
-   * @throws {Error} Si el auto no existe o está eliminado
+   * @throws {Error} Si el auto no existe, está eliminado o pertenece a otra organización,
+   * si su ETag no coincide con If-Match o si otro usuario lo modificó durante la actualización
    */
-  async updateCar(id: string, data: UpdateCarDTO): Promise<ICar | null> {
-    const car = await Car.findOne({ _id: id, isDeleted: false });
+  async updateCar(
+    id: string,
+    data: UpdateCarDTO,
+    organization: OrganizationContext,
+    context: AuditContext = {},
+    ifMatch: string[] | null = null
+  ): Promise<ICar | null> {
+    const car = await Car.findOne({
+      _id: id,
+      isDeleted: false,
+      ...organizationFilter(organization),
+    });
 
     if (!car) {
       throw new Error('Auto no encontrado');
     }
 
-    // Si hay una nueva foto y el auto tenía foto anterior, eliminar la anterior
-    if (data.foto && car.foto && data.foto !== car.foto) {
+    if (ifMatch && !ifMatch.includes(getCarETag(car))) {
+      throw new Error('La versión del auto no coincide');
+    }
+
+    // Los autos anteriores al control de concurrencia no tienen revisión guardada
+    car.$where = { revision: car.revision > 0 ? car.revision : { $in: [0, null] } };
+
+    const previous = carHistoryService.capture(car);
+    const previousPrice = car.precio;
+    let replacedPhoto: string | null = null;
+
+    if (data.foto !== undefined && car.foto && data.foto !== car.foto) {
+      replacedPhoto = car.foto;
+
+      // La nueva portada ocupa el lugar de la anterior en la galería; sin nueva portada,
+      // la anterior se quita y la primera foto restante pasa a ser la portada
+      const coverIndex = car.fotos.indexOf(car.foto);
+      if (coverIndex >= 0) {
+        car.fotos.splice(coverIndex, 1, ...(data.foto ? [data.foto] : []));
+      }
+    }
+
+    // Actualizar campos; solo se aceptan los datos del auto y la portada
+    for (const field of [...CAR_DATA_FIELDS, 'foto' as const]) {
+      if (data[field] !== undefined) {
+        car.set(field, data[field] ?? undefined);
+      }
+    }
+    car.fechaModificacion = new Date();
+    const priceChanged = priceHistoryService.applyPriceChange(car, previousPrice);
+
+    try {
+      await car.save();
+    } catch (error) {
+      if (error instanceof mongoose.Error.DocumentNotFoundError) {
+        throw new Error('El auto fue modificado por otro usuario');
+      }
+      throw error;
+    }
+
+    // La foto anterior se elimina solo una vez guardado el cambio
+    if (replacedPhoto) {
       try {
-        await deleteFile(car.foto);
-        console.log(`🗑️  Foto anterior eliminada al actualizar: ${car.foto}`);
+        await deleteFile(replacedPhoto);
+        console.log(`🗑️  Foto anterior eliminada al actualizar: ${replacedPhoto}`);
       } catch (error) {
         console.error('Error al eliminar foto anterior:', error);
       }
     }
 
-    // Actualizar campos
-    Object.assign(car, data);
-    car.fechaModificacion = new Date();
-
-    await car.save();
+    await recordCarChange('update', car, previous.data, auditSnapshot('car', car), context);
+    await carHistoryService.recordVersion(car, previous, 'update', context);
+    if (priceChanged) {
+      await priceHistoryService.recordPriceChange(car, previousPrice, context);
+    }
 
     return car;
   }
 
+  /**
+   * Reemplazar los datos de un auto existente
+   * Los campos opcionales ausentes se borran. Las fotos no forman parte del reemplazo: solo
+   * cambia la portada si se envía una nueva
+   * @param {string} id - ID del auto
+   * @param {CreateCarDTO} data - Datos completos del auto
+   * @param {OrganizationContext} organization - Organización activa
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @param {string[] | null} ifMatch - ETags aceptadas (If-Match), o null para no exigir ninguna
+   * @returns {Promise<ICar | null>} Auto actualizado
+   * @throws {Error} En los mismos casos que updateCar
+   */
+  async replaceCar(
+    id: string,
+    data: CreateCarDTO,
+    organization: OrganizationContext,
+    context: AuditContext = {},
+    ifMatch: string[] | null = null
+  ): Promise<ICar | null> {
+    const changes: UpdateCarDTO = Object.fromEntries(
+      CAR_DATA_FIELDS.map((field) => [field, data[field] ?? null])
+    );
+
+    if (data.foto) {
+      changes.foto = data.foto;
+    }
+
+    return this.updateCar(id, changes, organization, context, ifMatch);
+  }
+
   /**
    * Eliminar un auto (soft delete)
    * @param {string} id - ID del auto
+   * @param {OrganizationContext} organization - Organización activa
+   * @param {AuditContext} context - Datos del request para la auditoría
    * @returns {Promise<ICar | null>} Auto eliminado
-   * @throws {Error} Si el auto no existe o ya está eliminado
+   * @throws {Error} Si el auto no existe, ya está eliminado o pertenece a otra organización
    */
-  async deleteCar(id: string): Promise<ICar | null> {
-    const car = await Car.findOne({ _id: id, isDeleted: false });
+  async deleteCar(
+    id: string,
+    organization: OrganizationContext,
+    context: AuditContext = {}
+  ): Promise<ICar | null> {
+    const car = await Car.findOne({
+      _id: id,
+      isDeleted: false,
+      ...organizationFilter(organization),
+    });
 
     if (!car) {
       throw new Error('Auto no encontrado');
     }
 
-    // Eliminar foto si existe
-    if (car.foto) {
-      try {
-        await deleteFile(car.foto);
-        console.log(`🗑️  Foto eliminada del auto: ${car.foto}`);
-      } catch (error) {
-        console.error('Error al eliminar foto del auto:', error);
-      }
-    }
+    const previous = carHistoryService.capture(car);
 
-    // Soft delete
+    // Soft delete: la foto se conserva para poder restaurar el auto y se elimina en hardDeleteCar
     car.isDeleted = true;
     car.fechaEliminacion = new Date();
     car.fechaModificacion = new Date();
 
     await car.save();
+    await recordCarChange('delete', car, previous.data, auditSnapshot('car', car), context);
+    await carHistoryService.recordVersion(car, previous, 'delete', context);
 
     return car;
   }
@@ -198,45 +417,622 @@ class CarService {
   /**
    * Eliminar permanentemente un auto (hard delete)
    * @param {string} id - ID del auto
+   * @param {AuditContext} context - Datos del request para la auditoría; vacío en procesos del sistema
    * @returns {Promise<void>}
    * @throws {Error} Si el auto no existe
    */
-  async hardDeleteCar(id: string): Promise<void> {
+  async hardDeleteCar(id: string, context: AuditContext = {}): Promise<void> {
     const car = await Car.findById(id);
 
     if (!car) {
       throw new Error('Auto no encontrado');
     }
 
-    // Eliminar foto si existe
-    if (car.foto) {
+    // Eliminar portada y galería
+    const photos = new Set([car.foto, ...(car.fotos || [])].filter(Boolean) as string[]);
+    for (const photo of photos) {
       try {
-        await deleteFile(car.foto);
-        console.log(`🗑️  Foto eliminada en hard delete: ${car.foto}`);
+        await deleteFile(photo);
+        console.log(`🗑️  Foto eliminada en hard delete: ${photo}`);
       } catch (error) {
         console.error('Error al eliminar foto en hard delete:', error);
       }
     }
 
     await Car.findByIdAndDelete(id);
+    await carHistoryService.deleteVersions(id);
+    await priceHistoryService.deletePriceChanges(id);
+    await recordCarChange('purge', car, auditSnapshot('car', car), null, context);
   }
 
   /**
-   * Obtener estadísticas de autos
+   * Agregar fotos a la galería de un auto
+   * @param {string} id - ID del auto
+   * @param {string[]} filenames - Archivos subidos
+   * @param {OrganizationContext} organization - Organización activa
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @returns {Promise<ICar>} Auto actualizado
+   * @throws {Error} Si el auto no existe o se excede el máximo de fotos
+   */
+  async addPhotos(
+    id: string,
+    filenames: string[],
+    organization: OrganizationContext,
+    context: AuditContext = {}
+  ): Promise<ICar> {
+    const car = await Car.findOne({
+      _id: id,
+      isDeleted: false,
+      ...organizationFilter(organization),
+    });
+
+    if (!car) {
+      throw new Error('Auto no encontrado');
+    }
+
+    const before = auditSnapshot('car', car);
+
+    const current = new Set([car.foto, ...car.fotos].filter(Boolean));
+    if (current.size + filenames.length > config.MAX_PHOTOS_PER_CAR) {
+      throw new Error(`Un auto no puede tener más de ${config.MAX_PHOTOS_PER_CAR} fotos`);
+    }
+
+    car.fotos.push(...filenames);
+    car.fechaModificacion = new Date();
+
+    await car.save();
+    await recordCarChange('update', car, before, auditSnapshot('car', car), context);
+
+    return car;
+  }
+
+  /**
+   * Quitar una foto de la galería de un auto y eliminar el archivo
+   * Si era la portada, la siguiente foto de la galería pasa a ser la portada
+   * @param {string} id - ID del auto
+   * @param {string} filename - Archivo a quitar
+   * @param {OrganizationContext} organization - Organización activa
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @returns {Promise<ICar>} Auto actualizado
+   * @throws {Error} Si el auto o la foto no existen
+   */
+  async removePhoto(
+    id: string,
+    filename: string,
+    organization: OrganizationContext,
+    context: AuditContext = {}
+  ): Promise<ICar> {
+    const car = await Car.findOne({
+      _id: id,
+      isDeleted: false,
+      ...organizationFilter(organization),
+    });
+
+    if (!car) {
+      throw new Error('Auto no encontrado');
+    }
+
+    const before = auditSnapshot('car', car);
+
+    if (car.foto !== filename && !car.fotos.includes(filename)) {
+      throw new Error('Foto no encontrada');
+    }
+
+    car.fotos = car.fotos.filter((foto) => foto !== filename);
+    if (car.foto === filename) {
+      car.set('foto', car.fotos[0] ?? null);
+    }
+    car.fechaModificacion = new Date();
+
+    await car.save();
+    await recordCarChange('update', car, before, auditSnapshot('car', car), context);
+
+    try {
+      await deleteFile(filename);
+    } catch (error) {
+      console.error('Error al eliminar foto de la galería:', error);
+    }
+
+    return car;
+  }
+
+  /**
+   * Reordenar la galería de fotos de un auto
+   * @param {string} id - ID del auto
+   * @param {string[]} order - Nombres de archivo en el nuevo orden
+   * @param {OrganizationContext} organization - Organización activa
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @returns {Promise<ICar>} Auto actualizado
+   * @throws {Error} Si el auto no existe o el orden no contiene todas las fotos exactamente una vez
+   */
+  async reorderPhotos(
+    id: string,
+    order: string[],
+    organization: OrganizationContext,
+    context: AuditContext = {}
+  ): Promise<ICar> {
+    const car = await Car.findOne({
+      _id: id,
+      isDeleted: false,
+      ...organizationFilter(organization),
+    });
+
+    if (!car) {
+      throw new Error('Auto no encontrado');
+    }
+
+    const before = auditSnapshot('car', car);
+
+    const current = [...new Set([car.foto, ...car.fotos].filter(Boolean) as string[])];
+    const isPermutation =
+      order.length === current.length &&
+      new Set(order).size === order.length &&
+      order.every((foto) => current.includes(foto));
+
+    if (!isPermutation) {
+      throw new Error('El orden debe incluir todas las fotos del auto exactamente una vez');
+    }
+
+    car.fotos = order;
+    car.fechaModificacion = new Date();
+
+    await car.save();
+    await recordCarChange('update', car, before, auditSnapshot('car', car), context);
+
+    return car;
+  }
+
+  /**
+   * Designar la foto de portada de un auto
+   * @param {string} id - ID del auto
+   * @param {string} filename - Archivo de la galería que será la portada
+   * @param {OrganizationContext} organization - Organización activa
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @returns {Promise<ICar>} Auto actualizado
+   * @throws {Error} Si el auto no existe o la foto no pertenece a su galería
+   */
+  async setCoverPhoto(
+    id: string,
+    filename: string,
+    organization: OrganizationContext,
+    context: AuditContext = {}
+  ): Promise<ICar> {
+    const car = await Car.findOne({
+      _id: id,
+      isDeleted: false,
+      ...organizationFilter(organization),
+    });
+
+    if (!car) {
+      throw new Error('Auto no encontrado');
+    }
+
+    const before = auditSnapshot('car', car);
+
+    if (car.foto !== filename && !car.fotos.includes(filename)) {
+      throw new Error('Foto no encontrada');
+    }
+
+    car.foto = filename;
+    car.fechaModificacion = new Date();
+
+    await car.save();
+    await recordCarChange('update', car, before, auditSnapshot('car', car), context);
+
+    return car;
+  }
+
+  /**
+   * Obtener el historial de versiones de un auto, incluidos los de la papelera
+   * @param {string} id - ID del auto
+   * @param {number} page - Página solicitada
+   * @param {number} limit - Cantidad de versiones por página
+   * @param {OrganizationContext} organization - Organización activa
+   * @returns {Promise<PaginatedResponse<ICarVersion>>} Versiones en orden cronológico
+   * @throws {Error} Si el auto no existe o pertenece a otra organización
+   */
+  async getCarHistory(
+    id: string,
+    page: number,
+    limit: number,
+    organization: OrganizationContext
+  ): Promise<PaginatedResponse<ICarVersion>> {
+    if (!(await Car.exists({ _id: id, ...organizationFilter(organization) }))) {
+      throw new Error('Auto no encontrado');
+    }
+
+    return carHistoryService.listVersions(id, page, limit);
+  }
+
+  /**
+   * Comparar dos versiones de un auto
+   * @param {string} id - ID del auto
+   * @param {number} from - Versión de origen
+   * @param {number} to - Versión de destino
+   * @param {OrganizationContext} organization - Organización activa
+   * @returns {Promise<CarVersionDiff>} Campos que cambiaron entre ambas versiones
+   * @throws {Error} Si el auto o alguna de las versiones no existen
+   */
+  async diffCarVersions(
+    id: string,
+    from: number,
+    to: number,
+    organization: OrganizationContext
+  ): Promise<CarVersionDiff> {
+    if (!(await Car.exists({ _id: id, ...organizationFilter(organization) }))) {
+      throw new Error('Auto no encontrado');
+    }
+
+    return carHistoryService.diffVersions(id, from, to);
+  }
+
+  /**
+   * Revertir un auto a una versión anterior
+   * Solo se restauran los datos del auto; las fotos y el estado en la papelera no cambian,
+   * porque los archivos de fotos reemplazadas pueden haberse eliminado
+   * @param {string} id - ID del auto
+   * @param {number} version - Versión a restaurar
+   * @param {OrganizationContext} organization - Organización activa
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @returns {Promise<ICar>} Auto revertido
+   * @throws {Error} Si el auto no existe, está eliminado o la versión no existe
+   */
+  async revertCar(
+    id: string,
+    version: number,
+    organization: OrganizationContext,
+    context: AuditContext = {}
+  ): Promise<ICar> {
+    const car = await Car.findOne({
+      _id: id,
+      isDeleted: false,
+      ...organizationFilter(organization),
+    });
+
+    if (!car) {
+      throw new Error('Auto no encontrado');
+    }
+
+    const target = await carHistoryService.getVersion(id, version);
+    const previous = carHistoryService.capture(car);
+    const previousPrice = car.precio;
+
+    for (const field of CAR_DATA_FIELDS) {
+      car.set(field, target.data[field] ?? undefined);
+    }
+    car.fechaModificacion = new Date();
+    const priceChanged = priceHistoryService.applyPriceChange(car, previousPrice);
+
+    await car.save();
+    await recordCarChange('update', car, previous.data, auditSnapshot('car', car), context);
+    await carHistoryService.recordVersion(car, previous, 'revert', context, version);
+    if (priceChanged) {
+      await priceHistoryService.recordPriceChange(car, previousPrice, context);
+    }
+
+    return car;
+  }
+
+  /**
+   * Obtener el historial de precios de un auto, incluidos los de la papelera
+   * @param {string} id - ID del auto
+   * @param {number} page - Página solicitada
+   * @param {number} limit - Cantidad de cambios por página
+   * @param {OrganizationContext} organization - Organización activa
+   * @returns {Promise<PaginatedResponse<IPriceChange>>} Cambios de precio en orden cronológico
+   * @throws {Error} Si el auto no existe o pertenece a otra organización
+   */
+  async getPriceHistory(
+    id: string,
+    page: number,
+    limit: number,
+    organization: OrganizationContext
+  ): Promise<PaginatedResponse<IPriceChange>> {
+    if (!(await Car.exists({ _id: id, ...organizationFilter(organization) }))) {
+      throw new Error('Auto no encontrado');
+    }
+
+    return priceHistoryService.listPriceChanges(id, page, limit);
+  }
+
+  /**
+   * Obtener los autos eliminados (papelera) de una organización con paginación
+   * @param {number} page - Página solicitada
+   * @param {number} limit - Cantidad de autos por página
+   * @param {OrganizationContext} organization - Organización activa
+   * @returns {Promise<PaginatedResponse<ICar>>} Autos eliminados paginados
+   */
+  async getDeletedCars(
+    page: number,
+    limit: number,
+    organization: OrganizationContext
+  ): Promise<PaginatedResponse<ICar>> {
+    const query: MongoQuery = { isDeleted: true, ...organizationFilter(organization) };
+    const skip = (page - 1) * limit;
+
+    const [cars, total] = await Promise.all([
+      Car.find(query).sort({ fechaEliminacion: -1 }).skip(skip).limit(limit).lean(),
+      Car.countDocuments(query),
+    ]);
+
+    return {
+      data: cars as unknown as ICar[],
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Obtener los autos creados por un usuario con paginación
+   * @param {string} userId - ID del usuario creador
+   * @param {number} page - Página solicitada
+   * @param {number} limit - Cantidad de autos por página
+   * @param {boolean} includeDeleted - Incluir autos en la papelera
+   * @returns {Promise<PaginatedResponse<ICar>>} Autos del usuario paginados
+   */
+  async getCarsByUser(
+    userId: string,
+    page: number = 1,
+    limit: number = 10,
+    includeDeleted: boolean = false
+  ): Promise<PaginatedResponse<ICar>> {
+    const query: Record<string, unknown> = { createdBy: userId };
+    if (!includeDeleted) {
+      query.isDeleted = false;
+    }
+    const skip = (page - 1) * limit;
+
+    const [cars, total] = await Promise.all([
+      Car.find(query).sort({ fechaAlta: -1 }).skip(skip).limit(limit).lean(),
+      Car.countDocuments(query),
+    ]);
+
+    return {
+      data: cars as unknown as ICar[],
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Enviar a la papelera todos los autos activos de un usuario
+   * @param {string} userId - ID del usuario creador
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @returns {Promise<number>} Cantidad de autos eliminados
+   */
+  async softDeleteCarsByUser(userId: string, context: AuditContext = {}): Promise<number> {
+    const now = new Date();
+    const cars = await Car.find({ createdBy: userId, isDeleted: false });
+    const previous = cars.map((car) => carHistoryService.capture(car));
+
+    const result = await Car.updateMany(
+      { _id: { $in: cars.map((car) => car._id) } },
+      { isDeleted: true, fechaEliminacion: now, fechaModificacion: now, $inc: { revision: 1 } }
+    );
+
+    await this.recordBulkChanges(cars, previous, 'delete', context);
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Transferir todos los autos de un usuario a otro, incluidos los de la papelera
+   * @param {string} fromUserId - ID del usuario actual
+   * @param {string} toUserId - ID del nuevo responsable
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @returns {Promise<number>} Cantidad de autos transferidos
+   */
+  async transferCarsByUser(
+    fromUserId: string,
+    toUserId: string,
+    context: AuditContext = {}
+  ): Promise<number> {
+    const cars = await Car.find({ createdBy: fromUserId });
+    const previous = cars.map((car) => carHistoryService.capture(car));
+
+    const result = await Car.updateMany(
+      { _id: { $in: cars.map((car) => car._id) } },
+      { createdBy: toUserId, fechaModificacion: new Date(), $inc: { revision: 1 } }
+    );
+
+    await this.recordBulkChanges(cars, previous, 'update', context);
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Registrar la auditoría y la versión de cada auto modificado con una actualización masiva
+   * @param {ICar[]} cars - Autos en su estado anterior al cambio
+   * @param {CarVersionBase[]} previous - Estado anterior de cada auto, en el mismo orden
+   * @param {'delete' | 'update'} action - Acción realizada
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @returns {Promise<void>}
+   */
+  private async recordBulkChanges(
+    cars: ICar[],
+    previous: CarVersionBase[],
+    action: 'delete' | 'update',
+    context: AuditContext
+  ): Promise<void> {
+    const updated = await Car.find({ _id: { $in: cars.map((car) => car._id) } });
+    const updatedById = new Map(updated.map((car) => [String(car._id), car]));
+
+    for (const [index, car] of cars.entries()) {
+      const after = updatedById.get(String(car._id));
+      if (!after) {
+        continue;
+      }
+
+      await recordCarChange(
+        action,
+        after,
+        previous[index].data,
+        auditSnapshot('car', after),
+        context
+      );
+      await carHistoryService.recordVersion(after, previous[index], action, context);
+    }
+  }
+
+  /**
+   * Restaurar un auto eliminado
+   * @param {string} id - ID del auto
+   * @param {OrganizationContext} organization - Organización activa
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @returns {Promise<ICar>} Auto restaurado
+   * @throws {Error} Si el auto no está en la papelera de la organización
+   */
+  async restoreCar(
+    id: string,
+    organization: OrganizationContext,
+    context: AuditContext = {}
+  ): Promise<ICar> {
+    const car = await Car.findOne({
+      _id: id,
+      isDeleted: true,
+      ...organizationFilter(organization),
+    });
+
+    if (!car) {
+      throw new Error('Auto no encontrado en la papelera');
+    }
+
+    const previous = carHistoryService.capture(car);
+
+    car.isDeleted = false;
+    car.set('fechaEliminacion', null);
+    car.fechaModificacion = new Date();
+
+    await car.save();
+    await recordCarChange('restore', car, previous.data, auditSnapshot('car', car), context);
+    await carHistoryService.recordVersion(car, previous, 'restore', context);
+
+    return car;
+  }
+
+  /**
+   * Eliminar permanentemente un auto de la papelera
+   * @param {string} id - ID del auto
+   * @param {OrganizationContext} organization - Organización activa
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @returns {Promise<void>}
+   * @throws {Error} Si el auto no está en la papelera de la organización
+   */
+  async purgeCar(
+    id: string,
+    organization: OrganizationContext,
+    context: AuditContext = {}
+  ): Promise<void> {
+    const car = await Car.exists({ _id: id, isDeleted: true, ...organizationFilter(organization) });
+
+    if (!car) {
+      throw new Error('Auto no encontrado en la papelera');
+    }
+
+    await this.hardDeleteCar(id, context);
+  }
+
+  /**
+   * Eliminar permanentemente los autos que llevan en la papelera al menos N días
+   * Sin organización (job de retención) se purgan las papeleras de todas las organizaciones
+   * @param {number} olderThanDays - Antigüedad mínima en días desde la eliminación
+   * @param {OrganizationContext} organization - Organización cuya papelera se vacía
+   * @param {AuditContext} context - Datos del request para la auditoría; vacío en el job de retención
+   * @returns {Promise<number>} Cantidad de autos eliminados
+   */
+  async purgeDeletedCars(
+    olderThanDays: number,
+    organization?: OrganizationContext,
+    context: AuditContext = {}
+  ): Promise<number> {
+    const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
+
+    const cars = await Car.find({
+      isDeleted: true,
+      fechaEliminacion: { $lte: cutoff },
+      ...(organization && organizationFilter(organization)),
+    })
+      .select('_id')
+      .lean();
+
+    for (const car of cars) {
+      await this.hardDeleteCar(String(car._id), context);
+    }
+
+    return cars.length;
+  }
+
+  /**
+   * Buscar archivos en el directorio de uploads que ningún auto referencia
+   * Considera también los autos en la papelera, cuyas fotos se conservan
+   * @returns {Promise<UploadedFileInfo[]>} Archivos huérfanos
+   */
+  async findOrphanedPhotos(): Promise<UploadedFileInfo[]> {
+    const [files, covers, galleries] = await Promise.all([
+      listUploadedFiles(),
+      Car.distinct('foto', { foto: { $ne: null } }),
+      Car.distinct('fotos'),
+    ]);
+
+    const referencedFiles = new Set([...covers, ...galleries].map((foto) => String(foto)));
+
+    // Las versiones redimensionadas se consideran referenciadas si su original lo está
+    return files.filter(
+      (file) => !referencedFiles.has(getOriginalFilename(file.filename) ?? file.filename)
+    );
+  }
+
+  /**
+   * Eliminar los archivos huérfanos del directorio de uploads
+   * Solo elimina archivos con más de una hora de antigüedad
+   * @returns {Promise<string[]>} Nombres de los archivos eliminados
+   */
+  async deleteOrphanedPhotos(): Promise<string[]> {
+    const cutoff = Date.now() - ORPHAN_GRACE_PERIOD_MS;
+    const orphans = (await this.findOrphanedPhotos()).filter(
+      (file) => file.modifiedAt.getTime() <= cutoff
+    );
+
+    const deleted: string[] = [];
+    for (const file of orphans) {
+      try {
+        await deleteFile(file.filename);
+        deleted.push(file.filename);
+      } catch (error) {
+        console.error(`Error al eliminar archivo huérfano ${file.filename}:`, error);
+      }
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Obtener estadísticas de los autos de una organización
+   * @param {OrganizationContext} organization - Organización activa
    * @returns {Promise<object>} Estadísticas
    */
-  async getStats(): Promise<{
+  async getStats(organization: OrganizationContext): Promise<{
     total: number;
     deleted: number;
     active: number;
     averagePrice: number;
     averageKm: number;
   }> {
+    const scope = organizationFilter(organization);
+
     const [total, deleted, stats] = await Promise.all([
-      Car.countDocuments({}),
-      Car.countDocuments({ isDeleted: true }),
+      Car.countDocuments(scope),
+      Car.countDocuments({ isDeleted: true, ...scope }),
       Car.aggregate([
-        { $match: { isDeleted: false } },
+        { $match: { isDeleted: false, ...scope } },
         {
           $group: {
             _id: null,
@@ -257,15 +1053,17 @@ class CarService {
   }
 
   /**
-   * Buscar autos por texto
+   * Buscar autos de una organización por texto
    * @param {string} searchTerm - Término de búsqueda
+   * @param {OrganizationContext} organization - Organización activa
    * @returns {Promise<ICar[]>} Autos encontrados
    */
-  async searchCars(searchTerm: string): Promise<ICar[]> {
+  async searchCars(searchTerm: string, organization: OrganizationContext): Promise<ICar[]> {
     const regex = new RegExp(searchTerm, 'i');
 
     const results = await Car.find({
       isDeleted: false,
+      ...organizationFilter(organization),
       $or: [{ marca: regex }, { modelo: regex }, { color: regex }],
     })
       .sort({ fechaAlta: -1 })
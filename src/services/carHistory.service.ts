@@ -0,0 +1,172 @@
+/**
+ * Car History Service
+ * @module services/carHistory
+ * @description Versiones de los autos: registro, consulta y comparación
+ */
+
+import CarVersion, { ICarVersion } from '../models/CarVersion';
+import { ICar } from '../models/Car';
+import {
+  AuditContext,
+  CarVersionAction,
+  CarVersionBase,
+  CarVersionDiff,
+  PaginatedResponse,
+} from '../types';
+import { auditSnapshot, diffSnapshots } from '../utils/audit';
+import { logger } from '../utils/logger';
+
+/**
+ * Clase para manejar el historial de versiones de autos
+ * @class CarHistoryService
+ */
+class CarHistoryService {
+  /**
+   * Obtener el estado actual de un auto para compararlo tras un cambio
+   * @param {ICar} car - Auto antes del cambio
+   * @returns {CarVersionBase} Instantánea y fecha de la última modificación
+   */
+  capture(car: ICar): CarVersionBase {
+    return { data: auditSnapshot('car', car), modifiedAt: car.fechaModificacion };
+  }
+
+  /**
+   * Registrar una nueva versión de un auto ya guardado
+   * Si el auto aún no tiene versiones se guarda primero su estado anterior como versión
+   * inicial. Un cambio sin diferencias no genera versión, y un error al registrar se
+   * informa en el log sin afectar la operación
+   * @param {ICar} car - Auto en su estado posterior al cambio
+   * @param {CarVersionBase} previous - Estado anterior al cambio
+   * @param {CarVersionAction} action - Acción realizada
+   * @param {AuditContext} context - Usuario que hizo el cambio
+   * @param {number | null} revertedFrom - Versión restaurada, si es una reversión
+   * @returns {Promise<void>}
+   */
+  async recordVersion(
+    car: ICar,
+    previous: CarVersionBase,
+    action: CarVersionAction,
+    context: AuditContext = {},
+    revertedFrom: number | null = null
+  ): Promise<void> {
+    const data = auditSnapshot('car', car);
+
+    if (!diffSnapshots(previous.data, data)) {
+      return;
+    }
+
+    try {
+      const last = await CarVersion.findOne({ car: car._id })
+        .sort({ version: -1 })
+        .select('version');
+      let version = last?.version ?? 0;
+
+      if (!last) {
+        version = 1;
+        await CarVersion.create({
+          car: car._id,
+          version,
+          action: 'initial',
+          data: previous.data,
+          createdAt: previous.modifiedAt,
+        });
+      }
+
+      await CarVersion.create({
+        car: car._id,
+        version: version + 1,
+        action,
+        data,
+        changedBy: context.actorId ?? null,
+        revertedFrom,
+        createdAt: car.fechaModificacion,
+      });
+    } catch (error) {
+      logger.error(`Error recording version for car ${car._id}:`, error);
+    }
+  }
+
+  /**
+   * Listar las versiones de un auto en orden cronológico
+   * @param {string} carId - ID del auto
+   * @param {number} page - Página solicitada
+   * @param {number} limit - Cantidad de versiones por página
+   * @returns {Promise<PaginatedResponse<ICarVersion>>} Versiones paginadas, la más antigua primero
+   */
+  async listVersions(
+    carId: string,
+    page: number,
+    limit: number
+  ): Promise<PaginatedResponse<ICarVersion>> {
+    const skip = (page - 1) * limit;
+
+    const [versions, total] = await Promise.all([
+      CarVersion.find({ car: carId }).sort({ version: 1 }).skip(skip).limit(limit),
+      CarVersion.countDocuments({ car: carId }),
+    ]);
+
+    return {
+      data: versions,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Obtener una versión de un auto
+   * @param {string} carId - ID del auto
+   * @param {number} version - Número de versión
+   * @returns {Promise<ICarVersion>} Versión encontrada
+   * @throws {Error} Si la versión no existe
+   */
+  async getVersion(carId: string, version: number): Promise<ICarVersion> {
+    const found = await CarVersion.findOne({ car: carId, version });
+
+    if (!found) {
+      throw new Error('Versión no encontrada');
+    }
+
+    return found;
+  }
+
+  /**
+   * Comparar dos versiones de un auto
+   * @param {string} carId - ID del auto
+   * @param {number} from - Versión de origen
+   * @param {number} to - Versión de destino
+   * @returns {Promise<CarVersionDiff>} Campos que cambiaron entre ambas versiones
+   * @throws {Error} Si alguna de las versiones no existe
+   */
+  async diffVersions(carId: string, from: number, to: number): Promise<CarVersionDiff> {
+    const [source, target] = await Promise.all([
+      this.getVersion(carId, from),
+      this.getVersion(carId, to),
+    ]);
+
+    const diff = diffSnapshots(source.data, target.data);
+    const changes: CarVersionDiff['changes'] = {};
+
+    if (diff) {
+      for (const field of Object.keys(diff.after)) {
+        changes[field] = { from: diff.before[field], to: diff.after[field] };
+      }
+    }
+
+    return { from, to, changes };
+  }
+
+  /**
+   * Eliminar todas las versiones de un auto
+   * @param {string} carId - ID del auto
+   * @returns {Promise<void>}
+   */
+  async deleteVersions(carId: string): Promise<void> {
+    await CarVersion.deleteMany({ car: carId });
+  }
+}
+
+export default new CarHistoryService();
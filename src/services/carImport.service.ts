@@ -0,0 +1,405 @@
+/**
+ * Car Import Service
+ * @module services/carImport
+ * @description Importación masiva de autos desde archivos CSV o XLSX
+ */
+
+import path from 'path';
+import { parse } from 'csv-parse/sync';
+import ExcelJS from 'exceljs';
+import { matchedData, validationResult } from 'express-validator';
+import CarImportJob, { CAR_IMPORT_FIELDS, ICarImportJob } from '../models/CarImportJob';
+import { config } from '../config/env';
+import { createCarValidations } from '../validators/car.validators';
+import {
+  AuditContext,
+  CarImportField,
+  CarImportFormat,
+  CarImportMapping,
+  CarImportOptions,
+  CarImportRow,
+  CarImportRowError,
+  CreateCarDTO,
+  OrganizationContext,
+  PaginatedResponse,
+} from '../types';
+import carService from './car.service';
+
+/**
+ * Campos cuya columna debe existir en el archivo
+ */
+const REQUIRED_IMPORT_FIELDS: CarImportField[] = CAR_IMPORT_FIELDS.filter(
+  (field) => field !== 'color'
+);
+
+/**
+ * Campos numéricos del auto que se leen como enteros
+ */
+const NUMERIC_IMPORT_FIELDS: CarImportField[] = ['anio', 'precio', 'kilometraje'];
+
+/**
+ * Resultado de leer un archivo de importación
+ */
+interface ParsedImportFile {
+  headers: string[];
+  rows: CarImportRow[];
+}
+
+/**
+ * Resultado de validar una fila de importación
+ */
+interface ValidatedImportRow {
+  data: CreateCarDTO;
+  errors: CarImportRowError[];
+}
+
+/**
+ * Obtener el texto de una celda de una planilla XLSX
+ * Los números (incluido el resultado de una fórmula) se convierten sin el formato de la celda
+ * @param {ExcelJS.Cell} cell - Celda
+ * @returns {string} Texto de la celda sin espacios al inicio ni al final
+ */
+const getCellText = (cell: ExcelJS.Cell): string => {
+  const value = cell.value;
+
+  if (typeof value === 'number') {
+    return String(value);
+  }
+
+  if (value && typeof value === 'object' && 'result' in value && typeof value.result === 'number') {
+    return String(value.result);
+  }
+
+  return (cell.text ?? '').trim();
+};
+
+/**
+ * Clase para manejar la importación masiva de autos
+ * @class CarImportService
+ */
+class CarImportService {
+  /**
+   * Obtener el formato de un archivo de importación por su extensión
+   * @param {string} filename - Nombre original del archivo
+   * @returns {CarImportFormat} Formato del archivo
+   * @throws {Error} Si la extensión no es .csv ni .xlsx
+   */
+  getFormat(filename: string): CarImportFormat {
+    const ext = path.extname(filename).toLowerCase();
+
+    if (ext === '.csv') {
+      return 'csv';
+    }
+
+    if (ext === '.xlsx') {
+      return 'xlsx';
+    }
+
+    throw new Error('Formato de archivo no soportado');
+  }
+
+  /**
+   * Leer las filas de un archivo CSV o XLSX
+   * La primera fila es el encabezado; en CSV se acepta coma o punto y coma como separador
+   * y en XLSX se lee la primera hoja. Las filas vacías se omiten
+   * @param {Buffer} buffer - Contenido del archivo
+   * @param {CarImportFormat} format - Formato del archivo
+   * @returns {Promise<ParsedImportFile>} Encabezados y filas con su número en el archivo
+   * @throws {Error} Si el archivo no se puede leer
+   */
+  async parseFile(buffer: Buffer, format: CarImportFormat): Promise<ParsedImportFile> {
+    try {
+      return format === 'csv' ? this.parseCsv(buffer) : await this.parseXlsx(buffer);
+    } catch {
+      throw new Error('No se pudo leer el archivo');
+    }
+  }
+
+  /**
+   * Leer las filas de un archivo CSV
+   * @param {Buffer} buffer - Contenido del archivo
+   * @returns {ParsedImportFile} Encabezados y filas
+   */
+  private parseCsv(buffer: Buffer): ParsedImportFile {
+    const records: { record: string[]; info: { lines: number } }[] = parse(buffer, {
+      bom: true,
+      trim: true,
+      skip_empty_lines: true,
+      relax_column_count: true,
+      delimiter: [',', ';'],
+      info: true,
+    });
+
+    const [header, ...data] = records;
+    const headers = header ? header.record : [];
+
+    return {
+      headers,
+      rows: data.map(({ record, info }) => ({
+        row: info.lines,
+        values: Object.fromEntries(headers.map((name, index) => [name, record[index] ?? ''])),
+      })),
+    };
+  }
+
+  /**
+   * Leer las filas de la primera hoja de un archivo XLSX
+   * @param {Buffer} buffer - Contenido del archivo
+   * @returns {Promise<ParsedImportFile>} Encabezados y filas
+   */
+  private async parseXlsx(buffer: Buffer): Promise<ParsedImportFile> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+
+    const sheet = workbook.worksheets[0];
+    if (!sheet) {
+      return { headers: [], rows: [] };
+    }
+
+    const columnCount = sheet.columnCount;
+    const readRow = (row: ExcelJS.Row): string[] =>
+      Array.from({ length: columnCount }, (_, index) => getCellText(row.getCell(index + 1)));
+
+    let headers: string[] = [];
+    const rows: CarImportRow[] = [];
+
+    sheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+      const cells = readRow(row);
+
+      if (headers.length === 0) {
+        headers = cells;
+        return;
+      }
+
+      if (cells.every((cell) => cell === '')) {
+        return;
+      }
+
+      rows.push({
+        row: rowNumber,
+        values: Object.fromEntries(headers.map((name, index) => [name, cells[index]])),
+      });
+    });
+
+    return { headers, rows };
+  }
+
+  /**
+   * Resolver la columna del archivo de la que se lee cada campo del auto
+   * Los campos sin mapeo se buscan en la columna con su mismo nombre, sin importar mayúsculas
+   * @param {string[]} headers - Encabezados del archivo
+   * @param {CarImportMapping} mapping - Columnas indicadas para cada campo
+   * @returns {{ columns: CarImportMapping; errors: CarImportRowError[] }} Columnas encontradas y
+   * errores (en la fila 1) por las columnas requeridas o mapeadas que no existen
+   */
+  resolveColumns(
+    headers: string[],
+    mapping: CarImportMapping
+  ): { columns: CarImportMapping; errors: CarImportRowError[] } {
+    const columns: CarImportMapping = {};
+    const errors: CarImportRowError[] = [];
+
+    for (const field of CAR_IMPORT_FIELDS) {
+      const expected = (mapping[field] ?? field).trim().toLowerCase();
+      const header = headers.find((name) => name.trim().toLowerCase() === expected);
+
+      if (header !== undefined) {
+        columns[field] = header;
+      } else if (mapping[field] !== undefined || REQUIRED_IMPORT_FIELDS.includes(field)) {
+        errors.push({
+          row: 1,
+          field,
+          message: `No se encontró la columna "${mapping[field] ?? field}" en el archivo`,
+        });
+      }
+    }
+
+    return { columns, errors };
+  }
+
+  /**
+   * Validar una fila con las mismas reglas que la creación de un auto
+   * La marca y el modelo se normalizan a su escritura canónica del catálogo
+   * @param {CarImportRow} row - Fila del archivo
+   * @param {CarImportMapping} columns - Columna de cada campo
+   * @returns {Promise<ValidatedImportRow>} Datos normalizados y errores de la fila
+   */
+  async validateRow(row: CarImportRow, columns: CarImportMapping): Promise<ValidatedImportRow> {
+    const body: Record<string, unknown> = {};
+
+    for (const [field, header] of Object.entries(columns)) {
+      const value = row.values[header];
+      // Las celdas vacías de campos opcionales se omiten; en los requeridos las reporta la validación
+      if (value !== undefined && (value !== '' || field !== 'color')) {
+        body[field] = value;
+      }
+    }
+
+    // Solo se convierten los enteros escritos con dígitos: separadores de miles o decimales
+    // ("25.000", "19999.99") quedan como texto para que la validación reporte la fila
+    for (const field of NUMERIC_IMPORT_FIELDS) {
+      const value = body[field];
+      if (typeof value === 'string' && /^\d+$/.test(value.trim())) {
+        body[field] = parseInt(value, 10);
+      }
+    }
+
+    const req = { body };
+    for (const validation of createCarValidations) {
+      await validation.run(req);
+    }
+
+    const errors = validationResult(req)
+      .array({ onlyFirstError: true })
+      .map((error) => ({
+        row: row.row,
+        field: error.type === 'field' ? error.path : null,
+        message: error.msg as string,
+      }));
+
+    return { data: matchedData(req) as CreateCarDTO, errors };
+  }
+
+  /**
+   * Importar autos desde un archivo CSV o XLSX
+   * Cada fila válida se crea como un auto de la organización; las filas con errores se
+   * reportan sin afectar a las demás. En una simulación (dryRun) solo se validan las filas.
+   * La importación queda registrada con sus conteos y errores por fila
+   * @param {{ buffer: Buffer; originalname: string }} file - Archivo subido
+   * @param {CarImportOptions} options - Mapeo de columnas y simulación
+   * @param {string | undefined} userId - ID del usuario que importa
+   * @param {OrganizationContext} organization - Organización activa
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @returns {Promise<ICarImportJob>} Importación finalizada
+   * @throws {Error} Si el archivo no se puede leer, no tiene filas o excede el máximo de filas
+   */
+  async importCars(
+    file: { buffer: Buffer; originalname: string },
+    options: CarImportOptions,
+    userId: string | undefined,
+    organization: OrganizationContext,
+    context: AuditContext = {}
+  ): Promise<ICarImportJob> {
+    const format = this.getFormat(file.originalname);
+    const { headers, rows } = await this.parseFile(file.buffer, format);
+
+    if (rows.length === 0) {
+      throw new Error('El archivo no contiene filas');
+    }
+
+    if (rows.length > config.IMPORT_MAX_ROWS) {
+      throw new Error('El archivo excede la cantidad máxima de filas');
+    }
+
+    const { columns, errors: columnErrors } = this.resolveColumns(headers, options.mapping);
+
+    const job = await CarImportJob.create({
+      organization: organization.id,
+      createdBy: userId ?? null,
+      filename: path.basename(file.originalname),
+      format,
+      dryRun: options.dryRun,
+      mapping: columns,
+      totalRows: rows.length,
+    });
+
+    try {
+      const rowErrors: CarImportRowError[] = [...columnErrors];
+      let validRows = 0;
+
+      // Sin todas las columnas requeridas ninguna fila puede ser válida
+      if (columnErrors.length === 0) {
+        for (const row of rows) {
+          const { data, errors } = await this.validateRow(row, columns);
+
+          if (errors.length > 0) {
+            rowErrors.push(...errors);
+            continue;
+          }
+
+          validRows++;
+
+          if (options.dryRun) {
+            continue;
+          }
+
+          try {
+            const car = await carService.createCar(data, userId, organization, context);
+            job.cars.push(car._id as ICarImportJob['cars'][number]);
+          } catch (error) {
+            rowErrors.push({
+              row: row.row,
+              field: null,
+              message: error instanceof Error ? error.message : 'Error al crear el auto',
+            });
+          }
+        }
+      }
+
+      job.rowErrors = rowErrors;
+      job.validRows = validRows;
+      job.createdCount = job.cars.length;
+      job.failedCount = rows.length - (options.dryRun ? validRows : job.cars.length);
+      job.status = 'completed';
+    } catch (error) {
+      job.status = 'failed';
+      job.createdCount = job.cars.length;
+      throw error;
+    } finally {
+      job.finishedAt = new Date();
+      await job.save();
+    }
+
+    return job;
+  }
+
+  /**
+   * Listar las importaciones de una organización
+   * @param {OrganizationContext} organization - Organización activa
+   * @param {number} page - Página solicitada
+   * @param {number} limit - Cantidad de importaciones por página
+   * @returns {Promise<PaginatedResponse<ICarImportJob>>} Importaciones paginadas, las más recientes primero
+   */
+  async listJobs(
+    organization: OrganizationContext,
+    page: number,
+    limit: number
+  ): Promise<PaginatedResponse<ICarImportJob>> {
+    const query = { organization: organization.id };
+    const skip = (page - 1) * limit;
+
+    const [jobs, total] = await Promise.all([
+      CarImportJob.find(query).sort({ createdAt: -1, _id: -1 }).skip(skip).limit(limit),
+      CarImportJob.countDocuments(query),
+    ]);
+
+    return {
+      data: jobs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Obtener una importación de la organización
+   * @param {string} id - ID de la importación
+   * @param {OrganizationContext} organization - Organización activa
+   * @returns {Promise<ICarImportJob>} Importación encontrada
+   * @throws {Error} Si la importación no existe o pertenece a otra organización
+   */
+  async getJob(id: string, organization: OrganizationContext): Promise<ICarImportJob> {
+    const job = await CarImportJob.findOne({ _id: id, organization: organization.id });
+
+    if (!job) {
+      throw new Error('Importación no encontrada');
+    }
+
+    return job;
+  }
+}
+
+export default new CarImportService();
@@ -5,6 +5,42 @@
  */
 
 import Catalog, { ICatalog } from '../models/Catalog';
+import { AuditAction, AuditContext, CatalogEntry } from '../types';
+import { auditSnapshot } from '../utils/audit';
+import auditService from './audit.service';
+
+/**
+ * Construir expresión regular exacta e insensible a mayúsculas para un nombre
+ * @param {string} name - Nombre de marca o modelo
+ * @returns {RegExp} Expresión regular con caracteres especiales escapados
+ */
+const exactNameRegex = (name: string): RegExp =>
+  new RegExp(`^${name.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i');
+
+/**
+ * Registrar en la auditoría un cambio sobre un catálogo
+ * @param {AuditAction} action - Acción realizada
+ * @param {ICatalog} catalog - Catálogo modificado
+ * @param {Record<string, unknown> | null} before - Instantánea previa al cambio
+ * @param {AuditContext} context - Actor, API key, IP y request id
+ * @returns {Promise<void>}
+ */
+const recordCatalogChange = (
+  action: AuditAction,
+  catalog: ICatalog,
+  before: Record<string, unknown> | null,
+  context: AuditContext
+): Promise<void> =>
+  auditService.record(
+    {
+      action,
+      entityType: 'catalog',
+      entityId: String(catalog._id),
+      before,
+      after: auditSnapshot('catalog', catalog),
+    },
+    context
+  );
 
 /**
  * Clase para manejar la lógica de catálogos
@@ -32,7 +68,7 @@ class CatalogService {
    */
   async getModelsByBrand(marca: string): Promise<string[]> {
     const catalog = await Catalog.findOne({
-      marca: { $regex: new RegExp(`^${marca}$`, 'i') },
+      marca: exactNameRegex(marca),
       isActive: true,
     }).lean();
 
@@ -46,6 +82,31 @@ class CatalogService {
       .sort();
   }
 
+  /**
+   * Resolver marca y modelo contra el catálogo activo
+   * @param {string} marca - Nombre de la marca (sin importar mayúsculas)
+   * @param {string} [modelo] - Nombre del modelo (sin importar mayúsculas)
+   * @returns {Promise<CatalogEntry>} Nombres canónicos, o null si no existen o están inactivos
+   */
+  async resolveCatalogEntry(marca: string, modelo?: string): Promise<CatalogEntry> {
+    const catalog = await Catalog.findOne({
+      marca: exactNameRegex(marca),
+      isActive: true,
+    }).lean();
+
+    if (!catalog) {
+      return { marca: null, modelo: null };
+    }
+
+    const model = modelo
+      ? catalog.modelos.find(
+          (m) => m.isActive && m.nombre.toLowerCase() === modelo.trim().toLowerCase()
+        )
+      : undefined;
+
+    return { marca: catalog.marca, modelo: model?.nombre ?? null };
+  }
+
   /**
    * Obtener catálogo completo de años
    * @returns {Promise<number[]>} Array de años
@@ -79,16 +140,23 @@ class CatalogService {
    * Crear o actualizar catálogo
    * @param {string} marca - Nombre de la marca
    * @param {string[]} modelos - Array de modelos
+   * @param {AuditContext} context - Datos del request para la auditoría
    * @returns {Promise<ICatalog>} Catálogo creado/actualizado
    */
-  async upsertCatalog(marca: string, modelos: string[]): Promise<ICatalog> {
+  async upsertCatalog(
+    marca: string,
+    modelos: string[],
+    context: AuditContext = {}
+  ): Promise<ICatalog> {
+    const existing = await Catalog.findOne({ marca: exactNameRegex(marca) }).lean();
+
     const modelosArray = modelos.map((nombre) => ({
       nombre: nombre.trim(),
       isActive: true,
     }));
 
     const catalog = await Catalog.findOneAndUpdate(
-      { marca: { $regex: new RegExp(`^${marca}$`, 'i') } },
+      { marca: exactNameRegex(marca) },
       {
         marca: marca.trim(),
         modelos: modelosArray,
@@ -97,6 +165,13 @@ class CatalogService {
       { upsert: true, new: true }
     );
 
+    await recordCatalogChange(
+      existing ? 'update' : 'create',
+      catalog,
+      existing && auditSnapshot('catalog', existing),
+      context
+    );
+
     return catalog;
   }
 
@@ -104,42 +179,194 @@ class CatalogService {
    * Agregar modelo a una marca existente
    * @param {string} marca - Nombre de la marca
    * @param {string} modelo - Nombre del modelo
+   * @param {AuditContext} context - Datos del request para la auditoría
    * @returns {Promise<ICatalog | null>} Catálogo actualizado
    * @throws {Error} Si la marca no existe
    */
-  async addModel(marca: string, modelo: string): Promise<ICatalog | null> {
+  async addModel(
+    marca: string,
+    modelo: string,
+    context: AuditContext = {}
+  ): Promise<ICatalog | null> {
     const catalog = await Catalog.findOne({
-      marca: { $regex: new RegExp(`^${marca}$`, 'i') },
+      marca: exactNameRegex(marca),
     });
 
     if (!catalog) {
       throw new Error('Marca no encontrada');
     }
 
+    const before = auditSnapshot('catalog', catalog);
+
     // Verificar si el modelo ya existe
-    const modelExists = catalog.modelos.some(
-      (m) => m.nombre.toLowerCase() === modelo.toLowerCase()
+    const existingModel = catalog.modelos.find(
+      (m) => m.nombre.toLowerCase() === modelo.trim().toLowerCase()
     );
 
-    if (modelExists) {
+    if (existingModel?.isActive) {
       throw new Error('El modelo ya existe para esta marca');
     }
 
-    catalog.modelos.push({
-      nombre: modelo.trim(),
-      isActive: true,
+    // Un modelo desactivado se reactiva en lugar de duplicarse
+    if (existingModel) {
+      existingModel.isActive = true;
+    } else {
+      catalog.modelos.push({
+        nombre: modelo.trim(),
+        isActive: true,
+      });
+    }
+
+    await catalog.save();
+    await recordCatalogChange('update', catalog, before, context);
+
+    return catalog;
+  }
+
+  /**
+   * Renombrar una marca existente
+   * @param {string} marca - Nombre actual de la marca
+   * @param {string} nuevaMarca - Nuevo nombre de la marca
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @returns {Promise<ICatalog>} Catálogo actualizado
+   * @throws {Error} Si la marca no existe o el nuevo nombre ya está en uso
+   */
+  async renameBrand(
+    marca: string,
+    nuevaMarca: string,
+    context: AuditContext = {}
+  ): Promise<ICatalog> {
+    const catalog = await Catalog.findOne({ marca: exactNameRegex(marca) });
+
+    if (!catalog) {
+      throw new Error('Marca no encontrada');
+    }
+
+    const before = auditSnapshot('catalog', catalog);
+
+    const duplicate = await Catalog.findOne({
+      _id: { $ne: catalog._id },
+      marca: exactNameRegex(nuevaMarca),
     });
 
+    if (duplicate) {
+      throw new Error('La marca ya existe');
+    }
+
+    catalog.marca = nuevaMarca.trim();
+    await catalog.save();
+    await recordCatalogChange('update', catalog, before, context);
+
+    return catalog;
+  }
+
+  /**
+   * Desactivar una marca completa
+   * @param {string} marca - Nombre de la marca
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @returns {Promise<ICatalog>} Catálogo desactivado
+   * @throws {Error} Si la marca no existe
+   */
+  async deactivateBrand(marca: string, context: AuditContext = {}): Promise<ICatalog> {
+    const catalog = await Catalog.findOne({ marca: exactNameRegex(marca) });
+
+    if (!catalog) {
+      throw new Error('Marca no encontrada');
+    }
+
+    const before = auditSnapshot('catalog', catalog);
+
+    catalog.isActive = false;
+    await catalog.save();
+    await recordCatalogChange('update', catalog, before, context);
+
+    return catalog;
+  }
+
+  /**
+   * Renombrar un modelo de una marca
+   * @param {string} marca - Nombre de la marca
+   * @param {string} modelo - Nombre actual del modelo
+   * @param {string} nuevoNombre - Nuevo nombre del modelo
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @returns {Promise<ICatalog>} Catálogo actualizado
+   * @throws {Error} Si la marca o el modelo no existen, o el nuevo nombre ya está en uso
+   */
+  async renameModel(
+    marca: string,
+    modelo: string,
+    nuevoNombre: string,
+    context: AuditContext = {}
+  ): Promise<ICatalog> {
+    const catalog = await Catalog.findOne({ marca: exactNameRegex(marca) });
+
+    if (!catalog) {
+      throw new Error('Marca no encontrada');
+    }
+
+    const before = auditSnapshot('catalog', catalog);
+
+    const model = catalog.modelos.find((m) => m.nombre.toLowerCase() === modelo.toLowerCase());
+
+    if (!model) {
+      throw new Error('Modelo no encontrado');
+    }
+
+    const duplicate = catalog.modelos.some(
+      (m) => m !== model && m.nombre.toLowerCase() === nuevoNombre.trim().toLowerCase()
+    );
+
+    if (duplicate) {
+      throw new Error('El modelo ya existe para esta marca');
+    }
+
+    model.nombre = nuevoNombre.trim();
+    await catalog.save();
+    await recordCatalogChange('update', catalog, before, context);
+
+    return catalog;
+  }
+
+  /**
+   * Desactivar un modelo de una marca
+   * @param {string} marca - Nombre de la marca
+   * @param {string} modelo - Nombre del modelo
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @returns {Promise<ICatalog>} Catálogo actualizado
+   * @throws {Error} Si la marca o el modelo no existen
+   */
+  async deactivateModel(
+    marca: string,
+    modelo: string,
+    context: AuditContext = {}
+  ): Promise<ICatalog> {
+    const catalog = await Catalog.findOne({ marca: exactNameRegex(marca) });
+
+    if (!catalog) {
+      throw new Error('Marca no encontrada');
+    }
+
+    const before = auditSnapshot('catalog', catalog);
+
+    const model = catalog.modelos.find((m) => m.nombre.toLowerCase() === modelo.toLowerCase());
+
+    if (!model) {
+      throw new Error('Modelo no encontrado');
+    }
+
+    model.isActive = false;
     await catalog.save();
+    await recordCatalogChange('update', catalog, before, context);
 
     return catalog;
   }
 
   /**
    * Inicializar catálogos con datos predeterminados
+   * @param {AuditContext} context - Datos del request para la auditoría
    * @returns {Promise<void>}
    */
-  async initializeCatalogs(): Promise<void> {
+  async initializeCatalogs(context: AuditContext = {}): Promise<void> {
     const defaultCatalogs = [
       {
         marca: 'Ford',
@@ -176,7 +403,7 @@ class CatalogService {
     ];
 
     for (const catalog of defaultCatalogs) {
-      await this.upsertCatalog(catalog.marca, catalog.modelos);
+      await this.upsertCatalog(catalog.marca, catalog.modelos, context);
     }
   }
 }
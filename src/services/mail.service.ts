@@ -0,0 +1,303 @@
+/**
+ * Mail Service
+ * @module services/mail
+ * @description Envío de correos con transportes intercambiables (consola, archivo, SMTP)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+
+/**
+ * Mensaje de correo a enviar
+ * @interface MailMessage
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Contrato que deben cumplir los transportes de correo
+ */
+export interface MailTransport {
+  /** Nombre del transporte (console, file, smtp) */
+  readonly name: string;
+  /** Enviar un mensaje */
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Transporte que escribe los correos en la consola (desarrollo local)
+ * @class ConsoleMailTransport
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    logger.info(
+      `Mail to ${message.to}: ${message.subject}\n${message.text}\n(from ${message.from})`
+    );
+  }
+}
+
+/**
+ * Transporte que guarda cada correo como un archivo JSON (desarrollo y tests)
+ * @class FileMailTransport
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  private readonly directory: string;
+
+  /**
+   * @param {string} directory - Directorio donde se guardan los correos
+   */
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const sentAt = new Date();
+    const filename = `${sentAt.getTime()}-${Math.random().toString(36).substring(2, 10)}.json`;
+
+    await fs.promises.writeFile(
+      path.join(this.directory, filename),
+      JSON.stringify({ ...message, sentAt: sentAt.toISOString() }, null, 2)
+    );
+  }
+}
+
+/**
+ * Transporte que envía los correos por SMTP
+ * @class SmtpMailTransport
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+
+  private readonly transporter: Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: config.SMTP_HOST,
+      port: config.SMTP_PORT,
+      secure: config.SMTP_SECURE,
+      auth: config.SMTP_USER ? { user: config.SMTP_USER, pass: config.SMTP_PASS } : undefined,
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+/**
+ * Crear el transporte de correo indicado
+ * @param {string} transport - Nombre del transporte (console, file, smtp)
+ * @returns {MailTransport} Transporte configurado
+ * @throws {Error} Si el transporte no está soportado
+ */
+export const createMailTransport = (transport: string = config.MAIL_TRANSPORT): MailTransport => {
+  switch (transport) {
+    case 'console':
+      return new ConsoleMailTransport();
+    case 'file':
+      return new FileMailTransport(config.MAIL_FILE_PATH);
+    case 'smtp':
+      return new SmtpMailTransport();
+    default:
+      throw new Error(`Transporte de correo no soportado: ${transport}`);
+  }
+};
+
+/**
+ * Servicio de correo
+ * @class MailService
+ */
+class MailService {
+  private transport: MailTransport;
+
+  /**
+   * @param {MailTransport} transport - Transporte usado para enviar los correos
+   */
+  constructor(transport: MailTransport) {
+    this.transport = transport;
+  }
+
+  /**
+   * Reemplazar el transporte de correo
+   * @param {MailTransport} transport - Nuevo transporte
+   * @returns {void}
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Enviar un correo con el remitente configurado
+   * @param {MailMessage} message - Mensaje a enviar
+   * @returns {Promise<void>}
+   */
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: config.MAIL_FROM });
+  }
+
+  /**
+   * Enviar el enlace para restablecer la contraseña
+   * @param {string} to - Email del destinatario
+   * @param {string} name - Nombre del destinatario
+   * @param {string} token - Token de restablecimiento
+   * @returns {Promise<void>}
+   */
+  async sendPasswordReset(to: string, name: string, token: string): Promise<void> {
+    const link = `${config.FRONTEND_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Restablecer contraseña',
+      text:
+        `Hola ${name},\n\n` +
+        `Recibimos una solicitud para restablecer tu contraseña. Usa el siguiente enlace, ` +
+        `válido por ${config.PASSWORD_RESET_EXPIRES_MINUTES} minutos:\n\n${link}\n\n` +
+        'Si no solicitaste el cambio puedes ignorar este correo.',
+    });
+  }
+
+  /**
+   * Avisar que la contraseña de la cuenta fue cambiada
+   * @param {string} to - Email del destinatario
+   * @param {string} name - Nombre del destinatario
+   * @returns {Promise<void>}
+   */
+  async sendPasswordChanged(to: string, name: string): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Tu contraseña fue cambiada',
+      text:
+        `Hola ${name},\n\n` +
+        'La contraseña de tu cuenta fue cambiada y se cerraron todas las sesiones abiertas. ' +
+        'Si no fuiste tú, restablece tu contraseña de inmediato.',
+    });
+  }
+
+  /**
+   * Avisar que la autenticación en dos pasos fue activada o desactivada
+   * @param {string} to - Email del destinatario
+   * @param {string} name - Nombre del destinatario
+   * @param {boolean} enabled - Si la autenticación en dos pasos quedó activada
+   * @returns {Promise<void>}
+   */
+  async sendTwoFactorChanged(to: string, name: string, enabled: boolean): Promise<void> {
+    await this.send({
+      to,
+      subject: enabled
+        ? 'Autenticación en dos pasos activada'
+        : 'Autenticación en dos pasos desactivada',
+      text:
+        `Hola ${name},\n\n` +
+        (enabled
+          ? 'Se activó la autenticación en dos pasos en tu cuenta. Guarda los códigos de ' +
+            'recuperación en un lugar seguro. '
+          : 'Se desactivó la autenticación en dos pasos de tu cuenta. ') +
+        'Si no fuiste tú, restablece tu contraseña de inmediato.',
+    });
+  }
+
+  /**
+   * Avisar a un administrador que una cuenta fue bloqueada por intentos fallidos de login
+   * @param {string} to - Email del administrador
+   * @param {string} name - Nombre del administrador
+   * @param {string} lockedEmail - Email de la cuenta bloqueada
+   * @param {Date} lockedUntil - Fecha hasta la que la cuenta queda bloqueada
+   * @param {string} [ip] - IP desde la que se hizo el último intento
+   * @returns {Promise<void>}
+   */
+  async sendAccountLocked(
+    to: string,
+    name: string,
+    lockedEmail: string,
+    lockedUntil: Date,
+    ip?: string
+  ): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Cuenta bloqueada por intentos fallidos',
+      text:
+        `Hola ${name},\n\n` +
+        `La cuenta ${lockedEmail} fue bloqueada hasta el ${lockedUntil.toISOString()} ` +
+        `tras ${config.LOGIN_MAX_ATTEMPTS} intentos fallidos de inicio de sesión` +
+        (ip ? ` (último intento desde ${ip})` : '') +
+        '.\n\nPuedes desbloquearla antes desde la administración de usuarios.',
+    });
+  }
+
+  /**
+   * Enviar el enlace para verificar el email de una cuenta nueva
+   * @param {string} to - Email a verificar
+   * @param {string} name - Nombre del destinatario
+   * @param {string} token - Token de verificación
+   * @returns {Promise<void>}
+   */
+  async sendEmailVerification(to: string, name: string, token: string): Promise<void> {
+    const link = `${config.FRONTEND_URL}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Verifica tu email',
+      text:
+        `Hola ${name},\n\n` +
+        'Gracias por registrarte. Verifica tu email con el siguiente enlace, ' +
+        `válido por ${config.EMAIL_VERIFICATION_EXPIRES_HOURS} horas:\n\n${link}` +
+        (config.REQUIRE_VERIFIED_EMAIL_FOR_CARS
+          ? '\n\nHasta verificarlo podrás iniciar sesión, pero no publicar autos.'
+          : ''),
+    });
+  }
+
+  /**
+   * Enviar el enlace para confirmar un nuevo email de la cuenta
+   * @param {string} to - Nuevo email a confirmar
+   * @param {string} name - Nombre del destinatario
+   * @param {string} token - Token de verificación
+   * @returns {Promise<void>}
+   */
+  async sendEmailChangeConfirmation(to: string, name: string, token: string): Promise<void> {
+    const link = `${config.FRONTEND_URL}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Confirma tu nuevo email',
+      text:
+        `Hola ${name},\n\n` +
+        'Solicitaste usar este email en tu cuenta. Confírmalo con el siguiente enlace, ' +
+        `válido por ${config.EMAIL_VERIFICATION_EXPIRES_HOURS} horas:\n\n${link}\n\n` +
+        'Hasta confirmarlo seguirás iniciando sesión con tu email anterior.',
+    });
+  }
+
+  /**
+   * Avisar al email anterior que el email de la cuenta fue cambiado
+   * @param {string} to - Email anterior
+   * @param {string} name - Nombre del destinatario
+   * @param {string} newEmail - Nuevo email de la cuenta
+   * @returns {Promise<void>}
+   */
+  async sendEmailChanged(to: string, name: string, newEmail: string): Promise<void> {
+    await this.send({
+      to,
+      subject: 'El email de tu cuenta fue cambiado',
+      text:
+        `Hola ${name},\n\n` +
+        `El email de tu cuenta fue cambiado a ${newEmail}. ` +
+        'Si no fuiste tú, contacta al administrador de inmediato.',
+    });
+  }
+}
+
+export default new MailService(createMailTransport());
@@ -0,0 +1,267 @@
+/**
+ * Organization Service
+ * @module services/organization
+ * @description Lógica de negocio para organizaciones, sus miembros y la organización activa
+ */
+
+import mongoose from 'mongoose';
+import Organization, { IOrganization } from '../models/Organization';
+import User, { IUser } from '../models/User';
+import roleService from './role.service';
+import auditService from './audit.service';
+import { config } from '../config/env';
+import { auditSnapshot } from '../utils/audit';
+import {
+  AuditContext,
+  AuthRequest,
+  CreateOrganizationDTO,
+  OrganizationContext,
+  UpdateOrganizationDTO,
+} from '../types';
+
+/**
+ * Usuario autenticado cuya organización activa se resuelve
+ */
+type OrganizationMember = Pick<NonNullable<AuthRequest['user']>, 'role' | 'organizations'>;
+
+/**
+ * Clase para manejar organizaciones
+ * @class OrganizationService
+ */
+class OrganizationService {
+  /**
+   * Organización por defecto, creada una sola vez por proceso
+   * @private
+   */
+  private defaultOrganization: Promise<IOrganization> | null = null;
+
+  /**
+   * Obtener la organización por defecto, creándola si no existe
+   * @returns {Promise<IOrganization>} Organización por defecto
+   */
+  async getDefaultOrganization(): Promise<IOrganization> {
+    if (!this.defaultOrganization) {
+      this.defaultOrganization = Organization.findOneAndUpdate(
+        { slug: config.DEFAULT_ORGANIZATION_SLUG },
+        { $setOnInsert: { name: config.DEFAULT_ORGANIZATION_NAME, isActive: true } },
+        { upsert: true, new: true }
+      )
+        .orFail()
+        .catch((error) => {
+          this.defaultOrganization = null;
+          throw error;
+        });
+    }
+
+    return this.defaultOrganization;
+  }
+
+  /**
+   * Verificar si una organización es la organización por defecto
+   * @param {IOrganization} organization - Organización
+   * @returns {boolean} True si es la organización por defecto
+   */
+  isDefault(organization: IOrganization): boolean {
+    return organization.slug === config.DEFAULT_ORGANIZATION_SLUG;
+  }
+
+  /**
+   * Listar las organizaciones
+   * @returns {Promise<IOrganization[]>} Organizaciones ordenadas por nombre
+   */
+  async listOrganizations(): Promise<IOrganization[]> {
+    await this.getDefaultOrganization();
+
+    return Organization.find().sort({ name: 1 });
+  }
+
+  /**
+   * Obtener una organización por ID
+   * @param {string} id - ID de la organización
+   * @returns {Promise<IOrganization>} Organización encontrada
+   * @throws {Error} Si la organización no existe
+   */
+  async getOrganizationById(id: string): Promise<IOrganization> {
+    const organization = mongoose.isValidObjectId(id) ? await Organization.findById(id) : null;
+
+    if (!organization) {
+      throw new Error('Organización no encontrada');
+    }
+
+    return organization;
+  }
+
+  /**
+   * Contar los miembros de cada organización
+   * @returns {Promise<Record<string, number>>} Cantidad de usuarios por ID de organización
+   */
+  async countMembersByOrganization(): Promise<Record<string, number>> {
+    const counts = await User.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+      { $unwind: '$organizations' },
+      { $group: { _id: '$organizations', count: { $sum: 1 } } },
+    ]);
+
+    return Object.fromEntries(counts.map(({ _id, count }) => [String(_id), count]));
+  }
+
+  /**
+   * Crear una organización
+   * @param {CreateOrganizationDTO} data - Nombre y slug
+   * @returns {Promise<IOrganization>} Organización creada
+   * @throws {Error} Si ya existe una organización con ese slug
+   */
+  async createOrganization(data: CreateOrganizationDTO): Promise<IOrganization> {
+    const slug = data.slug.toLowerCase();
+
+    if (await Organization.exists({ slug })) {
+      throw new Error('La organización ya existe');
+    }
+
+    return Organization.create({ name: data.name, slug });
+  }
+
+  /**
+   * Actualizar el nombre o el estado de una organización
+   * Desactivarla impide a sus miembros operar en ella, sin eliminar sus autos
+   * @param {string} id - ID de la organización
+   * @param {UpdateOrganizationDTO} data - Datos a actualizar
+   * @returns {Promise<IOrganization>} Organización actualizada
+   * @throws {Error} Si no existe o se intenta desactivar la organización por defecto
+   */
+  async updateOrganization(id: string, data: UpdateOrganizationDTO): Promise<IOrganization> {
+    const organization = await this.getOrganizationById(id);
+
+    if (data.isActive === false && this.isDefault(organization)) {
+      throw new Error('La organización por defecto no se puede desactivar');
+    }
+
+    if (data.name !== undefined) {
+      organization.name = data.name;
+    }
+
+    if (data.isActive !== undefined) {
+      organization.isActive = data.isActive;
+    }
+
+    await organization.save();
+
+    return organization;
+  }
+
+  /**
+   * Agregar un usuario a una organización
+   * @param {string} id - ID de la organización
+   * @param {string} userId - ID del usuario
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @returns {Promise<IUser>} Usuario actualizado
+   * @throws {Error} Si la organización o el usuario no existen, o el usuario ya es miembro
+   */
+  async addMember(id: string, userId: string, context: AuditContext = {}): Promise<IUser> {
+    const organization = await this.getOrganizationById(id);
+    const user = await User.findById(userId);
+
+    if (!user) {
+      throw new Error('Usuario no encontrado');
+    }
+
+    if (user.organizations.some((member) => member.equals(organization._id as string))) {
+      throw new Error('El usuario ya pertenece a la organización');
+    }
+
+    const before = auditSnapshot('user', user);
+    user.organizations.push(organization._id as mongoose.Types.ObjectId);
+    await user.save();
+    await auditService.recordUserChange('update', user, before, context);
+
+    return user;
+  }
+
+  /**
+   * Quitar un usuario de una organización. Sus autos permanecen en la organización
+   * @param {string} id - ID de la organización
+   * @param {string} userId - ID del usuario
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @returns {Promise<IUser>} Usuario actualizado
+   * @throws {Error} Si la organización o el usuario no existen, o el usuario no es miembro
+   */
+  async removeMember(id: string, userId: string, context: AuditContext = {}): Promise<IUser> {
+    const organization = await this.getOrganizationById(id);
+    const user = await User.findById(userId);
+
+    if (!user) {
+      throw new Error('Usuario no encontrado');
+    }
+
+    const remaining = user.organizations.filter(
+      (member) => !member.equals(organization._id as string)
+    );
+
+    if (remaining.length === user.organizations.length) {
+      throw new Error('El usuario no pertenece a la organización');
+    }
+
+    const before = auditSnapshot('user', user);
+    user.organizations = remaining;
+    await user.save();
+    await auditService.recordUserChange('update', user, before, context);
+
+    return user;
+  }
+
+  /**
+   * Resolver la organización en la que opera un usuario
+   * Si se solicita una organización, el usuario debe pertenecer a ella o tener el permiso
+   * organizations:manage. Si no, se usa su primera organización activa y, si no pertenece
+   * a ninguna, la organización por defecto
+   * @param {OrganizationMember} user - Usuario autenticado
+   * @param {string} requestedId - ID de la organización solicitada (header X-Organization-Id)
+   * @returns {Promise<OrganizationContext>} Organización activa
+   * @throws {Error} Si el usuario no pertenece a la organización, no existe o está desactivada
+   */
+  async resolveActiveOrganization(
+    user: OrganizationMember,
+    requestedId?: string
+  ): Promise<OrganizationContext> {
+    const memberships = user.organizations ?? [];
+    let organization: IOrganization | null;
+
+    if (requestedId) {
+      if (
+        !memberships.includes(requestedId) &&
+        !(await roleService.hasPermissions(user.role, ['organizations:manage']))
+      ) {
+        throw new Error('No perteneces a esta organización');
+      }
+
+      organization = await this.getOrganizationById(requestedId);
+    } else if (memberships.length > 0) {
+      const organizations = await Organization.find({ _id: { $in: memberships } });
+
+      // Se respeta el orden en que el usuario fue agregado a sus organizaciones
+      organization =
+        memberships
+          .map((id) => organizations.find((candidate) => String(candidate._id) === id))
+          .find((candidate) => candidate?.isActive) ??
+        organizations[0] ??
+        null;
+
+      if (!organization) {
+        throw new Error('Organización no encontrada');
+      }
+    } else {
+      organization = await this.getDefaultOrganization();
+    }
+
+    if (!organization.isActive) {
+      throw new Error('Organización desactivada');
+    }
+
+    return {
+      id: String(organization._id),
+      slug: organization.slug,
+      isDefault: this.isDefault(organization),
+    };
+  }
+}
+
+export default new OrganizationService();
@@ -0,0 +1,110 @@
+/**
+ * Price History Service
+ * @module services/priceHistory
+ * @description Historial de precios de los autos y seguimiento de rebajas
+ */
+
+import PriceChange, { IPriceChange } from '../models/PriceChange';
+import { ICar } from '../models/Car';
+import { AuditContext, PaginatedResponse } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Clase para manejar el historial de precios de autos
+ * @class PriceHistoryService
+ */
+class PriceHistoryService {
+  /**
+   * Actualizar el precio original y la fecha de rebaja de un auto antes de guardarlo
+   * El precio original es el de publicación; la fecha de rebaja se asigna cuando el precio
+   * baja y se limpia cuando vuelve al precio original o lo supera
+   * @param {ICar} car - Auto con el precio nuevo asignado, aún sin guardar
+   * @param {number} previousPrice - Precio antes del cambio
+   * @returns {boolean} true si el precio cambió
+   */
+  applyPriceChange(car: ICar, previousPrice: number): boolean {
+    if (car.precio === previousPrice) {
+      return false;
+    }
+
+    // Autos anteriores al historial de precios: el precio previo se toma como original
+    if (car.precioOriginal === undefined || car.precioOriginal === null) {
+      car.precioOriginal = previousPrice;
+    }
+
+    if (car.precio >= car.precioOriginal) {
+      car.fechaUltimaRebaja = null;
+    } else if (car.precio < previousPrice) {
+      car.fechaUltimaRebaja = car.fechaModificacion;
+    }
+
+    return true;
+  }
+
+  /**
+   * Registrar un cambio de precio de un auto ya guardado
+   * Un error al registrar se informa en el log sin afectar la operación
+   * @param {ICar} car - Auto con el precio nuevo
+   * @param {number} previousPrice - Precio antes del cambio
+   * @param {AuditContext} context - Usuario que hizo el cambio
+   * @returns {Promise<void>}
+   */
+  async recordPriceChange(
+    car: ICar,
+    previousPrice: number,
+    context: AuditContext = {}
+  ): Promise<void> {
+    try {
+      await PriceChange.create({
+        car: car._id,
+        previousPrice,
+        price: car.precio,
+        changedBy: context.actorId ?? null,
+        createdAt: car.fechaModificacion,
+      });
+    } catch (error) {
+      logger.error(`Error recording price change for car ${car._id}:`, error);
+    }
+  }
+
+  /**
+   * Listar los cambios de precio de un auto en orden cronológico
+   * @param {string} carId - ID del auto
+   * @param {number} page - Página solicitada
+   * @param {number} limit - Cantidad de cambios por página
+   * @returns {Promise<PaginatedResponse<IPriceChange>>} Cambios paginados, el más antiguo primero
+   */
+  async listPriceChanges(
+    carId: string,
+    page: number,
+    limit: number
+  ): Promise<PaginatedResponse<IPriceChange>> {
+    const skip = (page - 1) * limit;
+
+    const [changes, total] = await Promise.all([
+      PriceChange.find({ car: carId }).sort({ createdAt: 1, _id: 1 }).skip(skip).limit(limit),
+      PriceChange.countDocuments({ car: carId }),
+    ]);
+
+    return {
+      data: changes,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Eliminar todos los cambios de precio de un auto
+   * @param {string} carId - ID del auto
+   * @returns {Promise<void>}
+   */
+  async deletePriceChanges(carId: string): Promise<void> {
+    await PriceChange.deleteMany({ car: carId });
+  }
+}
+
+export default new PriceHistoryService();
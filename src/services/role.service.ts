@@ -0,0 +1,240 @@
+/**
+ * Role Service
+ * @module services/role
+ * @description Lógica de negocio para roles y resolución de permisos
+ */
+
+import Role, { IRole } from '../models/Role';
+import User from '../models/User';
+import { ADMIN_ROLE, ALL_PERMISSIONS, DEFAULT_ROLES } from '../config/permissions';
+import { Permission, RoleDefinition, UpdateRoleDTO } from '../types';
+
+/**
+ * Tiempo que se reutilizan los permisos de un rol antes de volver a leerlos.
+ * Los cambios hechos por esta instancia se aplican de inmediato; el TTL acota
+ * el retraso con el que se ven los cambios hechos por otras instancias
+ */
+const ROLE_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Clase para manejar roles y permisos
+ * @class RoleService
+ */
+class RoleService {
+  /**
+   * Permisos por rol leídos recientemente
+   * @private
+   */
+  private cache = new Map<string, { permissions: Permission[]; expiresAt: number }>();
+
+  /**
+   * Creación de los roles del sistema, compartida por todas las llamadas
+   * @private
+   */
+  private defaultsReady: Promise<void> | null = null;
+
+  /**
+   * Crear los roles del sistema que falten. El rol admin se actualiza siempre
+   * para que incluya los permisos agregados en nuevas versiones
+   * @returns {Promise<void>}
+   */
+  async ensureDefaultRoles(): Promise<void> {
+    await Promise.all(
+      DEFAULT_ROLES.map((role) =>
+        Role.updateOne(
+          { name: role.name },
+          role.name === ADMIN_ROLE
+            ? {
+                $set: { permissions: ALL_PERMISSIONS, isSystem: true },
+                $setOnInsert: { description: role.description },
+              }
+            : {
+                $set: { isSystem: true },
+                $setOnInsert: { description: role.description, permissions: role.permissions },
+              },
+          { upsert: true }
+        )
+      )
+    );
+
+    this.cache.clear();
+  }
+
+  /**
+   * Listar los roles con sus permisos
+   * @returns {Promise<IRole[]>} Roles ordenados por nombre
+   */
+  async listRoles(): Promise<IRole[]> {
+    await this.ready();
+
+    return Role.find().sort({ name: 1 });
+  }
+
+  /**
+   * Obtener un rol por nombre
+   * @param {string} name - Nombre del rol
+   * @returns {Promise<IRole>} Rol encontrado
+   * @throws {Error} Si el rol no existe
+   */
+  async getRole(name: string): Promise<IRole> {
+    await this.ready();
+
+    const role = await Role.findOne({ name: name.toLowerCase() });
+
+    if (!role) {
+      throw new Error('Rol no encontrado');
+    }
+
+    return role;
+  }
+
+  /**
+   * Contar los usuarios asignados a cada rol
+   * @returns {Promise<Record<string, number>>} Cantidad de usuarios por nombre de rol
+   */
+  async countUsersByRole(): Promise<Record<string, number>> {
+    const counts = await User.aggregate<{ _id: string; count: number }>([
+      { $group: { _id: '$role', count: { $sum: 1 } } },
+    ]);
+
+    return Object.fromEntries(counts.map(({ _id, count }) => [_id, count]));
+  }
+
+  /**
+   * Crear un rol personalizado
+   * @param {RoleDefinition} data - Nombre, descripción y permisos
+   * @returns {Promise<IRole>} Rol creado
+   * @throws {Error} Si ya existe un rol con ese nombre
+   */
+  async createRole(data: RoleDefinition): Promise<IRole> {
+    await this.ready();
+
+    const name = data.name.toLowerCase();
+
+    if (await Role.exists({ name })) {
+      throw new Error('El rol ya existe');
+    }
+
+    return Role.create({
+      name,
+      description: data.description,
+      permissions: [...new Set(data.permissions)],
+    });
+  }
+
+  /**
+   * Actualizar la descripción o los permisos de un rol
+   * Los cambios se aplican a todos los usuarios con ese rol en su siguiente request
+   * @param {string} name - Nombre del rol
+   * @param {UpdateRoleDTO} data - Datos a actualizar
+   * @returns {Promise<IRole>} Rol actualizado
+   * @throws {Error} Si el rol no existe o es el rol admin
+   */
+  async updateRole(name: string, data: UpdateRoleDTO): Promise<IRole> {
+    const role = await this.getRole(name);
+
+    if (role.name === ADMIN_ROLE) {
+      throw new Error('El rol admin no se puede modificar');
+    }
+
+    if (data.description !== undefined) {
+      role.description = data.description;
+    }
+
+    if (data.permissions !== undefined) {
+      role.permissions = [...new Set(data.permissions)];
+    }
+
+    await role.save();
+    this.cache.delete(role.name);
+
+    return role;
+  }
+
+  /**
+   * Eliminar un rol personalizado que no esté asignado a ningún usuario
+   * @param {string} name - Nombre del rol
+   * @returns {Promise<void>}
+   * @throws {Error} Si el rol no existe, es del sistema o tiene usuarios
+   */
+  async deleteRole(name: string): Promise<void> {
+    const role = await this.getRole(name);
+
+    if (role.isSystem) {
+      throw new Error('Los roles del sistema no se pueden eliminar');
+    }
+
+    if (await User.exists({ role: role.name })) {
+      throw new Error('El rol está asignado a usuarios');
+    }
+
+    await role.deleteOne();
+    this.cache.delete(role.name);
+  }
+
+  /**
+   * Verificar si existe un rol
+   * @param {string} name - Nombre del rol
+   * @returns {Promise<boolean>} True si el rol existe
+   */
+  async roleExists(name: string): Promise<boolean> {
+    await this.ready();
+
+    return (await Role.exists({ name: name.toLowerCase() })) !== null;
+  }
+
+  /**
+   * Obtener los permisos de un rol. Un rol inexistente no tiene permisos
+   * @param {string} name - Nombre del rol
+   * @returns {Promise<Permission[]>} Permisos del rol
+   */
+  async getPermissions(name: string): Promise<Permission[]> {
+    if (name === ADMIN_ROLE) {
+      return ALL_PERMISSIONS;
+    }
+
+    const cached = this.cache.get(name);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.permissions;
+    }
+
+    await this.ready();
+
+    const role = await Role.findOne({ name }).select('permissions');
+    const permissions = role ? role.permissions : [];
+
+    this.cache.set(name, { permissions, expiresAt: Date.now() + ROLE_CACHE_TTL_MS });
+
+    return permissions;
+  }
+
+  /**
+   * Verificar si un rol tiene todos los permisos indicados
+   * @param {string} name - Nombre del rol
+   * @param {Permission[]} permissions - Permisos requeridos
+   * @returns {Promise<boolean>} True si el rol los tiene todos
+   */
+  async hasPermissions(name: string, permissions: Permission[]): Promise<boolean> {
+    const granted = await this.getPermissions(name);
+
+    return permissions.every((permission) => granted.includes(permission));
+  }
+
+  /**
+   * Asegurar una sola vez por proceso que los roles del sistema existan
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async ready(): Promise<void> {
+    if (!this.defaultsReady) {
+      this.defaultsReady = this.ensureDefaultRoles().catch((error) => {
+        this.defaultsReady = null;
+        throw error;
+      });
+    }
+
+    await this.defaultsReady;
+  }
+}
+
+export default new RoleService();
@@ -0,0 +1,307 @@
+/**
+ * Storage Service
+ * @module services/storage
+ * @description Abstracción del almacenamiento de archivos subidos con drivers de disco local y S3
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Request } from 'express';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+} from '@aws-sdk/client-s3';
+import { config } from '../config/env';
+import { UploadedFileInfo } from '../types';
+
+/**
+ * Contrato que deben cumplir los drivers de almacenamiento
+ * Los nombres de archivo se reducen siempre a su basename para prevenir path traversal
+ */
+export interface StorageDriver {
+  /** Nombre del driver (local, s3) */
+  readonly name: string;
+  /** Guardar un archivo, reemplazándolo si existe */
+  save(filename: string, data: Buffer, contentType: string): Promise<void>;
+  /** Leer el contenido de un archivo */
+  read(filename: string): Promise<Buffer>;
+  /** Verificar si un archivo existe */
+  exists(filename: string): Promise<boolean>;
+  /** Eliminar un archivo. Retorna false si no existía */
+  remove(filename: string): Promise<boolean>;
+  /** Listar los archivos almacenados */
+  list(): Promise<UploadedFileInfo[]>;
+  /** Obtener la URL pública de un archivo */
+  getPublicUrl(filename: string, req: Request): string;
+}
+
+/**
+ * Opciones de conexión del driver S3
+ */
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+  publicUrl?: string;
+}
+
+/**
+ * Obtener un nombre de archivo seguro
+ * @param {string} filename - Nombre o ruta recibida
+ * @returns {string} Basename del archivo
+ * @throws {Error} Si el nombre está vacío o es un directorio relativo
+ */
+const toSafeFilename = (filename: string): string => {
+  const safeFilename = path.basename(filename);
+  if (!safeFilename || safeFilename === '.' || safeFilename === '..') {
+    throw new Error('Invalid file path');
+  }
+  return safeFilename;
+};
+
+/**
+ * Driver que almacena los archivos en un directorio del disco local
+ * Los archivos se sirven como estáticos bajo /uploads
+ * @class LocalStorageDriver
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  private readonly directory: string;
+
+  /**
+   * @param {string} directory - Directorio donde se guardan los archivos
+   */
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+    if (!fs.existsSync(this.directory)) {
+      fs.mkdirSync(this.directory, { recursive: true });
+    }
+  }
+
+  /**
+   * Directorio absoluto donde se guardan los archivos
+   * @returns {string} Ruta del directorio
+   */
+  get root(): string {
+    return this.directory;
+  }
+
+  /**
+   * Resolver la ruta absoluta de un archivo dentro del directorio
+   * @param {string} filename - Nombre del archivo
+   * @returns {string} Ruta absoluta
+   */
+  private resolve(filename: string): string {
+    return path.join(this.directory, toSafeFilename(filename));
+  }
+
+  async save(filename: string, data: Buffer): Promise<void> {
+    await fs.promises.writeFile(this.resolve(filename), data);
+  }
+
+  async read(filename: string): Promise<Buffer> {
+    return fs.promises.readFile(this.resolve(filename));
+  }
+
+  async exists(filename: string): Promise<boolean> {
+    return fs.existsSync(this.resolve(filename));
+  }
+
+  async remove(filename: string): Promise<boolean> {
+    const fullPath = this.resolve(filename);
+    if (!fs.existsSync(fullPath)) {
+      return false;
+    }
+    await fs.promises.unlink(fullPath);
+    return true;
+  }
+
+  async list(): Promise<UploadedFileInfo[]> {
+    const entries = await fs.promises.readdir(this.directory, { withFileTypes: true });
+
+    // Omitir archivos ocultos como .gitkeep
+    const files = entries.filter((entry) => entry.isFile() && !entry.name.startsWith('.'));
+
+    return Promise.all(
+      files.map(async (entry) => {
+        const stats = await fs.promises.stat(path.join(this.directory, entry.name));
+        return {
+          filename: entry.name,
+          size: stats.size,
+          modifiedAt: stats.mtime,
+        };
+      })
+    );
+  }
+
+  getPublicUrl(filename: string, req: Request): string {
+    return `${req.protocol}://${req.get('host')}/uploads/${toSafeFilename(filename)}`;
+  }
+}
+
+/**
+ * Driver que almacena los archivos en un bucket compatible con S3 (AWS S3, MinIO, etc.)
+ * @class S3StorageDriver
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+
+  private readonly client: S3Client;
+
+  private readonly bucket: string;
+
+  private readonly publicUrl: string;
+
+  /**
+   * @param {S3StorageOptions} options - Opciones de conexión
+   * @throws {Error} Si no se configura el bucket
+   */
+  constructor(options: S3StorageOptions) {
+    if (!options.bucket) {
+      throw new Error('S3_BUCKET es requerido para el almacenamiento S3');
+    }
+
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint || undefined,
+      forcePathStyle: options.forcePathStyle,
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+          : undefined,
+    });
+
+    const defaultUrl = options.endpoint
+      ? `${options.endpoint}/${options.bucket}`
+      : `https://${options.bucket}.s3.${options.region}.amazonaws.com`;
+    this.publicUrl = (options.publicUrl || defaultUrl).replace(/\/+$/, '');
+  }
+
+  /**
+   * Verificar si un error del SDK corresponde a un objeto inexistente
+   * @param {unknown} error - Error capturado
+   * @returns {boolean} true si el objeto no existe
+   */
+  private isNotFound(error: unknown): boolean {
+    const sdkError = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+    return (
+      sdkError?.name === 'NotFound' ||
+      sdkError?.name === 'NoSuchKey' ||
+      sdkError?.$metadata?.httpStatusCode === 404
+    );
+  }
+
+  async save(filename: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: toSafeFilename(filename),
+        Body: data,
+        ContentType: contentType,
+      })
+    );
+  }
+
+  async read(filename: string): Promise<Buffer> {
+    const response = await this.client.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: toSafeFilename(filename) })
+    );
+
+    if (!response.Body) {
+      throw new Error(`Archivo vacío: ${filename}`);
+    }
+
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async exists(filename: string): Promise<boolean> {
+    try {
+      await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: toSafeFilename(filename) })
+      );
+      return true;
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async remove(filename: string): Promise<boolean> {
+    // DeleteObject no informa si el objeto existía
+    if (!(await this.exists(filename))) {
+      return false;
+    }
+
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: toSafeFilename(filename) })
+    );
+    return true;
+  }
+
+  async list(): Promise<UploadedFileInfo[]> {
+    const files: UploadedFileInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({ Bucket: this.bucket, ContinuationToken: continuationToken })
+      );
+
+      for (const object of response.Contents ?? []) {
+        if (object.Key && !object.Key.includes('/') && !object.Key.startsWith('.')) {
+          files.push({
+            filename: object.Key,
+            size: object.Size ?? 0,
+            modifiedAt: object.LastModified ?? new Date(0),
+          });
+        }
+      }
+
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return files;
+  }
+
+  getPublicUrl(filename: string): string {
+    return `${this.publicUrl}/${encodeURIComponent(toSafeFilename(filename))}`;
+  }
+}
+
+/**
+ * Crear el driver de almacenamiento indicado
+ * @param {string} driver - Nombre del driver (local, s3)
+ * @returns {StorageDriver} Driver configurado
+ * @throws {Error} Si el driver no está soportado
+ */
+export const createStorageDriver = (driver: string = config.STORAGE_DRIVER): StorageDriver => {
+  switch (driver) {
+    case 'local':
+      return new LocalStorageDriver(config.UPLOAD_PATH);
+    case 's3':
+      return new S3StorageDriver({
+        bucket: config.S3_BUCKET,
+        region: config.S3_REGION,
+        endpoint: config.S3_ENDPOINT,
+        accessKeyId: config.S3_ACCESS_KEY_ID,
+        secretAccessKey: config.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: config.S3_FORCE_PATH_STYLE,
+        publicUrl: config.S3_PUBLIC_URL,
+      });
+    default:
+      throw new Error(`Driver de almacenamiento no soportado: ${driver}`);
+  }
+};
+
+export default createStorageDriver();
@@ -0,0 +1,276 @@
+/**
+ * Two Factor Service
+ * @module services/twoFactor
+ * @description Alta, baja y verificación de la autenticación en dos pasos (TOTP)
+ */
+
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import User, { IUser } from '../models/User';
+import mailService from './mail.service';
+import { logger } from '../utils/logger';
+import { config } from '../config/env';
+import { ADMIN_ROLE } from '../config/permissions';
+import {
+  buildOtpauthUri,
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateTotpSecret,
+  verifyTotp,
+} from '../utils/totp';
+import { SessionContext, TwoFactorSetupResponse } from '../types';
+import { auditSnapshot, getSelfAuditContext, REDACTED } from '../utils/audit';
+import auditService from './audit.service';
+
+/**
+ * Cantidad de códigos de recuperación generados en cada alta o renovación
+ */
+const RECOVERY_CODES_COUNT = 10;
+
+/**
+ * Obtener el hash con el que se almacena un código de recuperación
+ * Se ignoran mayúsculas, espacios y guiones para tolerar distintas formas de escribirlo
+ * @param {string} code - Código de recuperación
+ * @returns {string} Hash SHA-256 en hexadecimal
+ */
+const hashRecoveryCode = (code: string): string => {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+};
+
+/**
+ * Generar códigos de recuperación con el formato xxxx-xxxx
+ * @returns {string[]} Códigos en texto plano
+ */
+const generateRecoveryCodes = (): string[] => {
+  return Array.from({ length: RECOVERY_CODES_COUNT }, () => {
+    const code = crypto.randomBytes(4).toString('hex');
+    return `${code.slice(0, 4)}-${code.slice(4)}`;
+  });
+};
+
+/**
+ * Clase para manejar la autenticación en dos pasos
+ * @class TwoFactorService
+ */
+class TwoFactorService {
+  /**
+   * Iniciar el alta de la 2FA generando un secreto pendiente de confirmación
+   * Repetir el alta reemplaza el secreto pendiente anterior
+   * @param {string} userId - ID del usuario
+   * @returns {Promise<TwoFactorSetupResponse>} Secreto, URI otpauth y código QR
+   * @throws {Error} Si el usuario no existe o ya tiene la 2FA activada
+   */
+  async setup(userId: string): Promise<TwoFactorSetupResponse> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new Error('Usuario no encontrado');
+    }
+
+    if (user.twoFactorEnabled) {
+      throw new Error('La autenticación en dos pasos ya está activada');
+    }
+
+    const secret = generateTotpSecret();
+    user.twoFactorPendingSecret = encryptTotpSecret(secret);
+    await user.save();
+
+    const otpauthUrl = buildOtpauthUri(secret, user.email);
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl),
+    };
+  }
+
+  /**
+   * Confirmar el alta de la 2FA con un código de la app de autenticación
+   * @param {string} userId - ID del usuario
+   * @param {string} code - Código TOTP
+   * @param {SessionContext} context - Datos del cliente
+   * @returns {Promise<string[]>} Códigos de recuperación (solo se muestran esta vez)
+   * @throws {Error} Si no hay un alta pendiente o el código es inválido
+   */
+  async confirm(userId: string, code: string, context: SessionContext = {}): Promise<string[]> {
+    const user = await User.findById(userId).select('+twoFactorPendingSecret');
+    if (!user) {
+      throw new Error('Usuario no encontrado');
+    }
+
+    if (user.twoFactorEnabled) {
+      throw new Error('La autenticación en dos pasos ya está activada');
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      throw new Error('No hay una activación de dos pasos pendiente');
+    }
+
+    const step = verifyTotp(decryptTotpSecret(user.twoFactorPendingSecret), code);
+    if (step === null) {
+      throw new Error('Código de verificación inválido');
+    }
+
+    const before = auditSnapshot('user', user);
+    const recoveryCodes = generateRecoveryCodes();
+
+    user.set({
+      twoFactorEnabled: true,
+      twoFactorSecret: user.twoFactorPendingSecret,
+      twoFactorPendingSecret: null,
+      twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      twoFactorLastUsedStep: step,
+    });
+    await user.save();
+    await auditService.recordUserChange('update', user, before, getSelfAuditContext(user, context));
+
+    await this.notifyChange(user, true);
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Desactivar la 2FA. Requiere la contraseña y un código vigente
+   * @param {string} userId - ID del usuario
+   * @param {string} password - Contraseña actual
+   * @param {string} code - Código TOTP o de recuperación
+   * @param {SessionContext} context - Datos del cliente
+   * @returns {Promise<void>}
+   * @throws {Error} Si la 2FA no está activada, es obligatoria o las credenciales son inválidas
+   */
+  async disable(
+    userId: string,
+    password: string,
+    code: string,
+    context: SessionContext = {}
+  ): Promise<void> {
+    const user = await User.findById(userId).select('+password');
+    if (!user) {
+      throw new Error('Usuario no encontrado');
+    }
+
+    if (!user.twoFactorEnabled) {
+      throw new Error('La autenticación en dos pasos no está activada');
+    }
+
+    if (user.role === ADMIN_ROLE && config.REQUIRE_2FA_FOR_ADMINS) {
+      throw new Error('La autenticación en dos pasos es obligatoria para administradores');
+    }
+
+    if (!(await user.comparePassword(password))) {
+      throw new Error('La contraseña actual es incorrecta');
+    }
+
+    if (!(await this.verifyCode(userId, code))) {
+      throw new Error('Código de verificación inválido');
+    }
+
+    const before = auditSnapshot('user', user);
+
+    user.set({
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorPendingSecret: null,
+      twoFactorRecoveryCodes: [],
+      twoFactorLastUsedStep: null,
+    });
+    await user.save();
+    await auditService.recordUserChange('update', user, before, getSelfAuditContext(user, context));
+
+    await this.notifyChange(user, false);
+  }
+
+  /**
+   * Generar nuevos códigos de recuperación; los anteriores dejan de ser válidos
+   * @param {string} userId - ID del usuario
+   * @param {string} code - Código TOTP o de recuperación
+   * @param {SessionContext} context - Datos del cliente
+   * @returns {Promise<string[]>} Nuevos códigos de recuperación
+   * @throws {Error} Si la 2FA no está activada o el código es inválido
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+    context: SessionContext = {}
+  ): Promise<string[]> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new Error('Usuario no encontrado');
+    }
+
+    if (!user.twoFactorEnabled) {
+      throw new Error('La autenticación en dos pasos no está activada');
+    }
+
+    if (!(await this.verifyCode(userId, code))) {
+      throw new Error('Código de verificación inválido');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    await User.updateOne(
+      { _id: user._id },
+      { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) }
+    );
+    await auditService.recordUserChange(
+      'update',
+      user,
+      auditSnapshot('user', user),
+      getSelfAuditContext(user, context),
+      { twoFactorRecoveryCodes: REDACTED }
+    );
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Verificar un código TOTP o de recuperación de un usuario con la 2FA activada
+   * Cada código se acepta una sola vez: los TOTP no pueden repetir un paso de tiempo
+   * ya usado y los de recuperación se eliminan al usarse. Ambas marcas son atómicas
+   * @param {string} userId - ID del usuario
+   * @param {string} code - Código ingresado
+   * @returns {Promise<boolean>} True si el código es válido
+   */
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    const user = await User.findById(userId).select('+twoFactorSecret');
+    if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+      return false;
+    }
+
+    const step = verifyTotp(decryptTotpSecret(user.twoFactorSecret), code);
+    if (step !== null) {
+      const result = await User.updateOne(
+        {
+          _id: user._id,
+          $or: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { $lt: step } }],
+        },
+        { twoFactorLastUsedStep: step }
+      );
+      return result.modifiedCount === 1;
+    }
+
+    const hash = hashRecoveryCode(code);
+    const result = await User.updateOne(
+      { _id: user._id, twoFactorRecoveryCodes: hash },
+      { $pull: { twoFactorRecoveryCodes: hash } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Avisar al usuario que la 2FA de su cuenta fue activada o desactivada
+   * @private
+   * @param {IUser} user - Usuario
+   * @param {boolean} enabled - Si la 2FA quedó activada
+   * @returns {Promise<void>}
+   */
+  private async notifyChange(user: IUser, enabled: boolean): Promise<void> {
+    try {
+      await mailService.sendTwoFactorChanged(user.email, user.name, enabled);
+    } catch (error) {
+      logger.error('Error sending two-factor notification:', error);
+    }
+  }
+}
+
+export default new TwoFactorService();
@@ -0,0 +1,168 @@
+/**
+ * User Service
+ * @module services/user
+ * @description Lógica de negocio para la administración de usuarios
+ */
+
+import User, { IUser } from '../models/User';
+import authService from './auth.service';
+import auditService from './audit.service';
+import { ADMIN_ROLE } from '../config/permissions';
+import { AuditContext, PaginatedResponse, UpdateUserDTO, UserFilters } from '../types';
+import { auditSnapshot } from '../utils/audit';
+
+/**
+ * Campos de usuario que un administrador puede modificar
+ * Cualquier otro campo (email, password, etc.) se ignora
+ */
+const ADMIN_UPDATABLE_FIELDS: (keyof UpdateUserDTO)[] = ['name', 'role', 'isActive'];
+
+/**
+ * Escapar caracteres especiales para usar un texto dentro de una expresión regular
+ * @param {string} value - Texto a escapar
+ * @returns {string} Texto escapado
+ */
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Clase para manejar la administración de usuarios
+ * @class UserService
+ */
+class UserService {
+  /**
+   * Listar usuarios con búsqueda y paginación
+   * @param {UserFilters} filters - Filtros de búsqueda
+   * @returns {Promise<PaginatedResponse<IUser>>} Usuarios paginados
+   */
+  async listUsers(filters: UserFilters): Promise<PaginatedResponse<IUser>> {
+    const { search, role, isActive, locked, page = 1, limit = 10 } = filters;
+
+    const query: Record<string, unknown> = {};
+
+    if (search) {
+      const regex = new RegExp(escapeRegex(search), 'i');
+      query.$or = [{ email: regex }, { name: regex }];
+    }
+
+    if (role) {
+      query.role = role;
+    }
+
+    if (isActive !== undefined) {
+      query.isActive = isActive;
+    }
+
+    if (locked !== undefined) {
+      query.lockedUntil = locked ? { $gt: new Date() } : { $not: { $gt: new Date() } };
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [users, total] = await Promise.all([
+      User.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      User.countDocuments(query),
+    ]);
+
+    return {
+      data: users,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Obtener usuario por ID
+   * @param {string} id - ID del usuario
+   * @returns {Promise<IUser>} Usuario encontrado
+   * @throws {Error} Si el usuario no existe
+   */
+  async getUserById(id: string): Promise<IUser> {
+    const user = await User.findById(id);
+
+    if (!user) {
+      throw new Error('Usuario no encontrado');
+    }
+
+    return user;
+  }
+
+  /**
+   * Actualizar un usuario como administrador
+   * Solo se aplican los campos permitidos. Desactivar la cuenta revoca sus sesiones
+   * @param {string} id - ID del usuario
+   * @param {UpdateUserDTO} data - Datos a actualizar
+   * @param {string} actorId - ID del administrador que realiza el cambio
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @returns {Promise<IUser>} Usuario actualizado
+   * @throws {Error} Si el usuario no existe, el admin se modifica a sí mismo o se deja sin admins
+   */
+  async updateUser(
+    id: string,
+    data: UpdateUserDTO,
+    actorId: string,
+    context: AuditContext = {}
+  ): Promise<IUser> {
+    const user = await this.getUserById(id);
+    const before = auditSnapshot('user', user);
+
+    const changes: UpdateUserDTO = {};
+    for (const field of ADMIN_UPDATABLE_FIELDS) {
+      if (data[field] !== undefined) {
+        Object.assign(changes, { [field]: data[field] });
+      }
+    }
+
+    const demotes = changes.role !== undefined && changes.role !== user.role;
+    const deactivates = changes.isActive === false && user.isActive;
+
+    if (id === actorId && (demotes || deactivates)) {
+      throw new Error('No puedes cambiar tu propio rol ni desactivar tu propia cuenta');
+    }
+
+    if (user.role === ADMIN_ROLE && user.isActive && (demotes || deactivates)) {
+      const otherAdmins = await User.countDocuments({
+        _id: { $ne: user._id },
+        role: ADMIN_ROLE,
+        isActive: true,
+      });
+
+      if (otherAdmins === 0) {
+        throw new Error('Debe existir al menos un administrador activo');
+      }
+    }
+
+    user.set(changes);
+    await user.save();
+    await auditService.recordUserChange('update', user, before, context);
+
+    if (deactivates) {
+      await authService.revokeUserSessions(id);
+    }
+
+    return user;
+  }
+
+  /**
+   * Desbloquear una cuenta bloqueada por intentos fallidos de login
+   * @param {string} id - ID del usuario
+   * @param {AuditContext} context - Datos del request para la auditoría
+   * @returns {Promise<IUser>} Usuario desbloqueado
+   * @throws {Error} Si el usuario no existe
+   */
+  async unlockUser(id: string, context: AuditContext = {}): Promise<IUser> {
+    const user = await this.getUserById(id);
+    const before = auditSnapshot('user', user);
+
+    user.set({ failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null });
+    await user.save();
+    await auditService.recordUserChange('update', user, before, context);
+
+    return user;
+  }
+}
+
+export default new UserService();
@@ -5,6 +5,7 @@
  */
 
 import { Request } from 'express';
+import { Types } from 'mongoose';
 
 /**
  * Interface para el request autenticado
@@ -16,7 +17,17 @@ export interface AuthRequest extends Request {
     id: string;
     email: string;
     role: string;
+    emailVerified?: boolean;
+    twoFactorEnabled?: boolean;
+    sid?: string;
+    organizations?: string[];
   };
+  apiKey?: {
+    id: string;
+    scopes: ApiKeyScope[];
+  };
+  organization?: OrganizationContext;
+  requestId?: string;
 }
 
 /**
@@ -27,6 +38,7 @@ export interface JWTPayload {
   id: string;
   email: string;
   role: string;
+  sid?: string;
 }
 
 /**
@@ -58,8 +70,207 @@ export interface AuthResponse {
     email: string;
     name: string;
     role: string;
+    emailVerified: boolean;
+    twoFactorEnabled: boolean;
   };
   token: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: string;
+}
+
+/**
+ * Interface para la respuesta de un login que requiere el segundo factor
+ * El challengeToken se canjea junto con el código en POST /api/auth/login/2fa
+ * @interface TwoFactorChallengeResponse
+ */
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+  challengeExpiresAt: string;
+}
+
+/**
+ * Resultado de un login: sesión iniciada o desafío de segundo factor
+ */
+export type LoginResult = AuthResponse | TwoFactorChallengeResponse;
+
+/**
+ * Interface para los datos de alta de la autenticación en dos pasos
+ * @interface TwoFactorSetupResponse
+ */
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+/**
+ * Interface para los datos del cliente que inicia una sesión
+ * @interface SessionContext
+ */
+export interface SessionContext {
+  ip?: string;
+  userAgent?: string;
+  requestId?: string;
+}
+
+/**
+ * Interface para la política de contraseñas vigente
+ * @interface PasswordPolicy
+ */
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  rejectPersonalInfo: boolean;
+  rejectCommon: boolean;
+  rules: string[];
+}
+
+/**
+ * Datos personales que una contraseña no puede contener
+ * @interface PasswordOwner
+ */
+export interface PasswordOwner {
+  email?: string;
+  name?: string;
+}
+
+/**
+ * Interface para actualizar el perfil propio
+ * Cambiar el email requiere la contraseña actual
+ * @interface UpdateProfileDTO
+ */
+export interface UpdateProfileDTO {
+  name?: string;
+  email?: string;
+  currentPassword?: string;
+}
+
+/**
+ * Type para el destino de los autos al eliminar una cuenta
+ * @type {AccountCarsAction}
+ */
+export type AccountCarsAction = 'delete' | 'transfer';
+
+/**
+ * Interface para eliminar la cuenta propia
+ * @interface DeleteAccountDTO
+ */
+export interface DeleteAccountDTO {
+  password: string;
+  carsAction: AccountCarsAction;
+  transferTo?: string;
+}
+
+/**
+ * Interface para el resultado de eliminar una cuenta
+ * @interface DeleteAccountResult
+ */
+export interface DeleteAccountResult {
+  carsAction: AccountCarsAction;
+  carsAffected: number;
+  transferredTo: string | null;
+}
+
+/**
+ * Interface para respuesta del perfil propio
+ * @interface ProfileResponse
+ */
+export interface ProfileResponse {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  pendingEmail: string | null;
+  organizations: string[];
+}
+
+/**
+ * Interface para filtros de usuarios (administración)
+ * @interface UserFilters
+ */
+export interface UserFilters {
+  search?: string;
+  role?: UserRole;
+  isActive?: boolean;
+  locked?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Interface para los campos de usuario que puede modificar un administrador
+ * @interface UpdateUserDTO
+ */
+export interface UpdateUserDTO {
+  name?: string;
+  role?: UserRole;
+  isActive?: boolean;
+}
+
+/**
+ * Interface para respuesta de usuario (administración)
+ * @interface UserResponse
+ */
+export interface UserResponse {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  isActive: boolean;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  failedLoginAttempts: number;
+  lockedUntil: string | null;
+  organizations: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Interface para emitir una API key
+ * @interface CreateApiKeyDTO
+ */
+export interface CreateApiKeyDTO {
+  name: string;
+  scopes: ApiKeyScope[];
+  userId?: string;
+  expiresInDays?: number;
+}
+
+/**
+ * Interface para filtros de API keys
+ * @interface ApiKeyFilters
+ */
+export interface ApiKeyFilters {
+  user?: string;
+  active?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Interface para respuesta de API key (nunca incluye la key ni su hash)
+ * @interface ApiKeyResponse
+ */
+export interface ApiKeyResponse {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  user: string;
+  createdBy: string;
+  expiresAt: string;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
 }
 
 /**
@@ -79,10 +290,11 @@ export interface CreateCarDTO {
 }
 
 /**
- * Type para actualizar un auto
+ * Type para actualizar un auto con JSON Merge Patch (RFC 7396)
+ * Los campos ausentes no cambian y null borra el campo
  * @type UpdateCarDTO
  */
-export type UpdateCarDTO = Partial<CreateCarDTO>;
+export type UpdateCarDTO = { [K in keyof CreateCarDTO]?: CreateCarDTO[K] | null };
 
 /**
  * Interface para filtros de búsqueda de autos
@@ -95,6 +307,7 @@ export interface CarFilters {
   minPrecio?: number;
   maxPrecio?: number;
   color?: string;
+  rebajaDias?: number;
   page?: number;
   limit?: number;
   sortBy?: string;
@@ -125,10 +338,301 @@ export interface YearCatalog {
 }
 
 /**
- * Type para roles de usuario
+ * Type para roles de usuario: nombre de un rol registrado en la colección de roles
  * @type {UserRole}
  */
-export type UserRole = 'admin' | 'user';
+export type UserRole = string;
+
+/**
+ * Type para permisos de la aplicación
+ * @type {Permission}
+ */
+export type Permission =
+  | 'cars:read'
+  | 'cars:create'
+  | 'cars:update:own'
+  | 'cars:update:any'
+  | 'cars:delete'
+  | 'catalog:manage'
+  | 'users:manage'
+  | 'organizations:manage'
+  | 'audit:read';
+
+/**
+ * Interface para la definición de un rol
+ * @interface RoleDefinition
+ */
+export interface RoleDefinition {
+  name: string;
+  description: string;
+  permissions: Permission[];
+}
+
+/**
+ * Interface para actualizar un rol
+ * @interface UpdateRoleDTO
+ */
+export interface UpdateRoleDTO {
+  description?: string;
+  permissions?: Permission[];
+}
+
+/**
+ * Interface para respuesta de rol
+ * @interface RoleResponse
+ */
+export interface RoleResponse extends RoleDefinition {
+  isSystem: boolean;
+  usersCount: number;
+}
+
+/**
+ * Interface para la organización activa de un request
+ * Los autos sin organización pertenecen a la organización por defecto
+ * @interface OrganizationContext
+ */
+export interface OrganizationContext {
+  id: string;
+  slug: string;
+  isDefault: boolean;
+}
+
+/**
+ * Interface para crear una organización
+ * @interface CreateOrganizationDTO
+ */
+export interface CreateOrganizationDTO {
+  name: string;
+  slug: string;
+}
+
+/**
+ * Interface para actualizar una organización
+ * @interface UpdateOrganizationDTO
+ */
+export interface UpdateOrganizationDTO {
+  name?: string;
+  isActive?: boolean;
+}
+
+/**
+ * Interface para respuesta de organización
+ * @interface OrganizationResponse
+ */
+export interface OrganizationResponse {
+  id: string;
+  name: string;
+  slug: string;
+  isActive: boolean;
+  isDefault: boolean;
+  membersCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Type para las acciones registradas en la auditoría
+ * @type {AuditAction}
+ */
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+/**
+ * Type para las entidades auditadas
+ * @type {AuditEntityType}
+ */
+export type AuditEntityType = 'car' | 'catalog' | 'user';
+
+/**
+ * Interface para los datos del request que se guardan junto a cada cambio auditado
+ * @interface AuditContext
+ */
+export interface AuditContext {
+  actorId?: string;
+  actorEmail?: string;
+  apiKeyId?: string;
+  ip?: string;
+  requestId?: string;
+}
+
+/**
+ * Interface para un cambio a registrar en la auditoría
+ * before y after son instantáneas de los campos auditados; null si la entidad no existía o ya no existe
+ * @interface AuditEntry
+ */
+export interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  organization?: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+/**
+ * Interface para filtros del registro de auditoría
+ * @interface AuditLogFilters
+ */
+export interface AuditLogFilters {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actor?: string;
+  action?: AuditAction;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Interface para respuesta de una entrada de auditoría
+ * @interface AuditLogResponse
+ */
+export interface AuditLogResponse {
+  id: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  organization: string | null;
+  actor: string | null;
+  actorEmail: string | null;
+  apiKey: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ip: string | null;
+  requestId: string | null;
+  createdAt: string;
+}
+
+/**
+ * Type para las acciones que generan una versión de un auto
+ * initial es el estado del auto antes del primer cambio registrado
+ * @type {CarVersionAction}
+ */
+export type CarVersionAction = 'initial' | 'update' | 'delete' | 'restore' | 'revert';
+
+/**
+ * Interface para el estado de un auto antes de un cambio que genera una versión
+ * @interface CarVersionBase
+ */
+export interface CarVersionBase {
+  data: Record<string, unknown>;
+  modifiedAt: Date;
+}
+
+/**
+ * Interface para respuesta de una versión de auto
+ * @interface CarVersionResponse
+ */
+export interface CarVersionResponse {
+  version: number;
+  action: CarVersionAction;
+  data: Record<string, unknown>;
+  changedBy: string | null;
+  revertedFrom: number | null;
+  createdAt: string;
+}
+
+/**
+ * Interface para la diferencia entre dos versiones de un auto
+ * changes solo incluye los campos que cambiaron
+ * @interface CarVersionDiff
+ */
+export interface CarVersionDiff {
+  from: number;
+  to: number;
+  changes: Record<string, { from: unknown; to: unknown }>;
+}
+
+/**
+ * Interface para respuesta de un cambio de precio
+ * @interface PriceChangeResponse
+ */
+export interface PriceChangeResponse {
+  previousPrice: number;
+  price: number;
+  difference: number;
+  changedBy: string | null;
+  createdAt: string;
+}
+
+/**
+ * Type para formatos de archivo de importación de autos
+ */
+export type CarImportFormat = 'csv' | 'xlsx';
+
+/**
+ * Type para estados de una importación de autos
+ */
+export type CarImportStatus = 'processing' | 'completed' | 'failed';
+
+/**
+ * Type para campos de un auto que se leen de un archivo de importación
+ */
+export type CarImportField = Exclude<keyof CreateCarDTO, 'foto'>;
+
+/**
+ * Type para el mapeo de campos del auto a columnas del archivo
+ * Los campos sin mapeo se buscan en la columna con su mismo nombre
+ */
+export type CarImportMapping = Partial<Record<CarImportField, string>>;
+
+/**
+ * Interface para filas leídas de un archivo de importación
+ * row es el número de fila en el archivo, contando el encabezado como fila 1
+ * @interface CarImportRow
+ */
+export interface CarImportRow {
+  row: number;
+  values: Record<string, string>;
+}
+
+/**
+ * Interface para errores de una fila de importación
+ * field es null si el error no corresponde a un campo (p. ej. al guardar el auto)
+ * @interface CarImportRowError
+ */
+export interface CarImportRowError {
+  row: number;
+  field: string | null;
+  message: string;
+}
+
+/**
+ * Interface para opciones de una importación de autos
+ * @interface CarImportOptions
+ */
+export interface CarImportOptions {
+  mapping: CarImportMapping;
+  dryRun: boolean;
+}
+
+/**
+ * Interface para respuesta de una importación de autos
+ * @interface CarImportJobResponse
+ */
+export interface CarImportJobResponse {
+  id: string;
+  filename: string;
+  format: CarImportFormat;
+  dryRun: boolean;
+  status: CarImportStatus;
+  mapping: CarImportMapping;
+  totalRows: number;
+  validRows: number;
+  createdCount: number;
+  failedCount: number;
+  errors: CarImportRowError[];
+  cars: string[];
+  createdBy: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+/**
+ * Type para alcances de API keys
+ * @type {ApiKeyScope}
+ */
+export type ApiKeyScope = 'cars:read' | 'cars:write' | 'catalog:write';
 
 /**
  * Type para códigos de estado HTTP
@@ -145,16 +649,26 @@ export interface CarResponse {
   modelo: string;
   anio: number;
   precio: number;
+  precioOriginal: number;
+  porcentajeRebaja: number;
+  fechaUltimaRebaja: string | null;
   kilometraje: number;
   color?: string;
   email: string;
   telefono: string;
   foto: string | null;
+  fotoThumbnail: string | null;
+  fotoMedium: string | null;
+  fotos: string[];
+  fotosThumbnail: string[];
+  fotosMedium: string[];
   fechaAlta: string;
   fechaModificacion: string;
   fechaEliminacion?: string | null;
   isDeleted: boolean;
+  revision: number;
   createdBy?: string;
+  organization?: string;
 }
 
 /**
@@ -172,11 +686,29 @@ export interface CatalogResponse {
   updatedAt: string;
 }
 
+/**
+ * Interface para información de un archivo subido
+ */
+export interface UploadedFileInfo {
+  filename: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+/**
+ * Interface para marca y modelo resueltos contra el catálogo
+ */
+export interface CatalogEntry {
+  marca: string | null;
+  modelo: string | null;
+}
+
 /**
  * Type para query de MongoDB
  */
 export interface MongoQuery {
   isDeleted: boolean;
+  organization?: Types.ObjectId | { $in: Array<Types.ObjectId | null> };
   marca?: { $regex: string | RegExp; $options: string };
   modelo?: { $regex: string | RegExp; $options: string };
   anio?: number;
@@ -185,6 +717,7 @@ export interface MongoQuery {
     $lte?: number;
   };
   color?: { $regex: string | RegExp; $options: string };
+  fechaUltimaRebaja?: { $gte: Date };
 }
 
 /**
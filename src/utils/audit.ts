@@ -0,0 +1,157 @@
+/**
+ * Audit Utilities
+ * @module utils/audit
+ * @description Instantáneas y diferencias de entidades para el registro de auditoría
+ */
+
+import mongoose from 'mongoose';
+import { AuditContext, AuditEntityType, AuthRequest, SessionContext } from '../types';
+
+/**
+ * Campos que se guardan en la auditoría de cada entidad
+ * Los secretos (contraseñas, 2FA) nunca se incluyen
+ */
+export const AUDIT_FIELDS: Record<AuditEntityType, string[]> = {
+  car: [
+    'marca',
+    'modelo',
+    'anio',
+    'precio',
+    'kilometraje',
+    'color',
+    'email',
+    'telefono',
+    'foto',
+    'fotos',
+    'isDeleted',
+    'createdBy',
+    'organization',
+  ],
+  catalog: ['marca', 'modelos', 'isActive'],
+  user: [
+    'email',
+    'name',
+    'role',
+    'isActive',
+    'emailVerified',
+    'pendingEmail',
+    'twoFactorEnabled',
+    'organizations',
+    'lockedUntil',
+  ],
+};
+
+/**
+ * Valor que reemplaza a los campos sensibles cuyo cambio se registra sin su contenido
+ */
+export const REDACTED = '[redacted]';
+
+/**
+ * Convertir un valor a su forma serializable (fechas ISO, ObjectIds como texto)
+ * @param {unknown} value - Valor a convertir
+ * @returns {unknown} Valor normalizado
+ */
+const normalize = (value: unknown): unknown => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (value instanceof mongoose.Types.ObjectId) {
+    return String(value);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, nested]) => [
+        key,
+        normalize(nested),
+      ])
+    );
+  }
+
+  return value;
+};
+
+/**
+ * Obtener la instantánea de los campos auditados de una entidad
+ * Acepta documentos de Mongoose u objetos obtenidos con lean()
+ * @param {AuditEntityType} entityType - Tipo de entidad
+ * @param {object} entity - Entidad
+ * @returns {Record<string, unknown>} Campos auditados normalizados
+ */
+export const auditSnapshot = (
+  entityType: AuditEntityType,
+  entity: object
+): Record<string, unknown> => {
+  const withToObject = entity as { toObject?: () => Record<string, unknown> };
+  const source =
+    typeof withToObject.toObject === 'function'
+      ? withToObject.toObject()
+      : (entity as Record<string, unknown>);
+
+  return Object.fromEntries(
+    AUDIT_FIELDS[entityType].map((field) => [field, normalize(source[field])])
+  );
+};
+
+/**
+ * Reducir dos instantáneas a los campos que cambiaron
+ * @param {Record<string, unknown>} before - Instantánea anterior
+ * @param {Record<string, unknown>} after - Instantánea posterior
+ * @returns {{ before: Record<string, unknown>; after: Record<string, unknown> } | null} Diferencia, o null si no hay cambios
+ */
+export const diffSnapshots = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): { before: Record<string, unknown>; after: Record<string, unknown> } | null => {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(
+    (field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null)
+  );
+
+  if (fields.length === 0) {
+    return null;
+  }
+
+  return {
+    before: Object.fromEntries(fields.map((field) => [field, before[field] ?? null])),
+    after: Object.fromEntries(fields.map((field) => [field, after[field] ?? null])),
+  };
+};
+
+/**
+ * Obtener los datos del request que se guardan junto a un cambio auditado
+ * @param {AuthRequest} req - Request de Express
+ * @returns {AuditContext} Actor, API key, IP y request id
+ */
+export const getAuditContext = (req: AuthRequest): AuditContext => ({
+  actorId: req.user?.id,
+  actorEmail: req.user?.email,
+  apiKeyId: req.apiKey?.id,
+  ip: req.ip,
+  requestId: req.requestId,
+});
+
+/**
+ * Obtener el contexto de auditoría de una acción del usuario sobre su propia cuenta
+ * Se usa también sin sesión (registro, verificación de email, restablecimiento de contraseña)
+ * @param {object} user - Usuario que actúa
+ * @param {SessionContext} context - Datos del cliente
+ * @returns {AuditContext} Usuario como actor, IP y request id
+ */
+export const getSelfAuditContext = (
+  user: { _id: unknown; email: string },
+  context: SessionContext
+): AuditContext => ({
+  actorId: String(user._id),
+  actorEmail: user.email,
+  ip: context.ip,
+  requestId: context.requestId,
+});
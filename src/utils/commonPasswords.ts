@@ -0,0 +1,121 @@
+/**
+ * Common Passwords
+ * @module utils/commonPasswords
+ * @description Lista local de contraseñas más usadas según filtraciones públicas, en minúsculas
+ */
+
+/**
+ * Contraseñas prohibidas por la política (se comparan sin distinguir mayúsculas)
+ * @type {string[]}
+ */
+export const COMMON_PASSWORDS: string[] = [
+  '000000',
+  '00000000',
+  '1111',
+  '111111',
+  '11111111',
+  '112233',
+  '121212',
+  '123123',
+  '123321',
+  '1234',
+  '12345',
+  '123456',
+  '1234567',
+  '12345678',
+  '123456789',
+  '1234567890',
+  '123456a',
+  '123456abc',
+  '123abc',
+  '123qwe',
+  '131313',
+  '159753',
+  '1q2w3e',
+  '1q2w3e4r',
+  '1q2w3e4r5t',
+  '1qaz2wsx',
+  '222222',
+  '555555',
+  '654321',
+  '666666',
+  '696969',
+  '7777777',
+  '777777',
+  '87654321',
+  '888888',
+  '987654321',
+  'a123456',
+  'a12345678',
+  'aa123456',
+  'abc123',
+  'abc12345',
+  'abcd1234',
+  'access',
+  'admin',
+  'admin1',
+  'admin123',
+  'admin1234',
+  'administrador',
+  'administrator',
+  'amor123',
+  'asdf1234',
+  'asdfgh',
+  'asdfghjkl',
+  'baseball',
+  'batman',
+  'changeme',
+  'charlie',
+  'contrasena',
+  'contrasena1',
+  'contrasena123',
+  'contraseña',
+  'contraseña1',
+  'contraseña123',
+  'dragon',
+  'football',
+  'freedom',
+  'hello123',
+  'iloveyou',
+  'letmein',
+  'letmein1',
+  'login',
+  'master',
+  'monkey',
+  'mustang',
+  'p@ssw0rd',
+  'p@ssword',
+  'pass1234',
+  'passw0rd',
+  'password',
+  'password1',
+  'password12',
+  'password123',
+  'password1234',
+  'princess',
+  'q1w2e3r4',
+  'qazwsx',
+  'qwe123',
+  'qwerty',
+  'qwerty1',
+  'qwerty12',
+  'qwerty123',
+  'qwertyuiop',
+  'secret',
+  'secret123',
+  'shadow',
+  'starwars',
+  'sunshine',
+  'superman',
+  'teamo',
+  'teamo123',
+  'test123',
+  'test1234',
+  'trustno1',
+  'user123',
+  'welcome',
+  'welcome1',
+  'welcome123',
+  'zxcvbn',
+  'zxcvbnm',
+];
@@ -0,0 +1,30 @@
+/**
+ * ETag Utilities
+ * @module utils/etag
+ * @description ETags de autos y condiciones If-Match para el control de concurrencia
+ */
+
+/**
+ * Obtener la ETag de un auto a partir de su revisión
+ * Es una ETag fuerte: If-Match solo acepta comparaciones fuertes
+ * @param {object} car - Auto
+ * @returns {string} ETag entre comillas, p. ej. "3"
+ */
+export const getCarETag = (car: { revision?: number }): string => `"${car.revision ?? 0}"`;
+
+/**
+ * Interpretar un encabezado If-Match
+ * @param {string | undefined} header - Valor del encabezado
+ * @returns {string[] | null} ETags aceptadas, o null si no hay condición (encabezado ausente o '*')
+ */
+export const parseIfMatch = (header: string | undefined): string[] | null => {
+  if (header === undefined || header.trim() === '*') {
+    return null;
+  }
+
+  // Las ETags débiles (W/"...") nunca cumplen If-Match, por eso se conservan tal cual
+  return header
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+};
@@ -0,0 +1,162 @@
+/**
+ * Image Utilities
+ * @module utils/image
+ * @description Detección de formato por magic bytes y generación de versiones redimensionadas de imágenes
+ */
+
+import path from 'path';
+import sharp from 'sharp';
+import { config } from '../config/env';
+
+/**
+ * Formatos de imagen soportados
+ */
+export type ImageFormat = 'jpeg' | 'png' | 'webp';
+
+/**
+ * Versiones redimensionadas generadas para cada imagen
+ */
+export type ImageRendition = 'thumb' | 'medium';
+
+/**
+ * Ancho máximo en píxeles de cada versión
+ */
+const RENDITION_WIDTHS: Record<ImageRendition, number> = {
+  thumb: config.IMAGE_THUMBNAIL_WIDTH,
+  medium: config.IMAGE_MEDIUM_WIDTH,
+};
+
+/**
+ * Versiones generadas, en orden de tamaño
+ */
+export const IMAGE_RENDITIONS = Object.keys(RENDITION_WIDTHS) as ImageRendition[];
+
+/**
+ * Extensiones aceptadas para cada formato
+ */
+const FORMAT_EXTENSIONS: Record<ImageFormat, string[]> = {
+  jpeg: ['.jpg', '.jpeg'],
+  png: ['.png'],
+  webp: ['.webp'],
+};
+
+/**
+ * Mensaje de error para archivos cuyo contenido no es una imagen soportada
+ */
+export const INVALID_IMAGE_ERROR = 'El archivo no es una imagen válida';
+
+/**
+ * Patrón que identifica el nombre de archivo de una versión redimensionada
+ */
+const RENDITION_PATTERN = new RegExp(`^(.+)-(${IMAGE_RENDITIONS.join('|')})(\\.[^.]+)$`);
+
+/**
+ * Detectar el formato real de una imagen a partir de sus primeros bytes
+ * @param {Buffer} header - Primeros bytes del archivo
+ * @returns {ImageFormat | null} Formato detectado o null si no es una imagen soportada
+ */
+export const detectImageFormat = (header: Buffer): ImageFormat | null => {
+  if (header.length >= 3 && header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) {
+    return 'jpeg';
+  }
+
+  if (
+    header.length >= 8 &&
+    header.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  ) {
+    return 'png';
+  }
+
+  if (
+    header.length >= 12 &&
+    header.toString('ascii', 0, 4) === 'RIFF' &&
+    header.toString('ascii', 8, 12) === 'WEBP'
+  ) {
+    return 'webp';
+  }
+
+  return null;
+};
+
+/**
+ * Verificar que la extensión del archivo corresponda al formato detectado
+ * @param {string} filename - Nombre del archivo
+ * @param {ImageFormat} format - Formato detectado
+ * @returns {boolean} true si la extensión es válida para el formato
+ */
+export const matchesExtension = (filename: string, format: ImageFormat): boolean => {
+  return FORMAT_EXTENSIONS[format].includes(path.extname(filename).toLowerCase());
+};
+
+/**
+ * Obtener el nombre de archivo de una versión redimensionada
+ * @param {string} filename - Nombre del archivo original
+ * @param {ImageRendition} rendition - Versión solicitada
+ * @returns {string} Nombre del archivo de la versión (ej: abc-thumb.jpg)
+ */
+export const getRenditionFilename = (filename: string, rendition: ImageRendition): string => {
+  const ext = path.extname(filename);
+  return `${path.basename(filename, ext)}-${rendition}${ext}`;
+};
+
+/**
+ * Obtener el nombre del archivo original a partir de una versión redimensionada
+ * @param {string} filename - Nombre del archivo
+ * @returns {string | null} Nombre del original o null si no es una versión
+ */
+export const getOriginalFilename = (filename: string): string | null => {
+  const match = RENDITION_PATTERN.exec(filename);
+  return match ? `${match[1]}${match[3]}` : null;
+};
+
+/**
+ * Resultado del procesamiento de una imagen
+ */
+export interface ProcessedImage {
+  format: ImageFormat;
+  contentType: string;
+  original: Buffer;
+  renditions: Record<ImageRendition, Buffer>;
+}
+
+/**
+ * Procesar una imagen subida: validar su contenido, eliminar metadatos EXIF/GPS
+ * y generar las versiones redimensionadas
+ * @param {Buffer} data - Contenido del archivo
+ * @param {string} filename - Nombre del archivo, usado para validar la extensión
+ * @returns {Promise<ProcessedImage>} Original sin metadatos y sus versiones
+ * @throws {Error} Si el contenido no es una imagen válida
+ */
+export const processImage = async (data: Buffer, filename: string): Promise<ProcessedImage> => {
+  const format = detectImageFormat(data);
+
+  if (!format || !matchesExtension(filename, format)) {
+    throw new Error(INVALID_IMAGE_ERROR);
+  }
+
+  let original: Buffer;
+  try {
+    // rotate() aplica la orientación EXIF antes de descartar los metadatos
+    original = await sharp(data).rotate().toFormat(format).toBuffer();
+  } catch {
+    throw new Error(INVALID_IMAGE_ERROR);
+  }
+
+  const renditions = await Promise.all(
+    IMAGE_RENDITIONS.map((rendition) =>
+      sharp(original)
+        .resize({ width: RENDITION_WIDTHS[rendition], withoutEnlargement: true })
+        .toFormat(format)
+        .toBuffer()
+    )
+  );
+
+  return {
+    format,
+    contentType: `image/${format}`,
+    original,
+    renditions: Object.fromEntries(
+      IMAGE_RENDITIONS.map((rendition, index) => [rendition, renditions[index]])
+    ) as Record<ImageRendition, Buffer>,
+  };
+};
@@ -0,0 +1,191 @@
+/**
+ * Password Policy
+ * @module utils/passwordPolicy
+ * @description Política de contraseñas configurable, compartida por validadores y servicios
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/env';
+import { logger } from './logger';
+import { COMMON_PASSWORDS } from './commonPasswords';
+import { PasswordOwner, PasswordPolicy } from '../types';
+
+/**
+ * Largo mínimo de una parte del email o del nombre para considerarla dato personal
+ * Evita rechazar contraseñas por coincidencias triviales (iniciales, "de", etc.)
+ */
+const MIN_PERSONAL_PART_LENGTH = 3;
+
+/**
+ * Lista de contraseñas prohibidas ya cargada, junto con el archivo del que proviene
+ */
+let blocklistCache: { file: string; passwords: Set<string> } | null = null;
+
+/**
+ * Obtener las contraseñas prohibidas: la lista incluida más PASSWORD_BLOCKLIST_FILE
+ * El archivo se lee una sola vez; si no puede leerse se usa solo la lista incluida
+ * @returns {Set<string>} Contraseñas prohibidas en minúsculas
+ */
+const getBlocklist = (): Set<string> => {
+  const file = config.PASSWORD_BLOCKLIST_FILE;
+
+  if (blocklistCache && blocklistCache.file === file) {
+    return blocklistCache.passwords;
+  }
+
+  const passwords = new Set(COMMON_PASSWORDS);
+
+  if (file) {
+    try {
+      fs.readFileSync(path.resolve(file), 'utf8')
+        .split(/\r?\n/)
+        .map((line) => line.trim().toLowerCase())
+        .filter((line) => line && !line.startsWith('#'))
+        .forEach((line) => passwords.add(line));
+    } catch (error) {
+      logger.error(`Error loading password blocklist ${file}:`, error);
+    }
+  }
+
+  blocklistCache = { file, passwords };
+  return passwords;
+};
+
+/**
+ * Obtener las partes del email y del nombre que una contraseña no puede contener
+ * @param {PasswordOwner} owner - Email y nombre del usuario
+ * @returns {string[]} Partes en minúsculas
+ */
+const getPersonalParts = (owner: PasswordOwner): string[] => {
+  const parts: string[] = [];
+
+  if (owner.email) {
+    parts.push(
+      ...owner.email
+        .toLowerCase()
+        .split('@')[0]
+        .split(/[^\p{L}\p{N}]+/u)
+    );
+  }
+
+  if (owner.name) {
+    parts.push(...owner.name.toLowerCase().split(/[^\p{L}\p{N}]+/u));
+  }
+
+  return parts.filter((part) => part.length >= MIN_PERSONAL_PART_LENGTH);
+};
+
+/**
+ * Regla de la política de contraseñas
+ */
+interface PasswordRule {
+  /** Si la regla está activa según la configuración */
+  enabled: boolean;
+  /** Mensaje mostrado al usuario, usado también como error */
+  message: string;
+  /** Verificar si la contraseña cumple la regla */
+  isMet: (password: string, owner: PasswordOwner) => boolean;
+}
+
+/**
+ * Obtener las reglas de la política según la configuración vigente
+ * @returns {PasswordRule[]} Reglas en el orden en que se informan
+ */
+const getPasswordRules = (): PasswordRule[] => [
+  {
+    enabled: true,
+    message: `La contraseña debe tener al menos ${config.PASSWORD_MIN_LENGTH} caracteres`,
+    isMet: (password) => password.length >= config.PASSWORD_MIN_LENGTH,
+  },
+  {
+    enabled: true,
+    message: `La contraseña no puede exceder ${config.PASSWORD_MAX_LENGTH} caracteres`,
+    isMet: (password) => password.length <= config.PASSWORD_MAX_LENGTH,
+  },
+  {
+    enabled: config.PASSWORD_REQUIRE_UPPERCASE,
+    message: 'La contraseña debe contener al menos una mayúscula',
+    isMet: (password) => /\p{Lu}/u.test(password),
+  },
+  {
+    enabled: config.PASSWORD_REQUIRE_LOWERCASE,
+    message: 'La contraseña debe contener al menos una minúscula',
+    isMet: (password) => /\p{Ll}/u.test(password),
+  },
+  {
+    enabled: config.PASSWORD_REQUIRE_NUMBER,
+    message: 'La contraseña debe contener al menos un número',
+    isMet: (password) => /\d/.test(password),
+  },
+  {
+    enabled: config.PASSWORD_REQUIRE_SYMBOL,
+    message: 'La contraseña debe contener al menos un símbolo',
+    isMet: (password) => /[^\p{L}\p{N}]/u.test(password),
+  },
+  {
+    enabled: config.PASSWORD_REJECT_PERSONAL_INFO,
+    message: 'La contraseña no puede contener tu email ni tu nombre',
+    isMet: (password, owner) =>
+      !getPersonalParts(owner).some((part) => password.toLowerCase().includes(part)),
+  },
+  {
+    enabled: config.PASSWORD_REJECT_COMMON,
+    message: 'La contraseña es demasiado común',
+    isMet: (password) => !getBlocklist().has(password.toLowerCase()),
+  },
+];
+
+/**
+ * Obtener la política de contraseñas vigente con la descripción de cada regla
+ * @returns {PasswordPolicy} Política de contraseñas
+ */
+export const getPasswordPolicy = (): PasswordPolicy => ({
+  minLength: config.PASSWORD_MIN_LENGTH,
+  maxLength: config.PASSWORD_MAX_LENGTH,
+  requireUppercase: config.PASSWORD_REQUIRE_UPPERCASE,
+  requireLowercase: config.PASSWORD_REQUIRE_LOWERCASE,
+  requireNumber: config.PASSWORD_REQUIRE_NUMBER,
+  requireSymbol: config.PASSWORD_REQUIRE_SYMBOL,
+  rejectPersonalInfo: config.PASSWORD_REJECT_PERSONAL_INFO,
+  rejectCommon: config.PASSWORD_REJECT_COMMON,
+  rules: getPasswordRules()
+    .filter((rule) => rule.enabled)
+    .map((rule) => rule.message),
+});
+
+/**
+ * Verificar una contraseña contra la política vigente
+ * @param {string} password - Contraseña en texto plano
+ * @param {PasswordOwner} owner - Email y nombre del usuario, si se conocen
+ * @returns {string[]} Reglas incumplidas (vacío si la contraseña es válida)
+ */
+export const checkPassword = (password: string, owner: PasswordOwner = {}): string[] => {
+  return getPasswordRules()
+    .filter((rule) => rule.enabled && !rule.isMet(password, owner))
+    .map((rule) => rule.message);
+};
+
+/**
+ * Exigir que una contraseña cumpla la política vigente
+ * @param {string} password - Contraseña en texto plano
+ * @param {PasswordOwner} owner - Email y nombre del usuario
+ * @returns {void}
+ * @throws {Error} Con la primera regla incumplida
+ */
+export const assertPasswordPolicy = (password: string, owner: PasswordOwner = {}): void => {
+  const violations = checkPassword(password, owner);
+
+  if (violations.length > 0) {
+    throw new Error(violations[0]);
+  }
+};
+
+/**
+ * Indicar si un mensaje de error corresponde a una regla de la política
+ * @param {string} message - Mensaje de error
+ * @returns {boolean} True si es un incumplimiento de la política
+ */
+export const isPasswordPolicyError = (message: string): boolean => {
+  return getPasswordRules().some((rule) => rule.message === message);
+};
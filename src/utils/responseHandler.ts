@@ -21,11 +21,12 @@ interface SuccessResponse<T = unknown> {
  * Interface para respuestas de error
  * @interface ErrorResponse
  */
-interface ErrorResponse {
+interface ErrorResponse<T = unknown> {
   status: number;
   name: string;
   message: string;
   customMessage: string;
+  data?: T;
 }
 
 /**
@@ -58,20 +59,23 @@ export const successResponse = <T = unknown>(
  * @param {string} name - Nombre del error
  * @param {string} message - Mensaje de error en inglés
  * @param {string} customMessage - Mensaje de error en español
+ * @param {T} [data] - Datos adicionales, p. ej. el estado actual de un recurso en conflicto
  * @returns {Response} Respuesta de Express
  */
-export const errorResponse = (
+export const errorResponse = <T = unknown>(
   res: Response,
   statusCode: number,
   name: string,
   message: string,
-  customMessage: string
+  customMessage: string,
+  data?: T
 ): Response => {
-  const response: ErrorResponse = {
+  const response: ErrorResponse<T> = {
     status: statusCode,
     name,
     message,
     customMessage,
+    ...(data !== undefined && { data }),
   };
   return res.status(statusCode).json(response);
 };
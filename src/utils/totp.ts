@@ -0,0 +1,205 @@
+/**
+ * TOTP Utilities
+ * @module utils/totp
+ * @description Códigos de un solo uso basados en tiempo (RFC 6238) y cifrado de secretos
+ */
+
+import crypto from 'crypto';
+import { config } from '../config/env';
+
+/**
+ * Duración en segundos de cada paso de tiempo
+ */
+export const TOTP_PERIOD_SECONDS = 30;
+
+/**
+ * Cantidad de dígitos de cada código
+ */
+const TOTP_DIGITS = 6;
+
+/**
+ * Pasos de tiempo aceptados antes y después del actual (tolerancia de reloj)
+ */
+const TOTP_WINDOW = 1;
+
+/**
+ * Alfabeto Base32 (RFC 4648) usado por las apps de autenticación
+ */
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Codificar bytes en Base32 sin relleno
+ * @param {Buffer} buffer - Bytes a codificar
+ * @returns {string} Texto en Base32
+ */
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+/**
+ * Decodificar un texto en Base32 (ignora espacios, guiones y relleno)
+ * @param {string} input - Texto en Base32
+ * @returns {Buffer} Bytes decodificados
+ * @throws {Error} Si el texto contiene caracteres inválidos
+ */
+const base32Decode = (input: string): Buffer => {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Secreto TOTP inválido');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Obtener el paso de tiempo de un instante
+ * @param {number} timestamp - Instante en milisegundos
+ * @returns {number} Paso de tiempo
+ */
+export const getTotpStep = (timestamp: number = Date.now()): number => {
+  return Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+};
+
+/**
+ * Generar un secreto TOTP aleatorio de 160 bits
+ * @returns {string} Secreto en Base32
+ */
+export const generateTotpSecret = (): string => {
+  return base32Encode(crypto.randomBytes(20));
+};
+
+/**
+ * Generar el código de un paso de tiempo (HOTP con HMAC-SHA1, RFC 4226)
+ * @param {string} secret - Secreto en Base32
+ * @param {number} step - Paso de tiempo
+ * @returns {string} Código de 6 dígitos
+ */
+export const generateTotp = (secret: string, step: number = getTotpStep()): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Verificar un código contra los pasos de tiempo cercanos al actual
+ * @param {string} secret - Secreto en Base32
+ * @param {string} code - Código ingresado por el usuario
+ * @param {number} timestamp - Instante de referencia en milisegundos
+ * @returns {number | null} Paso de tiempo que coincide o null si el código no es válido
+ */
+export const verifyTotp = (
+  secret: string,
+  code: string,
+  timestamp: number = Date.now()
+): number | null => {
+  if (!/^\d{6}$/.test(code)) {
+    return null;
+  }
+
+  const current = getTotpStep(timestamp);
+
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    const expected = generateTotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Construir la URI otpauth:// que las apps de autenticación leen desde el código QR
+ * @param {string} secret - Secreto en Base32
+ * @param {string} account - Cuenta del usuario (email)
+ * @returns {string} URI otpauth
+ */
+export const buildOtpauthUri = (secret: string, account: string): string => {
+  const issuer = config.TOTP_ISSUER;
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/**
+ * Obtener la clave AES-256 con la que se cifran los secretos en la base de datos
+ * @returns {Buffer} Clave de 32 bytes
+ */
+const getEncryptionKey = (): Buffer => {
+  return crypto
+    .createHash('sha256')
+    .update(config.TOTP_ENCRYPTION_KEY || config.JWT_SECRET)
+    .digest();
+};
+
+/**
+ * Cifrar un secreto TOTP para guardarlo (AES-256-GCM)
+ * @param {string} secret - Secreto en Base32
+ * @returns {string} Secreto cifrado como iv.tag.datos en base64url
+ */
+export const encryptTotpSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64url')).join('.');
+};
+
+/**
+ * Descifrar un secreto TOTP guardado
+ * @param {string} payload - Secreto cifrado con encryptTotpSecret
+ * @returns {string} Secreto en Base32
+ * @throws {Error} Si el secreto fue alterado o la clave no coincide
+ */
+export const decryptTotpSecret = (payload: string): string => {
+  const [iv, tag, encrypted] = payload.split('.').map((part) => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
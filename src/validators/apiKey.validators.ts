@@ -0,0 +1,72 @@
+/**
+ * API Key Validators
+ * @module validators/apiKey
+ * @description Validaciones para endpoints de administración de API keys
+ */
+
+import { body, param, query } from 'express-validator';
+import { API_KEY_SCOPES } from '../models/ApiKey';
+import { config } from '../config/env';
+
+/**
+ * Validación de ID de API key
+ * @type {ValidationChain[]}
+ */
+export const apiKeyIdValidation = [
+  param('id')
+    .trim()
+    .notEmpty()
+    .withMessage('El ID es requerido')
+    .isMongoId()
+    .withMessage('ID de API key inválido'),
+];
+
+/**
+ * Validaciones para emitir una API key
+ * @type {ValidationChain[]}
+ */
+export const createApiKeyValidations = [
+  body('name')
+    .isString()
+    .withMessage('El nombre debe ser un texto')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('El nombre debe tener entre 2 y 100 caracteres'),
+
+  body('scopes')
+    .isArray({ min: 1 })
+    .withMessage('Debe indicar al menos un alcance')
+    .bail()
+    .custom((scopes: unknown[]) => {
+      const invalid = scopes.filter((scope) => !API_KEY_SCOPES.includes(scope as never));
+      if (invalid.length > 0) {
+        throw new Error(`Los alcances deben ser de: ${API_KEY_SCOPES.join(', ')}`);
+      }
+      return true;
+    }),
+
+  body('userId').optional().isMongoId().withMessage('ID de usuario inválido'),
+
+  body('expiresInDays')
+    .optional()
+    .isInt({ min: 1, max: config.API_KEY_MAX_EXPIRES_DAYS })
+    .withMessage(`La vigencia debe estar entre 1 y ${config.API_KEY_MAX_EXPIRES_DAYS} días`)
+    .toInt(),
+];
+
+/**
+ * Validaciones para filtros de API keys
+ * @type {ValidationChain[]}
+ */
+export const apiKeyFilterValidations = [
+  query('user').optional().isMongoId().withMessage('ID de usuario inválido'),
+
+  query('active').optional().isBoolean().withMessage('active debe ser true o false').toBoolean(),
+
+  query('page').optional().isInt({ min: 1 }).withMessage('La página debe ser un número mayor a 0'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('El límite debe estar entre 1 y 100'),
+];
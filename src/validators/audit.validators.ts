@@ -0,0 +1,51 @@
+/**
+ * Audit Validators
+ * @module validators/audit
+ * @description Validaciones para la consulta del registro de auditoría
+ */
+
+import { query } from 'express-validator';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '../models/AuditLog';
+
+/**
+ * Validaciones para filtros del registro de auditoría
+ * @type {ValidationChain[]}
+ */
+export const auditLogFilterValidations = [
+  query('entityType')
+    .optional()
+    .isIn(AUDIT_ENTITY_TYPES)
+    .withMessage(`El tipo de entidad debe ser uno de: ${AUDIT_ENTITY_TYPES.join(', ')}`),
+
+  query('entityId').optional().isMongoId().withMessage('ID de entidad inválido'),
+
+  query('actor').optional().isMongoId().withMessage('ID de usuario inválido'),
+
+  query('action')
+    .optional()
+    .isIn(AUDIT_ACTIONS)
+    .withMessage(`La acción debe ser una de: ${AUDIT_ACTIONS.join(', ')}`),
+
+  query('from').optional().isISO8601().withMessage('from debe ser una fecha ISO 8601').toDate(),
+
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('to debe ser una fecha ISO 8601')
+    .bail()
+    .toDate()
+    .custom((to: Date, { req }) => {
+      const from = req.query?.from;
+      if (from instanceof Date && to < from) {
+        throw new Error('to debe ser posterior a from');
+      }
+      return true;
+    }),
+
+  query('page').optional().isInt({ min: 1 }).withMessage('La página debe ser un número mayor a 0'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('El límite debe estar entre 1 y 100'),
+];
@@ -5,6 +5,30 @@
  */
 
 import { body } from 'express-validator';
+import { checkPassword } from '../utils/passwordPolicy';
+
+/**
+ * Reglas para una contraseña nueva, compartidas por registro, cambio y restablecimiento
+ * Aplica la política de contraseñas vigente; el email y el nombre se toman del body
+ * cuando vienen en él (registro). Los servicios vuelven a verificarla con los datos del usuario
+ * @param {string} field - Campo del body que contiene la contraseña
+ * @returns {ValidationChain} Cadena de validación
+ */
+const passwordRules = (field: string) =>
+  body(field)
+    .isString()
+    .withMessage('La contraseña debe ser un texto')
+    .trim()
+    .notEmpty()
+    .withMessage('La contraseña es requerida')
+    .bail()
+    .custom((value: string, { req }) => {
+      const violations = checkPassword(value, { email: req.body.email, name: req.body.name });
+      if (violations.length > 0) {
+        throw new Error(violations[0]);
+      }
+      return true;
+    });
 
 /**
  * Validaciones para registro de usuario
@@ -20,14 +44,7 @@ export const registerValidations = [
     .normalizeEmail()
     .toLowerCase(),
 
-  body('password')
-    .trim()
-    .notEmpty()
-    .withMessage('La contraseña es requerida')
-    .isLength({ min: 6 })
-    .withMessage('La contraseña debe tener al menos 6 caracteres')
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
-    .withMessage('La contraseña debe contener al menos una mayúscula, una minúscula y un número'),
+  passwordRules('password'),
 
   body('name')
     .trim()
@@ -60,3 +77,209 @@ export const loginValidations = [
     .isString()
     .withMessage('La contraseña debe ser un texto'),
 ];
+
+/**
+ * Validaciones para renovar el token
+ * @type {ValidationChain[]}
+ */
+export const refreshTokenValidations = [
+  body('refreshToken')
+    .isString()
+    .withMessage('El refresh token debe ser un texto')
+    .trim()
+    .notEmpty()
+    .withMessage('El refresh token es requerido'),
+];
+
+/**
+ * Validaciones para cerrar sesión
+ * @type {ValidationChain[]}
+ */
+export const logoutValidations = [
+  body('allSessions')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('allSessions debe ser un booleano'),
+];
+
+/**
+ * Validaciones para cambiar la contraseña
+ * @type {ValidationChain[]}
+ */
+export const changePasswordValidations = [
+  body('currentPassword')
+    .isString()
+    .withMessage('La contraseña actual debe ser un texto')
+    .trim()
+    .notEmpty()
+    .withMessage('La contraseña actual es requerida'),
+
+  passwordRules('newPassword'),
+];
+
+/**
+ * Validaciones para solicitar el restablecimiento de contraseña
+ * @type {ValidationChain[]}
+ */
+export const forgotPasswordValidations = [
+  body('email')
+    .trim()
+    .notEmpty()
+    .withMessage('El email es requerido')
+    .isEmail()
+    .withMessage('Debe proporcionar un email válido')
+    .normalizeEmail()
+    .toLowerCase(),
+];
+
+/**
+ * Validaciones para restablecer la contraseña
+ * @type {ValidationChain[]}
+ */
+export const resetPasswordValidations = [
+  body('token')
+    .isString()
+    .withMessage('El token debe ser un texto')
+    .trim()
+    .notEmpty()
+    .withMessage('El token es requerido'),
+
+  passwordRules('newPassword'),
+];
+
+/**
+ * Campos aceptados al actualizar el perfil propio
+ */
+const PROFILE_FIELDS = ['name', 'email', 'currentPassword'];
+
+/**
+ * Validaciones para actualizar el perfil propio
+ * Rechaza cualquier campo fuera de la lista permitida (rol, estado, contraseña, etc.)
+ * @type {ValidationChain[]}
+ */
+export const updateProfileValidations = [
+  body()
+    .custom((value: Record<string, unknown>) => {
+      const unknownFields = Object.keys(value ?? {}).filter(
+        (field) => !PROFILE_FIELDS.includes(field)
+      );
+      if (unknownFields.length > 0) {
+        throw new Error(`Campos no permitidos: ${unknownFields.join(', ')}`);
+      }
+      return true;
+    })
+    .custom((value: Record<string, unknown>) => {
+      if (value?.name === undefined && value?.email === undefined) {
+        throw new Error('Debe proporcionar al menos uno de: name, email');
+      }
+      return true;
+    }),
+
+  body('name')
+    .optional()
+    .isString()
+    .withMessage('El nombre debe ser un texto')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('El nombre debe tener entre 2 y 100 caracteres'),
+
+  body('email')
+    .optional()
+    .trim()
+    .isEmail()
+    .withMessage('Debe proporcionar un email válido')
+    .normalizeEmail()
+    .toLowerCase(),
+
+  // La contraseña solo se exige si el email cambia, lo que decide el servicio
+  body('currentPassword')
+    .optional()
+    .isString()
+    .withMessage('La contraseña actual debe ser un texto'),
+];
+
+/**
+ * Validaciones para verificar un email (registro o cambio de email)
+ * @type {ValidationChain[]}
+ */
+export const verifyEmailValidations = [
+  body('token')
+    .isString()
+    .withMessage('El token debe ser un texto')
+    .trim()
+    .notEmpty()
+    .withMessage('El token es requerido'),
+];
+
+/**
+ * Validaciones para eliminar la cuenta propia
+ * @type {ValidationChain[]}
+ */
+export const deleteAccountValidations = [
+  body('password')
+    .isString()
+    .withMessage('La contraseña debe ser un texto')
+    .notEmpty()
+    .withMessage('La contraseña es requerida'),
+
+  body('carsAction')
+    .notEmpty()
+    .withMessage('carsAction es requerido')
+    .isIn(['delete', 'transfer'])
+    .withMessage('carsAction debe ser delete o transfer'),
+
+  body('transferTo')
+    .optional()
+    .isMongoId()
+    .withMessage('transferTo debe ser un ID de usuario válido'),
+];
+
+/**
+ * Regla para un código de verificación: TOTP de 6 dígitos o código de recuperación
+ * @param {string} field - Campo del body que contiene el código
+ * @returns {ValidationChain} Cadena de validación
+ */
+const twoFactorCodeRules = (field: string) =>
+  body(field)
+    .isString()
+    .withMessage('El código debe ser un texto')
+    .trim()
+    .notEmpty()
+    .withMessage('El código es requerido')
+    .matches(/^(\d{6}|[0-9a-fA-F]{4}-?[0-9a-fA-F]{4})$/)
+    .withMessage('El código debe tener 6 dígitos o ser un código de recuperación');
+
+/**
+ * Validaciones para confirmar la 2FA o renovar los códigos de recuperación
+ * @type {ValidationChain[]}
+ */
+export const twoFactorCodeValidations = [twoFactorCodeRules('code')];
+
+/**
+ * Validaciones para desactivar la 2FA
+ * @type {ValidationChain[]}
+ */
+export const disableTwoFactorValidations = [
+  body('password')
+    .isString()
+    .withMessage('La contraseña debe ser un texto')
+    .notEmpty()
+    .withMessage('La contraseña es requerida'),
+
+  twoFactorCodeRules('code'),
+];
+
+/**
+ * Validaciones para completar un login con 2FA
+ * @type {ValidationChain[]}
+ */
+export const twoFactorLoginValidations = [
+  body('challengeToken')
+    .isString()
+    .withMessage('El desafío debe ser un texto')
+    .trim()
+    .notEmpty()
+    .withMessage('El desafío es requerido'),
+
+  twoFactorCodeRules('code'),
+];
@@ -4,7 +4,104 @@
  * @description Validaciones para endpoints de autos
  */
 
-import { body, param, query } from 'express-validator';
+import { body, param, query, Meta } from 'express-validator';
+import { CAR_IMPORT_FIELDS } from '../models/CarImportJob';
+import catalogService from '../services/catalog.service';
+import carService from '../services/car.service';
+
+/**
+ * Obtener la marca y el modelo efectivos de la solicitud
+ * En actualizaciones parciales completa los campos ausentes con los del auto actual
+ * @param {Meta['req']} req - Request en validación
+ * @returns {Promise<{ marca?: string; modelo?: string }>} Marca y modelo efectivos
+ */
+const getEffectiveEntry = async (
+  req: Meta['req']
+): Promise<{ marca?: string; modelo?: string }> => {
+  const { marca, modelo } = req.body;
+
+  if ((marca !== undefined && modelo !== undefined) || !req.params?.id) {
+    return { marca, modelo };
+  }
+
+  const car = req.organization
+    ? await carService.getCarById(req.params.id, req.organization).catch(() => null)
+    : null;
+
+  return { marca: marca ?? car?.marca, modelo: modelo ?? car?.modelo };
+};
+
+/**
+ * Sanitizador que reemplaza la marca por su escritura canónica del catálogo
+ * @param {string} value - Marca recibida
+ * @returns {Promise<string>} Marca canónica o el valor original si no existe
+ */
+const toCatalogBrand = async (value: string): Promise<string> => {
+  const entry = await catalogService.resolveCatalogEntry(value);
+  return entry.marca ?? value;
+};
+
+/**
+ * Sanitizador que reemplaza el modelo por su escritura canónica del catálogo
+ * @param {string} value - Modelo recibido
+ * @param {Meta} meta - Metadatos de express-validator
+ * @returns {Promise<string>} Modelo canónico o el valor original si no existe
+ */
+const toCatalogModel = async (value: string, { req }: Meta): Promise<string> => {
+  const { marca } = await getEffectiveEntry(req);
+  if (!marca) {
+    return value;
+  }
+
+  const entry = await catalogService.resolveCatalogEntry(marca, value);
+  return entry.modelo ?? value;
+};
+
+/**
+ * Validador que exige que la marca exista y esté activa en el catálogo
+ * Si el modelo no se envía, verifica que el modelo actual del auto pertenezca a la marca
+ * @param {string} value - Marca recibida
+ * @param {Meta} meta - Metadatos de express-validator
+ * @returns {Promise<boolean>} True si la marca es válida
+ * @throws {Error} Si la marca no está en el catálogo o no corresponde al modelo actual
+ */
+const isCatalogBrand = async (value: string, { req }: Meta): Promise<boolean> => {
+  const entry = await catalogService.resolveCatalogEntry(value);
+  if (!entry.marca) {
+    throw new Error('La marca no existe o no está activa en el catálogo');
+  }
+
+  if (req.body.modelo === undefined) {
+    const { modelo } = await getEffectiveEntry(req);
+    if (modelo && !(await catalogService.resolveCatalogEntry(value, modelo)).modelo) {
+      throw new Error(`El modelo actual "${modelo}" no pertenece a la marca ${entry.marca}`);
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Validador que exige que el modelo exista y esté activo para la marca en el catálogo
+ * Si la marca no es válida el error ya se reporta en el campo marca
+ * @param {string} value - Modelo recibido
+ * @param {Meta} meta - Metadatos de express-validator
+ * @returns {Promise<boolean>} True si el modelo es válido
+ * @throws {Error} Si el modelo no está activo para la marca
+ */
+const isCatalogModel = async (value: string, { req }: Meta): Promise<boolean> => {
+  const { marca } = await getEffectiveEntry(req);
+  if (!marca) {
+    return true;
+  }
+
+  const entry = await catalogService.resolveCatalogEntry(marca, value);
+  if (entry.marca && !entry.modelo) {
+    throw new Error(`El modelo no existe o no está activo para la marca ${entry.marca}`);
+  }
+
+  return true;
+};
 
 /**
  * Validaciones para crear un auto
@@ -18,7 +115,10 @@ export const createCarValidations = [
     .isString()
     .withMessage('La marca debe ser un texto')
     .isLength({ max: 50 })
-    .withMessage('La marca no puede exceder 50 caracteres'),
+    .withMessage('La marca no puede exceder 50 caracteres')
+    .bail()
+    .customSanitizer(toCatalogBrand)
+    .custom(isCatalogBrand),
 
   body('modelo')
     .trim()
@@ -27,7 +127,10 @@ export const createCarValidations = [
     .isString()
     .withMessage('El modelo debe ser un texto')
     .isLength({ max: 50 })
-    .withMessage('El modelo no puede exceder 50 caracteres'),
+    .withMessage('El modelo no puede exceder 50 caracteres')
+    .bail()
+    .customSanitizer(toCatalogModel)
+    .custom(isCatalogModel),
 
   body('anio')
     .notEmpty()
@@ -69,13 +172,27 @@ export const createCarValidations = [
     .withMessage('El teléfono es requerido')
     .matches(/^\d{10}$/)
     .withMessage('El teléfono debe tener exactamente 10 dígitos'),
+
+  // La portada solo se toma del archivo subido: un nombre enviado en el body podría
+  // apuntar a la foto de otro auto
+  body('foto')
+    .not()
+    .exists()
+    .withMessage('La foto debe subirse como archivo; para elegir la portada use la galería'),
+
+  body('fotos')
+    .not()
+    .exists()
+    .withMessage('Las fotos de la galería se agregan con POST /api/cars/:id/photos'),
 ];
 
 /**
- * Validaciones para actualizar un auto
+ * Validaciones para modificar un auto con JSON Merge Patch
+ * null borra el campo: solo se aceptan para color y foto, y la foto solo se puede borrar
+ * (para reemplazarla se usa PUT o la galería)
  * @type {ValidationChain[]}
  */
-export const updateCarValidations = [
+export const patchCarValidations = [
   param('id')
     .trim()
     .notEmpty()
@@ -83,39 +200,62 @@ export const updateCarValidations = [
     .isMongoId()
     .withMessage('ID de auto inválido'),
 
+  body().isObject().withMessage('El cuerpo debe ser un objeto JSON'),
+
   body('marca')
     .optional()
+    .exists({ values: 'null' })
+    .withMessage('La marca no se puede borrar')
+    .bail()
     .trim()
     .isString()
     .withMessage('La marca debe ser un texto')
     .isLength({ max: 50 })
-    .withMessage('La marca no puede exceder 50 caracteres'),
+    .withMessage('La marca no puede exceder 50 caracteres')
+    .bail()
+    .customSanitizer(toCatalogBrand)
+    .custom(isCatalogBrand),
 
   body('modelo')
     .optional()
+    .exists({ values: 'null' })
+    .withMessage('El modelo no se puede borrar')
+    .bail()
     .trim()
     .isString()
     .withMessage('El modelo debe ser un texto')
     .isLength({ max: 50 })
-    .withMessage('El modelo no puede exceder 50 caracteres'),
+    .withMessage('El modelo no puede exceder 50 caracteres')
+    .bail()
+    .customSanitizer(toCatalogModel)
+    .custom(isCatalogModel),
 
   body('anio')
     .optional()
+    .exists({ values: 'null' })
+    .withMessage('El año no se puede borrar')
+    .bail()
     .isInt({ min: 1900, max: new Date().getFullYear() + 1 })
     .withMessage(`El año debe estar entre 1900 y ${new Date().getFullYear() + 1}`),
 
   body('precio')
     .optional()
+    .exists({ values: 'null' })
+    .withMessage('El precio no se puede borrar')
+    .bail()
     .isInt({ min: 0 })
     .withMessage('El precio debe ser un número entero positivo'),
 
   body('kilometraje')
     .optional()
+    .exists({ values: 'null' })
+    .withMessage('El kilometraje no se puede borrar')
+    .bail()
     .isInt({ min: 100 })
     .withMessage('El kilometraje debe ser un número entero mayor a 100'),
 
   body('color')
-    .optional()
+    .optional({ values: 'null' })
     .trim()
     .isString()
     .withMessage('El color debe ser un texto')
@@ -124,6 +264,9 @@ export const updateCarValidations = [
 
   body('email')
     .optional()
+    .exists({ values: 'null' })
+    .withMessage('El email no se puede borrar')
+    .bail()
     .trim()
     .isEmail()
     .withMessage('Debe proporcionar un email válido')
@@ -131,9 +274,17 @@ export const updateCarValidations = [
 
   body('telefono')
     .optional()
+    .exists({ values: 'null' })
+    .withMessage('El teléfono no se puede borrar')
+    .bail()
     .trim()
     .matches(/^\d{10}$/)
     .withMessage('El teléfono debe tener exactamente 10 dígitos'),
+
+  body('foto')
+    .optional()
+    .custom((value) => value === null)
+    .withMessage('La foto solo se puede borrar con null; para reemplazarla use PUT o la galería'),
 ];
 
 /**
@@ -172,6 +323,11 @@ export const carFilterValidations = [
 
   query('color').optional().trim().isString().withMessage('El color debe ser un texto'),
 
+  query('rebajaDias')
+    .optional()
+    .isInt({ min: 1, max: 365 })
+    .withMessage('Los días de rebaja deben estar entre 1 y 365'),
+
   query('page').optional().isInt({ min: 1 }).withMessage('La página debe ser un número mayor a 0'),
 
   query('limit')
@@ -181,7 +337,7 @@ export const carFilterValidations = [
 
   query('sortBy')
     .optional()
-    .isIn(['precio', 'anio', 'kilometraje', 'fechaAlta'])
+    .isIn(['precio', 'anio', 'kilometraje', 'fechaAlta', 'fechaUltimaRebaja'])
     .withMessage('Campo de ordenamiento no válido'),
 
   query('sortOrder')
@@ -189,3 +345,182 @@ export const carFilterValidations = [
     .isIn(['asc', 'desc'])
     .withMessage('El orden debe ser "asc" o "desc"'),
 ];
+
+/**
+ * Validaciones para paginación de la papelera
+ * @type {ValidationChain[]}
+ */
+export const trashFilterValidations = [
+  query('page').optional().isInt({ min: 1 }).withMessage('La página debe ser un número mayor a 0'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('El límite debe estar entre 1 y 100'),
+];
+
+/**
+ * Validaciones para vaciar la papelera
+ * @type {ValidationChain[]}
+ */
+export const purgeTrashValidations = [
+  query('olderThanDays')
+    .notEmpty()
+    .withMessage('El parámetro olderThanDays es requerido')
+    .isInt({ min: 0 })
+    .withMessage('olderThanDays debe ser un número entero mayor o igual a 0'),
+];
+
+/**
+ * Validaciones para el historial de versiones de un auto
+ * @type {ValidationChain[]}
+ */
+export const carHistoryValidations = [
+  ...carIdValidation,
+
+  query('page').optional().isInt({ min: 1 }).withMessage('La página debe ser un número mayor a 0'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('El límite debe estar entre 1 y 100'),
+];
+
+/**
+ * Validaciones para comparar dos versiones de un auto
+ * @type {ValidationChain[]}
+ */
+export const carVersionDiffValidations = [
+  ...carIdValidation,
+
+  query('from')
+    .notEmpty()
+    .withMessage('El parámetro from es requerido')
+    .isInt({ min: 1 })
+    .withMessage('from debe ser un número de versión válido')
+    .toInt(),
+
+  query('to')
+    .notEmpty()
+    .withMessage('El parámetro to es requerido')
+    .isInt({ min: 1 })
+    .withMessage('to debe ser un número de versión válido')
+    .toInt(),
+];
+
+/**
+ * Validaciones para revertir un auto a una versión
+ * @type {ValidationChain[]}
+ */
+export const revertCarValidations = [
+  ...carIdValidation,
+
+  param('version').isInt({ min: 1 }).withMessage('Número de versión inválido').toInt(),
+];
+
+/**
+ * Validaciones para el nombre de archivo de una foto del auto
+ * @type {ValidationChain[]}
+ */
+export const carPhotoParamValidations = [
+  ...carIdValidation,
+
+  param('filename')
+    .trim()
+    .matches(/^[\w.-]+$/)
+    .withMessage('Nombre de archivo inválido'),
+];
+
+/**
+ * Validaciones para reordenar la galería de fotos
+ * @type {ValidationChain[]}
+ */
+export const reorderPhotosValidations = [
+  ...carIdValidation,
+
+  body('fotos').isArray({ min: 1 }).withMessage('Debe proporcionar el array de fotos ordenado'),
+
+  body('fotos.*')
+    .isString()
+    .withMessage('Cada foto debe ser un nombre de archivo')
+    .customSanitizer((value: string) => value.split('/').pop())
+    .matches(/^[\w.-]+$/)
+    .withMessage('Nombre de archivo inválido'),
+];
+
+/**
+ * Validaciones para designar la portada
+ * @type {ValidationChain[]}
+ */
+export const coverPhotoValidations = [
+  ...carIdValidation,
+
+  body('foto')
+    .isString()
+    .withMessage('La foto debe ser un nombre de archivo')
+    .customSanitizer((value: string) => value.split('/').pop())
+    .matches(/^[\w.-]+$/)
+    .withMessage('Nombre de archivo inválido'),
+];
+
+/**
+ * Validador del mapeo de columnas de una importación
+ * @param {unknown} value - Mapeo ya convertido desde JSON
+ * @returns {boolean} True si el mapeo es válido
+ * @throws {Error} Si no es un objeto de campos del auto a nombres de columna
+ */
+const isImportMapping = (value: unknown): boolean => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('El mapeo debe ser un objeto de campos a columnas');
+  }
+
+  for (const [field, column] of Object.entries(value)) {
+    if (!(CAR_IMPORT_FIELDS as string[]).includes(field)) {
+      throw new Error(`El campo ${field} no se puede importar`);
+    }
+
+    if (typeof column !== 'string' || column.trim() === '') {
+      throw new Error(`La columna del campo ${field} debe ser un texto`);
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Validaciones para importar autos desde un archivo CSV o XLSX
+ * mapping llega como texto JSON en el formulario multipart
+ * @type {ValidationChain[]}
+ */
+export const importCarsValidations = [
+  body('mapping')
+    .optional()
+    .isJSON()
+    .withMessage('El mapeo debe ser un JSON válido')
+    .bail()
+    .customSanitizer((value: string) => JSON.parse(value))
+    .custom(isImportMapping),
+
+  body('dryRun').optional().isBoolean().withMessage('dryRun debe ser true o false').toBoolean(),
+];
+
+/**
+ * Validaciones para listar las importaciones de autos
+ * @type {ValidationChain[]}
+ */
+export const carImportFilterValidations = [
+  query('page').optional().isInt({ min: 1 }).withMessage('La página debe ser un número mayor a 0'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('El límite debe estar entre 1 y 100'),
+];
+
+/**
+ * Validaciones para el ID de una importación de autos
+ * @type {ValidationChain[]}
+ */
+export const carImportIdValidation = [
+  param('importId').isMongoId().withMessage('ID de importación inválido'),
+];
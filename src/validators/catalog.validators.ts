@@ -0,0 +1,114 @@
+/**
+ * Catalog Validators
+ * @module validators/catalog
+ * @description Validaciones para endpoints de administración de catálogos
+ */
+
+import { body, param } from 'express-validator';
+
+/**
+ * Validación del parámetro de marca
+ * @type {ValidationChain[]}
+ */
+export const brandParamValidation = [
+  param('marca')
+    .trim()
+    .notEmpty()
+    .withMessage('La marca es requerida')
+    .isLength({ max: 50 })
+    .withMessage('La marca no puede exceder 50 caracteres'),
+];
+
+/**
+ * Validación de los parámetros de marca y modelo
+ * @type {ValidationChain[]}
+ */
+export const modelParamValidations = [
+  ...brandParamValidation,
+
+  param('modelo')
+    .trim()
+    .notEmpty()
+    .withMessage('El modelo es requerido')
+    .isLength({ max: 50 })
+    .withMessage('El modelo no puede exceder 50 caracteres'),
+];
+
+/**
+ * Validaciones para crear o reemplazar una marca con sus modelos
+ * @type {ValidationChain[]}
+ */
+export const upsertCatalogValidations = [
+  body('marca')
+    .isString()
+    .withMessage('La marca debe ser un texto')
+    .trim()
+    .notEmpty()
+    .withMessage('La marca es requerida')
+    .isLength({ max: 50 })
+    .withMessage('La marca no puede exceder 50 caracteres'),
+
+  body('modelos')
+    .isArray({ min: 1 })
+    .withMessage('Debe proporcionar un array con al menos un modelo'),
+
+  body('modelos.*')
+    .isString()
+    .withMessage('Cada modelo debe ser un texto')
+    .trim()
+    .notEmpty()
+    .withMessage('El nombre del modelo no puede estar vacío')
+    .isLength({ max: 50 })
+    .withMessage('El modelo no puede exceder 50 caracteres'),
+];
+
+/**
+ * Validaciones para renombrar una marca
+ * @type {ValidationChain[]}
+ */
+export const renameBrandValidations = [
+  ...brandParamValidation,
+
+  body('marca')
+    .isString()
+    .withMessage('La marca debe ser un texto')
+    .trim()
+    .notEmpty()
+    .withMessage('El nuevo nombre de la marca es requerido')
+    .isLength({ max: 50 })
+    .withMessage('La marca no puede exceder 50 caracteres'),
+];
+
+/**
+ * Validaciones para agregar un modelo a una marca
+ * @type {ValidationChain[]}
+ */
+export const addModelValidations = [
+  ...brandParamValidation,
+
+  body('modelo')
+    .isString()
+    .withMessage('El modelo debe ser un texto')
+    .trim()
+    .notEmpty()
+    .withMessage('El modelo es requerido')
+    .isLength({ max: 50 })
+    .withMessage('El modelo no puede exceder 50 caracteres'),
+];
+
+/**
+ * Validaciones para renombrar un modelo
+ * @type {ValidationChain[]}
+ */
+export const renameModelValidations = [
+  ...modelParamValidations,
+
+  body('nombre')
+    .isString()
+    .withMessage('El nombre debe ser un texto')
+    .trim()
+    .notEmpty()
+    .withMessage('El nuevo nombre del modelo es requerido')
+    .isLength({ max: 50 })
+    .withMessage('El modelo no puede exceder 50 caracteres'),
+];
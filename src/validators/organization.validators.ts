@@ -0,0 +1,96 @@
+/**
+ * Organization Validators
+ * @module validators/organization
+ * @description Validaciones para endpoints de administración de organizaciones
+ */
+
+import { body, param } from 'express-validator';
+
+/**
+ * Validación de ID de organización
+ * @type {ValidationChain[]}
+ */
+export const organizationIdValidation = [
+  param('id')
+    .trim()
+    .notEmpty()
+    .withMessage('El ID es requerido')
+    .isMongoId()
+    .withMessage('ID de organización inválido'),
+];
+
+/**
+ * Validaciones para crear una organización
+ * @type {ValidationChain[]}
+ */
+export const createOrganizationValidations = [
+  body('name')
+    .isString()
+    .withMessage('El nombre debe ser un texto')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('El nombre debe tener entre 2 y 100 caracteres'),
+
+  body('slug')
+    .isString()
+    .withMessage('El slug debe ser un texto')
+    .trim()
+    .toLowerCase()
+    .matches(/^[a-z0-9][a-z0-9-]{1,49}$/)
+    .withMessage(
+      'El slug debe tener entre 2 y 50 letras minúsculas, números o guiones y no empezar con guion'
+    ),
+];
+
+/**
+ * Validaciones para actualizar una organización
+ * @type {ValidationChain[]}
+ */
+export const updateOrganizationValidations = [
+  ...organizationIdValidation,
+
+  body().custom((value: Record<string, unknown>) => {
+    if (value?.name === undefined && value?.isActive === undefined) {
+      throw new Error('Debe proporcionar al menos uno de: name, isActive');
+    }
+    return true;
+  }),
+
+  body('name')
+    .optional()
+    .isString()
+    .withMessage('El nombre debe ser un texto')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('El nombre debe tener entre 2 y 100 caracteres'),
+
+  body('isActive')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('isActive debe ser un booleano'),
+];
+
+/**
+ * Validaciones para agregar un miembro a una organización
+ * @type {ValidationChain[]}
+ */
+export const addMemberValidations = [
+  ...organizationIdValidation,
+
+  body('userId')
+    .isString()
+    .withMessage('El usuario es requerido')
+    .bail()
+    .isMongoId()
+    .withMessage('ID de usuario inválido'),
+];
+
+/**
+ * Validaciones para quitar un miembro de una organización
+ * @type {ValidationChain[]}
+ */
+export const removeMemberValidations = [
+  ...organizationIdValidation,
+
+  param('userId').isMongoId().withMessage('ID de usuario inválido'),
+];
@@ -0,0 +1,92 @@
+/**
+ * Role Validators
+ * @module validators/role
+ * @description Validaciones para endpoints de administración de roles
+ */
+
+import { body, param } from 'express-validator';
+import { ALL_PERMISSIONS } from '../config/permissions';
+
+/**
+ * Verificar que todos los permisos existan en el registro
+ * @param {unknown[]} permissions - Permisos recibidos
+ * @returns {boolean} True si todos los permisos son válidos
+ * @throws {Error} Si algún permiso no existe
+ */
+const assertKnownPermissions = (permissions: unknown[]): boolean => {
+  const unknown = permissions.filter(
+    (permission) => !ALL_PERMISSIONS.includes(permission as never)
+  );
+  if (unknown.length > 0) {
+    throw new Error(`Permisos desconocidos: ${unknown.join(', ')}`);
+  }
+  return true;
+};
+
+/**
+ * Validación del nombre de rol en la ruta
+ * @type {ValidationChain[]}
+ */
+export const roleNameValidation = [
+  param('name').trim().toLowerCase().notEmpty().withMessage('El nombre del rol es requerido'),
+];
+
+/**
+ * Validaciones para crear un rol
+ * @type {ValidationChain[]}
+ */
+export const createRoleValidations = [
+  body('name')
+    .isString()
+    .withMessage('El nombre debe ser un texto')
+    .trim()
+    .toLowerCase()
+    .matches(/^[a-z][a-z0-9_-]{1,49}$/)
+    .withMessage(
+      'El nombre debe empezar con una letra y tener entre 2 y 50 letras, números, guiones o guiones bajos'
+    ),
+
+  body('description')
+    .optional()
+    .isString()
+    .withMessage('La descripción debe ser un texto')
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('La descripción no puede exceder 200 caracteres'),
+
+  body('permissions')
+    .isArray()
+    .withMessage('Los permisos deben ser una lista')
+    .bail()
+    .custom(assertKnownPermissions),
+];
+
+/**
+ * Validaciones para actualizar un rol
+ * @type {ValidationChain[]}
+ */
+export const updateRoleValidations = [
+  ...roleNameValidation,
+
+  body().custom((value: Record<string, unknown>) => {
+    if (value?.description === undefined && value?.permissions === undefined) {
+      throw new Error('Debe proporcionar al menos uno de: description, permissions');
+    }
+    return true;
+  }),
+
+  body('description')
+    .optional()
+    .isString()
+    .withMessage('La descripción debe ser un texto')
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('La descripción no puede exceder 200 caracteres'),
+
+  body('permissions')
+    .optional()
+    .isArray()
+    .withMessage('Los permisos deben ser una lista')
+    .bail()
+    .custom(assertKnownPermissions),
+];
@@ -0,0 +1,164 @@
+/**
+ * User Validators
+ * @module validators/user
+ * @description Validaciones para endpoints de administración de usuarios
+ */
+
+import { body, param, query } from 'express-validator';
+import roleService from '../services/role.service';
+
+/**
+ * Campos aceptados al actualizar un usuario
+ */
+const UPDATABLE_FIELDS = ['name', 'role', 'isActive'];
+
+/**
+ * Verificar que el rol exista en la colección de roles
+ * @param {string} value - Nombre del rol
+ * @returns {Promise<boolean>} True si el rol existe
+ * @throws {Error} Si el rol no existe
+ */
+const assertRoleExists = async (value: string): Promise<boolean> => {
+  if (!(await roleService.roleExists(value))) {
+    throw new Error('El rol no existe');
+  }
+  return true;
+};
+
+/**
+ * Validación de ID de usuario
+ * @type {ValidationChain[]}
+ */
+export const userIdValidation = [
+  param('id')
+    .trim()
+    .notEmpty()
+    .withMessage('El ID es requerido')
+    .isMongoId()
+    .withMessage('ID de usuario inválido'),
+];
+
+/**
+ * Validaciones para filtros de usuarios
+ * @type {ValidationChain[]}
+ */
+export const userFilterValidations = [
+  query('search')
+    .optional()
+    .isString()
+    .withMessage('La búsqueda debe ser un texto')
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('La búsqueda no puede exceder 100 caracteres'),
+
+  query('role')
+    .optional()
+    .isString()
+    .withMessage('El rol debe ser un texto')
+    .bail()
+    .trim()
+    .toLowerCase()
+    .custom(assertRoleExists),
+
+  query('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive debe ser true o false')
+    .toBoolean(),
+
+  query('locked').optional().isBoolean().withMessage('locked debe ser true o false').toBoolean(),
+
+  query('page').optional().isInt({ min: 1 }).withMessage('La página debe ser un número mayor a 0'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('El límite debe estar entre 1 y 100'),
+];
+
+/**
+ * Validaciones para actualizar un usuario
+ * Rechaza cualquier campo fuera de la lista permitida
+ * @type {ValidationChain[]}
+ */
+export const updateUserValidations = [
+  ...userIdValidation,
+
+  body()
+    .custom((value: Record<string, unknown>) => {
+      const unknownFields = Object.keys(value ?? {}).filter(
+        (field) => !UPDATABLE_FIELDS.includes(field)
+      );
+      if (unknownFields.length > 0) {
+        throw new Error(`Campos no permitidos: ${unknownFields.join(', ')}`);
+      }
+      return true;
+    })
+    .custom((value: Record<string, unknown>) => {
+      if (!UPDATABLE_FIELDS.some((field) => value?.[field] !== undefined)) {
+        throw new Error(`Debe proporcionar al menos uno de: ${UPDATABLE_FIELDS.join(', ')}`);
+      }
+      return true;
+    }),
+
+  body('name')
+    .optional()
+    .isString()
+    .withMessage('El nombre debe ser un texto')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('El nombre debe tener entre 2 y 100 caracteres'),
+
+  body('role')
+    .optional()
+    .isString()
+    .withMessage('El rol debe ser un texto')
+    .bail()
+    .trim()
+    .toLowerCase()
+    .custom(assertRoleExists),
+
+  body('isActive')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('isActive debe ser un booleano'),
+];
+
+/**
+ * Validaciones para cambiar el rol de un usuario
+ * @type {ValidationChain[]}
+ */
+export const updateRoleValidations = [
+  ...userIdValidation,
+
+  body('role')
+    .notEmpty()
+    .withMessage('El rol es requerido')
+    .isString()
+    .withMessage('El rol debe ser un texto')
+    .bail()
+    .trim()
+    .toLowerCase()
+    .custom(assertRoleExists),
+];
+
+/**
+ * Validaciones para listar los autos de un usuario
+ * @type {ValidationChain[]}
+ */
+export const userCarsValidations = [
+  ...userIdValidation,
+
+  query('includeDeleted')
+    .optional()
+    .isBoolean()
+    .withMessage('includeDeleted debe ser true o false')
+    .toBoolean(),
+
+  query('page').optional().isInt({ min: 1 }).withMessage('La página debe ser un número mayor a 0'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('El límite debe estar entre 1 y 100'),
+];
@@ -0,0 +1,271 @@
+/**
+ * Integration tests for API keys
+ * @module test/integration/apiKeys
+ */
+
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../../src/server';
+import User from '../../src/models/User';
+import Car from '../../src/models/Car';
+import Catalog from '../../src/models/Catalog';
+import ApiKey from '../../src/models/ApiKey';
+import RefreshToken from '../../src/models/RefreshToken';
+import { config } from '../../src/config/env';
+
+const TEST_EMAILS = ['apikeysadmin@example.com', 'apikeysdms@example.com'];
+
+const carData = {
+  marca: 'Subaru',
+  modelo: 'Impreza',
+  anio: 2021,
+  precio: 280000,
+  kilometraje: 12000,
+  email: 'dms@example.com',
+  telefono: '5551234567',
+};
+
+describe('API Keys Integration Tests', () => {
+  let adminToken: string;
+  let adminId: string;
+  let dmsId: string;
+
+  const cleanUp = async () => {
+    const existing = await User.find({ email: { $in: TEST_EMAILS } }).select('_id');
+    const ids = existing.map((user) => user._id);
+    await RefreshToken.deleteMany({ user: { $in: ids } });
+    await ApiKey.deleteMany({ user: { $in: ids } });
+    await Car.deleteMany({ createdBy: { $in: ids } });
+    await User.deleteMany({ email: { $in: TEST_EMAILS } });
+    await Catalog.deleteMany({ marca: { $in: ['Subaru', 'Seat'] } });
+  };
+
+  const createKey = (body: Record<string, unknown>) => {
+    return request(app)
+      .post('/api/api-keys')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: 'DMS sync', userId: dmsId, ...body });
+  };
+
+  beforeAll(async () => {
+    await mongoose.connect(config.MONGODB_URI);
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+
+    await Catalog.create({ marca: 'Subaru', modelos: [{ nombre: 'Impreza', isActive: true }] });
+
+    const [admin, dms] = await User.create([
+      {
+        email: 'apikeysadmin@example.com',
+        password: 'Autos2024Seguro',
+        name: 'Keys Admin',
+        role: 'admin',
+        emailVerified: true,
+      },
+      {
+        email: 'apikeysdms@example.com',
+        password: 'Autos2024Seguro',
+        name: 'DMS Sync',
+        emailVerified: true,
+      },
+    ]);
+    adminId = String(admin._id);
+    dmsId = String(dms._id);
+
+    const login = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'apikeysadmin@example.com', password: 'Autos2024Seguro' });
+    adminToken = login.body.data.token;
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await mongoose.connection.close();
+  });
+
+  describe('POST /api/api-keys', () => {
+    it('should issue a key that is only returned once and stored hashed', async () => {
+      const response = await createKey({ scopes: ['cars:read'] }).expect(201);
+
+      const { key, id, prefix } = response.body.data;
+      expect(key).toMatch(/^cik_/);
+      expect(key.startsWith(prefix)).toBe(true);
+      expect(response.body.data.user).toBe(dmsId);
+      expect(response.body.data.createdBy).toBe(adminId);
+      expect(response.body.data).not.toHaveProperty('keyHash');
+
+      const stored = await ApiKey.findById(id);
+      expect(stored!.keyHash).not.toBe(key);
+
+      const detail = await request(app)
+        .get(`/api/api-keys/${id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(detail.body.data).not.toHaveProperty('key');
+    });
+
+    it('should apply the default expiry and accept a custom one', async () => {
+      const byDefault = await createKey({ scopes: ['cars:read'] }).expect(201);
+      const custom = await createKey({ scopes: ['cars:read'], expiresInDays: 7 }).expect(201);
+
+      const days = (value: string) => (new Date(value).getTime() - Date.now()) / 86400000;
+      expect(Math.round(days(byDefault.body.data.expiresAt))).toBe(
+        config.API_KEY_DEFAULT_EXPIRES_DAYS
+      );
+      expect(Math.round(days(custom.body.data.expiresAt))).toBe(7);
+    });
+
+    it('should reject unknown scopes and expiries beyond the maximum', async () => {
+      await createKey({ scopes: ['cars:delete'] }).expect(400);
+      await createKey({ scopes: [] }).expect(400);
+      await createKey({
+        scopes: ['cars:read'],
+        expiresInDays: config.API_KEY_MAX_EXPIRES_DAYS + 1,
+      }).expect(400);
+    });
+
+    it('should only grant catalog:write to users who can manage the catalog', async () => {
+      const response = await createKey({ scopes: ['catalog:write'] }).expect(400);
+
+      expect(response.body.customMessage).toBe(
+        'El alcance catalog:write requiere un usuario con el permiso catalog:manage'
+      );
+    });
+
+    it('should forbid non-admin users', async () => {
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'apikeysdms@example.com', password: 'Autos2024Seguro' });
+
+      await request(app)
+        .post('/api/api-keys')
+        .set('Authorization', `Bearer ${login.body.data.token}`)
+        .send({ name: 'Own key', scopes: ['cars:read'] })
+        .expect(403);
+    });
+  });
+
+  describe('X-API-Key authentication', () => {
+    it('should read and write cars on behalf of the key owner', async () => {
+      const { key } = (await createKey({ scopes: ['cars:read', 'cars:write'] })).body.data;
+
+      await request(app).get('/api/cars').set('X-API-Key', key).expect(200);
+
+      const created = await request(app)
+        .post('/api/cars')
+        .set('X-API-Key', key)
+        .send(carData)
+        .expect(201);
+
+      const car = await Car.findById(created.body.data.id);
+      expect(String(car!.createdBy)).toBe(dmsId);
+
+      await request(app)
+        .patch(`/api/cars/${created.body.data.id}`)
+        .set('X-API-Key', key)
+        .send({ precio: 270000 })
+        .expect(200);
+    });
+
+    it('should reject requests outside the key scopes', async () => {
+      const { key } = (await createKey({ scopes: ['cars:read'] })).body.data;
+
+      const response = await request(app)
+        .post('/api/cars')
+        .set('X-API-Key', key)
+        .send(carData)
+        .expect(403);
+
+      expect(response.body.customMessage).toBe(
+        'La API key no tiene el alcance requerido: cars:write'
+      );
+    });
+
+    it('should allow catalog writes with catalog:write on an admin key', async () => {
+      const { key } = (
+        await createKey({ scopes: ['catalog:write'], userId: adminId, name: 'Catalog sync' })
+      ).body.data;
+
+      await request(app)
+        .post('/api/catalogs')
+        .set('X-API-Key', key)
+        .send({ marca: 'Seat', modelos: ['Ibiza'] })
+        .expect(201);
+    });
+
+    it('should not accept API keys on routes without a scope', async () => {
+      const { key } = (await createKey({ scopes: ['cars:read', 'cars:write'] })).body.data;
+
+      await request(app).get('/api/auth/profile').set('X-API-Key', key).expect(401);
+      await request(app).get('/api/users').set('X-API-Key', key).expect(401);
+    });
+
+    it('should track the last use of a key', async () => {
+      const { key, id } = (await createKey({ scopes: ['cars:read'] })).body.data;
+
+      await request(app).get('/api/cars').set('X-API-Key', key).expect(200);
+
+      const stored = await ApiKey.findById(id);
+      expect(stored!.lastUsedAt).toBeInstanceOf(Date);
+      expect(stored!.lastUsedIp).toBeTruthy();
+    });
+
+    it('should reject unknown, expired and revoked keys', async () => {
+      await request(app).get('/api/cars').set('X-API-Key', 'cik_unknown').expect(401);
+
+      const { key, id } = (await createKey({ scopes: ['cars:read'] })).body.data;
+
+      await ApiKey.updateOne({ _id: id }, { expiresAt: new Date(Date.now() - 1000) });
+      const expired = await request(app).get('/api/cars').set('X-API-Key', key).expect(401);
+      expect(expired.body.customMessage).toBe('API key expirada');
+
+      await ApiKey.updateOne({ _id: id }, { expiresAt: new Date(Date.now() + 60000) });
+      await request(app)
+        .delete(`/api/api-keys/${id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      const revoked = await request(app).get('/api/cars').set('X-API-Key', key).expect(401);
+      expect(revoked.body.customMessage).toBe('API key inválida');
+
+      await request(app)
+        .delete(`/api/api-keys/${id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+    });
+
+    it('should reject keys of deactivated users', async () => {
+      const { key } = (await createKey({ scopes: ['cars:read'] })).body.data;
+
+      await User.updateOne({ _id: dmsId }, { isActive: false });
+
+      await request(app).get('/api/cars').set('X-API-Key', key).expect(401);
+    });
+  });
+
+  describe('GET /api/api-keys', () => {
+    it('should list keys filtered by user and status', async () => {
+      const { id } = (await createKey({ scopes: ['cars:read'] })).body.data;
+      await createKey({ scopes: ['cars:write'] });
+      await ApiKey.updateOne({ _id: id }, { revokedAt: new Date() });
+
+      const active = await request(app)
+        .get('/api/api-keys')
+        .query({ user: dmsId, active: true })
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(active.body.data.data).toHaveLength(1);
+      expect(active.body.data.data[0].scopes).toEqual(['cars:write']);
+
+      const inactive = await request(app)
+        .get('/api/api-keys')
+        .query({ user: dmsId, active: false })
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(inactive.body.data.data).toHaveLength(1);
+      expect(inactive.body.data.data[0].id).toBe(id);
+    });
+  });
+});
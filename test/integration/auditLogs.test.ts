@@ -0,0 +1,227 @@
+/**
+ * Integration tests for the audit log
+ * @module test/integration/auditLogs
+ */
+
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../../src/server';
+import User from '../../src/models/User';
+import Car from '../../src/models/Car';
+import Catalog from '../../src/models/Catalog';
+import AuditLog from '../../src/models/AuditLog';
+import RefreshToken from '../../src/models/RefreshToken';
+import { config } from '../../src/config/env';
+
+const TEST_EMAILS = ['auditadmin@example.com', 'auditseller@example.com'];
+
+const carData = {
+  marca: 'Renault',
+  modelo: 'Clio',
+  anio: 2021,
+  precio: 250000,
+  kilometraje: 15000,
+  email: 'audit@example.com',
+  telefono: '5551234567',
+};
+
+describe('Audit Log API Integration Tests', () => {
+  let adminToken: string;
+  let adminId: string;
+  let sellerToken: string;
+  let sellerId: string;
+
+  const login = async (email: string) => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'Autos2024Seguro' });
+    return response.body.data.token as string;
+  };
+
+  const cleanUp = async () => {
+    const existing = await User.find({ email: { $in: TEST_EMAILS } }).select('_id');
+    const userIds = existing.map((user) => user._id);
+    await RefreshToken.deleteMany({ user: { $in: userIds } });
+    await AuditLog.deleteMany({
+      $or: [{ actor: { $in: userIds } }, { entityId: { $in: userIds.map(String) } }],
+    });
+    await Car.deleteMany({ email: carData.email });
+    await User.deleteMany({ email: { $in: TEST_EMAILS } });
+    await Catalog.deleteMany({ marca: 'Renault' });
+  };
+
+  beforeAll(async () => {
+    await mongoose.connect(config.MONGODB_URI);
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+
+    await Catalog.create({ marca: 'Renault', modelos: [{ nombre: 'Clio', isActive: true }] });
+
+    const [admin, seller] = await User.create(
+      [
+        { email: 'auditadmin@example.com', name: 'Audit Admin', role: 'admin' },
+        { email: 'auditseller@example.com', name: 'Audit Seller', role: 'salesperson' },
+      ].map((user) => ({ ...user, password: 'Autos2024Seguro', emailVerified: true }))
+    );
+    adminId = String(admin._id);
+    sellerId = String(seller._id);
+    adminToken = await login(admin.email);
+    sellerToken = await login(seller.email);
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await mongoose.connection.close();
+  });
+
+  const listLogs = (query: Record<string, string>) =>
+    request(app).get('/api/audit-logs').query(query).set('Authorization', `Bearer ${adminToken}`);
+
+  describe('Recording changes', () => {
+    it('should record car creation, update and deletion with actor and request id', async () => {
+      const created = await request(app)
+        .post('/api/cars')
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .set('X-Request-Id', 'audit-test-create')
+        .send(carData)
+        .expect(201);
+      const carId = created.body.data._id;
+
+      await request(app)
+        .patch(`/api/cars/${carId}`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .send({ precio: 240000, color: 'Gris' })
+        .expect(200);
+
+      await request(app)
+        .delete(`/api/cars/${carId}`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(200);
+
+      const response = await listLogs({ entityType: 'car', entityId: carId }).expect(200);
+      const logs = response.body.data.data;
+
+      expect(logs.map((log: { action: string }) => log.action)).toEqual([
+        'delete',
+        'update',
+        'create',
+      ]);
+
+      const [deleted, updated, createdLog] = logs;
+      expect(createdLog.before).toBeNull();
+      expect(createdLog.after).toMatchObject({ marca: 'Renault', precio: 250000 });
+      expect(createdLog.actor).toBe(sellerId);
+      expect(createdLog.actorEmail).toBe('auditseller@example.com');
+      expect(createdLog.requestId).toBe('audit-test-create');
+      expect(createdLog.organization).toEqual(expect.any(String));
+
+      expect(updated.before).toEqual({ precio: 250000, color: null });
+      expect(updated.after).toEqual({ precio: 240000, color: 'Gris' });
+
+      expect(deleted.before).toEqual({ isDeleted: false });
+      expect(deleted.after).toEqual({ isDeleted: true });
+    });
+
+    it('should not record updates that change nothing', async () => {
+      const created = await request(app)
+        .post('/api/cars')
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .send(carData)
+        .expect(201);
+      const carId = created.body.data._id;
+
+      await request(app)
+        .patch(`/api/cars/${carId}`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .send({ precio: carData.precio })
+        .expect(200);
+
+      const response = await listLogs({ entityId: carId }).expect(200);
+
+      expect(response.body.data.pagination.total).toBe(1);
+    });
+
+    it('should record catalog changes', async () => {
+      await request(app)
+        .post('/api/catalogs/Renault/models')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ modelo: 'Megane' })
+        .expect(200);
+
+      const response = await listLogs({ entityType: 'catalog', actor: adminId }).expect(200);
+      const [log] = response.body.data.data;
+
+      expect(log.action).toBe('update');
+      expect(log.before.modelos).toHaveLength(1);
+      expect(log.after.modelos).toHaveLength(2);
+    });
+
+    it('should record user changes without secrets', async () => {
+      await request(app)
+        .put(`/api/users/${sellerId}/role`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ role: 'viewer' })
+        .expect(200);
+
+      await request(app)
+        .put('/api/auth/password')
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .send({ currentPassword: 'Autos2024Seguro', newPassword: 'Clave2025Nueva' })
+        .expect(200);
+
+      const response = await listLogs({ entityType: 'user', entityId: sellerId }).expect(200);
+      const [passwordLog, roleLog] = response.body.data.data;
+
+      expect(roleLog.actor).toBe(adminId);
+      expect(roleLog.before).toEqual({ role: 'salesperson' });
+      expect(roleLog.after).toEqual({ role: 'viewer' });
+
+      expect(passwordLog.actor).toBe(sellerId);
+      expect(passwordLog.after).toEqual({ password: '[redacted]' });
+      expect(JSON.stringify(response.body)).not.toContain('Clave2025Nueva');
+    });
+  });
+
+  describe('GET /api/audit-logs', () => {
+    it('should filter by date range', async () => {
+      await request(app)
+        .post('/api/cars')
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .send(carData)
+        .expect(201);
+
+      const future = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+      const past = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+      const upcoming = await listLogs({ actor: sellerId, from: future }).expect(200);
+      expect(upcoming.body.data.data).toHaveLength(0);
+
+      const recent = await listLogs({ actor: sellerId, from: past, to: future }).expect(200);
+      expect(recent.body.data.data).toHaveLength(1);
+    });
+
+    it('should validate filters', async () => {
+      await listLogs({ entityType: 'invoice' }).expect(400);
+      await listLogs({ actor: 'not-an-id' }).expect(400);
+      await listLogs({ from: '2024-02-01', to: '2024-01-01' }).expect(400);
+    });
+
+    it('should require audit:read', async () => {
+      await request(app)
+        .get('/api/audit-logs')
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(403);
+    });
+
+    it('should return the request id header', async () => {
+      const response = await request(app)
+        .get('/api/audit-logs')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.headers['x-request-id']).toEqual(expect.any(String));
+    });
+  });
+});
@@ -5,9 +5,35 @@
 
 import request from 'supertest';
 import mongoose from 'mongoose';
+import fs from 'fs';
+import path from 'path';
 import app from '../../src/server';
 import User from '../../src/models/User';
+import RefreshToken from '../../src/models/RefreshToken';
+import PasswordResetToken from '../../src/models/PasswordResetToken';
+import EmailVerificationToken from '../../src/models/EmailVerificationToken';
+import TwoFactorChallenge from '../../src/models/TwoFactorChallenge';
+import Car from '../../src/models/Car';
+import CarVersion from '../../src/models/CarVersion';
+import AuditLog from '../../src/models/AuditLog';
 import { config } from '../../src/config/env';
+import { generateTotp, getTotpStep } from '../../src/utils/totp';
+
+/**
+ * Read the mails written by the file transport for a recipient, oldest first
+ */
+const readMails = (to: string): Array<{ to: string; subject: string; text: string }> => {
+  const dir = path.resolve(config.MAIL_FILE_PATH);
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(dir)
+    .sort()
+    .map((file) => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')))
+    .filter((mail) => mail.to === to);
+};
 
 describe('Auth API Integration Tests', () => {
   let authToken: string;
@@ -21,18 +47,24 @@ describe('Auth API Integration Tests', () => {
   // Cleanup: Clear database and close connection
   afterAll(async () => {
     await User.deleteMany({});
+    await RefreshToken.deleteMany({});
+    await PasswordResetToken.deleteMany({});
+    await EmailVerificationToken.deleteMany({});
+    await TwoFactorChallenge.deleteMany({});
+    fs.rmSync(path.resolve(config.MAIL_FILE_PATH), { recursive: true, force: true });
     await mongoose.connection.close();
   });
 
   // Clear users before each test
   beforeEach(async () => {
     await User.deleteMany({});
+    await RefreshToken.deleteMany({});
   });
 
   describe('POST /api/auth/register', () => {
     const validRegisterData = {
       email: 'test@example.com',
-      password: 'Password123',
+      password: 'Autos2024Seguro',
       name: 'Test User',
     };
 
@@ -58,6 +90,8 @@ describe('Auth API Integration Tests', () => {
       // Verify token is a string
       expect(typeof response.body.data.token).toBe('string');
       expect(response.body.data.token.length).toBeGreaterThan(0);
+      expect(typeof response.body.data.refreshToken).toBe('string');
+      expect(response.body.data).toHaveProperty('refreshTokenExpiresAt');
     });
 
     it('should fail when email is already registered (duplicate email)', async () => {
@@ -79,7 +113,7 @@ describe('Auth API Integration Tests', () => {
       const response = await request(app)
         .post('/api/auth/register')
         .send({
-          password: 'Password123',
+          password: 'Autos2024Seguro',
           name: 'Test User',
         })
         .expect(400);
@@ -88,6 +122,22 @@ describe('Auth API Integration Tests', () => {
       expect(response.body).toHaveProperty('message');
     });
 
+    it('should reject passwords outside the password policy', async () => {
+      const common = await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'policy@example.com', password: 'Password123', name: 'Policy User' })
+        .expect(400);
+      expect(common.body.message).toContain('La contraseña es demasiado común');
+
+      const personal = await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'policy@example.com', password: 'Policy2024x', name: 'Policy User' })
+        .expect(400);
+      expect(personal.body.message).toContain(
+        'La contraseña no puede contener tu email ni tu nombre'
+      );
+    });
+
     it('should fail with invalid data - missing password', async () => {
       const response = await request(app)
         .post('/api/auth/register')
@@ -106,7 +156,7 @@ describe('Auth API Integration Tests', () => {
         .post('/api/auth/register')
         .send({
           email: 'test@example.com',
-          password: 'Password123',
+          password: 'Autos2024Seguro',
         })
         .expect(400);
 
@@ -119,7 +169,7 @@ describe('Auth API Integration Tests', () => {
         .post('/api/auth/register')
         .send({
           email: 'invalid-email',
-          password: 'Password123',
+          password: 'Autos2024Seguro',
           name: 'Test User',
         })
         .expect(400);
@@ -146,7 +196,7 @@ describe('Auth API Integration Tests', () => {
   describe('POST /api/auth/login', () => {
     const testUser = {
       email: 'login@example.com',
-      password: 'Password123',
+      password: 'Autos2024Seguro',
       name: 'Login Test User',
     };
 
@@ -225,6 +275,20 @@ describe('Auth API Integration Tests', () => {
       expect(response.body).toHaveProperty('message', 'Cuenta desactivada');
     });
 
+    it('should not reveal an inactive account without the correct password', async () => {
+      await User.findByIdAndUpdate(testUserId, { isActive: false });
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({
+          email: testUser.email,
+          password: 'WrongPassword123',
+        })
+        .expect(401);
+
+      expect(response.body).toHaveProperty('message', 'Credenciales inválidas');
+    });
+
     it('should fail with missing email', async () => {
       const response = await request(app)
         .post('/api/auth/login')
@@ -253,7 +317,7 @@ describe('Auth API Integration Tests', () => {
   describe('GET /api/auth/profile', () => {
     const testUser = {
       email: 'profile@example.com',
-      password: 'Password123',
+      password: 'Autos2024Seguro',
       name: 'Profile Test User',
     };
 
@@ -313,10 +377,21 @@ describe('Auth API Integration Tests', () => {
       const response = await request(app)
         .get('/api/auth/profile')
         .set('Authorization', `Bearer ${authToken}`)
-        .expect(404);
+        .expect(401);
 
-      expect(response.body).toHaveProperty('status', 404);
-      expect(response.body).toHaveProperty('name', 'Not Found');
+      expect(response.body).toHaveProperty('status', 401);
+      expect(response.body).toHaveProperty('customMessage', 'Usuario no encontrado');
+    });
+
+    it('should reject the token as soon as the user is deactivated', async () => {
+      await User.findByIdAndUpdate(testUserId, { isActive: false });
+
+      const response = await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(401);
+
+      expect(response.body).toHaveProperty('customMessage', 'Cuenta desactivada');
     });
   });
 
@@ -327,7 +402,7 @@ describe('Auth API Integration Tests', () => {
       // Register a user to get a valid token
       const response = await request(app).post('/api/auth/register').send({
         email: 'verify@example.com',
-        password: 'Password123',
+        password: 'Autos2024Seguro',
         name: 'Verify Test User',
       });
       validToken = response.body.data.token;
@@ -411,4 +486,1057 @@ describe('Auth API Integration Tests', () => {
       expect(response.body).toHaveProperty('name', 'Unauthorized');
     });
   });
+
+  describe('POST /api/auth/refresh', () => {
+    let refreshToken: string;
+
+    beforeEach(async () => {
+      const response = await request(app).post('/api/auth/register').send({
+        email: 'refresh@example.com',
+        password: 'Autos2024Seguro',
+        name: 'Refresh User',
+      });
+      refreshToken = response.body.data.refreshToken;
+    });
+
+    it('should issue new tokens and rotate the refresh token', async () => {
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      expect(response.body).toHaveProperty('message', 'Token renovado exitosamente');
+      expect(response.body.data.refreshToken).not.toBe(refreshToken);
+
+      await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${response.body.data.token}`)
+        .expect(200);
+    });
+
+    it('should revoke the whole session when a rotated token is reused', async () => {
+      const rotated = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      const reuse = await request(app).post('/api/auth/refresh').send({ refreshToken }).expect(401);
+      expect(reuse.body).toHaveProperty(
+        'customMessage',
+        'Refresh token reutilizado, la sesión fue revocada'
+      );
+
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: rotated.body.data.refreshToken })
+        .expect(401);
+      await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${rotated.body.data.token}`)
+        .expect(401);
+    });
+
+    it('should fail with an unknown refresh token', async () => {
+      await request(app).post('/api/auth/refresh').send({ refreshToken: 'unknown' }).expect(401);
+    });
+
+    it('should fail when the refresh token is missing', async () => {
+      await request(app).post('/api/auth/refresh').send({}).expect(400);
+    });
+
+    it('should fail when the user has been deactivated', async () => {
+      await User.updateOne({ email: 'refresh@example.com' }, { isActive: false });
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+
+      expect(response.body).toHaveProperty('customMessage', 'Cuenta desactivada');
+    });
+  });
+
+  describe('POST /api/auth/logout', () => {
+    const credentials = { email: 'logout@example.com', password: 'Autos2024Seguro' };
+    let session: { token: string; refreshToken: string };
+
+    beforeEach(async () => {
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ ...credentials, name: 'Logout User' });
+      session = response.body.data;
+    });
+
+    it('should revoke the current session', async () => {
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${session.token}`)
+        .expect(200);
+
+      await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .expect(401);
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: session.refreshToken })
+        .expect(401);
+    });
+
+    it('should keep other sessions unless allSessions is set', async () => {
+      const other = await request(app).post('/api/auth/login').send(credentials).expect(200);
+
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${session.token}`)
+        .expect(200);
+
+      await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${other.body.data.token}`)
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${other.body.data.token}`)
+        .send({ allSessions: true })
+        .expect(200);
+
+      expect(await RefreshToken.countDocuments({ revokedAt: null })).toBe(0);
+    });
+
+    it('should fail without authentication', async () => {
+      await request(app).post('/api/auth/logout').expect(401);
+    });
+  });
+
+  describe('PUT /api/auth/password', () => {
+    const credentials = { email: 'change@example.com', password: 'Autos2024Seguro' };
+    let session: { token: string; refreshToken: string };
+
+    beforeEach(async () => {
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ ...credentials, name: 'Change User' });
+      session = response.body.data;
+    });
+
+    it('should change the password and invalidate existing sessions', async () => {
+      const response = await request(app)
+        .put('/api/auth/password')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ currentPassword: credentials.password, newPassword: 'NewPassword456' })
+        .expect(200);
+
+      expect(response.body).toHaveProperty('message', 'Contraseña actualizada exitosamente');
+
+      await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .expect(401);
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: session.refreshToken })
+        .expect(401);
+      await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${response.body.data.token}`)
+        .expect(200);
+
+      await request(app).post('/api/auth/login').send(credentials).expect(401);
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: credentials.email, password: 'NewPassword456' })
+        .expect(200);
+
+      expect(readMails(credentials.email).pop()).toHaveProperty(
+        'subject',
+        'Tu contraseña fue cambiada'
+      );
+    });
+
+    it('should fail with a wrong current password', async () => {
+      const response = await request(app)
+        .put('/api/auth/password')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ currentPassword: 'WrongPassword1', newPassword: 'NewPassword456' })
+        .expect(401);
+
+      expect(response.body).toHaveProperty('customMessage', 'La contraseña actual es incorrecta');
+    });
+
+    it('should fail with a weak new password', async () => {
+      await request(app)
+        .put('/api/auth/password')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ currentPassword: credentials.password, newPassword: 'weak' })
+        .expect(400);
+    });
+
+    it('should reject a common new password', async () => {
+      const response = await request(app)
+        .put('/api/auth/password')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ currentPassword: credentials.password, newPassword: 'Password123' })
+        .expect(400);
+
+      expect(response.body.message).toContain('La contraseña es demasiado común');
+    });
+
+    it('should reject a new password containing the user name', async () => {
+      const response = await request(app)
+        .put('/api/auth/password')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ currentPassword: credentials.password, newPassword: 'Change2024Now' })
+        .expect(400);
+
+      expect(response.body).toHaveProperty(
+        'customMessage',
+        'La contraseña no puede contener tu email ni tu nombre'
+      );
+    });
+
+    it('should fail when the new password equals the current one', async () => {
+      await request(app)
+        .put('/api/auth/password')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ currentPassword: credentials.password, newPassword: credentials.password })
+        .expect(400);
+    });
+
+    it('should fail without authentication', async () => {
+      await request(app)
+        .put('/api/auth/password')
+        .send({ currentPassword: credentials.password, newPassword: 'NewPassword456' })
+        .expect(401);
+    });
+  });
+
+  describe('Password reset flow', () => {
+    const email = 'reset@example.com';
+    let session: { token: string };
+
+    const requestResetToken = async (): Promise<string> => {
+      await request(app).post('/api/auth/password/forgot').send({ email }).expect(200);
+
+      const mail = readMails(email).pop();
+      expect(mail).toHaveProperty('subject', 'Restablecer contraseña');
+      return decodeURIComponent((mail?.text.match(/token=([^\s]+)/) as RegExpMatchArray)[1]);
+    };
+
+    beforeEach(async () => {
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ email, password: 'Autos2024Seguro', name: 'Reset User' });
+      session = response.body.data;
+    });
+
+    it('should reset the password with the mailed token only once', async () => {
+      const token = await requestResetToken();
+
+      await request(app)
+        .post('/api/auth/password/reset')
+        .send({ token, newPassword: 'Nueva2024Clave' })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email, password: 'Nueva2024Clave' })
+        .expect(200);
+      await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .expect(401);
+
+      const reuse = await request(app)
+        .post('/api/auth/password/reset')
+        .send({ token, newPassword: 'AnotherPassword1' })
+        .expect(400);
+      expect(reuse.body).toHaveProperty(
+        'customMessage',
+        'Token de restablecimiento inválido o expirado'
+      );
+    });
+
+    it('should invalidate previous tokens when a new one is requested', async () => {
+      const first = await requestResetToken();
+      await requestResetToken();
+
+      await request(app)
+        .post('/api/auth/password/reset')
+        .send({ token: first, newPassword: 'Nueva2024Clave' })
+        .expect(400);
+    });
+
+    it('should reject expired tokens', async () => {
+      const token = await requestResetToken();
+      await PasswordResetToken.updateMany({}, { expiresAt: new Date(Date.now() - 1000) });
+
+      await request(app)
+        .post('/api/auth/password/reset')
+        .send({ token, newPassword: 'Nueva2024Clave' })
+        .expect(400);
+    });
+
+    it('should respond the same for unknown emails without sending mail', async () => {
+      const response = await request(app)
+        .post('/api/auth/password/forgot')
+        .send({ email: 'nobody@example.com' })
+        .expect(200);
+
+      expect(response.body.message).toContain('Si el email está registrado');
+      expect(readMails('nobody@example.com')).toHaveLength(0);
+    });
+
+    it('should validate the new password', async () => {
+      const token = await requestResetToken();
+
+      await request(app)
+        .post('/api/auth/password/reset')
+        .send({ token, newPassword: 'weak' })
+        .expect(400);
+    });
+
+    it('should keep the token usable when the password breaks the policy', async () => {
+      const token = await requestResetToken();
+
+      const response = await request(app)
+        .post('/api/auth/password/reset')
+        .send({ token, newPassword: 'Reset2024Clave' })
+        .expect(400);
+      expect(response.body).toHaveProperty(
+        'customMessage',
+        'La contraseña no puede contener tu email ni tu nombre'
+      );
+
+      await request(app)
+        .post('/api/auth/password/reset')
+        .send({ token, newPassword: 'Nueva2024Clave' })
+        .expect(200);
+    });
+  });
+
+  describe('GET /api/auth/password/policy', () => {
+    it('should expose the password rules without authentication', async () => {
+      const response = await request(app).get('/api/auth/password/policy').expect(200);
+
+      expect(response.body.data).toMatchObject({
+        minLength: config.PASSWORD_MIN_LENGTH,
+        maxLength: config.PASSWORD_MAX_LENGTH,
+        rejectCommon: config.PASSWORD_REJECT_COMMON,
+      });
+      expect(response.body.data.rules).toContain(
+        `La contraseña debe tener al menos ${config.PASSWORD_MIN_LENGTH} caracteres`
+      );
+    });
+  });
+
+  describe('PATCH /api/auth/profile', () => {
+    const email = 'selfservice@example.com';
+    let session: { token: string; user: { id: string } };
+
+    /**
+     * Extract the token from the last confirmation mail sent to an address
+     */
+    const readConfirmationToken = (to: string): string => {
+      const mail = readMails(to).pop();
+      expect(mail).toHaveProperty('subject', 'Confirma tu nuevo email');
+      return decodeURIComponent((mail?.text.match(/token=([^\s]+)/) as RegExpMatchArray)[1]);
+    };
+
+    beforeEach(async () => {
+      await EmailVerificationToken.deleteMany({});
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ email, password: 'Autos2024Seguro', name: 'Self Service' });
+      session = response.body.data;
+    });
+
+    it('should update the name immediately', async () => {
+      const response = await request(app)
+        .patch('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ name: 'Nuevo Nombre' })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ name: 'Nuevo Nombre', email, pendingEmail: null });
+    });
+
+    it('should reject fields outside the profile', async () => {
+      await request(app)
+        .patch('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ name: 'Nuevo Nombre', role: 'admin' })
+        .expect(400);
+
+      const user = await User.findById(session.user.id);
+      expect(user!.role).toBe('user');
+    });
+
+    it('should require the current password to change the email', async () => {
+      await request(app)
+        .patch('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ email: 'new-address@example.com' })
+        .expect(401);
+
+      await request(app)
+        .patch('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ email: 'new-address@example.com', currentPassword: 'WrongPassword1' })
+        .expect(401);
+    });
+
+    it('should keep the new email pending until it is confirmed', async () => {
+      const response = await request(app)
+        .patch('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ email: 'new-address@example.com', currentPassword: 'Autos2024Seguro' })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        email,
+        pendingEmail: 'new-address@example.com',
+      });
+
+      // Hasta confirmar, el login sigue usando el email anterior
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email, password: 'Autos2024Seguro' })
+        .expect(200);
+
+      const token = readConfirmationToken('new-address@example.com');
+      const confirm = await request(app).post('/api/auth/email/verify').send({ token }).expect(200);
+
+      expect(confirm.body.data).toMatchObject({
+        email: 'new-address@example.com',
+        pendingEmail: null,
+      });
+      expect(readMails(email).pop()).toHaveProperty(
+        'subject',
+        'El email de tu cuenta fue cambiado'
+      );
+
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'new-address@example.com', password: 'Autos2024Seguro' })
+        .expect(200);
+
+      await request(app).post('/api/auth/email/verify').send({ token }).expect(400);
+    });
+
+    it('should reject an email that is already registered', async () => {
+      await User.create({ email: 'taken@example.com', password: 'Autos2024Seguro', name: 'Taken' });
+
+      await request(app)
+        .patch('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ email: 'taken@example.com', currentPassword: 'Autos2024Seguro' })
+        .expect(409);
+    });
+
+    it('should not confirm if the email was taken in the meantime', async () => {
+      await request(app)
+        .patch('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ email: 'race@example.com', currentPassword: 'Autos2024Seguro' })
+        .expect(200);
+      const token = readConfirmationToken('race@example.com');
+
+      await User.create({ email: 'race@example.com', password: 'Autos2024Seguro', name: 'Race' });
+
+      await request(app).post('/api/auth/email/verify').send({ token }).expect(409);
+    });
+
+    it('should cancel a pending change when the current email is sent back', async () => {
+      await request(app)
+        .patch('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ email: 'cancelled@example.com', currentPassword: 'Autos2024Seguro' })
+        .expect(200);
+      const token = readConfirmationToken('cancelled@example.com');
+
+      const response = await request(app)
+        .patch('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ email })
+        .expect(200);
+      expect(response.body.data.pendingEmail).toBeNull();
+
+      await request(app).post('/api/auth/email/verify').send({ token }).expect(400);
+    });
+  });
+
+  describe('DELETE /api/auth/profile', () => {
+    const email = 'leaving@example.com';
+    let session: { token: string; user: { id: string } };
+    let adminId: string;
+
+    const createCar = (createdBy: string) =>
+      Car.create({
+        marca: 'Toyota',
+        modelo: 'Corolla',
+        anio: 2020,
+        precio: 250000,
+        kilometraje: 15000,
+        email,
+        telefono: '5512345678',
+        createdBy,
+      });
+
+    beforeEach(async () => {
+      await Car.deleteMany({ email });
+      const admin = await User.create({
+        email: 'heir@example.com',
+        password: 'Autos2024Seguro',
+        name: 'Heir Admin',
+        role: 'admin',
+      });
+      adminId = String(admin._id);
+
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ email, password: 'Autos2024Seguro', name: 'Leaving User' });
+      session = response.body.data;
+
+      await createCar(session.user.id);
+      await createCar(session.user.id);
+    });
+
+    afterAll(async () => {
+      const cars = await Car.find({ email }).select('_id');
+      await CarVersion.deleteMany({ car: { $in: cars.map((car) => car._id) } });
+      await Car.deleteMany({ email });
+    });
+
+    /**
+     * Acciones de las versiones de los autos del usuario, por auto y en orden
+     */
+    const getVersionActions = async (): Promise<string[][]> => {
+      const cars = await Car.find({ email }).sort({ _id: 1 }).select('_id');
+      return Promise.all(
+        cars.map(async (car) =>
+          (await CarVersion.find({ car: car._id }).sort({ version: 1 })).map(
+            (version) => version.action
+          )
+        )
+      );
+    };
+
+    it('should deactivate the account, close sessions and trash the cars', async () => {
+      const response = await request(app)
+        .delete('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ password: 'Autos2024Seguro', carsAction: 'delete' })
+        .expect(200);
+
+      expect(response.body.data).toEqual({
+        carsAction: 'delete',
+        carsAffected: 2,
+        transferredTo: null,
+      });
+      expect(await Car.countDocuments({ createdBy: session.user.id, isDeleted: true })).toBe(2);
+      expect(await getVersionActions()).toEqual([
+        ['initial', 'delete'],
+        ['initial', 'delete'],
+      ]);
+
+      await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .expect(401);
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email, password: 'Autos2024Seguro' })
+        .expect(401);
+    });
+
+    it('should transfer the cars to an admin', async () => {
+      const response = await request(app)
+        .delete('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ password: 'Autos2024Seguro', carsAction: 'transfer', transferTo: adminId })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ carsAffected: 2, transferredTo: adminId });
+      expect(await Car.countDocuments({ createdBy: adminId, isDeleted: false })).toBe(2);
+      expect(await getVersionActions()).toEqual([
+        ['initial', 'update'],
+        ['initial', 'update'],
+      ]);
+    });
+
+    it('should default the transfer to an active admin', async () => {
+      const response = await request(app)
+        .delete('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ password: 'Autos2024Seguro', carsAction: 'transfer' })
+        .expect(200);
+
+      expect(response.body.data.transferredTo).toBe(adminId);
+    });
+
+    it('should reject transfers to users that are not active admins', async () => {
+      const other = await User.create({
+        email: 'notadmin@example.com',
+        password: 'Autos2024Seguro',
+        name: 'Not Admin',
+      });
+
+      await request(app)
+        .delete('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({
+          password: 'Autos2024Seguro',
+          carsAction: 'transfer',
+          transferTo: String(other._id),
+        })
+        .expect(409);
+
+      expect(await Car.countDocuments({ createdBy: session.user.id, isDeleted: false })).toBe(2);
+    });
+
+    it('should require the password', async () => {
+      await request(app)
+        .delete('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ password: 'WrongPassword1', carsAction: 'delete' })
+        .expect(401);
+
+      await request(app)
+        .delete('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ carsAction: 'delete' })
+        .expect(400);
+    });
+
+    it('should not let the last active admin delete their account', async () => {
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'heir@example.com', password: 'Autos2024Seguro' });
+
+      await request(app)
+        .delete('/api/auth/profile')
+        .set('Authorization', `Bearer ${login.body.data.token}`)
+        .send({ password: 'Autos2024Seguro', carsAction: 'delete' })
+        .expect(409);
+    });
+  });
+
+  describe('Email verification', () => {
+    const email = 'verify@example.com';
+    let session: { token: string; user: { id: string; emailVerified: boolean } };
+
+    /**
+     * Extract the token from the last verification mail sent to an address
+     */
+    const readVerificationToken = (to: string): string => {
+      const mail = readMails(to).pop();
+      expect(mail).toHaveProperty('subject', 'Verifica tu email');
+      return decodeURIComponent((mail?.text.match(/token=([^\s]+)/) as RegExpMatchArray)[1]);
+    };
+
+    beforeEach(async () => {
+      await EmailVerificationToken.deleteMany({});
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ email, password: 'Autos2024Seguro', name: 'Verify User' });
+      session = response.body.data;
+    });
+
+    it('should register users as unverified and mail a verification link', async () => {
+      expect(session.user.emailVerified).toBe(false);
+      expect(readVerificationToken(email)).toBeTruthy();
+    });
+
+    it('should verify the email with the mailed token only once', async () => {
+      const token = readVerificationToken(email);
+
+      const response = await request(app)
+        .post('/api/auth/email/verify')
+        .send({ token })
+        .expect(200);
+      expect(response.body.data).toMatchObject({ email, emailVerified: true });
+
+      const profile = await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .expect(200);
+      expect(profile.body.data.emailVerified).toBe(true);
+
+      await request(app).post('/api/auth/email/verify').send({ token }).expect(400);
+    });
+
+    it('should reject expired tokens', async () => {
+      const token = readVerificationToken(email);
+      await EmailVerificationToken.updateMany({}, { expiresAt: new Date(Date.now() - 1000) });
+
+      await request(app).post('/api/auth/email/verify').send({ token }).expect(400);
+    });
+
+    it('should resend the link and invalidate the previous one', async () => {
+      const first = readVerificationToken(email);
+
+      const response = await request(app)
+        .post('/api/auth/email/verify/resend')
+        .set('Authorization', `Bearer ${session.token}`)
+        .expect(200);
+      expect(response.body.data).toEqual({ email });
+
+      const second = readVerificationToken(email);
+      expect(second).not.toBe(first);
+
+      await request(app).post('/api/auth/email/verify').send({ token: first }).expect(400);
+      await request(app).post('/api/auth/email/verify').send({ token: second }).expect(200);
+    });
+
+    it('should not resend when the email is already verified', async () => {
+      await User.updateOne({ email }, { emailVerified: true });
+
+      const response = await request(app)
+        .post('/api/auth/email/verify/resend')
+        .set('Authorization', `Bearer ${session.token}`)
+        .expect(400);
+      expect(response.body).toHaveProperty('customMessage', 'El email ya está verificado');
+    });
+
+    it('should require authentication to resend', async () => {
+      await request(app).post('/api/auth/email/verify/resend').expect(401);
+    });
+
+    it('should mark the account verified when an email change is confirmed', async () => {
+      await request(app)
+        .patch('/api/auth/profile')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ email: 'verified-change@example.com', currentPassword: 'Autos2024Seguro' })
+        .expect(200);
+
+      const mail = readMails('verified-change@example.com').pop();
+      const token = decodeURIComponent((mail?.text.match(/token=([^\s]+)/) as RegExpMatchArray)[1]);
+
+      const response = await request(app)
+        .post('/api/auth/email/verify')
+        .send({ token })
+        .expect(200);
+      expect(response.body.data).toMatchObject({
+        email: 'verified-change@example.com',
+        emailVerified: true,
+      });
+    });
+  });
+
+  describe('Account lockout', () => {
+    const email = 'lockout@example.com';
+    const adminEmail = 'lockout-admin@example.com';
+    const delayBase = config.LOGIN_DELAY_BASE_SECONDS;
+
+    const attempt = (password: string) =>
+      request(app).post('/api/auth/login').send({ email, password });
+
+    beforeEach(async () => {
+      await User.create([
+        { email, password: 'Autos2024Seguro', name: 'Lockout User' },
+        { email: adminEmail, password: 'Autos2024Seguro', name: 'Lockout Admin', role: 'admin' },
+      ]);
+    });
+
+    afterEach(() => {
+      config.LOGIN_DELAY_BASE_SECONDS = delayBase;
+    });
+
+    it('should make the next attempt wait after a failed login', async () => {
+      await attempt('WrongPassword1').expect(401);
+
+      const response = await attempt('Autos2024Seguro').expect(429);
+      expect(response.body).toHaveProperty(
+        'customMessage',
+        'Demasiados intentos fallidos, espera antes de reintentar'
+      );
+      expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+
+      // Un intento con contraseña incorrecta durante la espera no cuenta como un nuevo fallo
+      await attempt('WrongPassword1').expect(401);
+      const user = await User.findOne({ email });
+      expect(user?.failedLoginAttempts).toBe(1);
+    });
+
+    it('should lock the account after too many failed attempts and notify admins', async () => {
+      config.LOGIN_DELAY_BASE_SECONDS = 0;
+
+      for (let i = 1; i < config.LOGIN_MAX_ATTEMPTS; i++) {
+        await attempt('WrongPassword1').expect(401);
+      }
+
+      const response = await attempt('WrongPassword1').expect(401);
+      expect(response.body).toHaveProperty('customMessage', 'Credenciales inválidas');
+
+      const user = await User.findOne({ email });
+      expect(user?.lockedUntil?.getTime()).toBeGreaterThan(Date.now());
+
+      // La contraseña correcta tampoco sirve mientras dure el bloqueo
+      const locked = await attempt('Autos2024Seguro').expect(423);
+      expect(locked.body).toHaveProperty(
+        'customMessage',
+        'Cuenta bloqueada temporalmente por intentos fallidos'
+      );
+      expect(Number(locked.headers['retry-after'])).toBeGreaterThan(0);
+
+      const alert = readMails(adminEmail).pop();
+      expect(alert).toHaveProperty('subject', 'Cuenta bloqueada por intentos fallidos');
+      expect(alert?.text).toContain(email);
+    });
+
+    it('should answer a wrong password on a locked account like an unknown email', async () => {
+      await User.updateOne({ email }, { lockedUntil: new Date(Date.now() + 60 * 1000) });
+
+      const locked = await attempt('WrongPassword1').expect(401);
+      const unknown = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'lockout-unknown@example.com', password: 'WrongPassword1' })
+        .expect(401);
+
+      expect(locked.body).toEqual(unknown.body);
+    });
+
+    it('should allow logging in again once the lockout expires', async () => {
+      await User.updateOne({ email }, { lockedUntil: new Date(Date.now() - 1000) });
+
+      await attempt('Autos2024Seguro').expect(200);
+
+      const user = await User.findOne({ email });
+      expect(user?.lockedUntil).toBeNull();
+      expect(user?.failedLoginAttempts).toBe(0);
+    });
+
+    it('should reset the failed attempts after a successful login', async () => {
+      config.LOGIN_DELAY_BASE_SECONDS = 0;
+
+      await attempt('WrongPassword1').expect(401);
+      await attempt('Autos2024Seguro').expect(200);
+
+      const user = await User.findOne({ email });
+      expect(user?.failedLoginAttempts).toBe(0);
+      expect(user?.lastFailedLoginAt).toBeNull();
+    });
+  });
+
+  describe('Two-factor authentication', () => {
+    const email = 'twofactor@example.com';
+    const password = 'Autos2024Seguro';
+    const require2fa = config.REQUIRE_2FA_FOR_ADMINS;
+    let session: { token: string };
+
+    /**
+     * Code for the time step at the given offset from the current one
+     */
+    const codeAt = (secret: string, offset: number) => generateTotp(secret, getTotpStep() + offset);
+
+    /**
+     * Enable 2FA for a session, confirming with the code of the current step (returned as code)
+     */
+    const enroll = async (token: string) => {
+      const setup = await request(app)
+        .post('/api/auth/2fa/setup')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      const secret: string = setup.body.data.secret;
+      const code = codeAt(secret, 0);
+
+      const confirm = await request(app)
+        .post('/api/auth/2fa/confirm')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ code })
+        .expect(200);
+
+      return { secret, code, recoveryCodes: confirm.body.data.recoveryCodes as string[] };
+    };
+
+    const login = () => request(app).post('/api/auth/login').send({ email, password });
+
+    beforeEach(async () => {
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ email, password, name: 'Two Factor User' });
+      session = response.body.data;
+    });
+
+    afterEach(() => {
+      config.REQUIRE_2FA_FOR_ADMINS = require2fa;
+    });
+
+    it('should enroll with a QR code and require the code on login', async () => {
+      const setup = await request(app)
+        .post('/api/auth/2fa/setup')
+        .set('Authorization', `Bearer ${session.token}`)
+        .expect(200);
+      expect(setup.body.data.otpauthUrl).toMatch(/^otpauth:\/\/totp\//);
+      expect(setup.body.data.qrCode).toMatch(/^data:image\/png;base64,/);
+
+      const confirm = await request(app)
+        .post('/api/auth/2fa/confirm')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ code: codeAt(setup.body.data.secret, 0) })
+        .expect(200);
+      expect(confirm.body.data.recoveryCodes).toHaveLength(10);
+
+      const challenge = await login().expect(200);
+      expect(challenge.body.data).toMatchObject({ twoFactorRequired: true });
+      expect(challenge.body.data).not.toHaveProperty('token');
+
+      const response = await request(app)
+        .post('/api/auth/login/2fa')
+        .send({
+          challengeToken: challenge.body.data.challengeToken,
+          code: codeAt(setup.body.data.secret, 1),
+        })
+        .expect(200);
+      expect(response.body.data.user).toHaveProperty('twoFactorEnabled', true);
+      expect(typeof response.body.data.token).toBe('string');
+    });
+
+    it('should reject an invalid confirmation code', async () => {
+      const setup = await request(app)
+        .post('/api/auth/2fa/setup')
+        .set('Authorization', `Bearer ${session.token}`)
+        .expect(200);
+
+      const response = await request(app)
+        .post('/api/auth/2fa/confirm')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ code: codeAt(setup.body.data.secret, 5) })
+        .expect(400);
+      expect(response.body).toHaveProperty('customMessage', 'Código de verificación inválido');
+    });
+
+    it('should not accept the same code twice', async () => {
+      const { code } = await enroll(session.token);
+
+      const challenge = await login().expect(200);
+      const response = await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken: challenge.body.data.challengeToken, code })
+        .expect(401);
+      expect(response.body).toHaveProperty('customMessage', 'Código de verificación inválido');
+    });
+
+    it('should accept each recovery code only once', async () => {
+      const { recoveryCodes } = await enroll(session.token);
+
+      const first = await login().expect(200);
+      await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken: first.body.data.challengeToken, code: recoveryCodes[0] })
+        .expect(200);
+
+      const second = await login().expect(200);
+      await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken: second.body.data.challengeToken, code: recoveryCodes[0] })
+        .expect(401);
+    });
+
+    it('should reject expired or reused challenges', async () => {
+      const { secret } = await enroll(session.token);
+
+      const challenge = await login().expect(200);
+      const challengeToken = challenge.body.data.challengeToken;
+
+      await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken, code: codeAt(secret, 1) })
+        .expect(200);
+      await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken, code: codeAt(secret, -1) })
+        .expect(401);
+
+      const expired = await login().expect(200);
+      await TwoFactorChallenge.updateMany({}, { expiresAt: new Date(Date.now() - 1000) });
+
+      const response = await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken: expired.body.data.challengeToken, code: codeAt(secret, -1) })
+        .expect(401);
+      expect(response.body).toHaveProperty(
+        'customMessage',
+        'Desafío de verificación inválido o expirado'
+      );
+    });
+
+    it('should disable 2FA with the password and a valid code', async () => {
+      const { secret } = await enroll(session.token);
+
+      await request(app)
+        .post('/api/auth/2fa/disable')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ password: 'WrongPassword1', code: codeAt(secret, 1) })
+        .expect(401);
+
+      await request(app)
+        .post('/api/auth/2fa/disable')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ password, code: codeAt(secret, 1) })
+        .expect(200);
+
+      const response = await login().expect(200);
+      expect(typeof response.body.data.token).toBe('string');
+      expect(readMails(email).pop()).toHaveProperty(
+        'subject',
+        'Autenticación en dos pasos desactivada'
+      );
+    });
+
+    it('should replace the recovery codes when regenerated', async () => {
+      const { secret, recoveryCodes } = await enroll(session.token);
+
+      const response = await request(app)
+        .post('/api/auth/2fa/recovery-codes')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ code: codeAt(secret, 1) })
+        .expect(200);
+      expect(response.body.data.recoveryCodes).toHaveLength(10);
+
+      const user = await User.findOne({ email });
+      const log = await AuditLog.findOne({
+        entityType: 'user',
+        entityId: String(user?._id),
+        'after.twoFactorRecoveryCodes': '[redacted]',
+      });
+      expect(log?.actor?.toString()).toBe(String(user?._id));
+      expect(JSON.stringify(log?.after)).not.toContain(response.body.data.recoveryCodes[0]);
+
+      const challenge = await login().expect(200);
+      await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken: challenge.body.data.challengeToken, code: recoveryCodes[0] })
+        .expect(401);
+    });
+
+    it('should require 2FA for admin permissions when configured', async () => {
+      config.REQUIRE_2FA_FOR_ADMINS = true;
+      await User.updateOne({ email }, { role: 'admin' });
+
+      const forbidden = await request(app)
+        .get('/api/users')
+        .set('Authorization', `Bearer ${session.token}`)
+        .expect(403);
+      expect(forbidden.body).toHaveProperty(
+        'customMessage',
+        'Los administradores deben activar la autenticación en dos pasos'
+      );
+
+      const { secret } = await enroll(session.token);
+
+      await request(app)
+        .get('/api/users')
+        .set('Authorization', `Bearer ${session.token}`)
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/2fa/disable')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ password, code: codeAt(secret, 1) })
+        .expect(409);
+    });
+  });
 });
@@ -0,0 +1,164 @@
+/**
+ * Integration tests for optimistic concurrency control on car updates
+ * @module test/integration/carConcurrency
+ */
+
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../../src/server';
+import User from '../../src/models/User';
+import Car, { ICar } from '../../src/models/Car';
+import CarVersion from '../../src/models/CarVersion';
+import PriceChange from '../../src/models/PriceChange';
+import Catalog from '../../src/models/Catalog';
+import RefreshToken from '../../src/models/RefreshToken';
+import { config } from '../../src/config/env';
+
+const TEST_EMAIL = 'concurrencyseller@example.com';
+
+const carData = {
+  marca: 'Fiat',
+  modelo: 'Cronos',
+  anio: 2022,
+  precio: 300000,
+  kilometraje: 10000,
+  email: 'concurrency@example.com',
+  telefono: '5551234567',
+};
+
+describe('Car Concurrency API Integration Tests', () => {
+  let sellerToken: string;
+  let carId: string;
+
+  const cleanUp = async () => {
+    const existing = await User.find({ email: TEST_EMAIL }).select('_id');
+    const cars = await Car.find({ email: carData.email }).select('_id');
+    const carIds = cars.map((car) => car._id);
+    await RefreshToken.deleteMany({ user: { $in: existing.map((user) => user._id) } });
+    await CarVersion.deleteMany({ car: { $in: carIds } });
+    await PriceChange.deleteMany({ car: { $in: carIds } });
+    await Car.deleteMany({ email: carData.email });
+    await User.deleteMany({ email: TEST_EMAIL });
+    await Catalog.deleteMany({ marca: 'Fiat' });
+  };
+
+  const updateCar = (changes: Record<string, unknown>, ifMatch?: string) => {
+    const pending = request(app)
+      .patch(`/api/cars/${carId}`)
+      .set('Authorization', `Bearer ${sellerToken}`);
+
+    return (ifMatch ? pending.set('If-Match', ifMatch) : pending).send(changes);
+  };
+
+  beforeAll(async () => {
+    await mongoose.connect(config.MONGODB_URI);
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+
+    await Catalog.create({ marca: 'Fiat', modelos: [{ nombre: 'Cronos', isActive: true }] });
+    await User.create({
+      email: TEST_EMAIL,
+      name: 'Concurrency Seller',
+      role: 'salesperson',
+      password: 'Autos2024Seguro',
+      emailVerified: true,
+    });
+
+    const login = await request(app)
+      .post('/api/auth/login')
+      .send({ email: TEST_EMAIL, password: 'Autos2024Seguro' });
+    sellerToken = login.body.data.token;
+
+    const created = await request(app)
+      .post('/api/cars')
+      .set('Authorization', `Bearer ${sellerToken}`)
+      .send(carData)
+      .expect(201);
+    carId = created.body.data._id;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await mongoose.connection.close();
+  });
+
+  describe('GET /api/cars/:id', () => {
+    it('should return the revision as ETag', async () => {
+      const response = await request(app)
+        .get(`/api/cars/${carId}`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(200);
+
+      expect(response.headers.etag).toBe('"0"');
+      expect(response.body.data.revision).toBe(0);
+    });
+
+    it('should answer 304 when the client copy is current', async () => {
+      await request(app)
+        .get(`/api/cars/${carId}`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .set('If-None-Match', '"0"')
+        .expect(304);
+    });
+  });
+
+  describe('PUT /api/cars/:id', () => {
+    it('should apply updates whose If-Match matches and return the new ETag', async () => {
+      const response = await updateCar({ precio: 290000 }, '"0"').expect(200);
+
+      expect(response.headers.etag).toBe('"1"');
+      expect(response.body.data.revision).toBe(1);
+    });
+
+    it('should reject stale updates with 412 and the current state', async () => {
+      await updateCar({ precio: 290000 }, '"0"').expect(200);
+
+      const response = await updateCar({ kilometraje: 20000 }, '"0"').expect(412);
+
+      expect(response.body.name).toBe('Precondition Failed');
+      expect(response.headers.etag).toBe('"1"');
+      expect(response.body.data).toMatchObject({ precio: 290000, kilometraje: 10000, revision: 1 });
+    });
+
+    it('should never match weak ETags', async () => {
+      await updateCar({ precio: 290000 }, 'W/"0"').expect(412);
+    });
+
+    it('should accept any revision with a wildcard or without If-Match', async () => {
+      await updateCar({ precio: 290000 }, '*').expect(200);
+      const response = await updateCar({ precio: 280000 }).expect(200);
+
+      expect(response.body.data.revision).toBe(2);
+    });
+
+    it('should return 409 when another update lands while saving', async () => {
+      const originalSave = Car.prototype.save;
+      jest.spyOn(Car.prototype, 'save').mockImplementationOnce(async function (this: ICar) {
+        await Car.updateOne({ _id: carId }, { kilometraje: 15000, $inc: { revision: 1 } });
+        return originalSave.call(this);
+      });
+
+      const response = await updateCar({ precio: 250000 }).expect(409);
+
+      expect(response.body.name).toBe('Conflict');
+      expect(response.body.data).toMatchObject({ precio: 300000, kilometraje: 15000 });
+    });
+
+    it('should treat cars saved before revisions existed as revision 0', async () => {
+      await Car.collection.updateOne(
+        { _id: new mongoose.Types.ObjectId(carId) },
+        { $unset: { revision: '' } }
+      );
+
+      const response = await updateCar({ precio: 290000 }, '"0"').expect(200);
+
+      expect(response.body.data.revision).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Integration tests for per-car version history
+ * @module test/integration/carHistory
+ */
+
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../../src/server';
+import User from '../../src/models/User';
+import Car from '../../src/models/Car';
+import CarVersion from '../../src/models/CarVersion';
+import Catalog from '../../src/models/Catalog';
+import RefreshToken from '../../src/models/RefreshToken';
+import { config } from '../../src/config/env';
+
+const TEST_EMAILS = [
+  'historyseller@example.com',
+  'historyother@example.com',
+  'historyadmin@example.com',
+];
+
+const carData = {
+  marca: 'Fiat',
+  modelo: 'Cronos',
+  anio: 2022,
+  precio: 300000,
+  kilometraje: 10000,
+  email: 'history@example.com',
+  telefono: '5551234567',
+};
+
+describe('Car History API Integration Tests', () => {
+  let sellerToken: string;
+  let sellerId: string;
+  let otherToken: string;
+  let carId: string;
+
+  const login = async (email: string) => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'Autos2024Seguro' });
+    return response.body.data.token as string;
+  };
+
+  const cleanUp = async () => {
+    const existing = await User.find({ email: { $in: TEST_EMAILS } }).select('_id');
+    const cars = await Car.find({ email: carData.email }).select('_id');
+    await RefreshToken.deleteMany({ user: { $in: existing.map((user) => user._id) } });
+    await CarVersion.deleteMany({ car: { $in: cars.map((car) => car._id) } });
+    await Car.deleteMany({ email: carData.email });
+    await User.deleteMany({ email: { $in: TEST_EMAILS } });
+    await Catalog.deleteMany({ marca: 'Fiat' });
+  };
+
+  const updateCar = (changes: Record<string, unknown>) =>
+    request(app)
+      .patch(`/api/cars/${carId}`)
+      .set('Authorization', `Bearer ${sellerToken}`)
+      .send(changes);
+
+  beforeAll(async () => {
+    await mongoose.connect(config.MONGODB_URI);
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+
+    await Catalog.create({ marca: 'Fiat', modelos: [{ nombre: 'Cronos', isActive: true }] });
+
+    const [seller] = await User.create(
+      [
+        { email: 'historyseller@example.com', name: 'History Seller', role: 'salesperson' },
+        { email: 'historyother@example.com', name: 'Other Seller', role: 'salesperson' },
+      ].map((user) => ({ ...user, password: 'Autos2024Seguro', emailVerified: true }))
+    );
+    sellerId = String(seller._id);
+    sellerToken = await login('historyseller@example.com');
+    otherToken = await login('historyother@example.com');
+
+    const created = await request(app)
+      .post('/api/cars')
+      .set('Authorization', `Bearer ${sellerToken}`)
+      .send(carData)
+      .expect(201);
+    carId = created.body.data._id;
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await mongoose.connection.close();
+  });
+
+  describe('GET /api/cars/:id/history', () => {
+    it('should be empty until the car changes', async () => {
+      const response = await request(app)
+        .get(`/api/cars/${carId}/history`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(200);
+
+      expect(response.body.data.data).toEqual([]);
+    });
+
+    it('should list chronological versions captured on each update and deletion', async () => {
+      await updateCar({ precio: 290000 }).expect(200);
+      await updateCar({ precio: 280000, kilometraje: 12000 }).expect(200);
+      // Un cambio sin diferencias no genera versión
+      await updateCar({ precio: 280000 }).expect(200);
+      await request(app)
+        .delete(`/api/cars/${carId}`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(200);
+
+      const response = await request(app)
+        .get(`/api/cars/${carId}/history`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(200);
+      const versions = response.body.data.data;
+
+      expect(versions.map((v: { version: number }) => v.version)).toEqual([1, 2, 3, 4]);
+      expect(versions.map((v: { action: string }) => v.action)).toEqual([
+        'initial',
+        'update',
+        'update',
+        'delete',
+      ]);
+      expect(versions.map((v: { data: { precio: number } }) => v.data.precio)).toEqual([
+        300000, 290000, 280000, 280000,
+      ]);
+      expect(versions[1].changedBy).toBe(sellerId);
+      expect(versions[3].data.isDeleted).toBe(true);
+    });
+
+    it('should capture a version when the car is restored from the trash', async () => {
+      await User.create({
+        email: 'historyadmin@example.com',
+        name: 'History Admin',
+        role: 'admin',
+        password: 'Autos2024Seguro',
+        emailVerified: true,
+      });
+      const adminToken = await login('historyadmin@example.com');
+
+      await request(app)
+        .delete(`/api/cars/${carId}`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(200);
+      await request(app)
+        .post(`/api/cars/${carId}/restore`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      const response = await request(app)
+        .get(`/api/cars/${carId}/history`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(200);
+      const versions = response.body.data.data;
+
+      expect(versions.map((v: { action: string }) => v.action)).toEqual([
+        'initial',
+        'delete',
+        'restore',
+      ]);
+      expect(versions[2].data.isDeleted).toBe(false);
+    });
+
+    it('should return 404 for unknown cars', async () => {
+      await request(app)
+        .get(`/api/cars/${new mongoose.Types.ObjectId()}/history`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/cars/:id/history/diff', () => {
+    it('should return the fields that changed between two versions', async () => {
+      await updateCar({ precio: 290000 }).expect(200);
+      await updateCar({ kilometraje: 15000, color: 'Negro' }).expect(200);
+
+      const response = await request(app)
+        .get(`/api/cars/${carId}/history/diff`)
+        .query({ from: 1, to: 3 })
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(200);
+
+      expect(response.body.data).toEqual({
+        from: 1,
+        to: 3,
+        changes: {
+          precio: { from: 300000, to: 290000 },
+          kilometraje: { from: 10000, to: 15000 },
+          color: { from: null, to: 'Negro' },
+        },
+      });
+    });
+
+    it('should return 404 for unknown versions', async () => {
+      await updateCar({ precio: 290000 }).expect(200);
+
+      await request(app)
+        .get(`/api/cars/${carId}/history/diff`)
+        .query({ from: 1, to: 9 })
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(404);
+    });
+
+    it('should require both versions', async () => {
+      await request(app)
+        .get(`/api/cars/${carId}/history/diff`)
+        .query({ from: 1 })
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/cars/:id/history/:version/revert', () => {
+    it('should restore the data of a previous version as a new version', async () => {
+      await updateCar({ precio: 290000 }).expect(200);
+      await updateCar({ precio: 250000, kilometraje: 20000 }).expect(200);
+
+      const response = await request(app)
+        .post(`/api/cars/${carId}/history/1/revert`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(200);
+
+      expect(response.body.data.precio).toBe(300000);
+      expect(response.body.data.kilometraje).toBe(10000);
+
+      const history = await request(app)
+        .get(`/api/cars/${carId}/history`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(200);
+      const versions = history.body.data.data;
+      const last = versions[versions.length - 1];
+
+      expect(last.version).toBe(4);
+      expect(last.action).toBe('revert');
+      expect(last.revertedFrom).toBe(1);
+    });
+
+    it('should only let owners revert', async () => {
+      await updateCar({ precio: 290000 }).expect(200);
+
+      await request(app)
+        .post(`/api/cars/${carId}/history/1/revert`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(403);
+    });
+
+    it('should return 404 for unknown versions', async () => {
+      await request(app)
+        .post(`/api/cars/${carId}/history/5/revert`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(404);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Integration tests for bulk car import from CSV and XLSX files
+ * @module test/integration/carImport
+ */
+
+import request from 'supertest';
+import mongoose from 'mongoose';
+import ExcelJS from 'exceljs';
+import app from '../../src/server';
+import User from '../../src/models/User';
+import Car from '../../src/models/Car';
+import CarImportJob from '../../src/models/CarImportJob';
+import Catalog from '../../src/models/Catalog';
+import RefreshToken from '../../src/models/RefreshToken';
+import { config } from '../../src/config/env';
+
+const TEST_EMAIL = 'importer@example.com';
+const CAR_EMAIL = 'imports@example.com';
+
+const HEADER = 'marca,modelo,anio,precio,kilometraje,color,email,telefono';
+
+describe('Car Import API Integration Tests', () => {
+  let sellerToken: string;
+  let sellerId: string;
+
+  const cleanUp = async () => {
+    const existing = await User.find({ email: TEST_EMAIL }).select('_id');
+    const userIds = existing.map((user) => user._id);
+    await RefreshToken.deleteMany({ user: { $in: userIds } });
+    await CarImportJob.deleteMany({ createdBy: { $in: userIds } });
+    await Car.deleteMany({ email: CAR_EMAIL });
+    await User.deleteMany({ email: TEST_EMAIL });
+    await Catalog.deleteMany({ marca: 'Peugeot' });
+  };
+
+  const importFile = (content: string | Buffer, filename = 'autos.csv') =>
+    request(app)
+      .post('/api/cars/imports')
+      .set('Authorization', `Bearer ${sellerToken}`)
+      .attach('file', Buffer.from(content), filename);
+
+  beforeAll(async () => {
+    await mongoose.connect(config.MONGODB_URI);
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+
+    await Catalog.create({
+      marca: 'Peugeot',
+      modelos: [
+        { nombre: '208', isActive: true },
+        { nombre: 'Partner', isActive: true },
+      ],
+    });
+
+    const seller = await User.create({
+      email: TEST_EMAIL,
+      name: 'Import Seller',
+      role: 'salesperson',
+      password: 'Autos2024Seguro',
+      emailVerified: true,
+    });
+    sellerId = String(seller._id);
+
+    const login = await request(app)
+      .post('/api/auth/login')
+      .send({ email: TEST_EMAIL, password: 'Autos2024Seguro' });
+    sellerToken = login.body.data.token;
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await mongoose.connection.close();
+  });
+
+  describe('POST /api/cars/imports', () => {
+    it('should create valid rows, normalize the catalog and report invalid ones', async () => {
+      const csv = [
+        HEADER,
+        `peugeot,208,2021,500000,20000,Rojo,${CAR_EMAIL},1122334455`,
+        `PEUGEOT,partner,2019,400000,60000,,${CAR_EMAIL},1122334466`,
+        `Peugeot,3008,2020,700000,30000,,${CAR_EMAIL},1122334477`,
+        `Peugeot,208,1800,300000,90000,,${CAR_EMAIL},123`,
+      ].join('\n');
+
+      const response = await importFile(csv).expect(201);
+      const job = response.body.data;
+
+      expect(job).toMatchObject({
+        filename: 'autos.csv',
+        format: 'csv',
+        dryRun: false,
+        status: 'completed',
+        totalRows: 4,
+        validRows: 2,
+        createdCount: 2,
+        failedCount: 2,
+        createdBy: sellerId,
+      });
+      expect(job.cars).toHaveLength(2);
+      expect(job.errors).toEqual([
+        {
+          row: 4,
+          field: 'modelo',
+          message: 'El modelo no existe o no está activo para la marca Peugeot',
+        },
+        { row: 5, field: 'anio', message: expect.stringContaining('El año debe estar entre') },
+        { row: 5, field: 'telefono', message: 'El teléfono debe tener exactamente 10 dígitos' },
+      ]);
+
+      const cars = await Car.find({ _id: { $in: job.cars } }).sort({ precio: -1 });
+      expect(cars.map((car) => [car.marca, car.modelo])).toEqual([
+        ['Peugeot', '208'],
+        ['Peugeot', 'Partner'],
+      ]);
+      expect(String(cars[0].createdBy)).toBe(sellerId);
+      expect(cars[0].color).toBe('Rojo');
+    });
+
+    it('should only validate rows in dry-run mode', async () => {
+      const csv = [
+        HEADER,
+        `Peugeot,208,2021,500000,20000,,${CAR_EMAIL},1122334455`,
+        `Peugeot,208,2021,,20000,,${CAR_EMAIL},1122334455`,
+      ].join('\n');
+
+      const response = await importFile(csv).field('dryRun', 'true').expect(201);
+
+      expect(response.body.data).toMatchObject({
+        dryRun: true,
+        status: 'completed',
+        validRows: 1,
+        createdCount: 0,
+        failedCount: 1,
+        cars: [],
+        errors: [{ row: 3, field: 'precio', message: 'El precio es requerido' }],
+      });
+      expect(await Car.countDocuments({ email: CAR_EMAIL })).toBe(0);
+    });
+
+    it('should read fields from the mapped columns', async () => {
+      const csv = [
+        'Brand;Model;Year;Price;Mileage;Contact;Phone',
+        `Peugeot;208;2021;500000;20000;${CAR_EMAIL};1122334455`,
+      ].join('\n');
+
+      const response = await importFile(csv)
+        .field(
+          'mapping',
+          JSON.stringify({
+            marca: 'Brand',
+            modelo: 'Model',
+            anio: 'Year',
+            precio: 'Price',
+            kilometraje: 'Mileage',
+            email: 'Contact',
+            telefono: 'Phone',
+          })
+        )
+        .expect(201);
+
+      expect(response.body.data).toMatchObject({
+        createdCount: 1,
+        mapping: { marca: 'Brand', precio: 'Price', telefono: 'Phone' },
+      });
+    });
+
+    it('should report missing columns without importing any row', async () => {
+      const csv = ['marca,modelo,anio', 'Peugeot,208,2021'].join('\n');
+
+      const response = await importFile(csv).expect(201);
+
+      expect(response.body.data).toMatchObject({ validRows: 0, createdCount: 0, failedCount: 1 });
+      expect(response.body.data.errors.map((error: { field: string }) => error.field)).toEqual([
+        'precio',
+        'kilometraje',
+        'email',
+        'telefono',
+      ]);
+    });
+
+    it('should import XLSX files', async () => {
+      const workbook = new ExcelJS.Workbook();
+      const sheet = workbook.addWorksheet('Autos');
+      sheet.addRow(HEADER.split(','));
+      sheet.addRow(['Peugeot', '208', 2021, 500000, 20000, 'Gris', CAR_EMAIL, '1122334455']);
+      const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+      const response = await importFile(buffer, 'autos.xlsx').expect(201);
+
+      expect(response.body.data).toMatchObject({ format: 'xlsx', createdCount: 1 });
+    });
+
+    it('should reject requests without a file or with other file types', async () => {
+      await request(app)
+        .post('/api/cars/imports')
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .field('dryRun', 'true')
+        .expect(400);
+
+      await importFile('{}', 'autos.json').expect(400);
+    });
+
+    it('should reject files without rows and invalid options', async () => {
+      await importFile(HEADER).expect(400);
+
+      const response = await importFile(`${HEADER}\n`)
+        .field('mapping', JSON.stringify({ foto: 'Imagen' }))
+        .expect(400);
+      expect(response.body.customMessage).toBe('Errores de validación');
+    });
+
+    it('should reject files with more rows than allowed', async () => {
+      const originalMaxRows = config.IMPORT_MAX_ROWS;
+      config.IMPORT_MAX_ROWS = 1;
+
+      try {
+        const row = `Peugeot,208,2021,500000,20000,,${CAR_EMAIL},1122334455`;
+        await importFile([HEADER, row, row].join('\n')).expect(400);
+      } finally {
+        config.IMPORT_MAX_ROWS = originalMaxRows;
+      }
+    });
+  });
+
+  describe('GET /api/cars/imports', () => {
+    it('should list and get the imports of the organization', async () => {
+      const csv = [HEADER, `Peugeot,208,2021,500000,20000,,${CAR_EMAIL},1122334455`].join('\n');
+      const created = await importFile(csv).field('dryRun', 'true').expect(201);
+      const importId = created.body.data.id;
+
+      const list = await request(app)
+        .get('/api/cars/imports')
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(200);
+      expect(list.body.data.data.map((job: { id: string }) => job.id)).toContain(importId);
+
+      const detail = await request(app)
+        .get(`/api/cars/imports/${importId}`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(200);
+      expect(detail.body.data).toMatchObject({ id: importId, dryRun: true, validRows: 1 });
+
+      await request(app)
+        .get(`/api/cars/imports/${new mongoose.Types.ObjectId()}`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(404);
+    });
+  });
+});
@@ -7,10 +7,22 @@ import request from 'supertest';
 import mongoose from 'mongoose';
 import path from 'path';
 import fs from 'fs';
+import sharp from 'sharp';
 import app from '../../src/server';
 import User from '../../src/models/User';
 import Car, { ICar } from '../../src/models/Car';
+import Catalog from '../../src/models/Catalog';
+import Role from '../../src/models/Role';
 import { config } from '../../src/config/env';
+import { deleteFile } from '../../src/middlewares/upload.middleware';
+
+/**
+ * Generate a small real image for upload tests
+ */
+const createTestImage = (format: 'jpeg' | 'png', width = 1600): Promise<Buffer> =>
+  sharp({ create: { width, height: width / 2, channels: 3, background: '#336699' } })
+    .toFormat(format)
+    .toBuffer();
 
 // Type for car response
 interface CarResponse {
@@ -23,7 +35,8 @@ interface CarResponse {
 
 describe('Cars API Integration Tests', () => {
   let authToken: string;
-  let _testUserId: string;
+  let adminToken: string;
+  let testUserId: string;
   let testCarId: string;
 
   // Setup: Connect to test database and create test user
@@ -33,25 +46,66 @@ describe('Cars API Integration Tests', () => {
     // Clean up before creating user
     await User.deleteMany({ email: 'cartest@example.com' });
 
+    // Catalog used to validate marca/modelo
+    await Catalog.deleteMany({ marca: { $in: ['Toyota', 'Honda', 'Nissan'] } });
+    await Catalog.create([
+      {
+        marca: 'Toyota',
+        modelos: [
+          { nombre: 'Corolla', isActive: true },
+          { nombre: 'Camry', isActive: true },
+        ],
+      },
+      {
+        marca: 'Honda',
+        modelos: [{ nombre: 'Civic', isActive: true }],
+      },
+      {
+        marca: 'Nissan',
+        modelos: [
+          { nombre: 'Sentra', isActive: true },
+          { nombre: 'Tsuru', isActive: false },
+        ],
+      },
+    ]);
+
     // Create test user directly
     const user = await User.create({
       email: 'cartest@example.com',
-      password: 'Password123',
+      password: 'Autos2024Seguro',
       name: 'Car Test User',
+      emailVerified: true,
     });
-    _testUserId = (user._id as mongoose.Types.ObjectId).toString();
+    testUserId = (user._id as mongoose.Types.ObjectId).toString();
 
     // Get token by logging in
     const loginResponse = await request(app).post('/api/auth/login').send({
       email: 'cartest@example.com',
-      password: 'Password123',
+      password: 'Autos2024Seguro',
     });
     authToken = loginResponse.body.data.token;
+
+    // Create admin user
+    await User.deleteMany({ email: 'admin@example.com' });
+    await User.create({
+      email: 'admin@example.com',
+      password: 'Autos2024Seguro',
+      name: 'Admin User',
+      role: 'admin',
+      emailVerified: true,
+    });
+
+    const adminLogin = await request(app).post('/api/auth/login').send({
+      email: 'admin@example.com',
+      password: 'Autos2024Seguro',
+    });
+    adminToken = adminLogin.body.data.token;
   });
 
   // Cleanup
   afterAll(async () => {
     await Car.deleteMany({});
+    await Catalog.deleteMany({});
     await User.deleteMany({});
     await mongoose.connection.close();
   });
@@ -275,10 +329,79 @@ describe('Cars API Integration Tests', () => {
       expect(response.body.data).toHaveProperty('foto', null);
     });
 
+    it('should reject photo filenames sent in the body', async () => {
+      const response = await request(app)
+        .post('/api/cars')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ ...validCarData, foto: 'other-car.jpg', fotos: ['other-car.jpg'] })
+        .expect(400);
+
+      const errors = JSON.parse(response.body.message);
+      expect(errors.map((error: { field: string }) => error.field)).toEqual(['foto', 'fotos']);
+    });
+
+    describe('email verification policy', () => {
+      let unverifiedToken: string;
+
+      beforeAll(async () => {
+        await User.deleteMany({ email: 'unverified@example.com' });
+        await User.create({
+          email: 'unverified@example.com',
+          password: 'Autos2024Seguro',
+          name: 'Unverified User',
+        });
+
+        const login = await request(app)
+          .post('/api/auth/login')
+          .send({ email: 'unverified@example.com', password: 'Autos2024Seguro' });
+        unverifiedToken = login.body.data.token;
+      });
+
+      afterEach(() => {
+        config.REQUIRE_VERIFIED_EMAIL_FOR_CARS = true;
+      });
+
+      afterAll(async () => {
+        const user = await User.findOne({ email: 'unverified@example.com' });
+        await Car.deleteMany({ createdBy: user?._id });
+        await User.deleteMany({ email: 'unverified@example.com' });
+      });
+
+      it('should not let unverified users create cars', async () => {
+        const response = await request(app)
+          .post('/api/cars')
+          .set('Authorization', `Bearer ${unverifiedToken}`)
+          .send(validCarData)
+          .expect(403);
+
+        expect(response.body).toHaveProperty(
+          'customMessage',
+          'Debes verificar tu email para publicar autos'
+        );
+      });
+
+      it('should still let unverified users read cars', async () => {
+        await request(app)
+          .get('/api/cars')
+          .set('Authorization', `Bearer ${unverifiedToken}`)
+          .expect(200);
+      });
+
+      it('should allow unverified users when the policy is disabled', async () => {
+        config.REQUIRE_VERIFIED_EMAIL_FOR_CARS = false;
+
+        await request(app)
+          .post('/api/cars')
+          .set('Authorization', `Bearer ${unverifiedToken}`)
+          .send(validCarData)
+          .expect(201);
+      });
+    });
+
     it('should create car successfully with photo', async () => {
       // Create a test image file
       const testImagePath = path.join(__dirname, 'test-image.jpg');
-      const testImageBuffer = Buffer.from('fake image content');
+      const testImageBuffer = await createTestImage('jpeg');
       fs.writeFileSync(testImagePath, testImageBuffer);
 
       try {
@@ -324,6 +447,60 @@ describe('Cars API Integration Tests', () => {
       expect(response.body.message).toContain('marca');
     });
 
+    it('should normalize marca and modelo to the catalog spelling', async () => {
+      const response = await request(app)
+        .post('/api/cars')
+        .set('Authorization', `Bearer ${authToken}`)
+        .field('marca', 'nissan')
+        .field('modelo', 'SENTRA')
+        .field('anio', validCarData.anio)
+        .field('precio', validCarData.precio)
+        .field('kilometraje', validCarData.kilometraje)
+        .field('email', validCarData.email)
+        .field('telefono', validCarData.telefono)
+        .expect(201);
+
+      expect(response.body.data).toHaveProperty('marca', 'Nissan');
+      expect(response.body.data).toHaveProperty('modelo', 'Sentra');
+    });
+
+    it('should fail with marca not present in catalog', async () => {
+      const response = await request(app)
+        .post('/api/cars')
+        .set('Authorization', `Bearer ${authToken}`)
+        .field('marca', 'Nisan')
+        .field('modelo', validCarData.modelo)
+        .field('anio', validCarData.anio)
+        .field('precio', validCarData.precio)
+        .field('kilometraje', validCarData.kilometraje)
+        .field('email', validCarData.email)
+        .field('telefono', validCarData.telefono)
+        .expect(400);
+
+      const errors = JSON.parse(response.body.message);
+      expect(errors).toEqual([
+        { field: 'marca', message: 'La marca no existe o no está activa en el catálogo' },
+      ]);
+    });
+
+    it('should fail with a deactivated modelo', async () => {
+      const response = await request(app)
+        .post('/api/cars')
+        .set('Authorization', `Bearer ${authToken}`)
+        .field('marca', validCarData.marca)
+        .field('modelo', 'Tsuru')
+        .field('anio', validCarData.anio)
+        .field('precio', validCarData.precio)
+        .field('kilometraje', validCarData.kilometraje)
+        .field('email', validCarData.email)
+        .field('telefono', validCarData.telefono)
+        .expect(400);
+
+      const errors = JSON.parse(response.body.message);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toHaveProperty('field', 'modelo');
+    });
+
     it('should fail with invalid año (year too old)', async () => {
       const response = await request(app)
         .post('/api/cars')
@@ -414,22 +591,47 @@ describe('Cars API Integration Tests', () => {
         kilometraje: 15000,
         email: 'test@example.com',
         telefono: '1234567890',
+        createdBy: testUserId,
       });
       testCarId = (car._id as mongoose.Types.ObjectId).toString();
     });
 
-    it('should update car successfully', async () => {
+    const replacement = {
+      marca: 'Toyota',
+      modelo: 'Camry',
+      anio: 2021,
+      precio: 260000,
+      kilometraje: 16000,
+      email: 'replaced@example.com',
+      telefono: '0987654321',
+    };
+
+    it('should replace all the car data', async () => {
+      await Car.findByIdAndUpdate(testCarId, { color: 'Rojo' });
+
       const response = await request(app)
         .put(`/api/cars/${testCarId}`)
         .set('Authorization', `Bearer ${authToken}`)
-        .field('precio', 260000)
-        .field('kilometraje', 16000)
+        .send(replacement)
         .expect(200);
 
       expect(response.body).toHaveProperty('status', 200);
       expect(response.body).toHaveProperty('message', 'Auto actualizado exitosamente');
-      expect(response.body.data).toHaveProperty('precio', 260000);
-      expect(response.body.data).toHaveProperty('kilometraje', 16000);
+      expect(response.body.data).toMatchObject(replacement);
+      // Los campos opcionales ausentes se borran
+      expect(response.body.data).not.toHaveProperty('color');
+    });
+
+    it('should require every field like car creation', async () => {
+      const response = await request(app)
+        .put(`/api/cars/${testCarId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .field('precio', 260000)
+        .field('kilometraje', 16000)
+        .expect(400);
+
+      const fields = JSON.parse(response.body.message).map((e: { field: string }) => e.field);
+      expect(fields).toEqual(expect.arrayContaining(['marca', 'modelo', 'anio', 'email']));
     });
 
     it('should return 404 for non-existent car', async () => {
@@ -437,7 +639,7 @@ describe('Cars API Integration Tests', () => {
       const response = await request(app)
         .put(`/api/cars/${fakeId}`)
         .set('Authorization', `Bearer ${authToken}`)
-        .field('precio', 260000)
+        .send(replacement)
         .expect(404);
 
       expect(response.body).toHaveProperty('status', 404);
@@ -448,7 +650,7 @@ describe('Cars API Integration Tests', () => {
       const response = await request(app)
         .put(`/api/cars/${testCarId}`)
         .set('Authorization', `Bearer ${authToken}`)
-        .field('precio', -1000)
+        .send({ ...replacement, precio: -1000 })
         .expect(400);
 
       expect(response.body).toHaveProperty('status', 400);
@@ -457,13 +659,114 @@ describe('Cars API Integration Tests', () => {
     it('should fail without authentication', async () => {
       const response = await request(app)
         .put(`/api/cars/${testCarId}`)
-        .field('precio', 260000)
+        .send(replacement)
         .expect(401);
 
       expect(response.body).toHaveProperty('status', 401);
     });
   });
 
+  describe('PATCH /api/cars/:id', () => {
+    beforeEach(async () => {
+      const car = await Car.create({
+        marca: 'Toyota',
+        modelo: 'Corolla',
+        anio: 2020,
+        precio: 250000,
+        kilometraje: 15000,
+        color: 'Rojo',
+        email: 'test@example.com',
+        telefono: '1234567890',
+        createdBy: testUserId,
+      });
+      testCarId = (car._id as mongoose.Types.ObjectId).toString();
+    });
+
+    const patchCar = (changes: unknown) =>
+      request(app)
+        .patch(`/api/cars/${testCarId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .set('Content-Type', 'application/merge-patch+json')
+        .send(JSON.stringify(changes));
+
+    it('should only change the fields sent', async () => {
+      const response = await patchCar({ precio: 260000, kilometraje: 16000 }).expect(200);
+
+      expect(response.body.data).toMatchObject({
+        precio: 260000,
+        kilometraje: 16000,
+        modelo: 'Corolla',
+        color: 'Rojo',
+      });
+    });
+
+    it('should clear optional fields set to null', async () => {
+      const response = await patchCar({ color: null }).expect(200);
+
+      expect(response.body.data).not.toHaveProperty('color');
+      expect((await Car.findById(testCarId))?.color).toBeUndefined();
+    });
+
+    it('should reject clearing required fields', async () => {
+      const response = await patchCar({ precio: null }).expect(400);
+
+      const errors = JSON.parse(response.body.message);
+      expect(errors[0]).toHaveProperty('field', 'precio');
+    });
+
+    it('should only accept null for foto', async () => {
+      await patchCar({ foto: 'other-car.jpg' }).expect(400);
+    });
+
+    it('should accept plain JSON bodies', async () => {
+      await request(app)
+        .patch(`/api/cars/${testCarId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ precio: 255000 })
+        .expect(200);
+    });
+
+    it('should normalize modelo against the current marca', async () => {
+      const response = await patchCar({ modelo: 'camry' }).expect(200);
+
+      expect(response.body.data).toHaveProperty('marca', 'Toyota');
+      expect(response.body.data).toHaveProperty('modelo', 'Camry');
+    });
+
+    it('should fail when modelo does not belong to the current marca', async () => {
+      const response = await patchCar({ modelo: 'Civic' }).expect(400);
+
+      const errors = JSON.parse(response.body.message);
+      expect(errors[0]).toHaveProperty('field', 'modelo');
+    });
+
+    it('should fail when changing marca without a compatible modelo', async () => {
+      const response = await patchCar({ marca: 'Honda' }).expect(400);
+
+      const errors = JSON.parse(response.body.message);
+      expect(errors[0]).toHaveProperty('field', 'marca');
+    });
+
+    it('should update marca and modelo together', async () => {
+      const response = await patchCar({ marca: 'honda', modelo: 'civic' }).expect(200);
+
+      expect(response.body.data).toHaveProperty('marca', 'Honda');
+      expect(response.body.data).toHaveProperty('modelo', 'Civic');
+    });
+
+    it('should ignore fields that are not car data', async () => {
+      await patchCar({ isDeleted: true, createdBy: null }).expect(200);
+
+      const car = await Car.findById(testCarId);
+      expect(car?.isDeleted).toBe(false);
+      expect(String(car?.createdBy)).toBe(testUserId);
+    });
+
+    it('should reject bodies that are not objects', async () => {
+      await patchCar([{ precio: 1 }]).expect(400);
+    });
+  });
+
   describe('DELETE /api/cars/:id', () => {
     beforeEach(async () => {
       const car = await Car.create({
@@ -474,6 +777,7 @@ describe('Cars API Integration Tests', () => {
         kilometraje: 15000,
         email: 'test@example.com',
         telefono: '1234567890',
+        createdBy: testUserId,
       });
       testCarId = (car._id as mongoose.Types.ObjectId).toString();
     });
@@ -514,6 +818,611 @@ describe('Cars API Integration Tests', () => {
     });
   });
 
+  describe('Ownership authorization for PUT/DELETE', () => {
+    let otherToken: string;
+
+    beforeAll(async () => {
+      await User.deleteMany({ email: 'other@example.com' });
+
+      await User.create({
+        email: 'other@example.com',
+        password: 'Autos2024Seguro',
+        name: 'Other User',
+      });
+
+      const otherLogin = await request(app).post('/api/auth/login').send({
+        email: 'other@example.com',
+        password: 'Autos2024Seguro',
+      });
+      otherToken = otherLogin.body.data.token;
+    });
+
+    beforeEach(async () => {
+      const car = await Car.create({
+        marca: 'Toyota',
+        modelo: 'Corolla',
+        anio: 2020,
+        precio: 250000,
+        kilometraje: 15000,
+        email: 'test@example.com',
+        telefono: '1234567890',
+        createdBy: testUserId,
+      });
+      testCarId = (car._id as mongoose.Types.ObjectId).toString();
+    });
+
+    it('should forbid updating a car created by another user', async () => {
+      const response = await request(app)
+        .put(`/api/cars/${testCarId}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .field('precio', 1)
+        .expect(403);
+
+      expect(response.body).toHaveProperty('status', 403);
+      expect(response.body).toHaveProperty('name', 'Forbidden');
+
+      const car = await Car.findById(testCarId);
+      expect(car?.precio).toBe(250000);
+    });
+
+    it('should forbid deleting a car created by another user', async () => {
+      const response = await request(app)
+        .delete(`/api/cars/${testCarId}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(403);
+
+      expect(response.body).toHaveProperty('status', 403);
+
+      const car = await Car.findById(testCarId);
+      expect(car?.isDeleted).toBe(false);
+    });
+
+    it('should forbid non-admin users from modifying cars without creator', async () => {
+      await Car.findByIdAndUpdate(testCarId, { $unset: { createdBy: 1 } });
+
+      await request(app)
+        .patch(`/api/cars/${testCarId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ precio: 260000 })
+        .expect(403);
+    });
+
+    it('should allow an admin to update any car', async () => {
+      const response = await request(app)
+        .patch(`/api/cars/${testCarId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ precio: 270000 })
+        .expect(200);
+
+      expect(response.body.data).toHaveProperty('precio', 270000);
+    });
+
+    it('should allow an admin to delete any car', async () => {
+      await request(app)
+        .delete(`/api/cars/${testCarId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      const car = await Car.findById(testCarId);
+      expect(car?.isDeleted).toBe(true);
+    });
+
+    it('should still return 404 for non-existent car to non-owners', async () => {
+      const fakeId = new mongoose.Types.ObjectId().toString();
+
+      await request(app)
+        .delete(`/api/cars/${fakeId}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('Trash management', () => {
+    const daysAgo = (days: number): Date => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    beforeEach(async () => {
+      await Car.create([
+        {
+          marca: 'Toyota',
+          modelo: 'Corolla',
+          anio: 2020,
+          precio: 250000,
+          kilometraje: 15000,
+          email: 'test1@example.com',
+          telefono: '1234567890',
+          isDeleted: true,
+          fechaEliminacion: daysAgo(40),
+        },
+        {
+          marca: 'Honda',
+          modelo: 'Civic',
+          anio: 2021,
+          precio: 300000,
+          kilometraje: 8000,
+          email: 'test2@example.com',
+          telefono: '0987654321',
+          isDeleted: true,
+          fechaEliminacion: daysAgo(2),
+        },
+        {
+          marca: 'Toyota',
+          modelo: 'Camry',
+          anio: 2019,
+          precio: 280000,
+          kilometraje: 25000,
+          email: 'test3@example.com',
+          telefono: '1122334455',
+        },
+      ]);
+    });
+
+    it('should list only deleted cars with pagination', async () => {
+      const response = await request(app)
+        .get('/api/cars/trash?page=1&limit=1')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body).toHaveProperty('message', 'Papelera obtenida exitosamente');
+      expect(response.body.data.pagination).toHaveProperty('total', 2);
+      expect(response.body.data.pagination).toHaveProperty('totalPages', 2);
+      expect(response.body.data.data).toHaveLength(1);
+      // Ordenados por fecha de eliminación más reciente
+      expect(response.body.data.data[0]).toHaveProperty('modelo', 'Civic');
+      expect(response.body.data.data[0].isDeleted).toBe(true);
+    });
+
+    it('should forbid trash access to non-admin users', async () => {
+      await request(app)
+        .get('/api/cars/trash')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(403);
+    });
+
+    it('should restore a deleted car', async () => {
+      const deleted = await Car.findOne({ modelo: 'Civic' });
+
+      const response = await request(app)
+        .post(`/api/cars/${deleted?._id}/restore`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body).toHaveProperty('message', 'Auto restaurado exitosamente');
+      expect(response.body.data).toHaveProperty('isDeleted', false);
+      expect(response.body.data.fechaEliminacion).toBeNull();
+
+      await request(app)
+        .get(`/api/cars/${deleted?._id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+    });
+
+    it('should return 404 when restoring a car that is not in the trash', async () => {
+      const active = await Car.findOne({ modelo: 'Camry' });
+
+      await request(app)
+        .post(`/api/cars/${active?._id}/restore`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+    });
+
+    it('should permanently purge a deleted car', async () => {
+      const deleted = await Car.findOne({ modelo: 'Civic' });
+
+      await request(app)
+        .delete(`/api/cars/${deleted?._id}/purge`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(await Car.findById(deleted?._id)).toBeNull();
+    });
+
+    it('should not purge a car that is not in the trash', async () => {
+      const active = await Car.findOne({ modelo: 'Camry' });
+
+      await request(app)
+        .delete(`/api/cars/${active?._id}/purge`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+
+      expect(await Car.findById(active?._id)).not.toBeNull();
+    });
+
+    it('should purge deleted cars older than N days', async () => {
+      const response = await request(app)
+        .delete('/api/cars/trash?olderThanDays=30')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data).toHaveProperty('purged', 1);
+      expect(await Car.countDocuments({ isDeleted: true })).toBe(1);
+      expect(await Car.countDocuments({ isDeleted: false })).toBe(1);
+    });
+
+    it('should require olderThanDays to purge the trash', async () => {
+      await request(app)
+        .delete('/api/cars/trash')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+    });
+  });
+
+  describe('Photo lifecycle', () => {
+    const uploadsDir = path.resolve(config.UPLOAD_PATH);
+    const testImagePath = path.join(__dirname, 'lifecycle-image.jpg');
+
+    beforeAll(async () => {
+      fs.writeFileSync(testImagePath, await createTestImage('jpeg'));
+    });
+
+    afterAll(() => {
+      if (fs.existsSync(testImagePath)) {
+        fs.unlinkSync(testImagePath);
+      }
+    });
+
+    const createCarWithPhoto = async (): Promise<{ id: string; filename: string }> => {
+      const response = await request(app)
+        .post('/api/cars')
+        .set('Authorization', `Bearer ${authToken}`)
+        .field('marca', 'Toyota')
+        .field('modelo', 'Corolla')
+        .field('anio', 2020)
+        .field('precio', 250000)
+        .field('kilometraje', 15000)
+        .field('email', 'photo@example.com')
+        .field('telefono', '1234567890')
+        .attach('foto', testImagePath)
+        .expect(201);
+
+      const car = await Car.findById(response.body.data.id);
+      return { id: response.body.data.id, filename: car?.foto as string };
+    };
+
+    it('should keep the photo while the car is in the trash and restore it', async () => {
+      const { id, filename } = await createCarWithPhoto();
+
+      await request(app)
+        .delete(`/api/cars/${id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(fs.existsSync(path.join(uploadsDir, filename))).toBe(true);
+
+      const response = await request(app)
+        .post(`/api/cars/${id}/restore`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.foto).toContain(filename);
+
+      await Car.findByIdAndDelete(id);
+      await deleteFile(filename);
+    });
+
+    it('should remove the photo when the car is purged', async () => {
+      const { id, filename } = await createCarWithPhoto();
+
+      await request(app)
+        .delete(`/api/cars/${id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      await request(app)
+        .delete(`/api/cars/${id}/purge`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(fs.existsSync(path.join(uploadsDir, filename))).toBe(false);
+      expect(fs.readdirSync(uploadsDir).some((f) => f.startsWith(path.parse(filename).name))).toBe(
+        false
+      );
+    });
+
+    it('should delete the photo when foto is cleared with PATCH', async () => {
+      const { id, filename } = await createCarWithPhoto();
+
+      const response = await request(app)
+        .patch(`/api/cars/${id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ foto: null })
+        .expect(200);
+
+      expect(response.body.data.foto).toBeNull();
+      expect(response.body.data.fotos).toEqual([]);
+      expect(fs.existsSync(path.join(uploadsDir, filename))).toBe(false);
+
+      await Car.findByIdAndDelete(id);
+    });
+
+    it('should keep the gallery when PUT replaces the car data', async () => {
+      const { id, filename } = await createCarWithPhoto();
+
+      const response = await request(app)
+        .put(`/api/cars/${id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          marca: 'Toyota',
+          modelo: 'Corolla',
+          anio: 2020,
+          precio: 240000,
+          kilometraje: 15000,
+          email: 'photo@example.com',
+          telefono: '1234567890',
+        })
+        .expect(200);
+
+      expect(response.body.data.foto).toContain(filename);
+
+      await Car.findByIdAndDelete(id);
+      await deleteFile(filename);
+    });
+
+    it('should report files not referenced by any car', async () => {
+      const orphanName = `orphan-${Date.now()}.jpg`;
+      fs.writeFileSync(path.join(uploadsDir, orphanName), 'orphan');
+
+      try {
+        const response = await request(app)
+          .get('/api/cars/photos/orphans')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(200);
+
+        const filenames = response.body.data.files.map((f: { filename: string }) => f.filename);
+        expect(filenames).toContain(orphanName);
+        expect(filenames).not.toContain('.gitkeep');
+      } finally {
+        fs.unlinkSync(path.join(uploadsDir, orphanName));
+      }
+    });
+
+    it('should forbid the orphan report to non-admin users', async () => {
+      await request(app)
+        .get('/api/cars/photos/orphans')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(403);
+    });
+
+    it('should forbid orphan photo management to roles other than admin', async () => {
+      await User.deleteMany({ email: 'orphanmanager@example.com' });
+      await Role.deleteMany({ name: 'orphan_org_manager' });
+      await Role.create({
+        name: 'orphan_org_manager',
+        description: 'Administra organizaciones',
+        permissions: ['cars:read', 'organizations:manage'],
+      });
+      await User.create({
+        email: 'orphanmanager@example.com',
+        password: 'Autos2024Seguro',
+        name: 'Orphan Manager',
+        role: 'orphan_org_manager',
+      });
+
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'orphanmanager@example.com', password: 'Autos2024Seguro' });
+      const managerToken = login.body.data.token;
+
+      await request(app)
+        .get('/api/cars/photos/orphans')
+        .set('Authorization', `Bearer ${managerToken}`)
+        .expect(403);
+      await request(app)
+        .delete('/api/cars/photos/orphans')
+        .set('Authorization', `Bearer ${managerToken}`)
+        .expect(403);
+
+      await User.deleteMany({ email: 'orphanmanager@example.com' });
+      await Role.deleteMany({ name: 'orphan_org_manager' });
+    });
+  });
+
+  describe('Photo gallery', () => {
+    const uploadsDir = path.resolve(config.UPLOAD_PATH);
+    const imageA = path.join(__dirname, 'gallery-a.jpg');
+    const imageB = path.join(__dirname, 'gallery-b.png');
+    const basename = (url: string): string => url.split('/').pop() as string;
+
+    beforeAll(async () => {
+      fs.writeFileSync(imageA, await createTestImage('jpeg'));
+      fs.writeFileSync(imageB, await createTestImage('png'));
+    });
+
+    afterAll(() => {
+      [imageA, imageB].forEach((file) => fs.existsSync(file) && fs.unlinkSync(file));
+    });
+
+    beforeEach(async () => {
+      const car = await Car.create({
+        marca: 'Toyota',
+        modelo: 'Corolla',
+        anio: 2020,
+        precio: 250000,
+        kilometraje: 15000,
+        email: 'test@example.com',
+        telefono: '1234567890',
+        createdBy: testUserId,
+      });
+      testCarId = (car._id as mongoose.Types.ObjectId).toString();
+    });
+
+    afterEach(async () => {
+      const car = await Car.findById(testCarId);
+      (car?.fotos || []).forEach((foto) => {
+        const file = path.join(uploadsDir, foto);
+        if (fs.existsSync(file)) {
+          fs.unlinkSync(file);
+        }
+      });
+    });
+
+    const addPhotos = () =>
+      request(app)
+        .post(`/api/cars/${testCarId}/photos`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .attach('fotos', imageA)
+        .attach('fotos', imageB);
+
+    it('should add photos and use the first one as cover', async () => {
+      const response = await addPhotos().expect(200);
+
+      expect(response.body.data.fotos).toHaveLength(2);
+      expect(response.body.data.fotos[0]).toMatch(/^http/);
+      expect(response.body.data.foto).toBe(response.body.data.fotos[0]);
+    });
+
+    it('should return an empty gallery for cars without photos', async () => {
+      const response = await request(app)
+        .get(`/api/cars/${testCarId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.fotos).toEqual([]);
+      expect(response.body.data.foto).toBeNull();
+    });
+
+    it('should fail when no photos are sent', async () => {
+      await request(app)
+        .post(`/api/cars/${testCarId}/photos`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(400);
+    });
+
+    it('should reorder photos', async () => {
+      const added = await addPhotos().expect(200);
+      const [first, second] = added.body.data.fotos.map(basename);
+
+      const response = await request(app)
+        .put(`/api/cars/${testCarId}/photos/order`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ fotos: [second, first] })
+        .expect(200);
+
+      expect(response.body.data.fotos.map(basename)).toEqual([second, first]);
+      // La portada no cambia al reordenar
+      expect(basename(response.body.data.foto)).toBe(first);
+    });
+
+    it('should reject an order that does not include every photo', async () => {
+      const added = await addPhotos().expect(200);
+      const [first] = added.body.data.fotos.map(basename);
+
+      await request(app)
+        .put(`/api/cars/${testCarId}/photos/order`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ fotos: [first] })
+        .expect(400);
+    });
+
+    it('should set the cover photo', async () => {
+      const added = await addPhotos().expect(200);
+      const second = added.body.data.fotos[1];
+
+      const response = await request(app)
+        .put(`/api/cars/${testCarId}/photos/cover`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ foto: second })
+        .expect(200);
+
+      expect(response.body.data.foto).toBe(second);
+    });
+
+    it('should remove the cover photo and promote the next one', async () => {
+      const added = await addPhotos().expect(200);
+      const [first, second] = added.body.data.fotos.map(basename);
+
+      const response = await request(app)
+        .delete(`/api/cars/${testCarId}/photos/${first}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.fotos.map(basename)).toEqual([second]);
+      expect(basename(response.body.data.foto)).toBe(second);
+      expect(fs.existsSync(path.join(uploadsDir, first))).toBe(false);
+    });
+
+    it('should return 404 when removing a photo not in the gallery', async () => {
+      await request(app)
+        .delete(`/api/cars/${testCarId}/photos/unknown.jpg`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('Image processing', () => {
+    const uploadsDir = path.resolve(config.UPLOAD_PATH);
+    const imagePath = path.join(__dirname, 'processing-image.jpg');
+
+    afterEach(() => {
+      if (fs.existsSync(imagePath)) {
+        fs.unlinkSync(imagePath);
+      }
+    });
+
+    const uploadCar = () =>
+      request(app)
+        .post('/api/cars')
+        .set('Authorization', `Bearer ${authToken}`)
+        .field('marca', 'Toyota')
+        .field('modelo', 'Corolla')
+        .field('anio', 2020)
+        .field('precio', 250000)
+        .field('kilometraje', 15000)
+        .field('email', 'images@example.com')
+        .field('telefono', '1234567890')
+        .attach('foto', imagePath);
+
+    it('should generate thumbnail and medium renditions', async () => {
+      fs.writeFileSync(imagePath, await createTestImage('jpeg'));
+
+      const response = await uploadCar().expect(201);
+      const { foto, fotoThumbnail, fotoMedium, fotosThumbnail } = response.body.data;
+      const filename = path.basename(foto);
+
+      expect(path.basename(fotoThumbnail)).toBe(filename.replace('.jpg', '-thumb.jpg'));
+      expect(path.basename(fotoMedium)).toBe(filename.replace('.jpg', '-medium.jpg'));
+      expect(fotosThumbnail).toEqual([fotoThumbnail]);
+
+      const thumb = await sharp(path.join(uploadsDir, path.basename(fotoThumbnail))).metadata();
+      const medium = await sharp(path.join(uploadsDir, path.basename(fotoMedium))).metadata();
+      expect(thumb.width).toBe(config.IMAGE_THUMBNAIL_WIDTH);
+      expect(medium.width).toBe(config.IMAGE_MEDIUM_WIDTH);
+
+      await deleteFile(filename);
+    });
+
+    it('should strip EXIF metadata from the stored image', async () => {
+      const withExif = await sharp(await createTestImage('jpeg', 200))
+        .withExif({ IFD0: { Copyright: 'GPS 19.4326,-99.1332' } })
+        .toBuffer();
+      expect((await sharp(withExif).metadata()).exif).toBeDefined();
+      fs.writeFileSync(imagePath, withExif);
+
+      const response = await uploadCar().expect(201);
+      const filename = path.basename(response.body.data.foto);
+
+      const stored = await sharp(path.join(uploadsDir, filename)).metadata();
+      expect(stored.exif).toBeUndefined();
+
+      await deleteFile(filename);
+    });
+
+    it('should reject files whose content is not an image', async () => {
+      fs.writeFileSync(imagePath, Buffer.from('fake image content'));
+      const before = fs.readdirSync(uploadsDir).length;
+
+      const response = await uploadCar().expect(400);
+
+      expect(response.body).toHaveProperty('customMessage', 'El archivo no es una imagen válida');
+      expect(fs.readdirSync(uploadsDir).length).toBe(before);
+    });
+
+    it('should reject files whose content does not match the extension', async () => {
+      fs.writeFileSync(imagePath, await createTestImage('png', 200));
+
+      await uploadCar().expect(400);
+    });
+  });
+
   describe('GET /api/cars/search', () => {
     beforeEach(async () => {
       await Car.create([
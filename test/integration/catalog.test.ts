@@ -12,6 +12,7 @@ import { config } from '../../src/config/env';
 
 describe('Catalog API Integration Tests', () => {
   let authToken: string;
+  let adminToken: string;
 
   // Setup: Connect to test database and create test user
   beforeAll(async () => {
@@ -23,16 +24,31 @@ describe('Catalog API Integration Tests', () => {
     // Create test user directly
     await User.create({
       email: 'catalogtest@example.com',
-      password: 'Password123',
+      password: 'Autos2024Seguro',
       name: 'Catalog Test User',
     });
 
     // Get token by logging in
     const loginResponse = await request(app).post('/api/auth/login').send({
       email: 'catalogtest@example.com',
-      password: 'Password123',
+      password: 'Autos2024Seguro',
     });
     authToken = loginResponse.body.data.token;
+
+    await User.deleteMany({ email: 'catalogadmin@example.com' });
+
+    await User.create({
+      email: 'catalogadmin@example.com',
+      password: 'Autos2024Seguro',
+      name: 'Catalog Admin',
+      role: 'admin',
+    });
+
+    const adminLogin = await request(app).post('/api/auth/login').send({
+      email: 'catalogadmin@example.com',
+      password: 'Autos2024Seguro',
+    });
+    adminToken = adminLogin.body.data.token;
   });
 
   // Cleanup
@@ -259,7 +275,7 @@ describe('Catalog API Integration Tests', () => {
     it('should initialize catalogs successfully', async () => {
       const response = await request(app)
         .post('/api/catalogs/initialize')
-        .set('Authorization', `Bearer ${authToken}`)
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(201);
 
       expect(response.body).toHaveProperty('status', 201);
@@ -279,7 +295,7 @@ describe('Catalog API Integration Tests', () => {
       // First initialization
       await request(app)
         .post('/api/catalogs/initialize')
-        .set('Authorization', `Bearer ${authToken}`)
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(201);
 
       const firstCount = await Catalog.countDocuments({});
@@ -287,7 +303,7 @@ describe('Catalog API Integration Tests', () => {
       // Second initialization
       await request(app)
         .post('/api/catalogs/initialize')
-        .set('Authorization', `Bearer ${authToken}`)
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(201);
 
       const secondCount = await Catalog.countDocuments({});
@@ -302,10 +318,29 @@ describe('Catalog API Integration Tests', () => {
       expect(response.body).toHaveProperty('status', 401);
     });
 
+    it('should reject users without catalog:manage', async () => {
+      await Catalog.create({
+        marca: 'Toyota',
+        modelos: [{ nombre: 'Corolla', isActive: false }],
+        isActive: false,
+      });
+
+      const response = await request(app)
+        .post('/api/catalogs/initialize')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(403);
+
+      expect(response.body).toHaveProperty('customMessage', 'Permisos insuficientes');
+
+      const toyota = await Catalog.findOne({ marca: 'Toyota' });
+      expect(toyota?.isActive).toBe(false);
+      expect(toyota?.modelos).toHaveLength(1);
+    });
+
     it('should create default brands', async () => {
       await request(app)
         .post('/api/catalogs/initialize')
-        .set('Authorization', `Bearer ${authToken}`)
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(201);
 
       const toyota = await Catalog.findOne({ marca: 'Toyota' });
@@ -320,7 +355,7 @@ describe('Catalog API Integration Tests', () => {
     it('should create brands with models', async () => {
       await request(app)
         .post('/api/catalogs/initialize')
-        .set('Authorization', `Bearer ${authToken}`)
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(201);
 
       const toyota = await Catalog.findOne({ marca: 'Toyota' });
@@ -330,6 +365,153 @@ describe('Catalog API Integration Tests', () => {
     });
   });
 
+  describe('Admin catalog management', () => {
+    beforeEach(async () => {
+      await Catalog.create({
+        marca: 'Toyota',
+        modelos: [
+          { nombre: 'Corolla', isActive: true },
+          { nombre: 'Camry', isActive: true },
+        ],
+        isActive: true,
+      });
+    });
+
+    it('should create a brand with models', async () => {
+      const response = await request(app)
+        .post('/api/catalogs')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ marca: 'Kia', modelos: ['Rio', 'Forte'] })
+        .expect(201);
+
+      expect(response.body.data).toHaveProperty('marca', 'Kia');
+      expect(response.body.data.modelos).toHaveLength(2);
+    });
+
+    it('should reject brand creation without models', async () => {
+      const response = await request(app)
+        .post('/api/catalogs')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ marca: 'Kia' })
+        .expect(400);
+
+      expect(response.body.message).toContain('modelos');
+    });
+
+    it('should forbid catalog management to non-admin users', async () => {
+      const response = await request(app)
+        .post('/api/catalogs')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ marca: 'Kia', modelos: ['Rio'] })
+        .expect(403);
+
+      expect(response.body).toHaveProperty('name', 'Forbidden');
+    });
+
+    it('should require authentication for catalog management', async () => {
+      await request(app).delete('/api/catalogs/Toyota').expect(401);
+    });
+
+    it('should rename a brand', async () => {
+      const response = await request(app)
+        .patch('/api/catalogs/toyota')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ marca: 'Toyota Motors' })
+        .expect(200);
+
+      expect(response.body.data).toHaveProperty('marca', 'Toyota Motors');
+    });
+
+    it('should return 409 when renaming a brand to an existing name', async () => {
+      await Catalog.create({ marca: 'Honda', modelos: [], isActive: true });
+
+      await request(app)
+        .patch('/api/catalogs/Toyota')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ marca: 'honda' })
+        .expect(409);
+    });
+
+    it('should deactivate a brand', async () => {
+      await request(app)
+        .delete('/api/catalogs/Toyota')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      const brands = await request(app).get('/api/catalogs/brands').expect(200);
+      expect(brands.body.data.marcas).not.toContain('Toyota');
+    });
+
+    it('should return 404 when deactivating a non-existent brand', async () => {
+      await request(app)
+        .delete('/api/catalogs/Ferrari')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+    });
+
+    it('should add a model to a brand', async () => {
+      const response = await request(app)
+        .post('/api/catalogs/Toyota/models')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ modelo: 'Yaris' })
+        .expect(200);
+
+      const nombres = response.body.data.modelos.map((m: { nombre: string }) => m.nombre);
+      expect(nombres).toContain('Yaris');
+    });
+
+    it('should return 409 when adding an existing active model', async () => {
+      await request(app)
+        .post('/api/catalogs/Toyota/models')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ modelo: 'corolla' })
+        .expect(409);
+    });
+
+    it('should rename a model', async () => {
+      await request(app)
+        .patch('/api/catalogs/Toyota/models/Camry')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ nombre: 'Camry Hybrid' })
+        .expect(200);
+
+      const models = await request(app).get('/api/catalogs/models/Toyota').expect(200);
+      expect(models.body.data.modelos).toContain('Camry Hybrid');
+      expect(models.body.data.modelos).not.toContain('Camry');
+    });
+
+    it('should deactivate a model and reactivate it when added again', async () => {
+      await request(app)
+        .delete('/api/catalogs/Toyota/models/Camry')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      let models = await request(app).get('/api/catalogs/models/Toyota').expect(200);
+      expect(models.body.data.modelos).not.toContain('Camry');
+
+      await request(app)
+        .post('/api/catalogs/Toyota/models')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ modelo: 'Camry' })
+        .expect(200);
+
+      models = await request(app).get('/api/catalogs/models/Toyota').expect(200);
+      expect(models.body.data.modelos).toContain('Camry');
+
+      const toyota = await Catalog.findOne({ marca: 'Toyota' });
+      expect(toyota?.modelos.filter((m) => m.nombre === 'Camry')).toHaveLength(1);
+    });
+
+    it('should return 404 when deactivating a non-existent model', async () => {
+      const response = await request(app)
+        .delete('/api/catalogs/Toyota/models/Supra')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+
+      expect(response.body).toHaveProperty('message', 'Modelo no encontrado');
+    });
+  });
+
   describe('Edge cases and error handling', () => {
     it('should handle empty marca parameter gracefully', async () => {
       const response = await request(app).get('/api/catalogs/models/').expect(404);
@@ -1,5 +1,6 @@
 import request from 'supertest';
 import app from '../../src/server';
+import { config } from '../../src/config/env';
 
 describe('Health Check Endpoint', () => {
   describe('GET /health', () => {
@@ -31,5 +32,12 @@ describe('Health Check Endpoint', () => {
       expect(timestamp).toBeInstanceOf(Date);
       expect(timestamp.getTime()).not.toBeNaN();
     });
+
+    it('should expose the request id to cross-origin clients', async () => {
+      const response = await request(app).get('/health').set('Origin', config.CORS_ORIGIN);
+
+      expect(response.headers['x-request-id']).toBeDefined();
+      expect(response.headers['access-control-expose-headers']).toContain('X-Request-Id');
+    });
   });
 });
@@ -0,0 +1,385 @@
+/**
+ * Integration tests for organizations (multi-tenancy)
+ * @module test/integration/organizations
+ */
+
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../../src/server';
+import User from '../../src/models/User';
+import Car from '../../src/models/Car';
+import Catalog from '../../src/models/Catalog';
+import Organization from '../../src/models/Organization';
+import RefreshToken from '../../src/models/RefreshToken';
+import { config } from '../../src/config/env';
+
+const TEST_EMAILS = [
+  'orgadmin@example.com',
+  'orgnorte@example.com',
+  'orgsur@example.com',
+  'orgmulti@example.com',
+  'orgdefault@example.com',
+];
+const TEST_SLUGS = ['autos-norte', 'autos-sur', 'autos-centro'];
+
+const carData = {
+  marca: 'Peugeot',
+  modelo: '208',
+  anio: 2022,
+  precio: 310000,
+  kilometraje: 8000,
+  email: 'orgs@example.com',
+  telefono: '5551234567',
+};
+
+describe('Organizations API Integration Tests', () => {
+  const tokens: Record<string, string> = {};
+  const ids: Record<string, string> = {};
+  let norteId: string;
+  let surId: string;
+  let norteCarId: string;
+  let surCarId: string;
+  let legacyCarId: string;
+
+  const login = async (email: string) => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'Autos2024Seguro' });
+    return response.body.data.token as string;
+  };
+
+  const cleanUp = async () => {
+    const existing = await User.find({ email: { $in: TEST_EMAILS } }).select('_id');
+    const organizations = await Organization.find({ slug: { $in: TEST_SLUGS } }).select('_id');
+    await RefreshToken.deleteMany({ user: { $in: existing.map((user) => user._id) } });
+    await Car.deleteMany({ email: carData.email });
+    await Car.deleteMany({ organization: { $in: organizations.map((org) => org._id) } });
+    await User.deleteMany({ email: { $in: TEST_EMAILS } });
+    await Organization.deleteMany({ slug: { $in: TEST_SLUGS } });
+    await Catalog.deleteMany({ marca: 'Peugeot' });
+  };
+
+  beforeAll(async () => {
+    await mongoose.connect(config.MONGODB_URI);
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+
+    await Catalog.create({ marca: 'Peugeot', modelos: [{ nombre: '208', isActive: true }] });
+
+    const [norte, sur] = await Organization.create([
+      { name: 'Autos Norte', slug: 'autos-norte' },
+      { name: 'Autos Sur', slug: 'autos-sur' },
+    ]);
+    norteId = String(norte._id);
+    surId = String(sur._id);
+
+    const users = await User.create(
+      [
+        { email: 'orgadmin@example.com', name: 'Org Admin', role: 'admin' },
+        {
+          email: 'orgnorte@example.com',
+          name: 'Gerente Norte',
+          role: 'inventory_manager',
+          organizations: [norte._id],
+        },
+        {
+          email: 'orgsur@example.com',
+          name: 'Gerente Sur',
+          role: 'inventory_manager',
+          organizations: [sur._id],
+        },
+        {
+          email: 'orgmulti@example.com',
+          name: 'Vendedor Multi',
+          role: 'salesperson',
+          organizations: [norte._id, sur._id],
+        },
+        { email: 'orgdefault@example.com', name: 'Sin Organización', role: 'inventory_manager' },
+      ].map((user) => ({ ...user, password: 'Autos2024Seguro', emailVerified: true }))
+    );
+
+    for (const user of users) {
+      const key = user.email.replace('org', '').replace('@example.com', '');
+      ids[key] = String(user._id);
+      tokens[key] = await login(user.email);
+    }
+
+    const [norteCar, surCar, legacyCar] = await Car.create([
+      { ...carData, color: 'Rojo', organization: norte._id, createdBy: ids.norte },
+      { ...carData, color: 'Azul', precio: 500000, organization: sur._id },
+      // Auto anterior a la multi-tenencia: pertenece a la organización por defecto
+      { ...carData, color: 'Verde' },
+    ]);
+    norteCarId = String(norteCar._id);
+    surCarId = String(surCar._id);
+    legacyCarId = String(legacyCar._id);
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await mongoose.connection.close();
+  });
+
+  describe('Tenant isolation', () => {
+    it('should only list the cars of the active organization', async () => {
+      const norte = await request(app)
+        .get('/api/cars')
+        .query({ limit: 100 })
+        .set('Authorization', `Bearer ${tokens.norte}`)
+        .expect(200);
+      const norteIds = norte.body.data.data.map((car: { _id: string }) => car._id);
+
+      expect(norteIds).toContain(norteCarId);
+      expect(norteIds).not.toContain(surCarId);
+      expect(norteIds).not.toContain(legacyCarId);
+
+      const sur = await request(app)
+        .get('/api/cars')
+        .query({ limit: 100 })
+        .set('Authorization', `Bearer ${tokens.sur}`)
+        .expect(200);
+      const surIds = sur.body.data.data.map((car: { _id: string }) => car._id);
+
+      expect(surIds).toEqual([surCarId]);
+    });
+
+    it('should treat cars of other organizations as not found', async () => {
+      await request(app)
+        .get(`/api/cars/${surCarId}`)
+        .set('Authorization', `Bearer ${tokens.norte}`)
+        .expect(404);
+
+      await request(app)
+        .patch(`/api/cars/${surCarId}`)
+        .set('Authorization', `Bearer ${tokens.norte}`)
+        .send({ precio: 1 })
+        .expect(404);
+
+      await request(app)
+        .delete(`/api/cars/${surCarId}`)
+        .set('Authorization', `Bearer ${tokens.norte}`)
+        .expect(404);
+
+      const untouched = await Car.findById(surCarId);
+      expect(untouched!.precio).toBe(500000);
+      expect(untouched!.isDeleted).toBe(false);
+    });
+
+    it('should keep the trash separated by organization', async () => {
+      await Car.updateOne({ _id: surCarId }, { isDeleted: true, fechaEliminacion: new Date() });
+
+      const trash = await request(app)
+        .get('/api/cars/trash')
+        .set('Authorization', `Bearer ${tokens.norte}`)
+        .expect(200);
+      expect(trash.body.data.data.map((car: { _id: string }) => car._id)).not.toContain(surCarId);
+
+      await request(app)
+        .post(`/api/cars/${surCarId}/restore`)
+        .set('Authorization', `Bearer ${tokens.norte}`)
+        .expect(404);
+
+      await request(app)
+        .delete(`/api/cars/${surCarId}/purge`)
+        .set('Authorization', `Bearer ${tokens.norte}`)
+        .expect(404);
+
+      expect(await Car.exists({ _id: surCarId })).not.toBeNull();
+    });
+
+    it('should compute stats and search within the active organization', async () => {
+      const stats = await request(app)
+        .get('/api/cars/stats')
+        .set('Authorization', `Bearer ${tokens.sur}`)
+        .expect(200);
+
+      expect(stats.body.data).toMatchObject({ total: 1, active: 1, averagePrice: 500000 });
+
+      const search = await request(app)
+        .get('/api/cars/search')
+        .query({ q: 'Peugeot' })
+        .set('Authorization', `Bearer ${tokens.sur}`)
+        .expect(200);
+
+      expect(search.body.data.map((car: { _id: string }) => car._id)).toEqual([surCarId]);
+    });
+
+    it('should create cars in the active organization', async () => {
+      const response = await request(app)
+        .post('/api/cars')
+        .set('Authorization', `Bearer ${tokens.norte}`)
+        .send(carData)
+        .expect(201);
+
+      expect(response.body.data.organization).toBe(norteId);
+
+      await request(app)
+        .get(`/api/cars/${response.body.data.id}`)
+        .set('Authorization', `Bearer ${tokens.sur}`)
+        .expect(404);
+    });
+
+    it('should keep cars without organization in the default organization', async () => {
+      const response = await request(app)
+        .get(`/api/cars/${legacyCarId}`)
+        .set('Authorization', `Bearer ${tokens.default}`)
+        .expect(200);
+      expect(response.body.data.color).toBe('Verde');
+
+      const list = await request(app)
+        .get('/api/cars')
+        .query({ limit: 100 })
+        .set('Authorization', `Bearer ${tokens.default}`)
+        .expect(200);
+      const listIds = list.body.data.data.map((car: { _id: string }) => car._id);
+
+      expect(listIds).toContain(legacyCarId);
+      expect(listIds).not.toContain(norteCarId);
+      expect(listIds).not.toContain(surCarId);
+    });
+  });
+
+  describe('Active organization selection', () => {
+    it('should use the first organization and switch with X-Organization-Id', async () => {
+      const first = await request(app)
+        .get('/api/cars/stats')
+        .set('Authorization', `Bearer ${tokens.multi}`)
+        .expect(200);
+      expect(first.body.data.averagePrice).toBe(carData.precio);
+
+      const switched = await request(app)
+        .get(`/api/cars/${surCarId}`)
+        .set('Authorization', `Bearer ${tokens.multi}`)
+        .set('X-Organization-Id', surId)
+        .expect(200);
+      expect(switched.body.data._id).toBe(surCarId);
+    });
+
+    it('should reject organizations the user does not belong to', async () => {
+      const response = await request(app)
+        .get('/api/cars')
+        .set('Authorization', `Bearer ${tokens.norte}`)
+        .set('X-Organization-Id', surId)
+        .expect(403);
+
+      expect(response.body.customMessage).toBe('No perteneces a esta organización');
+    });
+
+    it('should let users with organizations:manage operate in any organization', async () => {
+      await request(app)
+        .get(`/api/cars/${surCarId}`)
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .set('X-Organization-Id', surId)
+        .expect(200);
+
+      await request(app)
+        .get('/api/cars')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .set('X-Organization-Id', new mongoose.Types.ObjectId().toString())
+        .expect(404);
+    });
+
+    it('should block deactivated organizations', async () => {
+      await request(app)
+        .patch(`/api/organizations/${surId}`)
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .send({ isActive: false })
+        .expect(200);
+
+      const response = await request(app)
+        .get('/api/cars')
+        .set('Authorization', `Bearer ${tokens.sur}`)
+        .expect(403);
+      expect(response.body.customMessage).toBe('Organización desactivada');
+    });
+  });
+
+  describe('Organization administration', () => {
+    it('should create organizations and manage their members', async () => {
+      const created = await request(app)
+        .post('/api/organizations')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .send({ name: 'Autos Centro', slug: 'Autos-Centro' })
+        .expect(201);
+      expect(created.body.data).toMatchObject({ slug: 'autos-centro', membersCount: 0 });
+
+      const centroId = created.body.data.id;
+
+      await request(app)
+        .post('/api/organizations')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .send({ name: 'Otra', slug: 'autos-centro' })
+        .expect(409);
+
+      const added = await request(app)
+        .post(`/api/organizations/${centroId}/members`)
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .send({ userId: ids.norte })
+        .expect(200);
+      expect(added.body.data.organizations).toEqual([norteId, centroId]);
+
+      await request(app)
+        .post(`/api/organizations/${centroId}/members`)
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .send({ userId: ids.norte })
+        .expect(409);
+
+      await request(app)
+        .get(`/api/cars`)
+        .set('Authorization', `Bearer ${tokens.norte}`)
+        .set('X-Organization-Id', centroId)
+        .expect(200);
+
+      const removed = await request(app)
+        .delete(`/api/organizations/${centroId}/members/${ids.norte}`)
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(200);
+      expect(removed.body.data.organizations).toEqual([norteId]);
+
+      await request(app)
+        .get(`/api/cars`)
+        .set('Authorization', `Bearer ${tokens.norte}`)
+        .set('X-Organization-Id', centroId)
+        .expect(403);
+    });
+
+    it('should list organizations with their member count', async () => {
+      const response = await request(app)
+        .get('/api/organizations')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(200);
+
+      const organizations = response.body.data as { slug: string; membersCount: number }[];
+
+      expect(organizations.find((org) => org.slug === 'autos-norte')!.membersCount).toBe(2);
+      expect(
+        organizations.find((org) => org.slug === config.DEFAULT_ORGANIZATION_SLUG)
+      ).toMatchObject({ isDefault: true });
+    });
+
+    it('should not allow deactivating the default organization', async () => {
+      const list = await request(app)
+        .get('/api/organizations')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(200);
+      const defaultOrganization = list.body.data.find(
+        (org: { isDefault: boolean }) => org.isDefault
+      );
+
+      await request(app)
+        .patch(`/api/organizations/${defaultOrganization.id}`)
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .send({ isActive: false })
+        .expect(400);
+    });
+
+    it('should require organizations:manage', async () => {
+      await request(app)
+        .get('/api/organizations')
+        .set('Authorization', `Bearer ${tokens.norte}`)
+        .expect(403);
+    });
+  });
+});
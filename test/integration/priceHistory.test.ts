@@ -0,0 +1,228 @@
+/**
+ * Integration tests for car price history and price-drop tracking
+ * @module test/integration/priceHistory
+ */
+
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../../src/server';
+import User from '../../src/models/User';
+import Car from '../../src/models/Car';
+import CarVersion from '../../src/models/CarVersion';
+import PriceChange from '../../src/models/PriceChange';
+import Catalog from '../../src/models/Catalog';
+import RefreshToken from '../../src/models/RefreshToken';
+import { config } from '../../src/config/env';
+
+const TEST_EMAIL = 'priceseller@example.com';
+
+const carData = {
+  marca: 'Fiat',
+  modelo: 'Cronos',
+  anio: 2022,
+  precio: 400000,
+  kilometraje: 10000,
+  email: 'prices@example.com',
+  telefono: '5551234567',
+};
+
+describe('Price History API Integration Tests', () => {
+  let sellerToken: string;
+  let sellerId: string;
+  let carId: string;
+
+  const cleanUp = async () => {
+    const existing = await User.find({ email: TEST_EMAIL }).select('_id');
+    const cars = await Car.find({ email: carData.email }).select('_id');
+    const carIds = cars.map((car) => car._id);
+    await RefreshToken.deleteMany({ user: { $in: existing.map((user) => user._id) } });
+    await CarVersion.deleteMany({ car: { $in: carIds } });
+    await PriceChange.deleteMany({ car: { $in: carIds } });
+    await Car.deleteMany({ email: carData.email });
+    await User.deleteMany({ email: TEST_EMAIL });
+    await Catalog.deleteMany({ marca: 'Fiat' });
+  };
+
+  const updateCar = (id: string, changes: Record<string, unknown>) =>
+    request(app)
+      .patch(`/api/cars/${id}`)
+      .set('Authorization', `Bearer ${sellerToken}`)
+      .send(changes);
+
+  const getCar = (id: string) =>
+    request(app).get(`/api/cars/${id}`).set('Authorization', `Bearer ${sellerToken}`).expect(200);
+
+  beforeAll(async () => {
+    await mongoose.connect(config.MONGODB_URI);
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+
+    await Catalog.create({ marca: 'Fiat', modelos: [{ nombre: 'Cronos', isActive: true }] });
+
+    const seller = await User.create({
+      email: TEST_EMAIL,
+      name: 'Price Seller',
+      role: 'salesperson',
+      password: 'Autos2024Seguro',
+      emailVerified: true,
+    });
+    sellerId = String(seller._id);
+
+    const login = await request(app)
+      .post('/api/auth/login')
+      .send({ email: TEST_EMAIL, password: 'Autos2024Seguro' });
+    sellerToken = login.body.data.token;
+
+    const created = await request(app)
+      .post('/api/cars')
+      .set('Authorization', `Bearer ${sellerToken}`)
+      .send(carData)
+      .expect(201);
+    carId = created.body.data._id;
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await mongoose.connection.close();
+  });
+
+  describe('GET /api/cars/:id/price-history', () => {
+    it('should record each price change with its author in chronological order', async () => {
+      await updateCar(carId, { precio: 380000 }).expect(200);
+      // Cambios que no tocan el precio no se registran
+      await updateCar(carId, { kilometraje: 12000 }).expect(200);
+      await updateCar(carId, { precio: 390000 }).expect(200);
+
+      const response = await request(app)
+        .get(`/api/cars/${carId}/price-history`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(200);
+
+      expect(response.body.data.pagination.total).toBe(2);
+      expect(response.body.data.data).toMatchObject([
+        { previousPrice: 400000, price: 380000, difference: -20000, changedBy: sellerId },
+        { previousPrice: 380000, price: 390000, difference: 10000, changedBy: sellerId },
+      ]);
+    });
+
+    it('should record price changes made by reverting a version', async () => {
+      await updateCar(carId, { precio: 350000 }).expect(200);
+
+      await request(app)
+        .post(`/api/cars/${carId}/history/1/revert`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(200);
+
+      const response = await request(app)
+        .get(`/api/cars/${carId}/price-history`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(200);
+
+      expect(response.body.data.data.map((change: { price: number }) => change.price)).toEqual([
+        350000, 400000,
+      ]);
+    });
+
+    it('should return 404 for unknown cars', async () => {
+      await request(app)
+        .get(`/api/cars/${new mongoose.Types.ObjectId()}/price-history`)
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('Price-drop fields', () => {
+    it('should report no drop for cars at their original price', async () => {
+      const response = await getCar(carId);
+
+      expect(response.body.data).toMatchObject({
+        precio: 400000,
+        precioOriginal: 400000,
+        porcentajeRebaja: 0,
+        fechaUltimaRebaja: null,
+      });
+    });
+
+    it('should compute the drop against the original price', async () => {
+      await updateCar(carId, { precio: 350000 }).expect(200);
+      await updateCar(carId, { precio: 370000 }).expect(200);
+
+      const response = await getCar(carId);
+
+      expect(response.body.data.precioOriginal).toBe(400000);
+      expect(response.body.data.porcentajeRebaja).toBe(7.5);
+      expect(response.body.data.fechaUltimaRebaja).not.toBeNull();
+    });
+
+    it('should clear the drop date when the price returns to the original', async () => {
+      await updateCar(carId, { precio: 350000 }).expect(200);
+      await updateCar(carId, { precio: 400000 }).expect(200);
+
+      const response = await getCar(carId);
+
+      expect(response.body.data.porcentajeRebaja).toBe(0);
+      expect(response.body.data.fechaUltimaRebaja).toBeNull();
+    });
+
+    it('should use the previous price as original for cars created before price history', async () => {
+      await Car.updateOne({ _id: carId }, { $unset: { precioOriginal: 1 } });
+
+      expect((await getCar(carId)).body.data.precioOriginal).toBe(400000);
+
+      await updateCar(carId, { precio: 300000 }).expect(200);
+
+      const response = await getCar(carId);
+
+      expect(response.body.data.precioOriginal).toBe(400000);
+      expect(response.body.data.porcentajeRebaja).toBe(25);
+    });
+  });
+
+  describe('GET /api/cars?rebajaDias=N', () => {
+    it('should only list cars reduced within the given days', async () => {
+      const older = await request(app)
+        .post('/api/cars')
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .send({ ...carData, precio: 500000 })
+        .expect(201);
+      const olderId = older.body.data._id;
+
+      await updateCar(carId, { precio: 380000 }).expect(200);
+      await updateCar(olderId, { precio: 450000 }).expect(200);
+      await Car.updateOne(
+        { _id: olderId },
+        { fechaUltimaRebaja: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000) }
+      );
+
+      const recent = await request(app)
+        .get('/api/cars')
+        .query({ rebajaDias: 7 })
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(200);
+      const ids = recent.body.data.data.map((car: { _id: string }) => car._id);
+
+      expect(ids).toContain(carId);
+      expect(ids).not.toContain(olderId);
+
+      const wider = await request(app)
+        .get('/api/cars')
+        .query({ rebajaDias: 30 })
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(200);
+
+      expect(wider.body.data.data.map((car: { _id: string }) => car._id)).toEqual(
+        expect.arrayContaining([carId, olderId])
+      );
+    });
+
+    it('should reject invalid day counts', async () => {
+      await request(app)
+        .get('/api/cars')
+        .query({ rebajaDias: 0 })
+        .set('Authorization', `Bearer ${sellerToken}`)
+        .expect(400);
+    });
+  });
+});
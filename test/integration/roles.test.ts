@@ -0,0 +1,293 @@
+/**
+ * Integration tests for roles and permissions
+ * @module test/integration/roles
+ */
+
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../../src/server';
+import User from '../../src/models/User';
+import Car from '../../src/models/Car';
+import Catalog from '../../src/models/Catalog';
+import Role from '../../src/models/Role';
+import RefreshToken from '../../src/models/RefreshToken';
+import { config } from '../../src/config/env';
+import { ALL_PERMISSIONS } from '../../src/config/permissions';
+
+const TEST_USERS = [
+  { email: 'rolesadmin@example.com', name: 'Roles Admin', role: 'admin' },
+  { email: 'rolesviewer@example.com', name: 'Roles Viewer', role: 'viewer' },
+  { email: 'rolesseller@example.com', name: 'Roles Seller', role: 'salesperson' },
+  { email: 'rolesmanager@example.com', name: 'Roles Manager', role: 'inventory_manager' },
+];
+const TEST_EMAILS = TEST_USERS.map((user) => user.email);
+const CUSTOM_ROLES = ['auditor', 'temp_role'];
+
+const carData = {
+  marca: 'Peugeot',
+  modelo: '208',
+  anio: 2022,
+  precio: 310000,
+  kilometraje: 8000,
+  email: 'roles@example.com',
+  telefono: '5551234567',
+};
+
+describe('Roles API Integration Tests', () => {
+  const tokens: Record<string, string> = {};
+  const ids: Record<string, string> = {};
+
+  const login = async (email: string) => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'Autos2024Seguro' });
+    return response.body.data.token as string;
+  };
+
+  const cleanUp = async () => {
+    const existing = await User.find({ email: { $in: TEST_EMAILS } }).select('_id');
+    await RefreshToken.deleteMany({ user: { $in: existing.map((user) => user._id) } });
+    await Car.deleteMany({ createdBy: { $in: existing.map((user) => user._id) } });
+    await User.deleteMany({ email: { $in: TEST_EMAILS } });
+    await Role.deleteMany({ name: { $in: CUSTOM_ROLES } });
+    // Restaurar los permisos del rol del sistema que modifican las pruebas
+    await Role.updateOne({ name: 'viewer' }, { permissions: ['cars:read'] });
+    await Catalog.deleteMany({ marca: { $in: ['Peugeot', 'Fiat'] } });
+  };
+
+  beforeAll(async () => {
+    await mongoose.connect(config.MONGODB_URI);
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+
+    await Catalog.create({ marca: 'Peugeot', modelos: [{ nombre: '208', isActive: true }] });
+
+    const users = await User.create(
+      TEST_USERS.map((user) => ({ ...user, password: 'Autos2024Seguro', emailVerified: true }))
+    );
+
+    for (const user of users) {
+      ids[user.role] = String(user._id);
+      tokens[user.role] = await login(user.email);
+    }
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await mongoose.connection.close();
+  });
+
+  describe('GET /api/roles', () => {
+    it('should list the system roles with their permissions', async () => {
+      const response = await request(app)
+        .get('/api/roles')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(200);
+
+      const roles = response.body.data as { name: string; permissions: string[] }[];
+      const names = roles.map((role) => role.name);
+
+      expect(names).toEqual(
+        expect.arrayContaining(['admin', 'inventory_manager', 'salesperson', 'user', 'viewer'])
+      );
+      expect(roles.find((role) => role.name === 'admin')!.permissions).toEqual(ALL_PERMISSIONS);
+      expect(roles.find((role) => role.name === 'viewer')).toMatchObject({
+        permissions: ['cars:read'],
+        isSystem: true,
+      });
+    });
+
+    it('should list the permission registry', async () => {
+      const response = await request(app)
+        .get('/api/roles/permissions')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(200);
+
+      expect(response.body.data.map((permission: { name: string }) => permission.name)).toEqual(
+        ALL_PERMISSIONS
+      );
+    });
+
+    it('should forbid users without users:manage', async () => {
+      await request(app)
+        .get('/api/roles')
+        .set('Authorization', `Bearer ${tokens.inventory_manager}`)
+        .expect(403);
+    });
+  });
+
+  describe('Route permissions', () => {
+    it('should let viewers read cars but not create them', async () => {
+      await request(app)
+        .get('/api/cars')
+        .set('Authorization', `Bearer ${tokens.viewer}`)
+        .expect(200);
+
+      const response = await request(app)
+        .post('/api/cars')
+        .set('Authorization', `Bearer ${tokens.viewer}`)
+        .send(carData)
+        .expect(403);
+
+      expect(response.body.customMessage).toBe('Permisos insuficientes');
+    });
+
+    it('should only let salespeople edit their own cars', async () => {
+      const own = await request(app)
+        .post('/api/cars')
+        .set('Authorization', `Bearer ${tokens.salesperson}`)
+        .send(carData)
+        .expect(201);
+
+      await request(app)
+        .patch(`/api/cars/${own.body.data.id}`)
+        .set('Authorization', `Bearer ${tokens.salesperson}`)
+        .send({ precio: 300000 })
+        .expect(200);
+
+      const other = await request(app)
+        .post('/api/cars')
+        .set('Authorization', `Bearer ${tokens.inventory_manager}`)
+        .send(carData)
+        .expect(201);
+
+      await request(app)
+        .patch(`/api/cars/${other.body.data.id}`)
+        .set('Authorization', `Bearer ${tokens.salesperson}`)
+        .send({ precio: 300000 })
+        .expect(403);
+    });
+
+    it('should let inventory managers edit any car and manage the catalog', async () => {
+      const own = await request(app)
+        .post('/api/cars')
+        .set('Authorization', `Bearer ${tokens.salesperson}`)
+        .send(carData)
+        .expect(201);
+
+      await request(app)
+        .patch(`/api/cars/${own.body.data.id}`)
+        .set('Authorization', `Bearer ${tokens.inventory_manager}`)
+        .send({ precio: 295000 })
+        .expect(200);
+
+      await request(app)
+        .delete(`/api/cars/${own.body.data.id}`)
+        .set('Authorization', `Bearer ${tokens.inventory_manager}`)
+        .expect(200);
+
+      await request(app)
+        .post('/api/catalogs')
+        .set('Authorization', `Bearer ${tokens.inventory_manager}`)
+        .send({ marca: 'Fiat', modelos: ['Uno'] })
+        .expect(201);
+
+      await request(app)
+        .get('/api/users')
+        .set('Authorization', `Bearer ${tokens.inventory_manager}`)
+        .expect(403);
+    });
+  });
+
+  describe('Custom roles', () => {
+    it('should create a role and apply it to assigned users', async () => {
+      await request(app)
+        .post('/api/roles')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .send({ name: 'Auditor', description: 'Consulta autos', permissions: ['cars:read'] })
+        .expect(201);
+
+      const assigned = await request(app)
+        .put(`/api/users/${ids.salesperson}/role`)
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .send({ role: 'auditor' })
+        .expect(200);
+      expect(assigned.body.data.role).toBe('auditor');
+
+      await request(app)
+        .get('/api/cars')
+        .set('Authorization', `Bearer ${tokens.salesperson}`)
+        .expect(200);
+      await request(app)
+        .post('/api/cars')
+        .set('Authorization', `Bearer ${tokens.salesperson}`)
+        .send(carData)
+        .expect(403);
+    });
+
+    it('should reject duplicate roles, unknown permissions and unknown role assignments', async () => {
+      await request(app)
+        .post('/api/roles')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .send({ name: 'viewer', permissions: ['cars:read'] })
+        .expect(409);
+
+      await request(app)
+        .post('/api/roles')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .send({ name: 'temp_role', permissions: ['cars:fly'] })
+        .expect(400);
+
+      await request(app)
+        .put(`/api/users/${ids.viewer}/role`)
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .send({ role: 'temp_role' })
+        .expect(400);
+    });
+
+    it('should apply permission changes to existing sessions', async () => {
+      await request(app)
+        .patch('/api/roles/viewer')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .send({ permissions: ['cars:read', 'cars:create'] })
+        .expect(200);
+
+      await request(app)
+        .post('/api/cars')
+        .set('Authorization', `Bearer ${tokens.viewer}`)
+        .send(carData)
+        .expect(201);
+    });
+
+    it('should protect the admin role and system roles', async () => {
+      await request(app)
+        .patch('/api/roles/admin')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .send({ permissions: ['cars:read'] })
+        .expect(400);
+
+      await request(app)
+        .delete('/api/roles/viewer')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(400);
+    });
+
+    it('should only delete custom roles without users', async () => {
+      await request(app)
+        .post('/api/roles')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .send({ name: 'temp_role', permissions: [] })
+        .expect(201);
+      await User.updateOne({ _id: ids.viewer }, { role: 'temp_role' });
+
+      await request(app)
+        .delete('/api/roles/temp_role')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(409);
+
+      await User.updateOne({ _id: ids.viewer }, { role: 'viewer' });
+
+      await request(app)
+        .delete('/api/roles/temp_role')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(200);
+
+      await request(app)
+        .get('/api/roles/temp_role')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(404);
+    });
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Integration tests for User administration API
+ * @module test/integration/users
+ */
+
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../../src/server';
+import User from '../../src/models/User';
+import Car from '../../src/models/Car';
+import RefreshToken from '../../src/models/RefreshToken';
+import { config } from '../../src/config/env';
+
+const TEST_EMAILS = [
+  'usersadmin@example.com',
+  'usersmember@example.com',
+  'userstarget@example.com',
+];
+
+describe('Users API Integration Tests', () => {
+  let adminToken: string;
+  let adminId: string;
+  let memberToken: string;
+  let memberId: string;
+  let targetId: string;
+
+  const login = async (email: string) => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'Autos2024Seguro' });
+    return response.body.data;
+  };
+
+  beforeAll(async () => {
+    await mongoose.connect(config.MONGODB_URI);
+  });
+
+  beforeEach(async () => {
+    const existing = await User.find({ email: { $in: TEST_EMAILS } }).select('_id');
+    await RefreshToken.deleteMany({ user: { $in: existing.map((user) => user._id) } });
+    await Car.deleteMany({ createdBy: { $in: existing.map((user) => user._id) } });
+    await User.deleteMany({ email: { $in: TEST_EMAILS } });
+
+    const [admin, member, target] = await User.create([
+      {
+        email: 'usersadmin@example.com',
+        password: 'Autos2024Seguro',
+        name: 'Users Admin',
+        role: 'admin',
+      },
+      { email: 'usersmember@example.com', password: 'Autos2024Seguro', name: 'Users Member' },
+      { email: 'userstarget@example.com', password: 'Autos2024Seguro', name: 'Users Target' },
+    ]);
+    adminId = String(admin._id);
+    memberId = String(member._id);
+    targetId = String(target._id);
+
+    adminToken = (await login('usersadmin@example.com')).token;
+    memberToken = (await login('usersmember@example.com')).token;
+  });
+
+  afterAll(async () => {
+    const existing = await User.find({ email: { $in: TEST_EMAILS } }).select('_id');
+    await RefreshToken.deleteMany({ user: { $in: existing.map((user) => user._id) } });
+    await Car.deleteMany({ createdBy: { $in: existing.map((user) => user._id) } });
+    await User.deleteMany({ email: { $in: TEST_EMAILS } });
+    await mongoose.connection.close();
+  });
+
+  describe('GET /api/users', () => {
+    it('should list users with pagination for admins', async () => {
+      const response = await request(app)
+        .get('/api/users')
+        .query({ search: 'users', limit: 2 })
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.data).toHaveLength(2);
+      expect(response.body.data.pagination.total).toBeGreaterThanOrEqual(3);
+      expect(response.body.data.data[0]).not.toHaveProperty('password');
+    });
+
+    it('should filter users by search, role and status', async () => {
+      const response = await request(app)
+        .get('/api/users')
+        .query({ search: 'usersadmin', role: 'admin', isActive: true })
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.data).toHaveLength(1);
+      expect(response.body.data.data[0].email).toBe('usersadmin@example.com');
+    });
+
+    it('should forbid non-admin users', async () => {
+      const response = await request(app)
+        .get('/api/users')
+        .set('Authorization', `Bearer ${memberToken}`);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(app).get('/api/users');
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('GET /api/users/:id', () => {
+    it('should return a user by id', async () => {
+      const response = await request(app)
+        .get(`/api/users/${targetId}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        id: targetId,
+        email: 'userstarget@example.com',
+        role: 'user',
+        isActive: true,
+      });
+    });
+
+    it('should return 404 for a missing user', async () => {
+      const response = await request(app)
+        .get(`/api/users/${new mongoose.Types.ObjectId()}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should reject an invalid id', async () => {
+      const response = await request(app)
+        .get('/api/users/not-an-id')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('PATCH /api/users/:id', () => {
+    it('should update name, role and status', async () => {
+      const response = await request(app)
+        .patch(`/api/users/${targetId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'Renamed Target', role: 'admin' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.name).toBe('Renamed Target');
+      expect(response.body.data.role).toBe('admin');
+    });
+
+    it('should reject fields outside the allowed list', async () => {
+      const response = await request(app)
+        .patch(`/api/users/${targetId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ email: 'hijack@example.com', password: 'Hijacked123' });
+
+      expect(response.status).toBe(400);
+
+      const user = await User.findById(targetId).select('+password');
+      expect(user!.email).toBe('userstarget@example.com');
+      expect(await user!.comparePassword('Autos2024Seguro')).toBe(true);
+    });
+
+    it('should reject an invalid role', async () => {
+      const response = await request(app)
+        .patch(`/api/users/${targetId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ role: 'superuser' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('PUT /api/users/:id/role', () => {
+    it('should change the role and apply it to existing sessions', async () => {
+      const response = await request(app)
+        .put(`/api/users/${memberId}/role`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ role: 'admin' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.role).toBe('admin');
+
+      const listResponse = await request(app)
+        .get('/api/users')
+        .set('Authorization', `Bearer ${memberToken}`);
+
+      expect(listResponse.status).toBe(200);
+    });
+
+    it('should not allow an admin to change their own role', async () => {
+      const response = await request(app)
+        .put(`/api/users/${adminId}/role`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ role: 'user' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.customMessage).toBe(
+        'No puedes cambiar tu propio rol ni desactivar tu propia cuenta'
+      );
+    });
+  });
+
+  describe('Deactivation', () => {
+    it('should deactivate a user and revoke their sessions', async () => {
+      const response = await request(app)
+        .post(`/api/users/${memberId}/deactivate`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.isActive).toBe(false);
+
+      const activeTokens = await RefreshToken.countDocuments({ user: memberId, revokedAt: null });
+      expect(activeTokens).toBe(0);
+
+      const profileResponse = await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${memberToken}`);
+      expect(profileResponse.status).toBe(401);
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'usersmember@example.com', password: 'Autos2024Seguro' });
+      expect(loginResponse.status).toBe(401);
+    });
+
+    it('should reactivate a deactivated user', async () => {
+      await request(app)
+        .post(`/api/users/${memberId}/deactivate`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      const response = await request(app)
+        .post(`/api/users/${memberId}/reactivate`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.isActive).toBe(true);
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'usersmember@example.com', password: 'Autos2024Seguro' });
+      expect(loginResponse.status).toBe(200);
+    });
+
+    it('should not allow an admin to deactivate their own account', async () => {
+      const response = await request(app)
+        .post(`/api/users/${adminId}/deactivate`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/users/:id/unlock', () => {
+    it('should unlock an account locked by failed logins', async () => {
+      await User.updateOne(
+        { _id: targetId },
+        { failedLoginAttempts: 0, lockedUntil: new Date(Date.now() + 60 * 60 * 1000) }
+      );
+
+      const listResponse = await request(app)
+        .get('/api/users')
+        .query({ locked: true })
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(listResponse.body.data.data.map((user: { id: string }) => user.id)).toContain(
+        targetId
+      );
+
+      const lockedLogin = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'userstarget@example.com', password: 'Autos2024Seguro' });
+      expect(lockedLogin.status).toBe(423);
+
+      const response = await request(app)
+        .post(`/api/users/${targetId}/unlock`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.lockedUntil).toBeNull();
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'userstarget@example.com', password: 'Autos2024Seguro' });
+      expect(loginResponse.status).toBe(200);
+    });
+
+    it('should not allow non-admin users to unlock accounts', async () => {
+      const response = await request(app)
+        .post(`/api/users/${targetId}/unlock`)
+        .set('Authorization', `Bearer ${memberToken}`);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('GET /api/users/:id/cars', () => {
+    beforeEach(async () => {
+      await Car.create([
+        {
+          marca: 'Toyota',
+          modelo: 'Corolla',
+          anio: 2020,
+          precio: 250000,
+          kilometraje: 15000,
+          color: 'Rojo',
+          email: 'userstarget@example.com',
+          telefono: '5512345678',
+          createdBy: targetId,
+        },
+        {
+          marca: 'Toyota',
+          modelo: 'Camry',
+          anio: 2021,
+          precio: 350000,
+          kilometraje: 8000,
+          color: 'Azul',
+          email: 'userstarget@example.com',
+          telefono: '5512345678',
+          createdBy: targetId,
+          isDeleted: true,
+          fechaEliminacion: new Date(),
+        },
+      ]);
+    });
+
+    it('should list the cars created by a user', async () => {
+      const response = await request(app)
+        .get(`/api/users/${targetId}/cars`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.data).toHaveLength(1);
+      expect(response.body.data.data[0].modelo).toBe('Corolla');
+    });
+
+    it('should include deleted cars when requested', async () => {
+      const response = await request(app)
+        .get(`/api/users/${targetId}/cars`)
+        .query({ includeDeleted: true })
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.pagination.total).toBe(2);
+    });
+
+    it('should return 404 for a missing user', async () => {
+      const response = await request(app)
+        .get(`/api/users/${new mongoose.Types.ObjectId()}/cars`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
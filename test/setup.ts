@@ -11,6 +11,8 @@ process.env.JWT_SECRET = 'test_secret_key_for_testing';
 process.env.JWT_EXPIRES_IN = '1h';
 process.env.LOG_LEVEL = 'error';
 process.env.CORS_ORIGIN = 'http://localhost:3000';
+process.env.MAIL_TRANSPORT = 'file';
+process.env.MAIL_FILE_PATH = 'tmp/test-mail';
 
 // Global test timeout
 jest.setTimeout(10000);
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for audit snapshots and diffs
+ * @module test/unit/audit
+ */
+
+import mongoose from 'mongoose';
+import { auditSnapshot, diffSnapshots, getSelfAuditContext } from '../../src/utils/audit';
+
+describe('Audit utilities', () => {
+  describe('auditSnapshot', () => {
+    it('should keep only the audited fields and normalize their values', () => {
+      const createdBy = new mongoose.Types.ObjectId();
+
+      const snapshot = auditSnapshot('car', {
+        marca: 'Ford',
+        modelo: 'Focus',
+        precio: 250000,
+        createdBy,
+        fechaAlta: new Date('2024-01-01T00:00:00.000Z'),
+        fotos: ['a.jpg'],
+      });
+
+      expect(snapshot).toMatchObject({
+        marca: 'Ford',
+        precio: 250000,
+        createdBy: String(createdBy),
+        fotos: ['a.jpg'],
+        color: null,
+      });
+      expect(snapshot).not.toHaveProperty('fechaAlta');
+    });
+
+    it('should never include user secrets', () => {
+      const snapshot = auditSnapshot('user', {
+        email: 'ana@example.com',
+        password: 'hash',
+        twoFactorSecret: 'secret',
+        lockedUntil: new Date('2024-01-01T00:00:00.000Z'),
+      });
+
+      expect(snapshot).not.toHaveProperty('password');
+      expect(snapshot).not.toHaveProperty('twoFactorSecret');
+      expect(snapshot.lockedUntil).toBe('2024-01-01T00:00:00.000Z');
+    });
+
+    it('should use toObject on Mongoose documents', () => {
+      const document = { toObject: () => ({ marca: 'Honda', isActive: true, modelos: [] }) };
+
+      expect(auditSnapshot('catalog', document)).toEqual({
+        marca: 'Honda',
+        modelos: [],
+        isActive: true,
+      });
+    });
+  });
+
+  describe('diffSnapshots', () => {
+    it('should keep only the fields that changed', () => {
+      expect(
+        diffSnapshots(
+          { marca: 'Ford', precio: 250000, fotos: ['a.jpg', 'b.jpg'] },
+          { marca: 'Ford', precio: 240000, fotos: ['b.jpg', 'a.jpg'] }
+        )
+      ).toEqual({
+        before: { precio: 250000, fotos: ['a.jpg', 'b.jpg'] },
+        after: { precio: 240000, fotos: ['b.jpg', 'a.jpg'] },
+      });
+    });
+
+    it('should treat missing fields as null', () => {
+      expect(diffSnapshots({ color: null }, {})).toBeNull();
+      expect(diffSnapshots({}, { password: '[redacted]' })).toEqual({
+        before: { password: null },
+        after: { password: '[redacted]' },
+      });
+    });
+
+    it('should return null when nothing changed', () => {
+      expect(
+        diffSnapshots({ modelos: [{ nombre: 'Civic' }] }, { modelos: [{ nombre: 'Civic' }] })
+      ).toBeNull();
+    });
+  });
+
+  it('should use the user as actor for actions on their own account', () => {
+    const _id = new mongoose.Types.ObjectId();
+
+    expect(
+      getSelfAuditContext(
+        { _id, email: 'ana@example.com' },
+        { ip: '127.0.0.1', userAgent: 'jest', requestId: 'req-1' }
+      )
+    ).toEqual({
+      actorId: String(_id),
+      actorEmail: 'ana@example.com',
+      ip: '127.0.0.1',
+      requestId: 'req-1',
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Unit tests for car import file parsing and row validation
+ * @module test/unit/carImport
+ */
+
+import ExcelJS from 'exceljs';
+import carImportService from '../../src/services/carImport.service';
+import catalogService from '../../src/services/catalog.service';
+
+jest.mock('../../src/services/car.service', () => ({
+  __esModule: true,
+  default: {
+    createCar: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/services/catalog.service', () => ({
+  __esModule: true,
+  default: {
+    resolveCatalogEntry: jest.fn(),
+  },
+}));
+
+const resolveCatalogEntry = catalogService.resolveCatalogEntry as jest.Mock;
+
+const HEADERS = ['marca', 'modelo', 'anio', 'precio', 'kilometraje', 'email', 'telefono'];
+
+describe('CarImportService.parseFile', () => {
+  it('should read CSV rows keyed by header with their line number', async () => {
+    const csv = [
+      'Marca;Modelo;Precio',
+      'toyota;corolla;1500000',
+      '',
+      '"Ford, Inc";Focus;900000',
+    ].join('\n');
+
+    const { headers, rows } = await carImportService.parseFile(Buffer.from(csv), 'csv');
+
+    expect(headers).toEqual(['Marca', 'Modelo', 'Precio']);
+    expect(rows).toEqual([
+      { row: 2, values: { Marca: 'toyota', Modelo: 'corolla', Precio: '1500000' } },
+      { row: 4, values: { Marca: 'Ford, Inc', Modelo: 'Focus', Precio: '900000' } },
+    ]);
+  });
+
+  it('should read the first sheet of an XLSX file', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Autos');
+    sheet.addRow(['Marca', 'Precio', 'Telefono']);
+    sheet.addRow(['Toyota', 1500000, '1122334455']);
+    sheet.addRow([]);
+    sheet.addRow(['Ford', { formula: 'B2-600000', result: 900000 }, '1122334466']);
+    const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+    const { headers, rows } = await carImportService.parseFile(buffer, 'xlsx');
+
+    expect(headers).toEqual(['Marca', 'Precio', 'Telefono']);
+    expect(rows).toEqual([
+      { row: 2, values: { Marca: 'Toyota', Precio: '1500000', Telefono: '1122334455' } },
+      { row: 4, values: { Marca: 'Ford', Precio: '900000', Telefono: '1122334466' } },
+    ]);
+  });
+
+  it('should reject files that cannot be read', async () => {
+    await expect(carImportService.parseFile(Buffer.from('not a workbook'), 'xlsx')).rejects.toThrow(
+      'No se pudo leer el archivo'
+    );
+  });
+});
+
+describe('CarImportService.resolveColumns', () => {
+  it('should match columns by field name ignoring case and apply the mapping', () => {
+    const { columns, errors } = carImportService.resolveColumns(
+      ['MARCA', 'Modelo', 'Year', 'precio', 'kilometraje', 'email', 'telefono'],
+      { anio: 'year' }
+    );
+
+    expect(errors).toEqual([]);
+    expect(columns).toEqual({
+      marca: 'MARCA',
+      modelo: 'Modelo',
+      anio: 'Year',
+      precio: 'precio',
+      kilometraje: 'kilometraje',
+      email: 'email',
+      telefono: 'telefono',
+    });
+  });
+
+  it('should report missing required or mapped columns on the header row', () => {
+    const { errors } = carImportService.resolveColumns(
+      HEADERS.filter((header) => header !== 'precio'),
+      { color: 'Colour' }
+    );
+
+    expect(errors).toEqual([
+      { row: 1, field: 'precio', message: 'No se encontró la columna "precio" en el archivo' },
+      { row: 1, field: 'color', message: 'No se encontró la columna "Colour" en el archivo' },
+    ]);
+  });
+});
+
+describe('CarImportService.validateRow', () => {
+  const columns = Object.fromEntries(HEADERS.map((header) => [header, header]));
+
+  beforeEach(() => {
+    resolveCatalogEntry.mockImplementation(async (marca: string, modelo?: string) => ({
+      marca: marca.toLowerCase() === 'toyota' ? 'Toyota' : null,
+      modelo: modelo?.toLowerCase() === 'corolla' ? 'Corolla' : null,
+    }));
+  });
+
+  it('should normalize brand and model and convert numeric fields', async () => {
+    const { data, errors } = await carImportService.validateRow(
+      {
+        row: 2,
+        values: {
+          marca: 'TOYOTA',
+          modelo: 'corolla',
+          anio: '2020',
+          precio: '1500000',
+          kilometraje: '30000',
+          email: 'vendedor@example.com',
+          telefono: '1122334455',
+        },
+      },
+      columns
+    );
+
+    expect(errors).toEqual([]);
+    expect(data).toMatchObject({
+      marca: 'Toyota',
+      modelo: 'Corolla',
+      anio: 2020,
+      precio: 1500000,
+      kilometraje: 30000,
+    });
+  });
+
+  it('should report numbers with thousands separators or decimals instead of truncating them', async () => {
+    const values = {
+      marca: 'Toyota',
+      modelo: 'Corolla',
+      anio: '2020',
+      email: 'vendedor@example.com',
+      telefono: '1122334455',
+    };
+
+    const { errors } = await carImportService.validateRow(
+      { row: 3, values: { ...values, precio: '25.000', kilometraje: '19999.99' } },
+      columns
+    );
+    const { errors: commaErrors } = await carImportService.validateRow(
+      { row: 4, values: { ...values, precio: '25,000', kilometraje: '30000' } },
+      columns
+    );
+
+    expect(errors).toEqual([
+      { row: 3, field: 'precio', message: 'El precio debe ser un número entero positivo' },
+      {
+        row: 3,
+        field: 'kilometraje',
+        message: 'El kilometraje debe ser un número entero mayor a 100',
+      },
+    ]);
+    expect(commaErrors).toEqual([
+      { row: 4, field: 'precio', message: 'El precio debe ser un número entero positivo' },
+    ]);
+  });
+
+  it('should report the first error of each invalid field with the row number', async () => {
+    const { errors } = await carImportService.validateRow(
+      {
+        row: 7,
+        values: {
+          marca: 'Toyota',
+          modelo: 'Corolla',
+          anio: '',
+          precio: 'caro',
+          kilometraje: '30000',
+          email: 'vendedor@example.com',
+          telefono: '123',
+        },
+      },
+      columns
+    );
+
+    expect(errors).toEqual([
+      { row: 7, field: 'anio', message: 'El año es requerido' },
+      { row: 7, field: 'precio', message: 'El precio debe ser un número entero positivo' },
+      { row: 7, field: 'telefono', message: 'El teléfono debe tener exactamente 10 dígitos' },
+    ]);
+  });
+});
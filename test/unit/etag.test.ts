@@ -0,0 +1,36 @@
+/**
+ * Unit tests for car ETags and If-Match parsing
+ * @module test/unit/etag
+ */
+
+import { getCarETag, parseIfMatch } from '../../src/utils/etag';
+
+describe('ETag Utilities', () => {
+  describe('getCarETag', () => {
+    it('should build a strong ETag from the revision', () => {
+      expect(getCarETag({ revision: 3 })).toBe('"3"');
+    });
+
+    it('should treat cars without revision as revision 0', () => {
+      expect(getCarETag({})).toBe('"0"');
+    });
+  });
+
+  describe('parseIfMatch', () => {
+    it('should not impose a condition without header or with a wildcard', () => {
+      expect(parseIfMatch(undefined)).toBeNull();
+      expect(parseIfMatch(' * ')).toBeNull();
+    });
+
+    it('should split a list of ETags', () => {
+      expect(parseIfMatch('"2", "3"')).toEqual(['"2"', '"3"']);
+    });
+
+    it('should keep weak ETags so they never match', () => {
+      const accepted = parseIfMatch('W/"3"');
+
+      expect(accepted).toEqual(['W/"3"']);
+      expect(accepted).not.toContain(getCarETag({ revision: 3 }));
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for mail transports
+ * @module test/unit/mail
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ConsoleMailTransport,
+  FileMailTransport,
+  createMailTransport,
+} from '../../src/services/mail.service';
+
+describe('Mail transports', () => {
+  const message = {
+    from: 'no-reply@example.com',
+    to: 'user@example.com',
+    subject: 'Asunto',
+    text: 'Contenido',
+  };
+
+  describe('FileMailTransport', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'mail-test-')), 'outbox');
+    });
+
+    afterEach(() => {
+      fs.rmSync(path.dirname(directory), { recursive: true, force: true });
+    });
+
+    it('should write each mail as a JSON file', async () => {
+      const transport = new FileMailTransport(directory);
+
+      await transport.send(message);
+      await transport.send({ ...message, subject: 'Otro' });
+
+      const files = fs.readdirSync(directory);
+      expect(files).toHaveLength(2);
+
+      const saved = JSON.parse(fs.readFileSync(path.join(directory, files[0]), 'utf8'));
+      expect(saved).toMatchObject({ to: message.to, text: message.text });
+      expect(saved).toHaveProperty('sentAt');
+    });
+  });
+
+  describe('ConsoleMailTransport', () => {
+    it('should log the mail', async () => {
+      await new ConsoleMailTransport().send(message);
+
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining(message.subject));
+    });
+  });
+
+  describe('createMailTransport', () => {
+    it('should create the configured transport', () => {
+      expect(createMailTransport('console').name).toBe('console');
+      expect(createMailTransport('file').name).toBe('file');
+      expect(createMailTransport('smtp').name).toBe('smtp');
+    });
+
+    it('should reject unknown transports', () => {
+      expect(() => createMailTransport('pigeon')).toThrow(
+        'Transporte de correo no soportado: pigeon'
+      );
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for active organization resolution
+ * @module test/unit/organizationService
+ */
+
+import Organization from '../../src/models/Organization';
+import organizationService from '../../src/services/organization.service';
+import roleService from '../../src/services/role.service';
+
+jest.mock('../../src/models/Organization', () => ({
+  __esModule: true,
+  default: {
+    find: jest.fn(),
+    findById: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/models/User', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+jest.mock('../../src/services/role.service', () => ({
+  __esModule: true,
+  default: {
+    hasPermissions: jest.fn(),
+  },
+}));
+
+const find = Organization.find as jest.Mock;
+const findById = Organization.findById as jest.Mock;
+const findOneAndUpdate = Organization.findOneAndUpdate as jest.Mock;
+const hasPermissions = roleService.hasPermissions as jest.Mock;
+
+const NORTE_ID = '64b000000000000000000001';
+const SUR_ID = '64b000000000000000000002';
+const DEFAULT_ID = '64b000000000000000000003';
+
+const norte = { _id: NORTE_ID, slug: 'norte', isActive: true };
+const sur = { _id: SUR_ID, slug: 'sur', isActive: true };
+const defaultOrganization = { _id: DEFAULT_ID, slug: 'default', isActive: true };
+
+describe('OrganizationService.resolveActiveOrganization', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    hasPermissions.mockResolvedValue(false);
+    findOneAndUpdate.mockReturnValue({
+      orFail: () => Promise.resolve(defaultOrganization),
+    });
+  });
+
+  it('should use the default organization for users without memberships', async () => {
+    const context = await organizationService.resolveActiveOrganization({ role: 'user' });
+
+    expect(context).toEqual({ id: DEFAULT_ID, slug: 'default', isDefault: true });
+    expect(find).not.toHaveBeenCalled();
+  });
+
+  it('should use the first active membership when no organization is requested', async () => {
+    find.mockResolvedValue([sur, { ...norte, isActive: false }]);
+
+    const context = await organizationService.resolveActiveOrganization({
+      role: 'user',
+      organizations: [NORTE_ID, SUR_ID],
+    });
+
+    expect(context).toEqual({ id: SUR_ID, slug: 'sur', isDefault: false });
+  });
+
+  it('should reject members whose organizations are all deactivated', async () => {
+    find.mockResolvedValue([{ ...norte, isActive: false }]);
+
+    await expect(
+      organizationService.resolveActiveOrganization({ role: 'user', organizations: [NORTE_ID] })
+    ).rejects.toThrow('Organización desactivada');
+  });
+
+  it('should let members select one of their organizations', async () => {
+    findById.mockResolvedValue(sur);
+
+    const context = await organizationService.resolveActiveOrganization(
+      { role: 'user', organizations: [NORTE_ID, SUR_ID] },
+      SUR_ID
+    );
+
+    expect(context.id).toBe(SUR_ID);
+    expect(hasPermissions).not.toHaveBeenCalled();
+  });
+
+  it('should reject organizations the user does not belong to', async () => {
+    await expect(
+      organizationService.resolveActiveOrganization(
+        { role: 'user', organizations: [NORTE_ID] },
+        SUR_ID
+      )
+    ).rejects.toThrow('No perteneces a esta organización');
+
+    expect(hasPermissions).toHaveBeenCalledWith('user', ['organizations:manage']);
+    expect(findById).not.toHaveBeenCalled();
+  });
+
+  it('should let users with organizations:manage operate in any organization', async () => {
+    hasPermissions.mockResolvedValue(true);
+    findById.mockResolvedValue(sur);
+
+    const context = await organizationService.resolveActiveOrganization(
+      { role: 'admin', organizations: [] },
+      SUR_ID
+    );
+
+    expect(context.slug).toBe('sur');
+  });
+
+  it('should reject unknown or invalid organization IDs', async () => {
+    hasPermissions.mockResolvedValue(true);
+    findById.mockResolvedValue(null);
+
+    await expect(
+      organizationService.resolveActiveOrganization({ role: 'admin' }, SUR_ID)
+    ).rejects.toThrow('Organización no encontrada');
+    await expect(
+      organizationService.resolveActiveOrganization({ role: 'admin' }, 'not-an-id')
+    ).rejects.toThrow('Organización no encontrada');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for the password policy
+ * @module test/unit/passwordPolicy
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { config } from '../../src/config/env';
+import User from '../../src/models/User';
+import {
+  assertPasswordPolicy,
+  checkPassword,
+  getPasswordPolicy,
+  isPasswordPolicyError,
+} from '../../src/utils/passwordPolicy';
+
+describe('Password policy', () => {
+  const original = { ...config };
+
+  afterEach(() => {
+    Object.assign(config, original);
+  });
+
+  it('should accept a password that meets every rule', () => {
+    expect(
+      checkPassword('Autos2024Seguro', { email: 'ana@example.com', name: 'Ana Díaz' })
+    ).toEqual([]);
+  });
+
+  it('should report length and character class violations', () => {
+    expect(checkPassword('abc')).toEqual([
+      `La contraseña debe tener al menos ${config.PASSWORD_MIN_LENGTH} caracteres`,
+      'La contraseña debe contener al menos una mayúscula',
+      'La contraseña debe contener al menos un número',
+    ]);
+    expect(checkPassword(`Aa1${'x'.repeat(config.PASSWORD_MAX_LENGTH)}`)).toEqual([
+      `La contraseña no puede exceder ${config.PASSWORD_MAX_LENGTH} caracteres`,
+    ]);
+  });
+
+  it('should require a symbol only when configured', () => {
+    expect(checkPassword('Autos2024Seguro')).toEqual([]);
+
+    config.PASSWORD_REQUIRE_SYMBOL = true;
+
+    expect(checkPassword('Autos2024Seguro')).toEqual([
+      'La contraseña debe contener al menos un símbolo',
+    ]);
+    expect(checkPassword('Autos-2024-Seguro')).toEqual([]);
+  });
+
+  it('should reject passwords containing the email or name of the user', () => {
+    const violation = 'La contraseña no puede contener tu email ni tu nombre';
+
+    expect(checkPassword('Mariana2024x', { email: 'mariana.lopez@example.com' })).toEqual([
+      violation,
+    ]);
+    expect(checkPassword('xLopez2024', { name: 'Mariana López' })).toEqual([]);
+    expect(checkPassword('xLópez2024', { name: 'Mariana López' })).toEqual([violation]);
+
+    // Las partes muy cortas del nombre no se consideran datos personales
+    expect(checkPassword('Autos2024Seguro', { name: 'Al Su' })).toEqual([]);
+  });
+
+  it('should reject common passwords regardless of case', () => {
+    expect(checkPassword('Password123')).toEqual(['La contraseña es demasiado común']);
+
+    config.PASSWORD_REJECT_COMMON = false;
+
+    expect(checkPassword('Password123')).toEqual([]);
+  });
+
+  it('should extend the blocklist with a local file', () => {
+    const file = path.join(os.tmpdir(), `password-blocklist-${Date.now()}.txt`);
+    fs.writeFileSync(file, '# propias\nconcesionaria2024\n');
+
+    try {
+      config.PASSWORD_BLOCKLIST_FILE = file;
+
+      expect(checkPassword('Concesionaria2024')).toEqual(['La contraseña es demasiado común']);
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  it('should throw the first violation', () => {
+    expect(() => assertPasswordPolicy('Password123')).toThrow('La contraseña es demasiado común');
+    expect(() => assertPasswordPolicy('Autos2024Seguro')).not.toThrow();
+  });
+
+  it('should recognize policy errors', () => {
+    expect(isPasswordPolicyError('La contraseña es demasiado común')).toBe(true);
+    expect(isPasswordPolicyError('Credenciales inválidas')).toBe(false);
+  });
+
+  it('should expose the active rules', () => {
+    config.PASSWORD_REJECT_PERSONAL_INFO = false;
+
+    const policy = getPasswordPolicy();
+
+    expect(policy).toMatchObject({
+      minLength: config.PASSWORD_MIN_LENGTH,
+      maxLength: config.PASSWORD_MAX_LENGTH,
+      requireSymbol: false,
+      rejectPersonalInfo: false,
+    });
+    expect(policy.rules).toContain('La contraseña debe contener al menos un número');
+    expect(policy.rules).not.toContain('La contraseña no puede contener tu email ni tu nombre');
+  });
+
+  it('should apply the minimum length in the user schema', () => {
+    const short = 'A1'.padEnd(config.PASSWORD_MIN_LENGTH - 1, 'x');
+    const user = new User({ email: 'ana@example.com', name: 'Ana Díaz', password: short });
+
+    expect(user.validateSync()?.errors.password?.message).toBe(
+      `La contraseña debe tener al menos ${config.PASSWORD_MIN_LENGTH} caracteres`
+    );
+
+    user.password = 'A1'.padEnd(config.PASSWORD_MIN_LENGTH, 'x');
+    expect(user.validateSync()?.errors.password).toBeUndefined();
+  });
+});
@@ -304,6 +304,27 @@ describe('Response Handler Unit Tests', () => {
       );
     });
 
+    it('should include data when provided', () => {
+      const current = { _id: '123', revision: 4 };
+
+      errorResponse(
+        mockResponse as Response,
+        412,
+        'Precondition Failed',
+        'Resource has changed',
+        'El recurso cambió',
+        current
+      );
+
+      expect(jsonMock).toHaveBeenCalledWith({
+        status: 412,
+        name: 'Precondition Failed',
+        message: 'Resource has changed',
+        customMessage: 'El recurso cambió',
+        data: current,
+      });
+    });
+
     it('should include both English and Spanish messages', () => {
       const message = 'User not found';
       const customMessage = 'Usuario no encontrado';
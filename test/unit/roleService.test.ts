@@ -0,0 +1,94 @@
+/**
+ * Unit tests for role permission resolution
+ * @module test/unit/roleService
+ */
+
+import Role from '../../src/models/Role';
+import roleService from '../../src/services/role.service';
+import { ALL_PERMISSIONS, DEFAULT_ROLES } from '../../src/config/permissions';
+
+jest.mock('../../src/models/Role', () => ({
+  __esModule: true,
+  default: {
+    updateOne: jest.fn(),
+    findOne: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/models/User', () => ({
+  __esModule: true,
+  default: {
+    exists: jest.fn(),
+  },
+}));
+
+const updateOne = Role.updateOne as jest.Mock;
+const findOne = Role.findOne as jest.Mock;
+
+/**
+ * Simular la consulta Role.findOne(...).select(...) de un rol
+ */
+const mockRole = (role: Record<string, unknown> | null) => {
+  findOne.mockReturnValue({ select: jest.fn().mockResolvedValue(role) });
+};
+
+describe('RoleService', () => {
+  beforeEach(async () => {
+    updateOne.mockResolvedValue({});
+    await roleService.ensureDefaultRoles();
+    jest.clearAllMocks();
+  });
+
+  it('should create missing system roles and keep admin with every permission', async () => {
+    await roleService.ensureDefaultRoles();
+
+    expect(updateOne).toHaveBeenCalledTimes(DEFAULT_ROLES.length);
+    expect(updateOne).toHaveBeenCalledWith(
+      { name: 'admin' },
+      expect.objectContaining({ $set: { permissions: ALL_PERMISSIONS, isSystem: true } }),
+      { upsert: true }
+    );
+    expect(updateOne).toHaveBeenCalledWith(
+      { name: 'viewer' },
+      expect.objectContaining({
+        $setOnInsert: expect.objectContaining({ permissions: ['cars:read'] }),
+      }),
+      { upsert: true }
+    );
+  });
+
+  it('should grant every permission to admin without querying the database', async () => {
+    await expect(roleService.getPermissions('admin')).resolves.toEqual(ALL_PERMISSIONS);
+    expect(findOne).not.toHaveBeenCalled();
+  });
+
+  it('should read role permissions from the database and cache them', async () => {
+    mockRole({ permissions: ['cars:read', 'cars:create'] });
+
+    await expect(roleService.hasPermissions('sales', ['cars:create'])).resolves.toBe(true);
+    await expect(roleService.hasPermissions('sales', ['cars:update:any'])).resolves.toBe(false);
+    expect(findOne).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not grant permissions to unknown roles', async () => {
+    mockRole(null);
+
+    await expect(roleService.getPermissions('ghost')).resolves.toEqual([]);
+  });
+
+  it('should refuse to modify the admin role', async () => {
+    findOne.mockResolvedValue({ name: 'admin', permissions: ALL_PERMISSIONS });
+
+    await expect(roleService.updateRole('admin', { permissions: [] })).rejects.toThrow(
+      'El rol admin no se puede modificar'
+    );
+  });
+
+  it('should refuse to delete system roles', async () => {
+    findOne.mockResolvedValue({ name: 'viewer', isSystem: true, deleteOne: jest.fn() });
+
+    await expect(roleService.deleteRole('viewer')).rejects.toThrow(
+      'Los roles del sistema no se pueden eliminar'
+    );
+  });
+});
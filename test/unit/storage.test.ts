@@ -0,0 +1,217 @@
+/**
+ * Unit tests for storage drivers
+ * @module test/unit/storage
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Request } from 'express';
+import {
+  LocalStorageDriver,
+  S3StorageDriver,
+  StorageDriver,
+  createStorageDriver,
+} from '../../src/services/storage.service';
+
+/**
+ * Minimal S3-compatible stand-in (path-style) supporting the operations used by the driver
+ */
+const startS3StandIn = async (
+  bucket: string
+): Promise<{ server: http.Server; endpoint: string }> => {
+  const objects = new Map<string, { body: Buffer; contentType: string; modified: Date }>();
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url as string, 'http://localhost');
+    const [, requestBucket, ...keyParts] = url.pathname.split('/');
+    const key = decodeURIComponent(keyParts.join('/'));
+
+    if (requestBucket !== bucket) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const object = objects.get(key);
+
+      if (req.method === 'PUT') {
+        objects.set(key, {
+          body: Buffer.concat(chunks),
+          contentType: req.headers['content-type'] ?? 'application/octet-stream',
+          modified: new Date(),
+        });
+        res.writeHead(200, { ETag: '"etag"' }).end();
+      } else if (req.method === 'GET' && !key) {
+        const contents = [...objects.entries()]
+          .map(
+            ([name, obj]) =>
+              `<Contents><Key>${name}</Key><Size>${obj.body.length}</Size>` +
+              `<LastModified>${obj.modified.toISOString()}</LastModified></Contents>`
+          )
+          .join('');
+        res
+          .writeHead(200, { 'Content-Type': 'application/xml' })
+          .end(
+            `<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><Name>${bucket}</Name>` +
+              `<IsTruncated>false</IsTruncated>${contents}</ListBucketResult>`
+          );
+      } else if (!object) {
+        res
+          .writeHead(404, { 'Content-Type': 'application/xml' })
+          .end(req.method === 'HEAD' ? undefined : '<Error><Code>NoSuchKey</Code></Error>');
+      } else if (req.method === 'HEAD') {
+        res
+          .writeHead(200, {
+            'Content-Length': object.body.length,
+            'Content-Type': object.contentType,
+          })
+          .end();
+      } else if (req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': object.contentType }).end(object.body);
+      } else if (req.method === 'DELETE') {
+        objects.delete(key);
+        res.writeHead(204).end();
+      } else {
+        res.writeHead(405).end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return { server, endpoint: `http://127.0.0.1:${port}` };
+};
+
+const fakeRequest = { protocol: 'http', get: () => 'localhost:3000' } as unknown as Request;
+
+/**
+ * Behaviour shared by every driver
+ */
+const describeDriverContract = (name: string, getDriver: () => StorageDriver): void => {
+  describe(`${name} driver contract`, () => {
+    it('should save, read and list files', async () => {
+      const driver = getDriver();
+      await driver.save('photo.jpg', Buffer.from('content'), 'image/jpeg');
+
+      expect(await driver.exists('photo.jpg')).toBe(true);
+      expect((await driver.read('photo.jpg')).toString()).toBe('content');
+
+      const files = await driver.list();
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatchObject({ filename: 'photo.jpg', size: 7 });
+      expect(files[0].modifiedAt.getTime()).toBeGreaterThan(0);
+    });
+
+    it('should report whether a removed file existed', async () => {
+      const driver = getDriver();
+      await driver.save('remove.jpg', Buffer.from('x'), 'image/jpeg');
+
+      expect(await driver.remove('remove.jpg')).toBe(true);
+      expect(await driver.exists('remove.jpg')).toBe(false);
+      expect(await driver.remove('remove.jpg')).toBe(false);
+    });
+
+    it('should only use the basename of the file', async () => {
+      const driver = getDriver();
+      await driver.save('../../escape.jpg', Buffer.from('x'), 'image/jpeg');
+
+      expect(await driver.exists('escape.jpg')).toBe(true);
+      await driver.remove('escape.jpg');
+    });
+  });
+};
+
+describe('Storage drivers', () => {
+  describe('LocalStorageDriver', () => {
+    let directory: string;
+    let driver: LocalStorageDriver;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+      driver = new LocalStorageDriver(directory);
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    describeDriverContract('local', () => driver);
+
+    it('should ignore hidden files when listing', async () => {
+      fs.writeFileSync(path.join(directory, '.gitkeep'), '');
+
+      expect(await driver.list()).toEqual([]);
+    });
+
+    it('should build URLs under /uploads', () => {
+      expect(driver.getPublicUrl('photo.jpg', fakeRequest)).toBe(
+        'http://localhost:3000/uploads/photo.jpg'
+      );
+    });
+  });
+
+  describe('S3StorageDriver', () => {
+    let server: http.Server;
+    let endpoint: string;
+    let driver: S3StorageDriver;
+
+    beforeAll(async () => {
+      ({ server, endpoint } = await startS3StandIn('cars'));
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(async () => {
+      driver = new S3StorageDriver({
+        bucket: 'cars',
+        region: 'us-east-1',
+        endpoint,
+        accessKeyId: 'test',
+        secretAccessKey: 'test',
+        forcePathStyle: true,
+      });
+
+      for (const file of await driver.list()) {
+        await driver.remove(file.filename);
+      }
+    });
+
+    describeDriverContract('s3', () => driver);
+
+    it('should build URLs from the endpoint and bucket', () => {
+      expect(driver.getPublicUrl('photo.jpg')).toBe(`${endpoint}/cars/photo.jpg`);
+    });
+
+    it('should prefer the configured public URL', () => {
+      const cdnDriver = new S3StorageDriver({
+        bucket: 'cars',
+        region: 'us-east-1',
+        publicUrl: 'https://cdn.example.com/',
+      });
+
+      expect(cdnDriver.getPublicUrl('photo.jpg')).toBe('https://cdn.example.com/photo.jpg');
+    });
+
+    it('should require a bucket', () => {
+      expect(() => new S3StorageDriver({ bucket: '', region: 'us-east-1' })).toThrow(
+        'S3_BUCKET es requerido para el almacenamiento S3'
+      );
+    });
+  });
+
+  describe('createStorageDriver', () => {
+    it('should reject unknown drivers', () => {
+      expect(() => createStorageDriver('ftp')).toThrow(
+        'Driver de almacenamiento no soportado: ftp'
+      );
+    });
+  });
+});
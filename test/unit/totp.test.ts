@@ -0,0 +1,63 @@
+/**
+ * Unit tests for TOTP utilities
+ * @module test/unit/totp
+ */
+
+import {
+  buildOtpauthUri,
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp,
+} from '../../src/utils/totp';
+
+// Secreto ASCII "12345678901234567890" de los vectores de prueba del RFC 6238
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP utilities', () => {
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, getTotpStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(RFC_SECRET, getTotpStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(RFC_SECRET, getTotpStep(1234567890 * 1000))).toBe('005924');
+  });
+
+  it('should accept codes from adjacent time steps only', () => {
+    const now = 1700000000000;
+    const step = getTotpStep(now);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), now)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 3), now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull();
+  });
+
+  it('should generate distinct Base32 secrets', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = new URL(buildOtpauthUri(RFC_SECRET, 'ana@example.com'));
+
+    expect(uri.protocol).toBe('otpauth:');
+    expect(decodeURIComponent(uri.pathname)).toContain('ana@example.com');
+    expect(uri.searchParams.get('secret')).toBe(RFC_SECRET);
+    expect(uri.searchParams.get('digits')).toBe('6');
+  });
+
+  it('should encrypt secrets and reject tampered values', () => {
+    const encrypted = encryptTotpSecret(RFC_SECRET);
+
+    expect(encrypted).not.toContain(RFC_SECRET);
+    expect(decryptTotpSecret(encrypted)).toBe(RFC_SECRET);
+
+    const [iv, tag, data] = encrypted.split('.');
+    const tampered = [iv, tag, `${data[0] === 'A' ? 'B' : 'A'}${data.slice(1)}`].join('.');
+    expect(() => decryptTotpSecret(tampered)).toThrow();
+  });
+});
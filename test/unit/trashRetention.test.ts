@@ -0,0 +1,85 @@
+/**
+ * Unit tests for trash retention job
+ * @module test/unit/trashRetention
+ */
+
+import carService from '../../src/services/car.service';
+import { runTrashRetention, startTrashRetentionJob } from '../../src/jobs/trashRetention.job';
+import { config } from '../../src/config/env';
+
+jest.mock('../../src/services/car.service', () => ({
+  __esModule: true,
+  default: {
+    purgeDeletedCars: jest.fn(),
+    findOrphanedPhotos: jest.fn(),
+  },
+}));
+
+const purgeDeletedCars = carService.purgeDeletedCars as jest.Mock;
+const findOrphanedPhotos = carService.findOrphanedPhotos as jest.Mock;
+
+describe('Trash Retention Job', () => {
+  const originalRetention = config.TRASH_RETENTION_DAYS;
+
+  beforeEach(() => {
+    findOrphanedPhotos.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    config.TRASH_RETENTION_DAYS = originalRetention;
+    purgeDeletedCars.mockReset();
+    findOrphanedPhotos.mockReset();
+  });
+
+  it('should purge cars older than the configured retention', async () => {
+    config.TRASH_RETENTION_DAYS = 15;
+    purgeDeletedCars.mockResolvedValue(3);
+
+    const purged = await runTrashRetention();
+
+    expect(purgeDeletedCars).toHaveBeenCalledWith(15);
+    expect(purged).toBe(3);
+  });
+
+  it('should report orphaned files after purging', async () => {
+    purgeDeletedCars.mockResolvedValue(0);
+    findOrphanedPhotos.mockResolvedValue([
+      { filename: 'orphan.jpg', size: 10, modifiedAt: new Date() },
+    ]);
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await runTrashRetention();
+
+    expect(findOrphanedPhotos).toHaveBeenCalled();
+    expect(warnSpy.mock.calls[0][0]).toContain('1 orphaned file(s)');
+
+    warnSpy.mockRestore();
+  });
+
+  it('should not throw when the purge fails', async () => {
+    purgeDeletedCars.mockRejectedValue(new Error('DB down'));
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(runTrashRetention()).resolves.toBe(0);
+
+    errorSpy.mockRestore();
+  });
+
+  it('should not schedule the job when retention is disabled', () => {
+    config.TRASH_RETENTION_DAYS = 0;
+
+    expect(startTrashRetentionJob()).toBeNull();
+    expect(purgeDeletedCars).not.toHaveBeenCalled();
+  });
+
+  it('should schedule the job when retention is enabled', () => {
+    purgeDeletedCars.mockResolvedValue(0);
+
+    const timer = startTrashRetentionJob();
+
+    expect(timer).not.toBeNull();
+    expect(purgeDeletedCars).toHaveBeenCalledTimes(1);
+
+    clearInterval(timer as NodeJS.Timeout);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for user administration rules
+ * @module test/unit/userService
+ */
+
+import User from '../../src/models/User';
+import authService from '../../src/services/auth.service';
+import auditService from '../../src/services/audit.service';
+import userService from '../../src/services/user.service';
+
+jest.mock('../../src/models/User', () => ({
+  __esModule: true,
+  default: {
+    findById: jest.fn(),
+    countDocuments: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/services/auth.service', () => ({
+  __esModule: true,
+  default: {
+    revokeUserSessions: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/services/audit.service', () => ({
+  __esModule: true,
+  default: {
+    recordUserChange: jest.fn(),
+  },
+}));
+
+const findById = User.findById as jest.Mock;
+const countDocuments = User.countDocuments as jest.Mock;
+const revokeUserSessions = authService.revokeUserSessions as jest.Mock;
+const recordUserChange = auditService.recordUserChange as jest.Mock;
+
+/**
+ * Build a fake user document with the fields used by the service
+ */
+const buildUser = (overrides: Record<string, unknown> = {}) => {
+  const user: Record<string, unknown> & { set: jest.Mock; save: jest.Mock } = {
+    _id: 'target-id',
+    email: 'target@example.com',
+    name: 'Target',
+    role: 'user',
+    isActive: true,
+    set: jest.fn((changes: Record<string, unknown>) => Object.assign(user, changes)),
+    save: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  };
+  return user;
+};
+
+describe('UserService.updateUser', () => {
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should only apply whitelisted fields', async () => {
+    const user = buildUser();
+    findById.mockResolvedValue(user);
+
+    await userService.updateUser(
+      'target-id',
+      { name: 'Nuevo', email: 'x@example.com', password: 'secret' } as never,
+      'admin-id'
+    );
+
+    expect(user.set).toHaveBeenCalledWith({ name: 'Nuevo' });
+    expect(user.save).toHaveBeenCalled();
+  });
+
+  it('should throw when the user does not exist', async () => {
+    findById.mockResolvedValue(null);
+
+    await expect(userService.updateUser('missing', { name: 'X' }, 'admin-id')).rejects.toThrow(
+      'Usuario no encontrado'
+    );
+  });
+
+  it('should not let an admin demote or deactivate themselves', async () => {
+    findById.mockResolvedValue(buildUser({ _id: 'admin-id', role: 'admin' }));
+
+    await expect(userService.updateUser('admin-id', { role: 'user' }, 'admin-id')).rejects.toThrow(
+      'No puedes cambiar tu propio rol ni desactivar tu propia cuenta'
+    );
+    await expect(
+      userService.updateUser('admin-id', { isActive: false }, 'admin-id')
+    ).rejects.toThrow('No puedes cambiar tu propio rol ni desactivar tu propia cuenta');
+  });
+
+  it('should keep at least one active admin', async () => {
+    const user = buildUser({ role: 'admin' });
+    findById.mockResolvedValue(user);
+    countDocuments.mockResolvedValue(0);
+
+    await expect(userService.updateUser('target-id', { role: 'user' }, 'other-id')).rejects.toThrow(
+      'Debe existir al menos un administrador activo'
+    );
+    expect(user.save).not.toHaveBeenCalled();
+  });
+
+  it('should demote an admin when other active admins remain', async () => {
+    const user = buildUser({ role: 'admin' });
+    findById.mockResolvedValue(user);
+    countDocuments.mockResolvedValue(1);
+
+    const result = await userService.updateUser('target-id', { role: 'user' }, 'other-id');
+
+    expect(result.role).toBe('user');
+  });
+
+  it('should revoke sessions when deactivating a user', async () => {
+    findById.mockResolvedValue(buildUser());
+
+    await userService.updateUser('target-id', { isActive: false }, 'admin-id');
+
+    expect(revokeUserSessions).toHaveBeenCalledWith('target-id');
+  });
+
+  it('should not revoke sessions for other changes', async () => {
+    findById.mockResolvedValue(buildUser());
+
+    await userService.updateUser('target-id', { name: 'Otro' }, 'admin-id');
+
+    expect(revokeUserSessions).not.toHaveBeenCalled();
+  });
+
+  it('should audit the change with the state before it', async () => {
+    const user = buildUser();
+    findById.mockResolvedValue(user);
+    const context = { actorId: 'admin-id', requestId: 'req-1' };
+
+    await userService.updateUser('target-id', { role: 'viewer' }, 'admin-id', context);
+
+    expect(recordUserChange).toHaveBeenCalledWith(
+      'update',
+      user,
+      expect.objectContaining({ role: 'user' }),
+      context
+    );
+  });
+});